@@ -0,0 +1,69 @@
+import {
+  createDeviceAuthorization,
+  DEVICE_POLL_INTERVAL_S,
+  redeemDeviceCode,
+} from "@tunnelhook/api/device";
+import { env } from "@tunnelhook/env/server";
+import type { Context } from "hono";
+
+const MAX_CLIENT_NAME_LENGTH = 100;
+
+/** Read a string field from a JSON or form body, whichever the client sent */
+async function bodyField(c: Context, name: string): Promise<string | null> {
+  const contentType = c.req.header("content-type") ?? "";
+  const body: Record<string, unknown> = contentType.includes("json")
+    ? await c.req.json().catch(() => ({}))
+    : await c.req.parseBody().catch(() => ({}));
+  const value = body[name];
+  return typeof value === "string" && value ? value : null;
+}
+
+/**
+ * Start a CLI login (RFC 8628 device authorization request).
+ * POST /device/code { client_name? }
+ *
+ * Responds with the secret device code the CLI polls with, and the user code
+ * and URL the user opens to approve it in the dashboard.
+ */
+export async function handleDeviceCode(c: Context): Promise<Response> {
+  const clientName = (await bodyField(c, "client_name")) ?? "CLI";
+  const { deviceCode, userCode, expiresAt } = await createDeviceAuthorization(
+    clientName.slice(0, MAX_CLIENT_NAME_LENGTH)
+  );
+
+  const verificationUri = `${env.CORS_ORIGIN}/dashboard/device`;
+  return c.json({
+    device_code: deviceCode,
+    user_code: userCode,
+    verification_uri: verificationUri,
+    verification_uri_complete: `${verificationUri}?code=${encodeURIComponent(userCode)}`,
+    expires_in: Math.round((expiresAt.getTime() - Date.now()) / 1000),
+    interval: DEVICE_POLL_INTERVAL_S,
+  });
+}
+
+/**
+ * Poll a CLI login (RFC 8628 device access token request).
+ * POST /device/token { device_code }
+ *
+ * Errors use the RFC's codes so the CLI knows whether to keep polling:
+ * `authorization_pending`, `access_denied` or `expired_token`.
+ */
+export async function handleDeviceToken(c: Context): Promise<Response> {
+  const deviceCode = await bodyField(c, "device_code");
+  if (!deviceCode) {
+    return c.json({ error: "invalid_request" }, 400);
+  }
+
+  const result = await redeemDeviceCode(deviceCode);
+  switch (result.status) {
+    case "approved":
+      return c.json({ access_token: result.token, token_type: "Bearer" });
+    case "pending":
+      return c.json({ error: "authorization_pending" }, 400);
+    case "denied":
+      return c.json({ error: "access_denied" }, 400);
+    default:
+      return c.json({ error: "expired_token" }, 400);
+  }
+}
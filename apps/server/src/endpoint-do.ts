@@ -1,10 +1,48 @@
 import { DurableObject } from "cloudflare:workers";
+import { evaluateDeliveryAlerts } from "@tunnelhook/api/alerts";
+import {
+  type BodyBlobRef,
+  type ConnectedMachine,
+  type EndpointRpc,
+  type RateLimitStats,
+  toBodyBlobRef,
+} from "@tunnelhook/api/dispatch";
+import { recordDeliveryMetric } from "@tunnelhook/api/metrics";
+import { db } from "@tunnelhook/db";
+import {
+  delivery,
+  deliveryAttempt,
+  endpoint,
+  event,
+  machine,
+} from "@tunnelhook/db/schema";
+import { and, asc, eq, gt, inArray, lt, or, type SQL } from "drizzle-orm";
+import {
+  type Bucket,
+  RATE_LIMIT_STATS_KEY,
+  type RateLimit,
+  type RateLimitCheck,
+  type RateLimitResult,
+  refill,
+  secondsUntilToken,
+} from "./rate-limit";
+import {
+  getRetryDelay,
+  isRetryableFailure,
+  type PendingRetry,
+  RETRY_KEY_PREFIX,
+} from "./retries";
 
 /**
  * WebSocket message types sent from the server (DO) to clients.
  */
 export interface WebhookEventMessage {
+  /** 1-based attempt number — greater than 1 for server-side retries */
+  attempt: number;
+  /** Inline body (null when the body must be downloaded, see `bodyBlob`) */
   body: string | null;
+  /** Large or binary body kept in the blob store; fetch it from /events/:eventId/body */
+  bodyBlob: BodyBlobRef | null;
   contentType: string | null;
   createdAt: string;
   /** The delivery ID for this specific machine */
@@ -13,7 +51,11 @@ export interface WebhookEventMessage {
   eventId: string;
   headers: string;
   method: string;
+  /** Sub-path after `/hooks/:slug` (null for the endpoint root) */
+  path: string | null;
   query: string | null;
+  /** Signature verification outcome (null if the endpoint has no verifier) */
+  signatureStatus: "verified" | "invalid" | "missing" | null;
   sourceIp: string | null;
   type: "webhook";
 }
@@ -26,6 +68,7 @@ export interface DeliveryResultMessage {
   machineId: string;
   machineName: string;
   responseBody: string | null;
+  responseHeaders: Record<string, string> | null;
   responseStatus: number | null;
   status: "delivered" | "failed";
   type: "delivery-result";
@@ -52,11 +95,22 @@ export interface ClientDeliveryReport {
   error: string | null;
   eventId: string;
   responseBody: string | null;
+  /** Absent when reported by clients that predate header capture */
+  responseHeaders?: Record<string, string> | null;
   responseStatus: number | null;
   status: "delivered" | "failed";
   type: "delivery-report";
 }
 
+/** Pending deliveries loaded per page while draining a machine's queue */
+const QUEUE_DRAIN_PAGE_SIZE = 100;
+
+/** Upper bound for how long a broadcast may wait for the first report */
+const MAX_REPORT_WAIT_MS = 30_000;
+
+/** Tracked rate limit buckets before idle per-IP ones are pruned */
+const MAX_TRACKED_BUCKETS = 10_000;
+
 /**
  * Attachment stored on each WebSocket via serializeAttachment/deserializeAttachment.
  */
@@ -76,11 +130,38 @@ interface WsAttachment {
  *
  * Uses the WebSocket Hibernation API for cost efficiency.
  */
-export class EndpointDO extends DurableObject {
+export class EndpointDO extends DurableObject implements EndpointRpc {
+  /**
+   * Broadcasts waiting for their first delivery report, keyed by the IDs of
+   * the deliveries they sent so concurrent replays of an event stay apart.
+   * Kept in memory only: the open broadcast request keeps the DO awake.
+   */
+  private readonly reportWaiters = new Map<
+    string,
+    (report: ClientDeliveryReport | null) => void
+  >();
+
+  /**
+   * Rate limit token buckets: "endpoint" plus one `ip:<address>` per client.
+   * Kept in memory only — a DO that was evicted sat idle long enough for
+   * every bucket to refill.
+   */
+  private readonly buckets = new Map<string, Bucket>();
+
+  /**
+   * Attempts already sent to each machine whose offline queue is being
+   * drained, as `<deliveryId>:<attempt>`. A broadcast or retry that races
+   * the drain would otherwise send the same attempt twice. Entries live
+   * only while the drain runs, which keeps the DO awake.
+   */
+  private readonly draining = new Map<string, Set<string>>();
+
   /**
    * HTTP fetch handler — used for:
    * 1. WebSocket upgrade requests from machines and viewers
    * 2. POST /broadcast — called by the Worker to fan out a webhook event
+   * 3. POST /rate-limit — called by the Worker before accepting a webhook
+   * 4. GET /rate-limit — dropped-request stats for the dashboard
    */
   override fetch(request: Request): Promise<Response> | Response {
     const url = new URL(request.url);
@@ -93,6 +174,12 @@ export class EndpointDO extends DurableObject {
       return this.handleBroadcast(request);
     }
 
+    if (url.pathname === "/rate-limit") {
+      return request.method === "POST"
+        ? this.handleRateLimit(request)
+        : this.handleRateLimitStats();
+    }
+
     return new Response("Not Found", { status: 404 });
   }
 
@@ -138,6 +225,9 @@ export class EndpointDO extends DurableObject {
         status: "online",
       };
       this.broadcastToViewers(JSON.stringify(statusMsg));
+
+      // Deliver whatever the machine missed while it was offline
+      this.ctx.waitUntil(this.drainQueuedDeliveries(server, machineId));
     }
 
     // Send the new viewer a snapshot of all currently connected machines
@@ -166,6 +256,7 @@ export class EndpointDO extends DurableObject {
   private async handleBroadcast(request: Request): Promise<Response> {
     const payload = (await request.json()) as {
       body: string | null;
+      bodyBlob: BodyBlobRef | null;
       contentType: string | null;
       createdAt: string;
       /** Pre-created delivery records: machineId -> deliveryId */
@@ -173,11 +264,16 @@ export class EndpointDO extends DurableObject {
       eventId: string;
       headers: string;
       method: string;
+      path: string | null;
       query: string | null;
+      signatureStatus: "verified" | "invalid" | "missing" | null;
       sourceIp: string | null;
+      /** Hold the response until the first machine reports back (local response mode) */
+      waitForReportMs?: number;
     };
 
     const machines = this.getMachineWebSockets();
+    const sent: string[] = [];
 
     for (const ws of machines) {
       const attachment = ws.deserializeAttachment() as WsAttachment;
@@ -194,29 +290,65 @@ export class EndpointDO extends DurableObject {
         type: "webhook",
         eventId: payload.eventId,
         deliveryId,
+        attempt: 1,
         method: payload.method,
         headers: payload.headers,
         body: payload.body,
+        bodyBlob: payload.bodyBlob,
+        path: payload.path,
         query: payload.query,
         contentType: payload.contentType,
         sourceIp: payload.sourceIp,
+        signatureStatus: payload.signatureStatus,
         createdAt: payload.createdAt,
       };
 
-      try {
-        ws.send(JSON.stringify(msg));
-      } catch {
-        // WebSocket is dead, will be cleaned up by webSocketClose
+      if (this.sendWebhook(ws, attachment.machineId, msg)) {
+        sent.push(deliveryId);
       }
     }
 
-    return Response.json({ sent: machines.length });
+    const report =
+      payload.waitForReportMs && sent.length > 0
+        ? await this.waitForReport(sent, payload.waitForReportMs)
+        : null;
+
+    return Response.json({ sent: sent.length, report });
+  }
+
+  /**
+   * Resolve with the first report for any of the deliveries, or null once
+   * `timeoutMs` has passed.
+   */
+  private waitForReport(
+    deliveryIds: string[],
+    timeoutMs: number
+  ): Promise<ClientDeliveryReport | null> {
+    return new Promise((resolve) => {
+      const settle = (report: ClientDeliveryReport | null) => {
+        clearTimeout(timer);
+        for (const deliveryId of deliveryIds) {
+          this.reportWaiters.delete(deliveryId);
+        }
+        resolve(report);
+      };
+      const timer = setTimeout(
+        () => settle(null),
+        Math.min(timeoutMs, MAX_REPORT_WAIT_MS)
+      );
+      for (const deliveryId of deliveryIds) {
+        this.reportWaiters.set(deliveryId, settle);
+      }
+    });
   }
 
   /**
    * Hibernation API: called when a WebSocket sends a message.
    */
-  webSocketMessage(ws: WebSocket, message: string | ArrayBuffer): void {
+  async webSocketMessage(
+    ws: WebSocket,
+    message: string | ArrayBuffer
+  ): Promise<void> {
     if (typeof message !== "string") {
       return;
     }
@@ -231,6 +363,9 @@ export class EndpointDO extends DurableObject {
     if (parsed.type === "delivery-report") {
       const attachment = ws.deserializeAttachment() as WsAttachment;
 
+      // Relay the first report to a caller waiting in local response mode
+      this.reportWaiters.get(parsed.deliveryId)?.(parsed);
+
       // Broadcast the delivery result to all viewers
       const resultMsg: DeliveryResultMessage = {
         type: "delivery-result",
@@ -241,6 +376,7 @@ export class EndpointDO extends DurableObject {
         status: parsed.status,
         responseStatus: parsed.responseStatus,
         responseBody: parsed.responseBody,
+        responseHeaders: parsed.responseHeaders ?? null,
         error: parsed.error,
         duration: parsed.duration,
       };
@@ -248,7 +384,32 @@ export class EndpointDO extends DurableObject {
 
       // Also broadcast to other machines so they see the full picture
       this.broadcastToMachines(JSON.stringify(resultMsg), ws);
+
+      if (attachment.machineId) {
+        await this.recordAttempt(attachment.machineId, parsed);
+      }
+    }
+  }
+
+  /**
+   * Hibernation-safe alarm: sends every retry that is due, then re-arms
+   * the alarm for the next pending one.
+   */
+  override async alarm(): Promise<void> {
+    const now = Date.now();
+    const retries = await this.ctx.storage.list<PendingRetry>({
+      prefix: RETRY_KEY_PREFIX,
+    });
+
+    for (const [key, retry] of retries) {
+      if (retry.dueAt > now) {
+        continue;
+      }
+      await this.ctx.storage.delete(key);
+      await this.sendRetry(retry);
     }
+
+    await this.scheduleNextAlarm();
   }
 
   /**
@@ -296,6 +457,509 @@ export class EndpointDO extends DurableObject {
     }
   }
 
+  // ---------------------------------------------------------------------------
+  // Retries
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Persist a delivery attempt reported by a machine, schedule a retry
+   * when the endpoint's retry policy allows another one, count it in the
+   * endpoint's metrics and evaluate the endpoint's alert rules.
+   */
+  private async recordAttempt(
+    machineId: string,
+    report: ClientDeliveryReport
+  ): Promise<void> {
+    const d = await db.query.delivery.findFirst({
+      where: eq(delivery.id, report.deliveryId),
+    });
+    if (!d || d.machineId !== machineId) {
+      return;
+    }
+
+    const attemptsMade = await this.insertAttempt(d.id, {
+      status: report.status,
+      responseStatus: report.responseStatus,
+      responseBody: report.responseBody,
+      responseHeaders: report.responseHeaders
+        ? JSON.stringify(report.responseHeaders)
+        : null,
+      error: report.error,
+      duration: report.duration,
+    });
+
+    if (
+      report.status === "failed" &&
+      isRetryableFailure(report.responseStatus)
+    ) {
+      await this.scheduleRetry(d, attemptsMade);
+    }
+
+    const m = await db.query.machine.findFirst({
+      where: eq(machine.id, machineId),
+      columns: { endpointId: true },
+    });
+    if (!m) {
+      return;
+    }
+    try {
+      await recordDeliveryMetric(m.endpointId, machineId, report);
+    } catch (err) {
+      console.error("Failed to record delivery metrics:", err);
+    }
+    try {
+      await evaluateDeliveryAlerts(m.endpointId);
+    } catch (err) {
+      console.error("Failed to evaluate alert rules:", err);
+    }
+  }
+
+  /**
+   * Insert a delivery_attempt row numbered after the existing ones.
+   * Returns the attempt number that was recorded.
+   */
+  private async insertAttempt(
+    deliveryId: string,
+    result: {
+      duration: number | null;
+      error: string | null;
+      responseBody: string | null;
+      responseHeaders?: string | null;
+      responseStatus: number | null;
+      status: "delivered" | "failed";
+    }
+  ): Promise<number> {
+    const previous = await db.query.deliveryAttempt.findMany({
+      where: eq(deliveryAttempt.deliveryId, deliveryId),
+      columns: { id: true },
+    });
+    const attempt = previous.length + 1;
+
+    await db.insert(deliveryAttempt).values({
+      id: crypto.randomUUID(),
+      deliveryId,
+      attempt,
+      ...result,
+    });
+
+    return attempt;
+  }
+
+  private async scheduleRetry(
+    d: { eventId: string; id: string; machineId: string },
+    attemptsMade: number
+  ): Promise<void> {
+    const ev = await db.query.event.findFirst({
+      where: eq(event.id, d.eventId),
+    });
+    if (!ev) {
+      return;
+    }
+    const ep = await db.query.endpoint.findFirst({
+      where: eq(endpoint.id, ev.endpointId),
+    });
+    if (!ep || attemptsMade >= ep.retryMaxAttempts) {
+      return;
+    }
+
+    const delay = getRetryDelay(
+      {
+        backoff: ep.retryBackoff,
+        baseDelayMs: ep.retryBaseDelayMs,
+        maxAttempts: ep.retryMaxAttempts,
+      },
+      attemptsMade
+    );
+    const retry: PendingRetry = {
+      deliveryId: d.id,
+      eventId: d.eventId,
+      machineId: d.machineId,
+      attempt: attemptsMade + 1,
+      dueAt: Date.now() + delay,
+    };
+    await this.ctx.storage.put(`${RETRY_KEY_PREFIX}${d.id}`, retry);
+    await this.scheduleNextAlarm();
+  }
+
+  /**
+   * Re-send a stored event to the machine that failed to handle it.
+   *
+   * If the machine is offline and the endpoint keeps an offline queue, the
+   * delivery goes back to pending and is drained when the machine
+   * reconnects, without using up an attempt: the machine never saw it.
+   * With the queue disabled nothing would ever send it, so the attempt
+   * fails with "Machine not connected" and the next retry is scheduled.
+   */
+  private async sendRetry(retry: PendingRetry): Promise<void> {
+    const ev = await db.query.event.findFirst({
+      where: eq(event.id, retry.eventId),
+    });
+    if (!ev) {
+      return;
+    }
+
+    const ws = this.getMachineWebSockets().find((socket) => {
+      const att = socket.deserializeAttachment() as WsAttachment | null;
+      return att?.machineId === retry.machineId;
+    });
+
+    if (!ws) {
+      const ep = await db.query.endpoint.findFirst({
+        where: eq(endpoint.id, ev.endpointId),
+        columns: { offlineQueueMaxAgeMs: true },
+      });
+      if (ep?.offlineQueueMaxAgeMs === 0) {
+        await this.failOfflineRetry(retry);
+        return;
+      }
+    }
+
+    await db
+      .update(delivery)
+      .set({ status: "pending" })
+      .where(eq(delivery.id, retry.deliveryId));
+
+    if (!ws) {
+      return;
+    }
+
+    const msg: WebhookEventMessage = {
+      type: "webhook",
+      eventId: ev.id,
+      deliveryId: retry.deliveryId,
+      attempt: retry.attempt,
+      method: ev.method,
+      headers: ev.headers,
+      body: ev.body,
+      bodyBlob: toBodyBlobRef(ev),
+      path: ev.path,
+      query: ev.query,
+      contentType: ev.contentType,
+      sourceIp: ev.sourceIp,
+      signatureStatus: ev.signatureStatus,
+      createdAt: ev.createdAt.toISOString(),
+    };
+
+    this.sendWebhook(ws, retry.machineId, msg);
+  }
+
+  /** Count a retry that found its machine offline as a failed attempt */
+  private async failOfflineRetry(retry: PendingRetry): Promise<void> {
+    const attemptsMade = await this.insertAttempt(retry.deliveryId, {
+      status: "failed",
+      responseStatus: null,
+      responseBody: null,
+      error: "Machine not connected",
+      duration: null,
+    });
+    await this.scheduleRetry(
+      {
+        id: retry.deliveryId,
+        eventId: retry.eventId,
+        machineId: retry.machineId,
+      },
+      attemptsMade
+    );
+  }
+
+  /** Arm the DO alarm for the earliest pending retry, or clear it. */
+  private async scheduleNextAlarm(): Promise<void> {
+    const retries = await this.ctx.storage.list<PendingRetry>({
+      prefix: RETRY_KEY_PREFIX,
+    });
+
+    let next: number | null = null;
+    for (const retry of retries.values()) {
+      if (next === null || retry.dueAt < next) {
+        next = retry.dueAt;
+      }
+    }
+
+    if (next === null) {
+      await this.ctx.storage.deleteAlarm();
+    } else {
+      await this.ctx.storage.setAlarm(next);
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Offline queue
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Send a reconnecting machine its pending deliveries, oldest first.
+   * Deliveries older than the endpoint's offline queue cap are marked failed
+   * instead of being sent.
+   */
+  private async drainQueuedDeliveries(
+    ws: WebSocket,
+    machineId: string
+  ): Promise<void> {
+    const sent = new Set<string>();
+    this.draining.set(machineId, sent);
+    try {
+      await this.drainQueue(ws, machineId);
+    } finally {
+      // A newer connection of the same machine may have started its own drain
+      if (this.draining.get(machineId) === sent) {
+        this.draining.delete(machineId);
+      }
+    }
+  }
+
+  /** Expire deliveries past the queue cap, then send the rest page by page */
+  private async drainQueue(ws: WebSocket, machineId: string): Promise<void> {
+    const m = await db.query.machine.findFirst({
+      where: eq(machine.id, machineId),
+    });
+    if (!m) {
+      return;
+    }
+    const ep = await db.query.endpoint.findFirst({
+      where: eq(endpoint.id, m.endpointId),
+    });
+    if (!ep) {
+      return;
+    }
+
+    const cutoff = new Date(Date.now() - ep.offlineQueueMaxAgeMs);
+    const pendingForMachine = and(
+      eq(delivery.machineId, machineId),
+      eq(delivery.status, "pending")
+    );
+
+    await db
+      .update(delivery)
+      .set({
+        status: "failed",
+        error: "Expired while machine was offline",
+      })
+      .where(
+        and(
+          pendingForMachine,
+          inArray(
+            delivery.eventId,
+            db
+              .select({ id: event.id })
+              .from(event)
+              .where(lt(event.createdAt, cutoff))
+          )
+        )
+      );
+
+    // Page through the queue oldest first; the rows stay pending until the
+    // machine reports on them, so pages follow a (createdAt, id) cursor
+    let after: { createdAt: Date; deliveryId: string } | null = null;
+    for (;;) {
+      const queued = await this.loadQueuePage(pendingForMachine, after);
+      if (!(await this.sendQueuePage(ws, machineId, queued))) {
+        return;
+      }
+      const last = queued.at(-1);
+      if (!last || queued.length < QUEUE_DRAIN_PAGE_SIZE) {
+        return;
+      }
+      after = { createdAt: last.createdAt, deliveryId: last.deliveryId };
+    }
+  }
+
+  /** One page of a machine's queued deliveries, after the cursor */
+  private loadQueuePage(
+    pendingForMachine: SQL | undefined,
+    after: { createdAt: Date; deliveryId: string } | null
+  ) {
+    return db
+      .select({
+        deliveryId: delivery.id,
+        eventId: event.id,
+        method: event.method,
+        headers: event.headers,
+        body: event.body,
+        bodySize: event.bodySize,
+        bodySha256: event.bodySha256,
+        path: event.path,
+        query: event.query,
+        contentType: event.contentType,
+        sourceIp: event.sourceIp,
+        signatureStatus: event.signatureStatus,
+        createdAt: event.createdAt,
+      })
+      .from(delivery)
+      .innerJoin(event, eq(delivery.eventId, event.id))
+      .where(
+        and(
+          pendingForMachine,
+          after
+            ? or(
+                gt(event.createdAt, after.createdAt),
+                and(
+                  eq(event.createdAt, after.createdAt),
+                  gt(delivery.id, after.deliveryId)
+                )
+              )
+            : undefined
+        )
+      )
+      .orderBy(asc(event.createdAt), asc(delivery.id))
+      .limit(QUEUE_DRAIN_PAGE_SIZE);
+  }
+
+  /**
+   * Send one page of queued deliveries. Returns false once the socket is
+   * gone, leaving the rest queued for the next reconnect.
+   */
+  private async sendQueuePage(
+    ws: WebSocket,
+    machineId: string,
+    queued: Awaited<ReturnType<EndpointDO["loadQueuePage"]>>
+  ): Promise<boolean> {
+    if (queued.length === 0) {
+      return true;
+    }
+
+    // Deliveries that went back to the queue after a failed retry keep
+    // counting attempts from where they left off
+    const previousAttempts = await db.query.deliveryAttempt.findMany({
+      where: inArray(
+        deliveryAttempt.deliveryId,
+        queued.map((q) => q.deliveryId)
+      ),
+      columns: { deliveryId: true },
+    });
+    const attemptsByDelivery = new Map<string, number>();
+    for (const a of previousAttempts) {
+      attemptsByDelivery.set(
+        a.deliveryId,
+        (attemptsByDelivery.get(a.deliveryId) ?? 0) + 1
+      );
+    }
+
+    for (const q of queued) {
+      const msg: WebhookEventMessage = {
+        type: "webhook",
+        eventId: q.eventId,
+        deliveryId: q.deliveryId,
+        attempt: (attemptsByDelivery.get(q.deliveryId) ?? 0) + 1,
+        method: q.method,
+        headers: q.headers,
+        body: q.body,
+        bodyBlob: toBodyBlobRef(q),
+        path: q.path,
+        query: q.query,
+        contentType: q.contentType,
+        sourceIp: q.sourceIp,
+        signatureStatus: q.signatureStatus,
+        createdAt: q.createdAt.toISOString(),
+      };
+
+      if (!this.sendWebhook(ws, machineId, msg)) {
+        // Machine disconnected again — the rest stay queued
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Send a webhook to a machine's socket, skipping attempts a running queue
+   * drain already sent. Returns false when the socket is dead.
+   */
+  private sendWebhook(
+    ws: WebSocket,
+    machineId: string,
+    msg: WebhookEventMessage
+  ): boolean {
+    const sent = this.draining.get(machineId);
+    const key = `${msg.deliveryId}:${msg.attempt}`;
+    if (sent?.has(key)) {
+      return true;
+    }
+    try {
+      ws.send(JSON.stringify(msg));
+    } catch {
+      // WebSocket is dead, will be cleaned up by webSocketClose
+      return false;
+    }
+    sent?.add(key);
+    return true;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Rate limiting
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Take a token from the client IP's bucket and the endpoint's bucket.
+   * Both must have one; a dropped request takes nothing, so retries after
+   * Retry-After succeed.
+   */
+  private async handleRateLimit(request: Request): Promise<Response> {
+    const check = (await request.json()) as RateLimitCheck;
+    const now = Date.now();
+
+    const limits: [string, RateLimit][] = [["endpoint", check.endpoint]];
+    if (check.ip) {
+      limits.push([`ip:${check.ip}`, check.perIp]);
+    }
+
+    let retryAfterS = 0;
+    const refilled = limits.map(([key, limit]) => {
+      const bucket = refill(this.buckets.get(key), limit, now);
+      retryAfterS = Math.max(retryAfterS, secondsUntilToken(bucket, limit));
+      return [key, bucket] as const;
+    });
+
+    for (const [key, bucket] of refilled) {
+      if (retryAfterS === 0) {
+        bucket.tokens -= 1;
+      }
+      this.buckets.set(key, bucket);
+    }
+    this.pruneBuckets(check.perIp, now);
+
+    if (retryAfterS > 0) {
+      const stats = await this.readRateLimitStats();
+      await this.ctx.storage.put<RateLimitStats>(RATE_LIMIT_STATS_KEY, {
+        dropped: stats.dropped + 1,
+        lastDroppedAt: now,
+      });
+    }
+
+    const result: RateLimitResult = { allowed: retryAfterS === 0, retryAfterS };
+    return Response.json(result);
+  }
+
+  private async handleRateLimitStats(): Promise<Response> {
+    return Response.json(await this.readRateLimitStats());
+  }
+
+  private async readRateLimitStats(): Promise<RateLimitStats> {
+    return (
+      (await this.ctx.storage.get<RateLimitStats>(RATE_LIMIT_STATS_KEY)) ?? {
+        dropped: 0,
+        lastDroppedAt: null,
+      }
+    );
+  }
+
+  /**
+   * Forget per-IP buckets that have refilled completely once too many
+   * clients are tracked — a full bucket is the same as no bucket.
+   */
+  private pruneBuckets(perIp: RateLimit, now: number): void {
+    if (this.buckets.size <= MAX_TRACKED_BUCKETS) {
+      return;
+    }
+    for (const [key, bucket] of this.buckets) {
+      if (
+        key.startsWith("ip:") &&
+        refill(bucket, perIp, now).tokens >= perIp.burst
+      ) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+
   // ---------------------------------------------------------------------------
   // Helpers
   // ---------------------------------------------------------------------------
@@ -341,8 +1005,8 @@ export class EndpointDO extends DurableObject {
    * Returns the list of currently connected machine IDs.
    * Called via RPC from the Worker.
    */
-  getConnectedMachines(): Array<{ machineId: string; machineName: string }> {
-    const machines: Array<{ machineId: string; machineName: string }> = [];
+  getConnectedMachines(): ConnectedMachine[] {
+    const machines: ConnectedMachine[] = [];
     for (const ws of this.getMachineWebSockets()) {
       const attachment = ws.deserializeAttachment() as WsAttachment | null;
       if (attachment?.machineId && attachment.machineName) {
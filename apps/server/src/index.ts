@@ -3,7 +3,10 @@ import { OpenAPIReferencePlugin } from "@orpc/openapi/plugins";
 import { onError } from "@orpc/server";
 import { RPCHandler } from "@orpc/server/fetch";
 import { ZodToJsonSchemaConverter } from "@orpc/zod/zod4";
+import { evaluateQuietAlerts } from "@tunnelhook/api/alerts";
 import { createContext } from "@tunnelhook/api/context";
+import { pruneMetrics } from "@tunnelhook/api/metrics";
+import { pruneAllEndpoints } from "@tunnelhook/api/retention";
 import { appRouter } from "@tunnelhook/api/routers/index";
 import { auth } from "@tunnelhook/auth";
 import { env } from "@tunnelhook/env/server";
@@ -11,7 +14,13 @@ import { Hono } from "hono";
 import { cors } from "hono/cors";
 import { logger } from "hono/logger";
 
-import { handleWebhook, handleWebSocketUpgrade } from "./webhooks";
+import { handleDeviceCode, handleDeviceToken } from "./device";
+import { handleMetrics } from "./prometheus";
+import {
+  handleEventBody,
+  handleWebhook,
+  handleWebSocketUpgrade,
+} from "./webhooks";
 
 export { EndpointDO } from "./endpoint-do";
 
@@ -30,12 +39,24 @@ app.use(
 
 app.on(["POST", "GET"], "/api/auth/*", (c) => auth.handler(c.req.raw));
 
-// Webhook receiver — accepts any method
-app.all("/hooks/:slug", handleWebhook);
+// Device-code login for the CLI: start a login, then poll until it is approved in the dashboard
+app.post("/device/code", handleDeviceCode);
+app.post("/device/token", handleDeviceToken);
 
-// WebSocket upgrade for machines and viewers connecting to an endpoint's Durable Object
+// WebSocket upgrade for machines and viewers connecting to an endpoint's Durable Object.
+// Registered before the sub-path receiver so `/ws` is never captured as a webhook.
 app.get("/hooks/:slug/ws", handleWebSocketUpgrade);
 
+// Webhook receiver — accepts any method, on the endpoint URL or any sub-path
+app.all("/hooks/:slug", handleWebhook);
+app.all("/hooks/:slug/*", handleWebhook);
+
+// Raw request bodies, including large and binary payloads kept in the blob store
+app.get("/events/:eventId/body", handleEventBody);
+
+// Prometheus / OpenMetrics scrape target for the caller's endpoints
+app.get("/metrics", handleMetrics);
+
 export const apiHandler = new OpenAPIHandler(appRouter, {
   plugins: [
     new OpenAPIReferencePlugin({
@@ -85,4 +106,15 @@ app.get("/", (c) => {
   return c.text("OK");
 });
 
-export default app;
+export default {
+  fetch: app.fetch,
+  /**
+   * Cron trigger: prune events that fall outside their endpoint's retention
+   * policy and expired metric rollups, and fire "no-events" alert rules
+   */
+  scheduled(_controller, _env, ctx) {
+    ctx.waitUntil(pruneAllEndpoints());
+    ctx.waitUntil(pruneMetrics());
+    ctx.waitUntil(evaluateQuietAlerts());
+  },
+} satisfies ExportedHandler;
@@ -0,0 +1,412 @@
+import { visibleEndpointsCondition } from "@tunnelhook/api/authz";
+import { getConnectedMachines } from "@tunnelhook/api/dispatch";
+import { authenticateRequest, type TokenGrant } from "@tunnelhook/api/tokens";
+import { db } from "@tunnelhook/db";
+import {
+  delivery,
+  endpoint,
+  event,
+  LATENCY_BUCKETS_MS,
+  machine,
+} from "@tunnelhook/db/schema";
+import {
+  and,
+  count,
+  eq,
+  inArray,
+  isNotNull,
+  ne,
+  type SQL,
+  sql,
+  sum,
+} from "drizzle-orm";
+import type { SQLiteColumn } from "drizzle-orm/sqlite-core";
+import type { Context } from "hono";
+
+const PROMETHEUS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+const OPENMETRICS_CONTENT_TYPE =
+  "application/openmetrics-text; version=1.0.0; charset=utf-8";
+
+const BACKSLASH_RE = /\\/g;
+const QUOTE_RE = /"/g;
+const NEWLINE_RE = /\n/g;
+
+type Labels = Record<string, string>;
+
+interface Sample {
+  labels: Labels;
+  /** Appended to the family name, e.g. "_bucket" */
+  suffix: string;
+  value: number;
+}
+
+interface MetricFamily {
+  help: string;
+  /** Without the "_total" suffix counters get in their samples */
+  name: string;
+  samples: Sample[];
+  type: "counter" | "gauge" | "histogram";
+}
+
+interface EndpointLabels {
+  id: string;
+  slug: string;
+}
+
+/** Cumulative histogram of durations in ms, indexed like LATENCY_BUCKETS_MS */
+interface DurationHistogram {
+  buckets: number[];
+  count: number;
+  sumMs: number;
+}
+
+function escapeLabel(value: string): string {
+  return value
+    .replace(BACKSLASH_RE, "\\\\")
+    .replace(QUOTE_RE, '\\"')
+    .replace(NEWLINE_RE, "\\n");
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(
+    ([key, value]) => `${key}="${escapeLabel(value)}"`
+  );
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+/**
+ * Render families in the Prometheus text format, or in OpenMetrics, which
+ * names counter families without "_total" and ends with "# EOF".
+ */
+function render(families: MetricFamily[], openMetrics: boolean): string {
+  const lines: string[] = [];
+  for (const family of families) {
+    const name =
+      family.type === "counter" && !openMetrics
+        ? `${family.name}_total`
+        : family.name;
+    lines.push(`# HELP ${name} ${family.help}`);
+    lines.push(`# TYPE ${name} ${family.type}`);
+    for (const sample of family.samples) {
+      lines.push(
+        `${family.name}${sample.suffix}${formatLabels(sample.labels)} ${sample.value}`
+      );
+    }
+  }
+  if (openMetrics) {
+    lines.push("# EOF");
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+function endpointLabels(ep: EndpointLabels): Labels {
+  return { endpoint_id: ep.id, slug: ep.slug };
+}
+
+function counter(
+  name: string,
+  help: string,
+  samples: Array<{ labels: Labels; value: number }>
+): MetricFamily {
+  return {
+    name,
+    help,
+    type: "counter",
+    samples: samples.map((s) => ({ ...s, suffix: "_total" })),
+  };
+}
+
+/** Histogram samples in seconds, as Prometheus expects durations */
+function histogramSamples(
+  labels: Labels,
+  histogram: DurationHistogram
+): Sample[] {
+  const samples: Sample[] = LATENCY_BUCKETS_MS.map((bound, i) => ({
+    labels: { ...labels, le: String(bound / 1000) },
+    suffix: "_bucket",
+    value: histogram.buckets[i] ?? 0,
+  }));
+  samples.push(
+    {
+      labels: { ...labels, le: "+Inf" },
+      suffix: "_bucket",
+      value: histogram.count,
+    },
+    { labels, suffix: "_sum", value: histogram.sumMs / 1000 },
+    { labels, suffix: "_count", value: histogram.count }
+  );
+  return samples;
+}
+
+/** Endpoints the caller can see, narrowed to the token's endpoints */
+async function scrapeScope(
+  userId: string,
+  grant: TokenGrant | null
+): Promise<SQL | undefined> {
+  return and(
+    await visibleEndpointsCondition(userId),
+    grant?.endpointIds ? inArray(endpoint.id, grant.endpointIds) : undefined
+  );
+}
+
+/** Index of the LATENCY_BUCKETS_MS bucket a duration falls in */
+function bucketIndex(column: SQLiteColumn): SQL<number> {
+  const cases = LATENCY_BUCKETS_MS.map(
+    (bound, i) =>
+      sql`when ${column} <= ${sql.raw(String(bound))} then ${sql.raw(String(i))}`
+  );
+  return sql<number>`case ${sql.join(cases, sql` `)} else ${sql.raw(String(LATENCY_BUCKETS_MS.length))} end`;
+}
+
+/** Durations of one endpoint that fell in one LATENCY_BUCKETS_MS bucket */
+interface BucketCount {
+  bucket: number;
+  endpointId: string;
+  n: number;
+  totalMs: number;
+}
+
+function toBucketCount(row: Record<string, unknown>): BucketCount {
+  // drizzle types SUM() as a string to avoid precision loss
+  return {
+    endpointId: String(row.endpointId),
+    bucket: Number(row.bucket),
+    n: Number(row.n),
+    totalMs: Number(row.total ?? 0),
+  };
+}
+
+/** Fold per-bucket counts into cumulative histograms per endpoint */
+function toHistograms(rows: BucketCount[]): Map<string, DurationHistogram> {
+  const histograms = new Map<string, DurationHistogram>();
+  for (const row of rows) {
+    let histogram = histograms.get(row.endpointId);
+    if (!histogram) {
+      histogram = {
+        buckets: new Array<number>(LATENCY_BUCKETS_MS.length).fill(0),
+        count: 0,
+        sumMs: 0,
+      };
+      histograms.set(row.endpointId, histogram);
+    }
+    histogram.count += row.n;
+    histogram.sumMs += row.totalMs;
+    for (let i = row.bucket; i < LATENCY_BUCKETS_MS.length; i++) {
+      histogram.buckets[i] = (histogram.buckets[i] ?? 0) + row.n;
+    }
+  }
+  return histograms;
+}
+
+async function deliveryDurations(
+  scope: SQL | undefined
+): Promise<Map<string, DurationHistogram>> {
+  const bucket = bucketIndex(delivery.duration);
+  const rows = await db
+    .select({
+      endpointId: machine.endpointId,
+      bucket,
+      n: count(),
+      total: sum(delivery.duration),
+    })
+    .from(delivery)
+    .innerJoin(machine, eq(delivery.machineId, machine.id))
+    .innerJoin(endpoint, eq(machine.endpointId, endpoint.id))
+    .where(and(scope, isNotNull(delivery.duration)))
+    .groupBy(machine.endpointId, bucket);
+  return toHistograms(rows.map(toBucketCount));
+}
+
+async function forwardDurations(
+  scope: SQL | undefined
+): Promise<Map<string, DurationHistogram>> {
+  const bucket = bucketIndex(event.forwardDuration);
+  const rows = await db
+    .select({
+      endpointId: event.endpointId,
+      bucket,
+      n: count(),
+      total: sum(event.forwardDuration),
+    })
+    .from(event)
+    .innerJoin(endpoint, eq(event.endpointId, endpoint.id))
+    .where(and(scope, isNotNull(event.forwardDuration)))
+    .groupBy(event.endpointId, bucket);
+  return toHistograms(rows.map(toBucketCount));
+}
+
+async function eventCounters(
+  scope: SQL | undefined,
+  endpoints: Map<string, EndpointLabels>
+): Promise<MetricFamily[]> {
+  const rows = await db
+    .select({
+      endpointId: event.endpointId,
+      total: count(),
+      blocked: count(event.blockedReason),
+      forwardErrors: count(event.forwardError),
+    })
+    .from(event)
+    .innerJoin(endpoint, eq(event.endpointId, endpoint.id))
+    .where(scope)
+    .groupBy(event.endpointId);
+
+  const counts = new Map(rows.map((row) => [String(row.endpointId), row]));
+  const per = (value: (row: (typeof rows)[number]) => unknown) =>
+    [...endpoints.values()].map((ep) => {
+      const row = counts.get(ep.id);
+      return {
+        labels: endpointLabels(ep),
+        value: row ? Number(value(row)) : 0,
+      };
+    });
+
+  return [
+    counter(
+      "tunnelhook_events_received",
+      "Webhook requests stored for the endpoint, excluding blocked ones.",
+      per((row) => Number(row.total) - Number(row.blocked))
+    ),
+    counter(
+      "tunnelhook_events_blocked",
+      "Webhook requests rejected by the endpoint's IP allowlist.",
+      per((row) => row.blocked)
+    ),
+    counter(
+      "tunnelhook_forward_errors",
+      "Events whose forward to the endpoint's forward URL failed.",
+      per((row) => row.forwardErrors)
+    ),
+  ];
+}
+
+async function deliveryCounter(
+  scope: SQL | undefined,
+  endpoints: Map<string, EndpointLabels>
+): Promise<MetricFamily> {
+  const rows = await db
+    .select({
+      endpointId: machine.endpointId,
+      status: delivery.status,
+      n: count(),
+    })
+    .from(delivery)
+    .innerJoin(machine, eq(delivery.machineId, machine.id))
+    .innerJoin(endpoint, eq(machine.endpointId, endpoint.id))
+    .where(and(scope, ne(delivery.status, "pending")))
+    .groupBy(machine.endpointId, delivery.status);
+
+  const samples = rows.flatMap((row) => {
+    const ep = endpoints.get(String(row.endpointId));
+    return ep
+      ? [
+          {
+            labels: { ...endpointLabels(ep), status: String(row.status) },
+            value: Number(row.n),
+          },
+        ]
+      : [];
+  });
+  return counter(
+    "tunnelhook_deliveries",
+    "Finished deliveries of events to machines, by status.",
+    samples
+  );
+}
+
+/** Connected machines per endpoint, asked from each endpoint's DO */
+async function connectedMachinesGauge(
+  endpoints: Map<string, EndpointLabels>
+): Promise<MetricFamily> {
+  const samples = await Promise.all(
+    [...endpoints.values()].map(async (ep) => {
+      try {
+        const machines = await getConnectedMachines(ep.id);
+        return [
+          { labels: endpointLabels(ep), suffix: "", value: machines.length },
+        ];
+      } catch (err) {
+        console.error(`Failed to count machines of endpoint ${ep.id}:`, err);
+        return [];
+      }
+    })
+  );
+  return {
+    name: "tunnelhook_connected_machines",
+    help: "Machines with an open WebSocket to the endpoint.",
+    type: "gauge",
+    samples: samples.flat(),
+  };
+}
+
+function histogramFamily(
+  name: string,
+  help: string,
+  histograms: Map<string, DurationHistogram>,
+  endpoints: Map<string, EndpointLabels>
+): MetricFamily {
+  const empty: DurationHistogram = {
+    buckets: new Array<number>(LATENCY_BUCKETS_MS.length).fill(0),
+    count: 0,
+    sumMs: 0,
+  };
+  return {
+    name,
+    help,
+    type: "histogram",
+    samples: [...endpoints.values()].flatMap((ep) =>
+      histogramSamples(endpointLabels(ep), histograms.get(ep.id) ?? empty)
+    ),
+  };
+}
+
+/**
+ * Prometheus scrape target for the caller's endpoints.
+ * GET /metrics
+ *
+ * Authenticated like the API: an API token (any scope) or a session cookie.
+ * Tokens limited to specific endpoints only see those. Counters are read
+ * from the stored events and deliveries, so retention pruning lowers them;
+ * Prometheus treats that as a counter reset. Sends OpenMetrics when the
+ * scraper asks for it.
+ */
+export async function handleMetrics(c: Context): Promise<Response> {
+  const caller = await authenticateRequest(c.req.raw.headers);
+  if (!caller) {
+    return c.json({ error: "Unauthorized" }, 401);
+  }
+
+  const scope = await scrapeScope(caller.user.id, caller.grant);
+  const rows = await db
+    .select({ id: endpoint.id, slug: endpoint.slug })
+    .from(endpoint)
+    .where(scope);
+  const endpoints = new Map(rows.map((ep) => [ep.id, ep]));
+
+  const families = [
+    ...(await eventCounters(scope, endpoints)),
+    await deliveryCounter(scope, endpoints),
+    await connectedMachinesGauge(endpoints),
+    histogramFamily(
+      "tunnelhook_delivery_duration_seconds",
+      "Time machines took to deliver events to their local target.",
+      await deliveryDurations(scope),
+      endpoints
+    ),
+    histogramFamily(
+      "tunnelhook_forward_duration_seconds",
+      "Time the endpoint's forward URL took to respond.",
+      await forwardDurations(scope),
+      endpoints
+    ),
+  ];
+
+  const openMetrics = (c.req.header("accept") ?? "").includes(
+    "application/openmetrics-text"
+  );
+  return c.body(render(families, openMetrics), 200, {
+    "Content-Type": openMetrics
+      ? OPENMETRICS_CONTENT_TYPE
+      : PROMETHEUS_CONTENT_TYPE,
+  });
+}
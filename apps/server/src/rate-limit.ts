@@ -0,0 +1,59 @@
+/**
+ * Token-bucket limit: up to `burst` requests at once, refilled at
+ * `perMinute` requests per minute.
+ */
+export interface RateLimit {
+  burst: number;
+  perMinute: number;
+}
+
+/** Limits sent by the Worker with every check, so the DO never reads D1 */
+export interface RateLimitCheck {
+  endpoint: RateLimit;
+  /** Client IP, or null when it is unknown (only the endpoint limit applies) */
+  ip: string | null;
+  perIp: RateLimit;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  /** Seconds until a request would be allowed again (0 when allowed) */
+  retryAfterS: number;
+}
+
+/** DO storage key of the endpoint's RateLimitStats */
+export const RATE_LIMIT_STATS_KEY = "rate-limit:stats";
+
+export interface Bucket {
+  tokens: number;
+  /** Epoch ms of the last refill */
+  updatedAt: number;
+}
+
+/** Refill a bucket for the time elapsed since it was last used */
+export function refill(
+  bucket: Bucket | undefined,
+  limit: RateLimit,
+  now: number
+): Bucket {
+  if (!bucket) {
+    return { tokens: limit.burst, updatedAt: now };
+  }
+  const elapsed = Math.max(0, now - bucket.updatedAt);
+  const tokens = Math.min(
+    limit.burst,
+    bucket.tokens + (elapsed * limit.perMinute) / 60_000
+  );
+  return { tokens, updatedAt: now };
+}
+
+/** Seconds until a refilled bucket holds a whole token again */
+export function secondsUntilToken(bucket: Bucket, limit: RateLimit): number {
+  if (bucket.tokens >= 1) {
+    return 0;
+  }
+  if (limit.perMinute <= 0) {
+    return 60;
+  }
+  return Math.ceil(((1 - bucket.tokens) * 60) / limit.perMinute);
+}
@@ -0,0 +1,213 @@
+export type ResponsePreset =
+  | "default"
+  | "custom"
+  | "slack-challenge"
+  | "twilio-twiml"
+  | "ms-graph-validation";
+
+/** Response settings stored on the endpoint row */
+export interface ResponseConfig {
+  /** Body template (custom preset only) */
+  body: string | null;
+  /** Headers as a JSON object (custom preset only) */
+  headers: string | null;
+  preset: ResponsePreset;
+  /** Status code (custom preset only, null = 200) */
+  status: number | null;
+}
+
+/** The captured request a response template can reference */
+export interface ResponseContext {
+  body: string | null;
+  contentType: string | null;
+  endpointId: string;
+  eventId: string;
+  headers: Record<string, string>;
+  method: string;
+  path: string | null;
+  query: string | null;
+}
+
+export interface RenderedResponse {
+  body: string | null;
+  headers: Record<string, string>;
+  status: number;
+}
+
+const TEMPLATE_RE = /\{\{\s*([^{}\s]+)\s*\}\}/g;
+const FORM_CONTENT_TYPE_RE = /application\/x-www-form-urlencoded/i;
+
+const EMPTY_TWIML =
+  '<?xml version="1.0" encoding="UTF-8"?><Response></Response>';
+
+/** Statuses that must not carry a body */
+const NULL_BODY_STATUSES = new Set([101, 204, 205, 304]);
+
+/**
+ * Parse the request body into fields for `{{body.x}}`: JSON objects as-is,
+ * form-encoded bodies (Slack slash commands, Twilio) as a flat record.
+ */
+function parseBodyFields(ctx: ResponseContext): unknown {
+  if (!ctx.body) {
+    return undefined;
+  }
+  if (ctx.contentType && FORM_CONTENT_TYPE_RE.test(ctx.contentType)) {
+    return Object.fromEntries(new URLSearchParams(ctx.body));
+  }
+  try {
+    return JSON.parse(ctx.body);
+  } catch {
+    return undefined;
+  }
+}
+
+function getField(root: unknown, path: string[]): unknown {
+  let node = root;
+  for (const key of path) {
+    if (node === null || typeof node !== "object") {
+      return undefined;
+    }
+    node = (node as Record<string, unknown>)[key];
+  }
+  return node;
+}
+
+function stringifyValue(value: unknown): string {
+  if (value === undefined || value === null) {
+    return "";
+  }
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Resolve a template variable: `method`, `path`, `eventId`, `endpointId`,
+ * `body` (raw), `body.a.b`, `query.name` or `headers.name`.
+ * Unknown variables render as an empty string.
+ */
+function resolveVariable(
+  name: string,
+  ctx: ResponseContext,
+  bodyFields: () => unknown
+): string {
+  const [scope = "", ...rest] = name.split(".");
+  const key = rest.join(".");
+  switch (scope) {
+    case "method":
+      return ctx.method;
+    case "path":
+      return ctx.path ?? "/";
+    case "eventId":
+      return ctx.eventId;
+    case "endpointId":
+      return ctx.endpointId;
+    case "body":
+      return rest.length > 0
+        ? stringifyValue(getField(bodyFields(), rest))
+        : (ctx.body ?? "");
+    case "query":
+      return new URLSearchParams(ctx.query ?? "").get(key) ?? "";
+    case "headers":
+      return ctx.headers[key.toLowerCase()] ?? "";
+    default:
+      return "";
+  }
+}
+
+/** Fill `{{variable}}` placeholders in a response body template */
+export function renderTemplate(template: string, ctx: ResponseContext): string {
+  let fields: unknown;
+  let parsed = false;
+  const bodyFields = () => {
+    if (!parsed) {
+      fields = parseBodyFields(ctx);
+      parsed = true;
+    }
+    return fields;
+  };
+  return template.replace(TEMPLATE_RE, (_match, name: string) =>
+    resolveVariable(name, ctx, bodyFields)
+  );
+}
+
+function parseHeaders(raw: string | null): Record<string, string> {
+  if (!raw) {
+    return {};
+  }
+  try {
+    return JSON.parse(raw) as Record<string, string>;
+  } catch {
+    return {};
+  }
+}
+
+const text = (status: number, body: string | null): RenderedResponse => ({
+  status,
+  headers: { "Content-Type": "text/plain; charset=utf-8" },
+  body,
+});
+
+/**
+ * Slack Events API: echo `challenge` for the url_verification handshake,
+ * acknowledge everything else with an empty 200.
+ */
+function slackChallenge(ctx: ResponseContext): RenderedResponse {
+  const fields = parseBodyFields(ctx) as Record<string, unknown> | undefined;
+  if (fields?.type === "url_verification") {
+    return text(200, stringifyValue(fields.challenge));
+  }
+  return text(200, "");
+}
+
+/**
+ * Microsoft Graph: echo the `validationToken` query parameter when a
+ * subscription is created, otherwise accept the notification with 202.
+ */
+function msGraphValidation(ctx: ResponseContext): RenderedResponse {
+  const token = new URLSearchParams(ctx.query ?? "").get("validationToken");
+  return token === null ? text(202, null) : text(200, token);
+}
+
+/**
+ * Build the response the webhook receiver sends back to the provider.
+ */
+export function buildResponse(
+  config: ResponseConfig,
+  ctx: ResponseContext
+): RenderedResponse {
+  switch (config.preset) {
+    case "custom":
+      return {
+        status: config.status ?? 200,
+        headers: parseHeaders(config.headers),
+        body: config.body ? renderTemplate(config.body, ctx) : null,
+      };
+    case "slack-challenge":
+      return slackChallenge(ctx);
+    case "twilio-twiml":
+      return {
+        status: 200,
+        headers: { "Content-Type": "text/xml; charset=utf-8" },
+        body: EMPTY_TWIML,
+      };
+    case "ms-graph-validation":
+      return msGraphValidation(ctx);
+    default:
+      return {
+        status: 202,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          success: true,
+          eventId: ctx.eventId,
+          endpointId: ctx.endpointId,
+        }),
+      };
+  }
+}
+
+/** Null out the body for statuses where the Fetch API forbids one */
+export function toHttpResponse(rendered: RenderedResponse): Response {
+  return new Response(
+    NULL_BODY_STATUSES.has(rendered.status) ? null : rendered.body,
+    { status: rendered.status, headers: rendered.headers }
+  );
+}
@@ -0,0 +1,52 @@
+export type RetryBackoff = "fixed" | "linear" | "exponential";
+
+export interface RetryPolicy {
+  backoff: RetryBackoff;
+  /** Delay in ms before the first retry */
+  baseDelayMs: number;
+  /** Max attempts including the first delivery (1 = no retries) */
+  maxAttempts: number;
+}
+
+/**
+ * A retry waiting for its alarm, stored in DO storage under `retry:<deliveryId>`.
+ */
+export interface PendingRetry {
+  /** 1-based number of the attempt that will be sent */
+  attempt: number;
+  deliveryId: string;
+  /** Epoch ms at which the retry is due */
+  dueAt: number;
+  eventId: string;
+  machineId: string;
+}
+
+export const RETRY_KEY_PREFIX = "retry:";
+
+/** Upper bound for a single retry delay so long exponential curves stay sane */
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+/**
+ * Delay before the next attempt, given how many attempts were already made.
+ */
+export function getRetryDelay(
+  policy: RetryPolicy,
+  attemptsMade: number
+): number {
+  const step = Math.max(1, attemptsMade);
+  let delay = policy.baseDelayMs;
+  if (policy.backoff === "linear") {
+    delay = policy.baseDelayMs * step;
+  } else if (policy.backoff === "exponential") {
+    delay = policy.baseDelayMs * 2 ** (step - 1);
+  }
+  return Math.min(delay, MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * Only network errors and 5xx responses are retried — a 4xx means the local
+ * handler deliberately rejected the request and a resend would not help.
+ */
+export function isRetryableFailure(responseStatus: number | null): boolean {
+  return responseStatus === null || responseStatus >= 500;
+}
@@ -0,0 +1,229 @@
+export type VerifierProvider = "stripe" | "github" | "slack" | "svix";
+
+export type SignatureStatus = "verified" | "invalid" | "missing";
+
+export interface SignatureResult {
+  error: string | null;
+  status: SignatureStatus;
+}
+
+/** Max clock skew accepted for timestamped signatures (Stripe, Slack, Svix) */
+const TIMESTAMP_TOLERANCE_SECONDS = 5 * 60;
+
+const encoder = new TextEncoder();
+
+/**
+ * HMAC-SHA256 over `prefix` followed by the raw body bytes. The body is
+ * never decoded, so binary payloads verify exactly as sent.
+ */
+async function hmacSha256(
+  key: string | Uint8Array,
+  prefix: string,
+  body: Uint8Array
+): Promise<Uint8Array> {
+  const keyBytes = typeof key === "string" ? encoder.encode(key) : key;
+  const cryptoKey = await crypto.subtle.importKey(
+    "raw",
+    keyBytes,
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const prefixBytes = encoder.encode(prefix);
+  const payload = new Uint8Array(prefixBytes.byteLength + body.byteLength);
+  payload.set(prefixBytes);
+  payload.set(body, prefixBytes.byteLength);
+  const signature = await crypto.subtle.sign("HMAC", cryptoKey, payload);
+  return new Uint8Array(signature);
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function fromBase64(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), (c) => c.charCodeAt(0));
+}
+
+/** Constant-time string comparison via the Workers crypto extension */
+function timingSafeEqual(a: string, b: string): boolean {
+  const aBytes = encoder.encode(a);
+  const bBytes = encoder.encode(b);
+  if (aBytes.byteLength !== bBytes.byteLength) {
+    return false;
+  }
+  return crypto.subtle.timingSafeEqual(aBytes, bBytes);
+}
+
+function isWithinTolerance(timestampSeconds: number, now: number): boolean {
+  return (
+    Number.isFinite(timestampSeconds) &&
+    Math.abs(now / 1000 - timestampSeconds) <= TIMESTAMP_TOLERANCE_SECONDS
+  );
+}
+
+const missing = (error: string): SignatureResult => ({
+  status: "missing",
+  error,
+});
+const invalid = (error: string): SignatureResult => ({
+  status: "invalid",
+  error,
+});
+const verified: SignatureResult = { status: "verified", error: null };
+
+/**
+ * Stripe-Signature: `t=<ts>,v1=<hex>[,v1=<hex>]` over `<ts>.<body>`.
+ */
+async function verifyStripe(
+  headers: Headers,
+  body: Uint8Array,
+  secret: string,
+  now: number
+): Promise<SignatureResult> {
+  const header = headers.get("stripe-signature");
+  if (!header) {
+    return missing("Missing Stripe-Signature header");
+  }
+
+  let timestamp: string | null = null;
+  const signatures: string[] = [];
+  for (const part of header.split(",")) {
+    const [key, value] = part.split("=", 2);
+    if (key === "t" && value) {
+      timestamp = value;
+    } else if (key === "v1" && value) {
+      signatures.push(value);
+    }
+  }
+
+  if (!timestamp || signatures.length === 0) {
+    return invalid("Malformed Stripe-Signature header");
+  }
+  if (!isWithinTolerance(Number(timestamp), now)) {
+    return invalid("Timestamp outside tolerance");
+  }
+
+  const expected = toHex(await hmacSha256(secret, `${timestamp}.`, body));
+  return signatures.some((s) => timingSafeEqual(s, expected))
+    ? verified
+    : invalid("Signature mismatch");
+}
+
+/**
+ * X-Hub-Signature-256: `sha256=<hex>` over the raw body. GitHub does not sign a timestamp.
+ */
+async function verifyGitHub(
+  headers: Headers,
+  body: Uint8Array,
+  secret: string
+): Promise<SignatureResult> {
+  const header = headers.get("x-hub-signature-256");
+  if (!header) {
+    return missing("Missing X-Hub-Signature-256 header");
+  }
+  if (!header.startsWith("sha256=")) {
+    return invalid("Malformed X-Hub-Signature-256 header");
+  }
+
+  const expected = `sha256=${toHex(await hmacSha256(secret, "", body))}`;
+  return timingSafeEqual(header, expected)
+    ? verified
+    : invalid("Signature mismatch");
+}
+
+/**
+ * X-Slack-Signature: `v0=<hex>` over `v0:<X-Slack-Request-Timestamp>:<body>`.
+ */
+async function verifySlack(
+  headers: Headers,
+  body: Uint8Array,
+  secret: string,
+  now: number
+): Promise<SignatureResult> {
+  const header = headers.get("x-slack-signature");
+  const timestamp = headers.get("x-slack-request-timestamp");
+  if (!(header && timestamp)) {
+    return missing("Missing X-Slack-Signature or X-Slack-Request-Timestamp");
+  }
+  if (!isWithinTolerance(Number(timestamp), now)) {
+    return invalid("Timestamp outside tolerance");
+  }
+
+  const expected = `v0=${toHex(await hmacSha256(secret, `v0:${timestamp}:`, body))}`;
+  return timingSafeEqual(header, expected)
+    ? verified
+    : invalid("Signature mismatch");
+}
+
+/**
+ * Svix / Standard Webhooks: `v1,<base64>` entries over `<id>.<ts>.<body>`.
+ * Accepts both `svix-*` and `webhook-*` header names; the secret may carry
+ * the `whsec_` prefix, in which case the remainder is base64-encoded.
+ */
+async function verifySvix(
+  headers: Headers,
+  body: Uint8Array,
+  secret: string,
+  now: number
+): Promise<SignatureResult> {
+  const id = headers.get("svix-id") ?? headers.get("webhook-id");
+  const timestamp =
+    headers.get("svix-timestamp") ?? headers.get("webhook-timestamp");
+  const header =
+    headers.get("svix-signature") ?? headers.get("webhook-signature");
+  if (!(id && timestamp && header)) {
+    return missing("Missing svix-id, svix-timestamp or svix-signature");
+  }
+  if (!isWithinTolerance(Number(timestamp), now)) {
+    return invalid("Timestamp outside tolerance");
+  }
+
+  let key: Uint8Array;
+  try {
+    key = secret.startsWith("whsec_")
+      ? fromBase64(secret.slice("whsec_".length))
+      : encoder.encode(secret);
+  } catch {
+    return invalid("Secret is not valid base64");
+  }
+
+  const expected = toBase64(await hmacSha256(key, `${id}.${timestamp}.`, body));
+  const signatures = header
+    .split(" ")
+    .filter((entry) => entry.startsWith("v1,"))
+    .map((entry) => entry.slice("v1,".length));
+
+  return signatures.some((s) => timingSafeEqual(s, expected))
+    ? verified
+    : invalid("Signature mismatch");
+}
+
+/**
+ * Verify an inbound webhook against the provider's signature scheme.
+ * `body` must be the raw request body bytes exactly as received.
+ */
+export function verifySignature(
+  provider: VerifierProvider,
+  secret: string,
+  headers: Headers,
+  body: Uint8Array,
+  now = Date.now()
+): Promise<SignatureResult> {
+  switch (provider) {
+    case "stripe":
+      return verifyStripe(headers, body, secret, now);
+    case "github":
+      return verifyGitHub(headers, body, secret);
+    case "slack":
+      return verifySlack(headers, body, secret, now);
+    case "svix":
+      return verifySvix(headers, body, secret, now);
+    default:
+      return Promise.resolve(invalid("Unknown provider"));
+  }
+}
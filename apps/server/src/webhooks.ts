@@ -1,200 +1,230 @@
-import { auth } from "@tunnelhook/auth";
+import { endpointRole, roleAllows } from "@tunnelhook/api/authz";
+import {
+  blobKeyForEvent,
+  decodeInlineBody,
+  getBlobStore,
+  sha256Hex,
+} from "@tunnelhook/api/blobs";
+import { type ClientInfo, resolveClientInfo } from "@tunnelhook/api/client-ip";
+import {
+  broadcastAndAwaitReport,
+  broadcastToMachines,
+  type DispatchEvent,
+  forwardToUrl,
+  getEndpointDO,
+  type LocalDeliveryReport,
+} from "@tunnelhook/api/dispatch";
+import { allowlistBlockReason } from "@tunnelhook/api/ip-allowlist";
+import { recordEventMetric } from "@tunnelhook/api/metrics";
+import {
+  authenticateRequest,
+  grantCoversEndpoint,
+} from "@tunnelhook/api/tokens";
 import { db } from "@tunnelhook/db";
-import { delivery, endpoint, event, machine } from "@tunnelhook/db/schema";
-import { env } from "@tunnelhook/env/server";
+import { endpoint, event, machine } from "@tunnelhook/db/schema";
 import { and, eq } from "drizzle-orm";
 import type { Context } from "hono";
+import type { RateLimitCheck, RateLimitResult } from "./rate-limit";
+import {
+  buildResponse,
+  type RenderedResponse,
+  toHttpResponse,
+} from "./responses";
+import { type SignatureResult, verifySignature } from "./signatures";
 
-import type { EndpointDO } from "./endpoint-do";
+/**
+ * Deferred processing: broadcast event to machines and optionally forward to a static URL.
+ * Runs inside `waitUntil` so it does not block the webhook response.
+ */
+async function processBroadcastAndForward(
+  ep: { id: string; forwardUrl: string | null },
+  eventData: DispatchEvent
+): Promise<void> {
+  try {
+    await broadcastToMachines(ep.id, eventData);
+  } catch (err) {
+    console.error("Failed to broadcast to DO:", err);
+  }
 
-const HEADERS_TO_STRIP = new Set([
-  // Sensitive headers that could leak credentials
-  "authorization",
-  "cookie",
-  "set-cookie",
-  // Hop-by-hop headers
-  "connection",
-  "keep-alive",
-  "transfer-encoding",
-  "te",
-  "trailer",
-  "upgrade",
-  "proxy-authorization",
-  "proxy-connection",
-  // Cloudflare-specific internal headers
-  "cf-connecting-ip",
-  "cf-ray",
-  "cf-ipcountry",
-  "cf-visitor",
-  "cf-worker",
-  "x-forwarded-for",
-  "x-forwarded-proto",
-  "x-real-ip",
-]);
+  if (ep.forwardUrl) {
+    await forwardToUrl(ep, ep.forwardUrl, eventData);
+  }
+}
+
+/** Count the request in the endpoint's metrics after the response is sent */
+function countRequest(c: Context, endpointId: string, blocked: boolean): void {
+  c.executionCtx.waitUntil(
+    recordEventMetric(endpointId, blocked).catch((err) => {
+      console.error("Failed to record event metrics:", err);
+    })
+  );
+}
 
-interface BroadcastParams {
-  body: string | null;
-  contentType: string | null;
-  createdAt: string;
-  endpointId: string;
-  eventId: string;
-  headers: string;
-  method: string;
-  query: string | null;
-  sourceIp: string | null;
+/** Put a body that cannot be kept inline in D1 into the blob store */
+async function storeBodyBlob(
+  endpointId: string,
+  eventId: string,
+  bytes: Uint8Array<ArrayBuffer>,
+  contentType: string | null
+): Promise<{ bodyBlobKey: string; bodySha256: string }> {
+  const bodyBlobKey = blobKeyForEvent(endpointId, eventId);
+  const bodySha256 = await sha256Hex(bytes);
+  await getBlobStore().put(bodyBlobKey, bytes, contentType);
+  return { bodyBlobKey, bodySha256 };
 }
 
 /**
- * Helper to get the Durable Object stub for an endpoint.
+ * Ask the endpoint's DO whether the request fits the endpoint and per-IP
+ * rate limits. Fails open: a DO error must not drop webhooks.
  */
-function getEndpointDO(endpointId: string): DurableObjectStub<EndpointDO> {
-  const doId = env.ENDPOINT_DO.idFromName(endpointId);
-  return env.ENDPOINT_DO.get(doId) as DurableObjectStub<EndpointDO>;
+async function checkRateLimit(
+  ep: {
+    id: string;
+    rateLimitBurst: number;
+    rateLimitPerMinute: number;
+    rateLimitIpBurst: number;
+    rateLimitIpPerMinute: number;
+  },
+  ip: string | null
+): Promise<RateLimitResult> {
+  const check: RateLimitCheck = {
+    endpoint: { burst: ep.rateLimitBurst, perMinute: ep.rateLimitPerMinute },
+    ip,
+    perIp: { burst: ep.rateLimitIpBurst, perMinute: ep.rateLimitIpPerMinute },
+  };
+  try {
+    const response = await getEndpointDO(ep.id).fetch("http://do/rate-limit", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(check),
+    });
+    if (response.ok) {
+      return (await response.json()) as RateLimitResult;
+    }
+  } catch (err) {
+    console.error("Failed to check rate limit:", err);
+  }
+  return { allowed: true, retryAfterS: 0 };
 }
 
 /**
- * Create delivery records and broadcast an event to connected machines via DO.
+ * Log a request rejected by the IP allowlist as a blocked event, so a
+ * misconfigured list can be debugged. The body is neither read nor stored:
+ * blocked senders must not be able to fill the endpoint's storage.
  */
-async function broadcastToMachines(params: BroadcastParams): Promise<void> {
-  const machines = await db.query.machine.findMany({
-    where: eq(machine.endpointId, params.endpointId),
+async function recordBlockedRequest(
+  c: Context,
+  endpointId: string,
+  client: ClientInfo,
+  reason: string
+): Promise<Response> {
+  const url = new URL(c.req.url);
+  await db.insert(event).values({
+    id: crypto.randomUUID(),
+    endpointId,
+    method: c.req.method,
+    headers: JSON.stringify(Object.fromEntries(c.req.raw.headers.entries())),
+    body: null,
+    path: url.pathname.slice(`/hooks/${c.req.param("slug")}`.length) || null,
+    query: url.search || null,
+    sourceIp: client.ip,
+    sourceCountry: client.country,
+    sourceAsn: client.asn,
+    sourceAsOrganization: client.asOrganization,
+    contentType: c.req.header("content-type") ?? null,
+    blockedReason: reason,
   });
+  countRequest(c, endpointId, true);
+  return c.json({ error: "Forbidden" }, 403);
+}
 
-  if (machines.length === 0) {
-    return;
+/**
+ * Rate limit and IP allowlist checks, run before the body is read so floods
+ * cost as little as possible. Returns the response for a rejected request,
+ * or null to accept it.
+ */
+async function screenRequest(
+  c: Context,
+  ep: typeof endpoint.$inferSelect,
+  client: ClientInfo
+): Promise<Response | null> {
+  const limit = await checkRateLimit(ep, client.ip);
+  if (!limit.allowed) {
+    c.header("Retry-After", String(limit.retryAfterS));
+    return c.json({ error: "Rate limit exceeded" }, 429);
   }
 
-  // Create delivery records for each machine (status: pending)
-  const deliveryRecords = machines.map((m) => ({
-    id: crypto.randomUUID(),
-    machineId: m.id,
-  }));
-
-  // Batch insert delivery records
-  await db.insert(delivery).values(
-    deliveryRecords.map((d) => ({
-      id: d.id,
-      eventId: params.eventId,
-      machineId: d.machineId,
-      status: "pending" as const,
-    }))
-  );
-
-  // Build the deliveries map: machineId -> deliveryId
-  const deliveriesMap: Record<string, string> = {};
-  for (const d of deliveryRecords) {
-    deliveriesMap[d.machineId] = d.id;
+  const blockedReason = allowlistBlockReason(ep, client.ip);
+  if (blockedReason) {
+    return recordBlockedRequest(c, ep.id, client, blockedReason);
   }
+  return null;
+}
 
-  // Call the DO to fan out the event to connected machines
-  const stub = getEndpointDO(params.endpointId);
-  const doResponse = await stub.fetch(
-    new Request("http://do/broadcast", {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        eventId: params.eventId,
-        method: params.method,
-        headers: params.headers,
-        body: params.body,
-        query: params.query,
-        sourceIp: params.sourceIp,
-        contentType: params.contentType,
-        createdAt: params.createdAt,
-        deliveries: deliveriesMap,
-      }),
-    })
-  );
+/**
+ * Headers from the local server that must not be relayed: the body was already
+ * decoded by the CLI's fetch, and framing is set by the Workers runtime.
+ */
+const RELAY_HEADERS_TO_DROP = new Set([
+  "connection",
+  "content-encoding",
+  "content-length",
+  "keep-alive",
+  "transfer-encoding",
+]);
 
-  if (!doResponse.ok) {
-    console.error(
-      `DO broadcast failed: ${doResponse.status} ${await doResponse.text()}`
-    );
-  }
+function relayableHeaders(
+  headers: Record<string, string> | null | undefined
+): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(headers ?? {}).filter(
+      ([key]) => !RELAY_HEADERS_TO_DROP.has(key.toLowerCase())
+    )
+  );
 }
 
 /**
- * Deferred processing: broadcast event to machines and optionally forward to a static URL.
- * Runs inside `waitUntil` so it does not block the webhook response.
+ * Local response mode: wait for the first machine's local server to answer and
+ * relay its status, headers and body to the caller. Falls back to the configured
+ * response when no machine is connected, the local request failed, or the
+ * wait times out.
  */
-async function processBroadcastAndForward(
-  ep: { id: string; forwardUrl: string | null },
-  eventData: {
-    id: string;
-    method: string;
-    headers: Record<string, string>;
-    body: string | null;
-    query: string | null;
-    sourceIp: string | null;
-    contentType: string | null;
-    createdAt: string;
+async function relayLocalResponse(
+  c: Context,
+  ep: { id: string; forwardUrl: string | null; responseTimeoutMs: number },
+  eventData: DispatchEvent,
+  fallback: RenderedResponse
+): Promise<Response> {
+  if (ep.forwardUrl) {
+    c.executionCtx.waitUntil(forwardToUrl(ep, ep.forwardUrl, eventData));
   }
-): Promise<void> {
+
+  let report: LocalDeliveryReport | null = null;
   try {
-    await broadcastToMachines({
-      endpointId: ep.id,
-      eventId: eventData.id,
-      method: eventData.method,
-      headers: JSON.stringify(eventData.headers),
-      body: eventData.body,
-      query: eventData.query,
-      sourceIp: eventData.sourceIp,
-      contentType: eventData.contentType,
-      createdAt: eventData.createdAt,
-    });
+    report = await broadcastAndAwaitReport(
+      ep.id,
+      eventData,
+      ep.responseTimeoutMs
+    );
   } catch (err) {
     console.error("Failed to broadcast to DO:", err);
   }
 
-  if (ep.forwardUrl) {
-    const startTime = Date.now();
-    try {
-      const forwardHeaders: Record<string, string> = {};
-      for (const [key, value] of Object.entries(eventData.headers)) {
-        if (!HEADERS_TO_STRIP.has(key.toLowerCase())) {
-          forwardHeaders[key] = value;
-        }
-      }
-
-      const forwardResponse = await fetch(ep.forwardUrl, {
-        method: eventData.method,
-        headers: {
-          ...forwardHeaders,
-          host: new URL(ep.forwardUrl).host,
-          "x-tunnelhook-event-id": eventData.id,
-          "x-tunnelhook-endpoint-id": ep.id,
-        },
-        body:
-          eventData.method !== "GET" && eventData.method !== "HEAD"
-            ? eventData.body
-            : undefined,
-      });
-
-      const duration = Date.now() - startTime;
-      await db
-        .update(event)
-        .set({
-          forwardStatus: forwardResponse.status,
-          forwardDuration: duration,
-        })
-        .where(eq(event.id, eventData.id));
-    } catch (err) {
-      const duration = Date.now() - startTime;
-      await db
-        .update(event)
-        .set({
-          forwardError: err instanceof Error ? err.message : "Unknown error",
-          forwardDuration: duration,
-        })
-        .where(eq(event.id, eventData.id));
-    }
+  if (!report || report.responseStatus === null) {
+    return toHttpResponse(fallback);
   }
+  return toHttpResponse({
+    status: report.responseStatus,
+    headers: relayableHeaders(report.responseHeaders),
+    body: report.responseBody,
+  });
 }
 
 /**
  * Handle incoming webhook requests at POST/GET/PUT/PATCH/DELETE /hooks/:slug
  * Captures the full request, stores it, broadcasts to connected machines via DO,
- * and optionally forwards via static forwardUrl.
+ * and optionally forwards via static forwardUrl. Answers with the endpoint's
+ * configured response so provider handshakes (Slack, Twilio, MS Graph) succeed.
  */
 export async function handleWebhook(c: Context): Promise<Response> {
   const slug = c.req.param("slug");
@@ -211,25 +241,53 @@ export async function handleWebhook(c: Context): Promise<Response> {
     return c.json({ error: "Endpoint is disabled" }, 403);
   }
 
+  const client = resolveClientInfo(c.req.raw);
+  const rejected = await screenRequest(c, ep, client);
+  if (rejected) {
+    return rejected;
+  }
+
   // Capture request data
   const method = c.req.method;
   const headers = Object.fromEntries(c.req.raw.headers.entries());
   const contentType = c.req.header("content-type") ?? null;
   const url = new URL(c.req.url);
   const query = url.search || null;
-  const sourceIp =
-    c.req.header("x-forwarded-for") ?? c.req.header("cf-connecting-ip") ?? null;
+  // Anything after /hooks/:slug is kept so machines can route on it
+  const path = url.pathname.slice(`/hooks/${slug}`.length) || null;
+  const sourceIp = client.ip;
 
-  let body: string | null = null;
+  let bytes = new Uint8Array(0);
   try {
-    body = await c.req.text();
+    bytes = new Uint8Array(await c.req.arrayBuffer());
   } catch {
     // No body
   }
+  // Large, binary or non-UTF-8 bodies go to the blob store instead of D1
+  const body = decodeInlineBody(bytes, contentType);
+
+  // Verify the provider signature when the endpoint has a verifier configured
+  let signature: SignatureResult | null = null;
+  if (ep.verifierProvider && ep.verifierSecret) {
+    signature = await verifySignature(
+      ep.verifierProvider,
+      ep.verifierSecret,
+      c.req.raw.headers,
+      bytes
+    );
+    if (signature.status !== "verified" && ep.verifierRejectInvalid) {
+      return c.json({ error: "Invalid signature" }, 401);
+    }
+  }
 
   const id = crypto.randomUUID();
   const now = new Date();
 
+  const { bodyBlobKey, bodySha256 } =
+    body === null
+      ? await storeBodyBlob(ep.id, id, bytes, contentType)
+      : { bodyBlobKey: null, bodySha256: null };
+
   // Store the event
   await db.insert(event).values({
     id,
@@ -237,42 +295,75 @@ export async function handleWebhook(c: Context): Promise<Response> {
     method,
     headers: JSON.stringify(headers),
     body,
+    bodyBlobKey,
+    bodySize: bytes.byteLength,
+    bodySha256,
+    path,
     query,
     sourceIp,
+    sourceCountry: client.country,
+    sourceAsn: client.asn,
+    sourceAsOrganization: client.asOrganization,
     contentType,
+    signatureStatus: signature?.status ?? null,
+    signatureError: signature?.error ?? null,
   });
+  countRequest(c, ep.id, false);
 
-  // Defer broadcast and forward operations to run after response is sent
-  c.executionCtx.waitUntil(
-    processBroadcastAndForward(ep, {
-      id,
+  const eventData: DispatchEvent = {
+    id,
+    method,
+    headers,
+    body,
+    bodyBlob: bodySha256
+      ? { sha256: bodySha256, size: bytes.byteLength }
+      : null,
+    path,
+    query,
+    sourceIp,
+    contentType,
+    signatureStatus: signature?.status ?? null,
+    createdAt: now.toISOString(),
+  };
+
+  // The endpoint's configured response (202 JSON by default)
+  const configured = buildResponse(
+    {
+      preset: ep.responsePreset,
+      status: ep.responseStatus,
+      headers: ep.responseHeaders,
+      body: ep.responseBody,
+    },
+    {
+      eventId: id,
+      endpointId: ep.id,
       method,
       headers,
       body,
+      path,
       query,
-      sourceIp,
       contentType,
-      createdAt: now.toISOString(),
-    })
+    }
   );
 
+  if (ep.responseMode === "local") {
+    return relayLocalResponse(c, ep, eventData, configured);
+  }
+
+  // Defer broadcast and forward operations to run after response is sent
+  c.executionCtx.waitUntil(processBroadcastAndForward(ep, eventData));
+
   // Return immediately — processing continues in the background
-  return c.json(
-    {
-      success: true,
-      eventId: id,
-      endpointId: ep.id,
-    },
-    202
-  );
+  return toHttpResponse(configured);
 }
 
 /**
  * Handle WebSocket upgrade requests for machines and viewers.
  * GET /hooks/:slug/ws?role=machine|viewer&machineId=X&machineName=Y
  *
- * Authentication is done via session cookies (same as the rest of the app).
- * For machine connections, a machine record must already exist in D1.
+ * Authentication is done via session cookies (same as the rest of the app) or
+ * an API token. Machine connections need a "full" or "listen" token, and a
+ * machine record must already exist in D1.
  */
 export async function handleWebSocketUpgrade(c: Context): Promise<Response> {
   const slug = c.req.param("slug");
@@ -286,17 +377,16 @@ export async function handleWebSocketUpgrade(c: Context): Promise<Response> {
     return c.json({ error: "Endpoint not found" }, 404);
   }
 
-  // Authenticate the user via Better-Auth session
-  const session = await auth.api.getSession({
-    headers: c.req.raw.headers,
-  });
+  // Authenticate the user via API token or Better-Auth session
+  const caller = await authenticateRequest(c.req.raw.headers);
 
-  if (!session?.user) {
+  if (!caller) {
     return c.json({ error: "Unauthorized" }, 401);
   }
 
-  // Verify the user owns this endpoint
-  if (ep.userId !== session.user.id) {
+  // Verify the user can see this endpoint and any token covers it
+  const access = await endpointRole(caller.user.id, ep);
+  if (!(access && grantCoversEndpoint(caller.grant, ep.id))) {
     return c.json({ error: "Forbidden" }, 403);
   }
 
@@ -305,6 +395,22 @@ export async function handleWebSocketUpgrade(c: Context): Promise<Response> {
     return c.json({ error: "Missing or invalid role query parameter" }, 400);
   }
 
+  // Viewers of an organization may watch events but not receive them
+  if (role === "machine" && !roleAllows(access, "listen")) {
+    return c.json(
+      { error: `Your ${access} role does not allow listening` },
+      403
+    );
+  }
+
+  // Read-only tokens may watch events but not receive them as a machine
+  if (role === "machine" && caller.grant?.scope === "read") {
+    return c.json(
+      { error: "This token's scope does not allow listening" },
+      403
+    );
+  }
+
   let machineId: string | undefined;
   let machineName: string | undefined;
 
@@ -321,7 +427,7 @@ export async function handleWebSocketUpgrade(c: Context): Promise<Response> {
       where: and(
         eq(machine.id, machineId),
         eq(machine.endpointId, ep.id),
-        eq(machine.userId, session.user.id)
+        eq(machine.userId, caller.user.id)
       ),
     });
 
@@ -343,7 +449,7 @@ export async function handleWebSocketUpgrade(c: Context): Promise<Response> {
 
   const doUrl = new URL("http://do/websocket");
   doUrl.searchParams.set("role", role);
-  doUrl.searchParams.set("userId", session.user.id);
+  doUrl.searchParams.set("userId", caller.user.id);
   if (machineId) {
     doUrl.searchParams.set("machineId", machineId);
   }
@@ -358,3 +464,52 @@ export async function handleWebSocketUpgrade(c: Context): Promise<Response> {
     },
   });
 }
+
+/**
+ * Download a captured request body byte-exact.
+ * GET /events/:eventId/body[?download=1]
+ *
+ * Blob-stored bodies are streamed from the blob store; inline bodies are
+ * served from D1. Used by machines to fetch large or binary payloads and by
+ * the dashboard's download button.
+ */
+export async function handleEventBody(c: Context): Promise<Response> {
+  const caller = await authenticateRequest(c.req.raw.headers);
+  if (!caller) {
+    return c.json({ error: "Unauthorized" }, 401);
+  }
+
+  const ev = await db.query.event.findFirst({
+    where: eq(event.id, c.req.param("eventId")),
+  });
+  const ep = ev
+    ? await db.query.endpoint.findFirst({
+        where: eq(endpoint.id, ev.endpointId),
+      })
+    : undefined;
+  const access = ep ? await endpointRole(caller.user.id, ep) : null;
+  if (!(ev && ep && access && grantCoversEndpoint(caller.grant, ep.id))) {
+    return c.json({ error: "Event not found" }, 404);
+  }
+
+  const headers: Record<string, string> = {
+    "Content-Type": ev.contentType ?? "application/octet-stream",
+  };
+  if (c.req.query("download")) {
+    headers["Content-Disposition"] = `attachment; filename="${ev.id}.bin"`;
+  }
+  if (ev.bodySha256) {
+    headers["x-tunnelhook-body-sha256"] = ev.bodySha256;
+  }
+
+  if (!ev.bodyBlobKey) {
+    return new Response(ev.body ?? "", { headers });
+  }
+
+  const blob = await getBlobStore().get(ev.bodyBlobKey);
+  if (!blob) {
+    return c.json({ error: "Body no longer available" }, 404);
+  }
+  headers["Content-Length"] = String(blob.size);
+  return new Response(blob.body, { headers });
+}
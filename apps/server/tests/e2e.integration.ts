@@ -1,13 +1,20 @@
+import { createEmailVerificationToken } from "better-auth/api";
+
 const SERVER_URL = process.env.E2E_SERVER_URL ?? "http://localhost:3002";
 const TEST_PASSWORD = process.env.E2E_TEST_PASSWORD ?? "Password123!";
-
-export {};
+/** The server's auth secret, used to mint email verification links */
+const AUTH_SECRET = process.env.BETTER_AUTH_SECRET ?? "";
 
 interface EndpointRecord {
   id: string;
   slug: string;
 }
 
+interface EndpointMetricsRecord {
+  series: Array<{ received: number }>;
+  totals: { errorRate: number | null; received: number };
+}
+
 interface MachineRecord {
   id: string;
   name: string;
@@ -18,8 +25,10 @@ interface WebhookResponse {
 }
 
 interface WebhookMessage {
+  attempt: number;
   deliveryId: string;
   eventId: string;
+  path: string | null;
   type: "webhook";
 }
 
@@ -158,6 +167,24 @@ async function rpc<T>(
   return payload.json ?? (payload as T);
 }
 
+/** Call a procedure with session cookies; returns the status so denials can be asserted */
+async function rpcStatus(
+  path: string,
+  input: unknown,
+  cookies: string
+): Promise<number> {
+  const response = await fetch(`${SERVER_URL}/rpc/${path}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Cookie: cookies,
+    },
+    body: JSON.stringify({ json: input }),
+  });
+  await response.body?.cancel();
+  return response.status;
+}
+
 function connectWebSocket(params: {
   cookies: string;
   machineId?: string;
@@ -375,6 +402,195 @@ async function runMachineFlowTest(): Promise<void> {
 
   await waitForDeliveryPersisted(webhookMessage.eventId, cookies);
 
+  const replayMessagePromise = waitForWsMessage<WebhookMessage>(
+    machineWs,
+    (message) =>
+      message.type === "webhook" &&
+      message.eventId === webhookMessage.eventId &&
+      message.deliveryId !== webhookMessage.deliveryId
+  );
+
+  const replayResult = await rpc<{ deliveries: number; forwarded: boolean }>(
+    "events/replay",
+    {
+      id: webhookMessage.eventId,
+      target: { type: "machine", machineId: machine.id },
+    },
+    cookies
+  );
+
+  ensureEqual(
+    replayResult.deliveries,
+    1,
+    "Replay should create one delivery for the targeted machine"
+  );
+
+  const replayMessage = await replayMessagePromise;
+  ensure(
+    replayMessage.deliveryId.length > 0,
+    "Replayed event should carry a fresh delivery ID"
+  );
+
+  // Events received while the machine is offline are queued until it reconnects
+  machineWs.close();
+  await sleep(500);
+
+  const queuedResponse = await sendWebhook(`${endpoint.slug}/offline/queue`, {
+    event: "machine.e2e.offline",
+    timestamp: Date.now(),
+  });
+
+  const reconnectedWs = await connectWebSocket({
+    cookies,
+    machineId: machine.id,
+    machineName: machine.name,
+    role: "machine",
+    slug: endpoint.slug,
+  });
+
+  const queuedMessage = await waitForWsMessage<WebhookMessage>(
+    reconnectedWs,
+    (message) =>
+      message.type === "webhook" && message.eventId === queuedResponse.eventId
+  );
+  ensure(
+    queuedMessage.deliveryId.length > 0,
+    "Queued event should be drained to the reconnecting machine"
+  );
+  ensureEqual(
+    queuedMessage.path,
+    "/offline/queue",
+    "Sub-path under the webhook URL should be kept on the event"
+  );
+
+  reconnectedWs.close();
+  await rpc("machines/delete", { id: machine.id }, cookies);
+  await rpc("endpoints/delete", { id: endpoint.id }, cookies);
+}
+
+/** Report a failed local delivery the way the CLI does: over the socket and the API */
+async function reportFailedDelivery(
+  ws: WebSocket,
+  message: WebhookMessage,
+  cookies: string
+): Promise<void> {
+  const report = {
+    deliveryId: message.deliveryId,
+    status: "failed",
+    responseStatus: 503,
+    responseBody: "unavailable",
+    error: null,
+    duration: 12,
+  };
+  ws.send(
+    JSON.stringify({
+      type: "delivery-report",
+      eventId: message.eventId,
+      ...report,
+    })
+  );
+  await rpc("machines/reportDelivery", report, cookies);
+}
+
+async function runRetryTest(): Promise<void> {
+  const cookies = await createAuthenticatedSession("retry-e2e");
+  const baseDelayMs = 1000;
+
+  const endpoint = await rpc<EndpointRecord>(
+    "endpoints/create",
+    {
+      name: "Retry E2E Endpoint",
+      slug: `retry-e2e-${Date.now()}`,
+      retryMaxAttempts: 3,
+      retryBackoff: "exponential",
+      retryBaseDelayMs: baseDelayMs,
+    },
+    cookies
+  );
+  const machine = await rpc<MachineRecord>(
+    "machines/register",
+    {
+      endpointId: endpoint.id,
+      forwardUrl: "http://localhost:9999/retry-e2e",
+      name: `retry-e2e-${Date.now()}`,
+    },
+    cookies
+  );
+  const machineWs = await connectWebSocket({
+    cookies,
+    machineId: machine.id,
+    machineName: machine.name,
+    role: "machine",
+    slug: endpoint.slug,
+  });
+  await sleep(500);
+
+  const firstPromise = waitForWsMessage<WebhookMessage>(
+    machineWs,
+    (message) => message.type === "webhook"
+  );
+  await sendWebhook(endpoint.slug, { event: "retry.e2e" });
+  let message = await firstPromise;
+  const { deliveryId } = message;
+  ensureEqual(message.attempt, 1, "The first send is attempt 1");
+
+  // Exponential backoff: 1x then 2x the base delay
+  for (const [attempt, expectedDelayMs] of [
+    [2, baseDelayMs],
+    [3, baseDelayMs * 2],
+  ] as const) {
+    const retryPromise = waitForWsMessage<WebhookMessage>(
+      machineWs,
+      (m) => m.type === "webhook" && m.attempt === attempt
+    );
+    const reportedAt = Date.now();
+    await reportFailedDelivery(machineWs, message, cookies);
+    message = await retryPromise;
+    const waitedMs = Date.now() - reportedAt;
+
+    ensureEqual(message.deliveryId, deliveryId, "Retries reuse the delivery");
+    ensure(
+      waitedMs >= expectedDelayMs,
+      `Attempt ${attempt} should wait ${expectedDelayMs}ms, came after ${waitedMs}ms`
+    );
+    const resent = await rpc<{ status: string }>(
+      "deliveries/get",
+      { id: deliveryId },
+      cookies
+    );
+    ensureEqual(resent.status, "pending", "A resent delivery is pending again");
+  }
+
+  // The third failure uses up retryMaxAttempts: nothing more is sent
+  const extraPromise = waitForWsMessage<WebhookMessage>(
+    machineWs,
+    (m) => m.type === "webhook" && m.attempt === 4,
+    baseDelayMs * 6
+  ).then(
+    () => true,
+    () => false
+  );
+  await reportFailedDelivery(machineWs, message, cookies);
+  ensure(!(await extraPromise), "No retry after the last attempt");
+
+  const attempts = await rpc<Array<{ attempt: number; status: string }>>(
+    "deliveries/listAttempts",
+    { deliveryId },
+    cookies
+  );
+  ensureEqual(attempts.length, 3, "Every attempt should be recorded");
+  ensureEqual(
+    attempts.map((a) => a.attempt).join(","),
+    "1,2,3",
+    "Attempts are numbered in order"
+  );
+  const final = await rpc<{ status: string }>(
+    "deliveries/get",
+    { id: deliveryId },
+    cookies
+  );
+  ensureEqual(final.status, "failed", "The delivery ends up failed");
+
   machineWs.close();
   await rpc("machines/delete", { id: machine.id }, cookies);
   await rpc("endpoints/delete", { id: endpoint.id }, cookies);
@@ -503,9 +719,1446 @@ async function runViewerFlowTest(): Promise<void> {
   await rpc("endpoints/delete", { id: endpoint.id }, cookies);
 }
 
+async function signGitHubPayload(
+  secret: string,
+  body: string
+): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = new Uint8Array(
+    await crypto.subtle.sign("HMAC", key, encoder.encode(body))
+  );
+  const hex = Array.from(signature, (b) => b.toString(16).padStart(2, "0"));
+  return `sha256=${hex.join("")}`;
+}
+
+async function runSignatureVerificationTest(): Promise<void> {
+  const cookies = await createAuthenticatedSession("signature-e2e");
+  const secret = "e2e-github-secret";
+
+  const endpoint = await rpc<EndpointRecord>(
+    "endpoints/create",
+    {
+      name: "Signature E2E Endpoint",
+      slug: `signature-e2e-${Date.now()}`,
+      verifierProvider: "github",
+      verifierSecret: secret,
+      verifierRejectInvalid: true,
+    },
+    cookies
+  );
+
+  const body = JSON.stringify({ action: "opened" });
+
+  const unsigned = await fetch(`${SERVER_URL}/hooks/${endpoint.slug}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body,
+  });
+  ensureEqual(
+    unsigned.status,
+    401,
+    "Unsigned request should be rejected when the verifier requires it"
+  );
+
+  const signed = await fetch(`${SERVER_URL}/hooks/${endpoint.slug}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "X-Hub-Signature-256": await signGitHubPayload(secret, body),
+    },
+    body,
+  });
+  ensureEqual(signed.status, 202, "Signed request should be accepted");
+
+  const { eventId } = (await signed.json()) as WebhookResponse;
+  const stored = await rpc<{ signatureStatus: string | null }>(
+    "events/get",
+    { id: eventId },
+    cookies
+  );
+  ensureEqual(
+    stored.signatureStatus,
+    "verified",
+    "Event should record a verified signature"
+  );
+
+  const fetched = await rpc<Record<string, unknown>>(
+    "endpoints/get",
+    { id: endpoint.id },
+    cookies
+  );
+  ensure(
+    !("verifierSecret" in fetched) && fetched.hasVerifierSecret === true,
+    "Reads should only say that a secret is set"
+  );
+  const revealed = await rpc<{ verifierSecret: string | null }>(
+    "endpoints/revealVerifierSecret",
+    { id: endpoint.id },
+    cookies
+  );
+  ensureEqual(revealed.verifierSecret, secret, "The secret can be revealed");
+
+  await rpc("endpoints/delete", { id: endpoint.id }, cookies);
+}
+
+async function runEventFilterTest(): Promise<void> {
+  const cookies = await createAuthenticatedSession("filter-e2e");
+
+  const endpoint = await rpc<EndpointRecord>(
+    "endpoints/create",
+    {
+      name: "Filter E2E Endpoint",
+      slug: `filter-e2e-${Date.now()}`,
+    },
+    cookies
+  );
+
+  const machine = await rpc<MachineRecord>(
+    "machines/register",
+    {
+      endpointId: endpoint.id,
+      forwardUrl: "http://localhost:9999/filter-e2e",
+      name: `filter-e2e-${Date.now()}`,
+      filters: [{ jsonField: { path: "$.type", value: "customer.*" } }],
+    },
+    cookies
+  );
+
+  const { eventId } = await sendWebhook(endpoint.slug, {
+    type: "invoice.paid",
+  });
+
+  let status: string | undefined;
+  for (let attempt = 0; attempt < 20 && !status; attempt++) {
+    await sleep(250);
+    const deliveries = await rpc<Array<{ status: string }>>(
+      "deliveries/listByEvent",
+      { eventId },
+      cookies
+    );
+    status = deliveries[0]?.status;
+  }
+  ensureEqual(
+    status,
+    "filtered",
+    "Event not matching the machine's filters should be recorded as filtered"
+  );
+
+  await rpc("machines/delete", { id: machine.id }, cookies);
+  await rpc("endpoints/delete", { id: endpoint.id }, cookies);
+}
+
+interface MachineSigningRecord extends MachineRecord {
+  hasSigningSecret: boolean;
+  signingScheme: string | null;
+}
+
+/**
+ * Machines that re-sign requests for their local target: the CLI gets the
+ * original provider headers with each webhook and the stored secret on
+ * request, and the secret can be rotated or removed.
+ */
+async function runMachineSigningTest(): Promise<void> {
+  const cookies = await createAuthenticatedSession("signing-e2e");
+  const secret = "whsec_c2lnbmluZy1lMmUtc2VjcmV0";
+
+  const endpoint = await rpc<EndpointRecord>(
+    "endpoints/create",
+    { name: "Signing E2E Endpoint", slug: `signing-e2e-${Date.now()}` },
+    cookies
+  );
+  const machine = await rpc<MachineSigningRecord>(
+    "machines/register",
+    {
+      endpointId: endpoint.id,
+      forwardUrl: "http://localhost:9999/signing-e2e",
+      name: `signing-e2e-${Date.now()}`,
+      signingScheme: "standard",
+      signingSecret: secret,
+    },
+    cookies
+  );
+  ensureEqual(machine.signingScheme, "standard", "The scheme is stored");
+  ensure(machine.hasSigningSecret, "The machine should have a secret");
+  ensure(
+    !("signingSecret" in machine),
+    "The secret is not returned on register"
+  );
+
+  const listed = await rpc<Record<string, unknown>[]>(
+    "machines/list",
+    { endpointId: endpoint.id },
+    cookies
+  );
+  ensure(
+    listed.every((m) => !("signingSecret" in m)),
+    "Machine lists never carry secrets"
+  );
+
+  const revealed = await rpc<{ signingSecret: string | null }>(
+    "machines/revealSigningSecret",
+    { id: machine.id },
+    cookies
+  );
+  ensureEqual(revealed.signingSecret, secret, "The owner can reveal it");
+
+  // Provider headers reach the machine untouched so it can replace them
+  const machineWs = await connectWebSocket({
+    cookies,
+    machineId: machine.id,
+    machineName: machine.name,
+    role: "machine",
+    slug: endpoint.slug,
+  });
+  await sleep(500);
+  const messagePromise = waitForWsMessage<{ headers: string }>(
+    machineWs,
+    (message) => message.type === "webhook"
+  );
+  const response = await fetch(`${SERVER_URL}/hooks/${endpoint.slug}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "Stripe-Signature": "t=1,v1=original",
+    },
+    body: JSON.stringify({ event: "signing.e2e" }),
+  });
+  await response.body?.cancel();
+  const message = await messagePromise;
+  ensureEqual(
+    (JSON.parse(message.headers) as Record<string, string>)["stripe-signature"],
+    "t=1,v1=original",
+    "The machine should see the original signature header"
+  );
+  machineWs.close();
+
+  const rotated = "rotated-signing-secret";
+  await rpc(
+    "machines/update",
+    { id: machine.id, signingScheme: "github", signingSecret: rotated },
+    cookies
+  );
+  const afterRotate = await rpc<{ signingSecret: string | null }>(
+    "machines/revealSigningSecret",
+    { id: machine.id },
+    cookies
+  );
+  ensureEqual(afterRotate.signingSecret, rotated, "The secret can be rotated");
+
+  const cleared = await rpc<MachineSigningRecord>(
+    "machines/update",
+    { id: machine.id, signingScheme: null, signingSecret: null },
+    cookies
+  );
+  ensure(
+    cleared.signingScheme === null && !cleared.hasSigningSecret,
+    "Re-signing can be turned off"
+  );
+
+  await rpc("machines/delete", { id: machine.id }, cookies);
+  await rpc("endpoints/delete", { id: endpoint.id }, cookies);
+}
+
+/**
+ * A machine's transform pipeline is stored as given and applied by the CLI
+ * to each webhook's path, headers and body, which arrive unmodified.
+ */
+async function runMachineTransformTest(): Promise<void> {
+  const cookies = await createAuthenticatedSession("transform-e2e");
+  const transforms = [
+    { op: "set-header", name: "x-env", value: "dev" },
+    { op: "rename-header", from: "x-github-event", to: "x-event" },
+    { op: "rewrite-path", pattern: "^/github/(.*)$", replacement: "/api/$1" },
+    { op: "json-set", path: "$.meta.source", value: "tunnelhook" },
+    { op: "json-delete", path: "$.secret" },
+  ];
+
+  const endpoint = await rpc<EndpointRecord>(
+    "endpoints/create",
+    { name: "Transform E2E Endpoint", slug: `transform-e2e-${Date.now()}` },
+    cookies
+  );
+  const machine = await rpc<MachineRecord & { transforms: string | null }>(
+    "machines/register",
+    {
+      endpointId: endpoint.id,
+      forwardUrl: "http://localhost:9999/transform-e2e",
+      name: `transform-e2e-${Date.now()}`,
+      transforms,
+    },
+    cookies
+  );
+  ensureEqual(
+    machine.transforms,
+    JSON.stringify(transforms),
+    "The pipeline should be stored in order"
+  );
+
+  ensureEqual(
+    await rpcStatus(
+      "machines/update",
+      { id: machine.id, transforms: [{ op: "shell", command: "rm -rf /" }] },
+      cookies
+    ),
+    400,
+    "Unknown transform ops are rejected"
+  );
+  ensureEqual(
+    await rpcStatus(
+      "machines/update",
+      {
+        id: machine.id,
+        transforms: [{ op: "json-set", path: "meta", value: 1 }],
+      },
+      cookies
+    ),
+    400,
+    "JSON paths must start at the root"
+  );
+  for (const pattern of ["(unclosed", "a".repeat(501)]) {
+    ensureEqual(
+      await rpcStatus(
+        "machines/update",
+        {
+          id: machine.id,
+          transforms: [{ op: "rewrite-path", pattern, replacement: "/" }],
+        },
+        cookies
+      ),
+      400,
+      "rewrite-path patterns must compile and stay short"
+    );
+  }
+
+  // The pipeline runs on the CLI: the machine gets the request as received
+  const machineWs = await connectWebSocket({
+    cookies,
+    machineId: machine.id,
+    machineName: machine.name,
+    role: "machine",
+    slug: endpoint.slug,
+  });
+  await sleep(500);
+  const messagePromise = waitForWsMessage<{
+    body: string | null;
+    path: string | null;
+    query: string | null;
+  }>(machineWs, (message) => message.type === "webhook");
+  await sendWebhook(`${endpoint.slug}/github/push?ref=main`, {
+    secret: "kept-on-the-server",
+  });
+  const message = await messagePromise;
+  ensureEqual(message.path, "/github/push", "The raw path is sent");
+  ensureEqual(message.query, "?ref=main", "The raw query is sent");
+  ensure(
+    message.body?.includes("kept-on-the-server"),
+    "The body is sent before transforms"
+  );
+  machineWs.close();
+
+  const cleared = await rpc<{ transforms: string | null }>(
+    "machines/update",
+    { id: machine.id, transforms: null },
+    cookies
+  );
+  ensureEqual(cleared.transforms, null, "The pipeline can be removed");
+
+  await rpc("machines/delete", { id: machine.id }, cookies);
+  await rpc("endpoints/delete", { id: endpoint.id }, cookies);
+}
+
+async function runCustomResponseTest(): Promise<void> {
+  const cookies = await createAuthenticatedSession("response-e2e");
+
+  const endpoint = await rpc<EndpointRecord>(
+    "endpoints/create",
+    {
+      name: "Response E2E Endpoint",
+      slug: `response-e2e-${Date.now()}`,
+      responsePreset: "slack-challenge",
+    },
+    cookies
+  );
+
+  const challenge = await fetch(`${SERVER_URL}/hooks/${endpoint.slug}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ type: "url_verification", challenge: "e2e-123" }),
+  });
+  ensureEqual(challenge.status, 200, "Slack preset should answer with 200");
+  ensureEqual(
+    await challenge.text(),
+    "e2e-123",
+    "Slack preset should echo the URL verification challenge"
+  );
+
+  await rpc(
+    "endpoints/update",
+    {
+      id: endpoint.id,
+      responsePreset: "custom",
+      responseStatus: 201,
+      responseHeaders: { "Content-Type": "application/json" },
+      responseBody: '{"ok":true,"order":"{{body.order.id}}"}',
+    },
+    cookies
+  );
+
+  const custom = await fetch(`${SERVER_URL}/hooks/${endpoint.slug}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ order: { id: 42 } }),
+  });
+  ensureEqual(custom.status, 201, "Custom response should use its status");
+  ensureEqual(
+    await custom.text(),
+    '{"ok":true,"order":"42"}',
+    "Custom response body should be rendered from the request"
+  );
+
+  await rpc("endpoints/delete", { id: endpoint.id }, cookies);
+}
+
+async function runRetentionUsageTest(): Promise<void> {
+  const cookies = await createAuthenticatedSession("retention-e2e");
+
+  const endpoint = await rpc<EndpointRecord & { retentionMaxEvents: number }>(
+    "endpoints/create",
+    {
+      name: "Retention E2E Endpoint",
+      slug: `retention-e2e-${Date.now()}`,
+      retentionMaxEvents: 100,
+    },
+    cookies
+  );
+  ensureEqual(
+    endpoint.retentionMaxEvents,
+    100,
+    "Endpoint should store its retention limit"
+  );
+
+  await sendWebhook(endpoint.slug, { n: 1 });
+  await sendWebhook(endpoint.slug, { n: 2 });
+
+  const usage = await rpc<{ bodyBytes: number; events: number }>(
+    "endpoints/usage",
+    { id: endpoint.id },
+    cookies
+  );
+  ensureEqual(usage.events, 2, "Usage should count captured events");
+  ensureEqual(
+    usage.bodyBytes,
+    JSON.stringify({ n: 1 }).length * 2,
+    "Usage should total the body sizes"
+  );
+
+  await rpc("endpoints/delete", { id: endpoint.id }, cookies);
+}
+
+/** Run the cron handler, as `alchemy dev` exposes it over HTTP */
+async function triggerScheduled(): Promise<void> {
+  const response = await fetch(`${SERVER_URL}/__scheduled`);
+  await response.body?.cancel();
+  ensure(response.ok, "The scheduled handler should run");
+}
+
+/** Poll the endpoint's usage until pruning brings it to `events` */
+async function waitForPrunedUsage(
+  endpointId: string,
+  events: number,
+  cookies: string
+): Promise<{ bodyBytes: number; events: number }> {
+  for (let attempt = 0; attempt < 20; attempt++) {
+    const usage = await rpc<{ bodyBytes: number; events: number }>(
+      "endpoints/usage",
+      { id: endpointId },
+      cookies
+    );
+    if (usage.events === events) {
+      return usage;
+    }
+    await sleep(250);
+  }
+  throw new Error(`Pruning did not bring the endpoint to ${events} events`);
+}
+
+async function sendBinaryWebhook(
+  slug: string,
+  payload: Uint8Array
+): Promise<WebhookResponse> {
+  const response = await fetch(`${SERVER_URL}/hooks/${slug}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/octet-stream" },
+    body: payload,
+  });
+  ensureEqual(response.status, 202, "Binary webhook should return 202");
+  return (await response.json()) as WebhookResponse;
+}
+
+/** Both the event row and its blob-stored body must be gone */
+async function ensureEventPruned(
+  eventId: string,
+  cookies: string
+): Promise<void> {
+  ensureEqual(
+    await rpcStatus("events/get", { id: eventId }, cookies),
+    404,
+    "Pruned events should be deleted"
+  );
+  const download = await fetch(`${SERVER_URL}/events/${eventId}/body`, {
+    headers: { Cookie: cookies },
+  });
+  await download.body?.cancel();
+  ensureEqual(download.status, 404, "Pruned bodies should be deleted");
+}
+
+/**
+ * The count and byte limits, applied by the cron handler. The age limit is
+ * at least an hour, which an e2e run cannot wait out.
+ */
+async function runRetentionPruneTest(): Promise<void> {
+  const cookies = await createAuthenticatedSession("retention-prune-e2e");
+
+  const endpoint = await rpc<EndpointRecord>(
+    "endpoints/create",
+    {
+      name: "Retention Prune E2E Endpoint",
+      slug: `retention-prune-e2e-${Date.now()}`,
+    },
+    cookies
+  );
+
+  // Invalid UTF-8 puts the oldest body in the blob store
+  const { eventId: blobEventId } = await sendBinaryWebhook(
+    endpoint.slug,
+    new Uint8Array(256).map((_, i) => 255 - i)
+  );
+  const { eventId: firstJsonEventId } = await sendWebhook(endpoint.slug, {
+    n: 1,
+  });
+  await sendWebhook(endpoint.slug, { n: 2 });
+  await sendWebhook(endpoint.slug, { n: 3 });
+
+  await rpc(
+    "endpoints/update",
+    { id: endpoint.id, retentionMaxEvents: 3 },
+    cookies
+  );
+  await triggerScheduled();
+  await waitForPrunedUsage(endpoint.id, 3, cookies);
+  await ensureEventPruned(blobEventId, cookies);
+
+  // Two bodies over half the 1 MiB minimum: the older one, and every event
+  // before it, must go to get back under the limit
+  const large = new Uint8Array(600_000).fill(0xff);
+  const { eventId: olderLargeEventId } = await sendBinaryWebhook(
+    endpoint.slug,
+    large
+  );
+  const { eventId: newerLargeEventId } = await sendBinaryWebhook(
+    endpoint.slug,
+    large
+  );
+
+  await rpc(
+    "endpoints/update",
+    {
+      id: endpoint.id,
+      retentionMaxEvents: null,
+      retentionMaxBytes: 1024 * 1024,
+    },
+    cookies
+  );
+  await triggerScheduled();
+  const usage = await waitForPrunedUsage(endpoint.id, 1, cookies);
+  ensureEqual(
+    usage.bodyBytes,
+    large.byteLength,
+    "Only the newest body should be kept"
+  );
+  await ensureEventPruned(firstJsonEventId, cookies);
+  await ensureEventPruned(olderLargeEventId, cookies);
+
+  const kept = await fetch(`${SERVER_URL}/events/${newerLargeEventId}/body`, {
+    headers: { Cookie: cookies },
+  });
+  ensureEqual(kept.status, 200, "The newest body should still download");
+  ensureEqual(
+    (await kept.arrayBuffer()).byteLength,
+    large.byteLength,
+    "The kept body should be complete"
+  );
+
+  await rpc("endpoints/delete", { id: endpoint.id }, cookies);
+}
+
+async function runRateLimitTest(): Promise<void> {
+  const cookies = await createAuthenticatedSession("rate-limit-e2e");
+
+  const endpoint = await rpc<EndpointRecord>(
+    "endpoints/create",
+    {
+      name: "Rate Limit E2E Endpoint",
+      slug: `rate-limit-e2e-${Date.now()}`,
+      rateLimitBurst: 2,
+      rateLimitPerMinute: 1,
+    },
+    cookies
+  );
+
+  await sendWebhook(endpoint.slug, { n: 1 });
+  await sendWebhook(endpoint.slug, { n: 2 });
+
+  const limited = await fetch(`${SERVER_URL}/hooks/${endpoint.slug}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ n: 3 }),
+  });
+  ensureEqual(limited.status, 429, "Requests beyond the burst should get 429");
+  ensure(
+    Number(limited.headers.get("retry-after")) > 0,
+    "Rate limited responses should carry Retry-After"
+  );
+
+  const usage = await rpc<{ dropped: number; events: number }>(
+    "endpoints/usage",
+    { id: endpoint.id },
+    cookies
+  );
+  ensureEqual(usage.events, 2, "Dropped requests should not be captured");
+  ensureEqual(usage.dropped, 1, "Usage should count dropped requests");
+
+  await rpc("endpoints/delete", { id: endpoint.id }, cookies);
+}
+
+async function runIpAllowlistTest(): Promise<void> {
+  const cookies = await createAuthenticatedSession("allowlist-e2e");
+
+  const endpoint = await rpc<EndpointRecord>(
+    "endpoints/create",
+    {
+      name: "Allowlist E2E Endpoint",
+      slug: `allowlist-e2e-${Date.now()}`,
+      ipAllowlist: ["203.0.113.0/24"],
+    },
+    cookies
+  );
+
+  const blocked = await fetch(`${SERVER_URL}/hooks/${endpoint.slug}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ n: 1 }),
+  });
+  ensureEqual(blocked.status, 403, "Clients outside the allowlist get 403");
+
+  const events = await rpc<{
+    items: Array<{ blockedReason: string | null; body: string | null }>;
+  }>("events/list", { endpointId: endpoint.id }, cookies);
+  ensureEqual(events.items.length, 1, "Blocked requests should be logged");
+  ensure(
+    events.items[0]?.blockedReason,
+    "Blocked events should carry the reason"
+  );
+  ensureEqual(events.items[0]?.body, null, "Blocked bodies are not stored");
+
+  await rpc(
+    "endpoints/update",
+    { id: endpoint.id, ipAllowlist: null },
+    cookies
+  );
+  await sendWebhook(endpoint.slug, { n: 2 });
+
+  await rpc("endpoints/delete", { id: endpoint.id }, cookies);
+}
+
+async function runClientIpTest(): Promise<void> {
+  const cookies = await createAuthenticatedSession("client-ip-e2e");
+
+  const endpoint = await rpc<EndpointRecord>(
+    "endpoints/create",
+    { name: "Client IP E2E Endpoint", slug: `client-ip-e2e-${Date.now()}` },
+    cookies
+  );
+
+  const response = await fetch(`${SERVER_URL}/hooks/${endpoint.slug}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "X-Forwarded-For": "6.6.6.6, 7.7.7.7",
+    },
+    body: JSON.stringify({ n: 1 }),
+  });
+  ensureEqual(response.status, 202, "Webhook endpoint should return 202");
+
+  const events = await rpc<{ items: Array<{ sourceIp: string | null }> }>(
+    "events/list",
+    { endpointId: endpoint.id },
+    cookies
+  );
+  const sourceIp = events.items[0]?.sourceIp;
+  ensure(sourceIp, "The client IP should be recorded");
+  ensure(!sourceIp.includes(","), "Only one address should be stored");
+  ensure(
+    sourceIp !== "6.6.6.6",
+    "Caller-written forwarded entries must not be trusted"
+  );
+
+  await rpc("endpoints/delete", { id: endpoint.id }, cookies);
+}
+
+async function runAlertRuleTest(): Promise<void> {
+  const cookies = await createAuthenticatedSession("alerts-e2e");
+
+  const endpoint = await rpc<EndpointRecord>(
+    "endpoints/create",
+    { name: "Alerts E2E Endpoint", slug: `alerts-e2e-${Date.now()}` },
+    cookies
+  );
+
+  const rule = await rpc<{ id: string; threshold: number | null }>(
+    "alerts/create",
+    {
+      endpointId: endpoint.id,
+      name: "Failing deliveries",
+      condition: "consecutive-failures",
+      threshold: 3,
+      channel: "http",
+      target: "https://example.com/alerts",
+    },
+    cookies
+  );
+  ensureEqual(rule.threshold, 3, "The rule should keep its threshold");
+
+  await rpc(
+    "alerts/update",
+    {
+      endpointId: endpoint.id,
+      id: rule.id,
+      name: "Quiet endpoint",
+      condition: "no-events",
+      windowMs: 3_600_000,
+      channel: "http",
+      target: "https://example.com/alerts",
+      enabled: false,
+    },
+    cookies
+  );
+  const rules = await rpc<
+    Array<{ enabled: boolean; threshold: number | null }>
+  >("alerts/list", { endpointId: endpoint.id }, cookies);
+  ensureEqual(rules.length, 1, "The endpoint should have one rule");
+  ensureEqual(rules[0]?.enabled, false, "The rule should be disabled");
+  ensureEqual(
+    rules[0]?.threshold,
+    null,
+    "Fields the condition does not use are cleared"
+  );
+
+  const history = await rpc<{ items: unknown[] }>(
+    "alerts/history",
+    { endpointId: endpoint.id },
+    cookies
+  );
+  ensureEqual(history.items.length, 0, "No alerts should have fired");
+
+  await rpc("alerts/delete", { endpointId: endpoint.id, id: rule.id }, cookies);
+  await rpc("endpoints/delete", { id: endpoint.id }, cookies);
+}
+
+async function runMetricsTest(): Promise<void> {
+  const cookies = await createAuthenticatedSession("metrics-e2e");
+
+  const endpoint = await rpc<EndpointRecord>(
+    "endpoints/create",
+    { name: "Metrics E2E Endpoint", slug: `metrics-e2e-${Date.now()}` },
+    cookies
+  );
+  await sendWebhook(endpoint.slug, { n: 1 });
+  await sendWebhook(endpoint.slug, { n: 2 });
+
+  // Requests are counted after the response is sent
+  let metrics: EndpointMetricsRecord | null = null;
+  for (let attempt = 0; attempt < 20; attempt++) {
+    metrics = await rpc<EndpointMetricsRecord>(
+      "metrics/endpoint",
+      { endpointId: endpoint.id, range: "1h" },
+      cookies
+    );
+    if (metrics.totals.received === 2) {
+      break;
+    }
+    await sleep(250);
+  }
+  ensure(metrics, "Metrics should be returned");
+  ensureEqual(metrics.totals.received, 2, "Both requests should be counted");
+  ensureEqual(metrics.series.length, 60, "1h is charted in minute buckets");
+  ensureEqual(
+    metrics.totals.errorRate,
+    null,
+    "Without deliveries there is no error rate"
+  );
+
+  await rpc("endpoints/delete", { id: endpoint.id }, cookies);
+}
+
+async function runPrometheusTest(): Promise<void> {
+  const unauthenticated = await fetch(`${SERVER_URL}/metrics`);
+  ensureEqual(unauthenticated.status, 401, "Scrapes must be authenticated");
+
+  const cookies = await createAuthenticatedSession("prometheus-e2e");
+  const endpoint = await rpc<EndpointRecord>(
+    "endpoints/create",
+    { name: "Prometheus E2E Endpoint", slug: `prometheus-e2e-${Date.now()}` },
+    cookies
+  );
+  await sendWebhook(endpoint.slug, { n: 1 });
+
+  const scrape = await fetch(`${SERVER_URL}/metrics`, {
+    headers: { Cookie: cookies },
+  });
+  ensureEqual(scrape.status, 200, "Scrape should succeed");
+  const text = await scrape.text();
+  ensure(
+    text.includes(
+      `tunnelhook_events_received_total{endpoint_id="${endpoint.id}",slug="${endpoint.slug}"} 1`
+    ),
+    "The received counter should count the webhook"
+  );
+  ensure(
+    text.includes("# TYPE tunnelhook_delivery_duration_seconds histogram"),
+    "Delivery durations should be exported as a histogram"
+  );
+
+  const openMetrics = await fetch(`${SERVER_URL}/metrics`, {
+    headers: { Cookie: cookies, Accept: "application/openmetrics-text" },
+  });
+  ensure(
+    (await openMetrics.text()).endsWith("# EOF\n"),
+    "OpenMetrics output should end with # EOF"
+  );
+
+  await rpc("endpoints/delete", { id: endpoint.id }, cookies);
+}
+
+/** Call a procedure with an API token; returns the status so denials can be asserted */
+async function rpcWithToken<T>(
+  path: string,
+  input: unknown,
+  token: string
+): Promise<{ data: T; status: number }> {
+  const response = await fetch(`${SERVER_URL}/rpc/${path}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${token}`,
+    },
+    body: JSON.stringify({ json: input }),
+  });
+  const payload = (await response.json()) as { json?: T };
+  return { status: response.status, data: payload.json as T };
+}
+
+async function runApiTokenTest(): Promise<void> {
+  const cookies = await createAuthenticatedSession("token-e2e");
+
+  const allowed = await rpc<EndpointRecord>(
+    "endpoints/create",
+    { name: "Token E2E Allowed", slug: `token-e2e-a-${Date.now()}` },
+    cookies
+  );
+  const other = await rpc<EndpointRecord>(
+    "endpoints/create",
+    { name: "Token E2E Other", slug: `token-e2e-b-${Date.now()}` },
+    cookies
+  );
+
+  const created = await rpc<{ id: string; token: string }>(
+    "tokens/create",
+    { name: "e2e", scope: "read", endpointIds: [allowed.id] },
+    cookies
+  );
+
+  const listed = await rpcWithToken<EndpointRecord[]>(
+    "endpoints/list",
+    {},
+    created.token
+  );
+  ensureEqual(listed.status, 200, "A valid token should authenticate");
+  ensureEqual(
+    listed.data.map((ep) => ep.id).join(","),
+    allowed.id,
+    "A token should only see the endpoints it is limited to"
+  );
+
+  const outside = await rpcWithToken(
+    "events/list",
+    { endpointId: other.id },
+    created.token
+  );
+  ensureEqual(outside.status, 404, "Endpoints outside the token are hidden");
+
+  const { eventId } = await sendWebhook(other.slug, { n: 1 });
+  const injected = await rpcWithToken(
+    "events/get",
+    { id: eventId, endpointId: allowed.id },
+    created.token
+  );
+  ensureEqual(
+    injected.status,
+    404,
+    "A granted endpointId in the input must not unlock another endpoint's event"
+  );
+
+  const write = await rpcWithToken(
+    "endpoints/update",
+    { id: allowed.id, name: "renamed" },
+    created.token
+  );
+  ensureEqual(write.status, 403, "A read-only token cannot make changes");
+
+  await rpc("tokens/revoke", { id: created.id }, cookies);
+  const revoked = await rpcWithToken("endpoints/list", {}, created.token);
+  ensureEqual(revoked.status, 401, "A revoked token should stop working");
+
+  await rpc("endpoints/delete", { id: allowed.id }, cookies);
+  await rpc("endpoints/delete", { id: other.id }, cookies);
+}
+
+/** Verify an address as if its owner had opened the emailed link */
+async function verifyEmail(email: string): Promise<void> {
+  ensure(AUTH_SECRET, "BETTER_AUTH_SECRET is required to verify emails");
+  const token = await createEmailVerificationToken(AUTH_SECRET, email);
+  const response = await fetch(
+    `${SERVER_URL}/api/auth/verify-email?token=${token}`,
+    { redirect: "manual" }
+  );
+  await response.body?.cancel();
+  ensureEqual(response.status, 200, "Email verification should succeed");
+}
+
+async function runOrganizationTest(): Promise<void> {
+  const ownerCookies = await createAuthenticatedSession("org-owner-e2e");
+  const viewerCookies = await createAuthenticatedSession("org-viewer-e2e");
+  const { user: viewer } = await rpc<{ user: { email: string } }>(
+    "privateData",
+    {},
+    viewerCookies
+  );
+
+  const org = await rpc<{ id: string }>(
+    "organizations/create",
+    { name: "Org E2E" },
+    ownerCookies
+  );
+  const endpoint = await rpc<EndpointRecord>(
+    "endpoints/create",
+    {
+      name: "Org E2E Endpoint",
+      slug: `org-e2e-${Date.now()}`,
+      organizationId: org.id,
+    },
+    ownerCookies
+  );
+
+  ensureEqual(
+    await rpcStatus("endpoints/get", { id: endpoint.id }, viewerCookies),
+    404,
+    "Org endpoints are hidden from non-members"
+  );
+
+  const invite = await rpc<{ id: string }>(
+    "organizations/invite",
+    { organizationId: org.id, email: viewer.email, role: "viewer" },
+    ownerCookies
+  );
+  ensureEqual(
+    await rpcStatus(
+      "organizations/acceptInvitation",
+      { id: invite.id },
+      viewerCookies
+    ),
+    403,
+    "Invitations can't be accepted before the email is verified"
+  );
+  await verifyEmail(viewer.email);
+  await rpc("organizations/acceptInvitation", { id: invite.id }, viewerCookies);
+
+  const listed = await rpc<EndpointRecord[]>(
+    "endpoints/list",
+    {},
+    viewerCookies
+  );
+  ensure(
+    listed.some((ep) => ep.id === endpoint.id),
+    "Members should see the org's endpoints"
+  );
+  ensureEqual(
+    await rpcStatus("events/list", { endpointId: endpoint.id }, viewerCookies),
+    200,
+    "Viewers can read events"
+  );
+  ensureEqual(
+    await rpcStatus(
+      "endpoints/update",
+      { id: endpoint.id, name: "renamed" },
+      viewerCookies
+    ),
+    403,
+    "Viewers cannot change endpoints"
+  );
+  ensureEqual(
+    await rpcStatus(
+      "machines/register",
+      {
+        endpointId: endpoint.id,
+        name: "viewer-machine",
+        forwardUrl: "http://localhost:9/hook",
+      },
+      viewerCookies
+    ),
+    403,
+    "Viewers cannot connect machines"
+  );
+
+  await rpc("organizations/delete", { id: org.id }, ownerCookies);
+  ensureEqual(
+    await rpcStatus("endpoints/get", { id: endpoint.id }, ownerCookies),
+    404,
+    "Deleting an org deletes its endpoints"
+  );
+}
+
+/**
+ * Event, machine and delivery procedures authorize through the resource's
+ * endpoint: outsiders get 404, members need the action's role, and
+ * members may manage their own machines.
+ */
+async function runResourceAuthzTest(): Promise<void> {
+  const ownerCookies = await createAuthenticatedSession("authz-owner-e2e");
+  const memberCookies = await createAuthenticatedSession("authz-member-e2e");
+  const outsiderCookies =
+    await createAuthenticatedSession("authz-outsider-e2e");
+  const { user: member } = await rpc<{ user: { email: string } }>(
+    "privateData",
+    {},
+    memberCookies
+  );
+
+  const org = await rpc<{ id: string }>(
+    "organizations/create",
+    { name: "Authz E2E" },
+    ownerCookies
+  );
+  const endpoint = await rpc<EndpointRecord>(
+    "endpoints/create",
+    {
+      name: "Authz E2E Endpoint",
+      slug: `authz-e2e-${Date.now()}`,
+      organizationId: org.id,
+    },
+    ownerCookies
+  );
+  const ownerMachine = await rpc<MachineRecord>(
+    "machines/register",
+    {
+      endpointId: endpoint.id,
+      forwardUrl: "http://localhost:9999/authz-owner",
+      name: `authz-owner-${Date.now()}`,
+    },
+    ownerCookies
+  );
+  const { eventId } = await sendWebhook(endpoint.slug, { n: 1 });
+  // The delivery stays queued since the machine is offline
+  let ownerDelivery: { id: string } | undefined;
+  for (let attempt = 0; attempt < 20 && !ownerDelivery; attempt++) {
+    await sleep(250);
+    const deliveries = await rpc<Array<{ id: string }>>(
+      "deliveries/listByEvent",
+      { eventId },
+      ownerCookies
+    );
+    ownerDelivery = deliveries[0];
+  }
+  ensure(ownerDelivery, "The webhook should create a delivery");
+
+  const outsiderCalls: [string, unknown][] = [
+    ["events/get", { id: eventId }],
+    ["events/replay", { id: eventId }],
+    ["machines/get", { id: ownerMachine.id }],
+    ["machines/delete", { id: ownerMachine.id }],
+    ["deliveries/get", { id: ownerDelivery.id }],
+    ["deliveries/listAttempts", { deliveryId: ownerDelivery.id }],
+    ["deliveries/listByMachine", { machineId: ownerMachine.id }],
+  ];
+  for (const [path, input] of outsiderCalls) {
+    ensureEqual(
+      await rpcStatus(path, input, outsiderCookies),
+      404,
+      `${path} should hide other people's resources`
+    );
+  }
+  ensureEqual(
+    await rpcStatus("events/get", {}, ownerCookies),
+    400,
+    "A missing resource ID is a bad request"
+  );
+
+  const invite = await rpc<{ id: string }>(
+    "organizations/invite",
+    { organizationId: org.id, email: member.email, role: "member" },
+    ownerCookies
+  );
+  await verifyEmail(member.email);
+  await rpc("organizations/acceptInvitation", { id: invite.id }, memberCookies);
+
+  ensureEqual(
+    await rpcStatus("deliveries/get", { id: ownerDelivery.id }, memberCookies),
+    200,
+    "Members can read deliveries"
+  );
+  ensureEqual(
+    await rpcStatus("events/delete", { id: eventId }, memberCookies),
+    403,
+    "Members cannot delete events"
+  );
+  ensureEqual(
+    await rpcStatus("machines/delete", { id: ownerMachine.id }, memberCookies),
+    403,
+    "Members cannot delete other people's machines"
+  );
+  ensureEqual(
+    await rpcStatus(
+      "machines/revealSigningSecret",
+      { id: ownerMachine.id },
+      memberCookies
+    ),
+    403,
+    "Members cannot reveal other people's secrets"
+  );
+
+  const memberMachine = await rpc<MachineRecord>(
+    "machines/register",
+    {
+      endpointId: endpoint.id,
+      forwardUrl: "http://localhost:9999/authz-member",
+      name: `authz-member-${Date.now()}`,
+    },
+    memberCookies
+  );
+  ensureEqual(
+    await rpcStatus(
+      "machines/update",
+      { id: memberMachine.id, forwardUrl: "http://localhost:9999/moved" },
+      memberCookies
+    ),
+    200,
+    "Members can change their own machines"
+  );
+  ensureEqual(
+    await rpcStatus("machines/delete", { id: memberMachine.id }, memberCookies),
+    200,
+    "Members can delete their own machines"
+  );
+
+  await rpc("organizations/delete", { id: org.id }, ownerCookies);
+}
+
+async function runAuditLogTest(): Promise<void> {
+  const cookies = await createAuthenticatedSession("audit-e2e");
+  const endpoint = await rpc<EndpointRecord>(
+    "endpoints/create",
+    { name: "Audit E2E", slug: `audit-e2e-${Date.now()}` },
+    cookies
+  );
+
+  await rpc(
+    "endpoints/update",
+    { id: endpoint.id, forwardUrl: "https://example.com/audit" },
+    cookies
+  );
+  await rpc("events/clear", { endpointId: endpoint.id }, cookies);
+
+  const log = await rpc<{
+    items: {
+      action: string;
+      changes: Record<string, { after: unknown; before: unknown }> | null;
+    }[];
+  }>("audit/list", { endpointId: endpoint.id }, cookies);
+  ensureEqual(
+    log.items.map((entry) => entry.action).join(","),
+    "events.clear,endpoint.update,endpoint.create",
+    "Changes should be logged newest first"
+  );
+  ensureEqual(
+    log.items[1]?.changes?.forwardUrl?.after,
+    "https://example.com/audit",
+    "Updates should record the changed fields"
+  );
+
+  await rpc("endpoints/delete", { id: endpoint.id }, cookies);
+}
+
+async function postDevice<T>(path: string, body: unknown): Promise<T> {
+  const response = await fetch(`${SERVER_URL}/device/${path}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  return (await response.json()) as T;
+}
+
+async function runDeviceLoginTest(): Promise<void> {
+  const cookies = await createAuthenticatedSession("device-e2e");
+
+  const start = await postDevice<{ device_code: string; user_code: string }>(
+    "code",
+    { client_name: "e2e-host" }
+  );
+
+  const pending = await postDevice<{ error?: string }>("token", {
+    device_code: start.device_code,
+  });
+  ensureEqual(
+    pending.error,
+    "authorization_pending",
+    "Polling before approval should report authorization_pending"
+  );
+
+  const request = await rpc<{ clientName: string }>(
+    "device/lookup",
+    { userCode: start.user_code.toLowerCase() },
+    cookies
+  );
+  ensureEqual(request.clientName, "e2e-host", "Lookup should show the client");
+
+  await rpc("device/approve", { userCode: start.user_code }, cookies);
+
+  const granted = await postDevice<{ access_token?: string }>("token", {
+    device_code: start.device_code,
+  });
+  ensure(Boolean(granted.access_token), "Approval should issue a token");
+
+  const me = await rpcWithToken<{ user: { id: string } }>(
+    "privateData",
+    {},
+    granted.access_token as string
+  );
+  ensureEqual(me.status, 200, "The issued token should authenticate");
+
+  const reused = await postDevice<{ error?: string }>("token", {
+    device_code: start.device_code,
+  });
+  ensureEqual(
+    reused.error,
+    "expired_token",
+    "A device code should only be redeemed once"
+  );
+}
+
+async function runEventSearchTest(): Promise<void> {
+  const cookies = await createAuthenticatedSession("search-e2e");
+
+  const endpoint = await rpc<EndpointRecord>(
+    "endpoints/create",
+    {
+      name: "Search E2E Endpoint",
+      slug: `search-e2e-${Date.now()}`,
+    },
+    cookies
+  );
+
+  const refund = await sendWebhook(endpoint.slug, {
+    type: "charge.refunded",
+    note: "customer requested a refund",
+  });
+  await sendWebhook(endpoint.slug, { type: "customer.created" });
+
+  const search = (filters: Record<string, unknown>) =>
+    rpc<{ items: Array<{ id: string }> }>(
+      "events/search",
+      { endpointId: endpoint.id, ...filters },
+      cookies
+    );
+
+  const byText = await search({ text: "refund" });
+  ensureEqual(byText.items.length, 1, "Text search should match one body");
+  ensureEqual(
+    byText.items[0]?.id,
+    refund.eventId,
+    "Text search should find the refund event"
+  );
+
+  const byField = await search({
+    jsonField: { path: "$.type", value: "customer.*" },
+  });
+  ensureEqual(byField.items.length, 1, "JSON field search should match once");
+
+  const byMethod = await search({
+    method: "POST",
+    header: { name: "content-type", value: "application/json" },
+  });
+  ensureEqual(byMethod.items.length, 2, "Structured search should match both");
+
+  await rpc("endpoints/delete", { id: endpoint.id }, cookies);
+}
+
+async function runBinaryBodyTest(): Promise<void> {
+  const cookies = await createAuthenticatedSession("blob-e2e");
+
+  const endpoint = await rpc<EndpointRecord>(
+    "endpoints/create",
+    {
+      name: "Blob E2E Endpoint",
+      slug: `blob-e2e-${Date.now()}`,
+    },
+    cookies
+  );
+
+  // Invalid UTF-8 forces the body into the blob store
+  const payload = new Uint8Array(256).map((_, i) => 255 - i);
+  const response = await fetch(`${SERVER_URL}/hooks/${endpoint.slug}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/octet-stream" },
+    body: payload,
+  });
+  ensureEqual(response.status, 202, "Binary webhook should return 202");
+  const { eventId } = (await response.json()) as WebhookResponse;
+
+  const event = await rpc<{ body: string | null; bodySize: number }>(
+    "events/get",
+    { id: eventId },
+    cookies
+  );
+  ensureEqual(event.body, null, "Binary body should not be stored inline");
+  ensureEqual(event.bodySize, payload.byteLength, "Body size should match");
+
+  const download = await fetch(`${SERVER_URL}/events/${eventId}/body`, {
+    headers: { Cookie: cookies },
+  });
+  ensureEqual(download.status, 200, "Body download should succeed");
+  const bytes = new Uint8Array(await download.arrayBuffer());
+  ensure(
+    bytes.length === payload.length && bytes.every((b, i) => b === payload[i]),
+    "Downloaded body should match the sent bytes"
+  );
+
+  await rpc("endpoints/delete", { id: endpoint.id }, cookies);
+}
+
+async function runLocalResponseTest(): Promise<void> {
+  const cookies = await createAuthenticatedSession("local-response-e2e");
+
+  const endpoint = await rpc<EndpointRecord>(
+    "endpoints/create",
+    {
+      name: "Local Response E2E Endpoint",
+      slug: `local-response-e2e-${Date.now()}`,
+      responseMode: "local",
+      responseTimeoutMs: 5000,
+    },
+    cookies
+  );
+
+  // Without a connected machine the configured response is sent right away
+  const fallback = await fetch(`${SERVER_URL}/hooks/${endpoint.slug}`, {
+    method: "POST",
+    body: "{}",
+  });
+  ensureEqual(fallback.status, 202, "No machine should fall back to 202");
+
+  const machine = await rpc<MachineRecord>(
+    "machines/register",
+    {
+      endpointId: endpoint.id,
+      forwardUrl: "http://localhost:9999/local-response-e2e",
+      name: `local-response-e2e-${Date.now()}`,
+    },
+    cookies
+  );
+
+  const machineWs = await connectWebSocket({
+    cookies,
+    machineId: machine.id,
+    machineName: machine.name,
+    role: "machine",
+    slug: endpoint.slug,
+  });
+  await sleep(500);
+
+  const webhookMessagePromise = waitForWsMessage<WebhookMessage>(
+    machineWs,
+    (message) => message.type === "webhook"
+  );
+  const responsePromise = fetch(`${SERVER_URL}/hooks/${endpoint.slug}`, {
+    method: "POST",
+    body: "{}",
+  });
+
+  const webhookMessage = await webhookMessagePromise;
+  machineWs.send(
+    JSON.stringify({
+      type: "delivery-report",
+      eventId: webhookMessage.eventId,
+      deliveryId: webhookMessage.deliveryId,
+      status: "delivered",
+      responseStatus: 201,
+      responseBody: "from-local",
+      responseHeaders: { "x-local": "yes" },
+      error: null,
+      duration: 5,
+    })
+  );
+
+  const relayed = await responsePromise;
+  ensureEqual(relayed.status, 201, "Local server's status should be relayed");
+  ensureEqual(
+    relayed.headers.get("x-local"),
+    "yes",
+    "Local server's headers should be relayed"
+  );
+  ensureEqual(
+    await relayed.text(),
+    "from-local",
+    "Local server's body should be relayed"
+  );
+
+  machineWs.close();
+  await rpc("machines/delete", { id: machine.id }, cookies);
+  await rpc("endpoints/delete", { id: endpoint.id }, cookies);
+}
+
 async function runE2eIntegrationTests(): Promise<void> {
   await runMachineFlowTest();
+  await runRetryTest();
   await runViewerFlowTest();
+  await runSignatureVerificationTest();
+  await runEventFilterTest();
+  await runMachineSigningTest();
+  await runMachineTransformTest();
+  await runCustomResponseTest();
+  await runLocalResponseTest();
+  await runBinaryBodyTest();
+  await runRetentionUsageTest();
+  await runRetentionPruneTest();
+  await runRateLimitTest();
+  await runIpAllowlistTest();
+  await runClientIpTest();
+  await runAlertRuleTest();
+  await runMetricsTest();
+  await runPrometheusTest();
+  await runEventSearchTest();
+  await runApiTokenTest();
+  await runDeviceLoginTest();
+  await runOrganizationTest();
+  await runResourceAuthzTest();
+  await runAuditLogTest();
 }
 
 await runE2eIntegrationTests();
@@ -1,4 +1,5 @@
 #!/usr/bin/env bun
+import { createHash, createHmac } from "node:crypto";
 import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
 import { homedir, hostname } from "node:os";
 import { join } from "node:path";
@@ -12,6 +13,7 @@ import {
 import { createORPCClient } from "@orpc/client";
 import { RPCLink } from "@orpc/client/fetch";
 import type { AppRouterClient } from "@tunnelhook/api/routers/index";
+import { globToRegExp, jsonGet, parseJsonPath } from "@tunnelhook/matching";
 import { useCallback, useEffect, useRef, useState } from "react";
 
 // ---------------------------------------------------------------------------
@@ -21,6 +23,8 @@ import { useCallback, useEffect, useRef, useState } from "react";
 const SERVER_URL =
   process.env.TUNNELHOOK_SERVER_URL ?? "https://api.tunnelhook.com";
 const WS_URL = SERVER_URL.replace(/^http/, "ws");
+/** Personal access token created in the dashboard; lets CI run without `tunnelhook login` */
+const API_TOKEN = process.env.TUNNELHOOK_TOKEN || null;
 
 // ---------------------------------------------------------------------------
 // CLI argument parsing
@@ -29,12 +33,121 @@ const WS_URL = SERVER_URL.replace(/^http/, "ws");
 interface CliArgs {
   /** "login" subcommand */
   command: "login" | "listen" | "interactive";
+  /** --filters JSON file with the machine's subscription filters */
+  filters?: EventFilter[];
   /** --forward / -f URL */
   forwardUrl?: string;
   /** --machine / -m name override */
   machineName?: string;
+  /** --routes JSON file with the machine's routing rules */
+  routes?: RouteRule[];
+  /** --sign scheme + --signing-secret (or TUNNELHOOK_SIGNING_SECRET) */
+  signing?: SigningConfig;
   /** Endpoint slug (positional arg for listen mode) */
   slug?: string;
+  /** --transforms JSON file with the machine's request transforms */
+  transforms?: RequestTransform[];
+}
+
+type SigningScheme = "stripe" | "github" | "slack" | "standard";
+
+const SIGNING_SCHEMES: SigningScheme[] = [
+  "stripe",
+  "github",
+  "slack",
+  "standard",
+];
+
+interface SigningConfig {
+  scheme: SigningScheme;
+  secret: string;
+}
+
+/**
+ * Subscription filter: the machine only receives events matching one of its
+ * filters. Evaluated server-side; skipped deliveries are recorded as filtered.
+ */
+interface EventFilter {
+  header?: { name: string; value: string };
+  jsonField?: { path: string; value: string };
+  method?: string;
+  path?: string;
+}
+
+/** Machine settings that can be passed on the command line */
+interface MachineConfig {
+  filters?: EventFilter[];
+  routes?: RouteRule[];
+  signing?: SigningConfig;
+  transforms?: RequestTransform[];
+}
+
+function printUsage(): void {
+  console.error(
+    "Usage: tunnelhook <endpoint-slug> --forward <url> [--machine <name>]"
+  );
+  console.error(
+    "         [--sign stripe|github|slack|standard --signing-secret <secret>]"
+  );
+  console.error(
+    "         [--transforms <file.json>] [--routes <file.json>] [--filters <file.json>]"
+  );
+  console.error("       tunnelhook login");
+  console.error("       tunnelhook              (interactive mode)");
+}
+
+function parseSigningConfig(
+  scheme: string,
+  secret: string | undefined
+): SigningConfig {
+  if (!SIGNING_SCHEMES.includes(scheme as SigningScheme)) {
+    console.error(`Unknown signing scheme: ${scheme}`);
+    printUsage();
+    process.exit(1);
+  }
+  if (!secret) {
+    console.error(
+      "--sign requires --signing-secret or TUNNELHOOK_SIGNING_SECRET"
+    );
+    process.exit(1);
+  }
+  return { scheme: scheme as SigningScheme, secret };
+}
+
+/** Read a JSON array config file (transforms, routes, filters) or exit with an error */
+function loadJsonArrayFile<T>(file: string, label: string): T[] {
+  try {
+    const parsed = JSON.parse(readFileSync(file, "utf-8")) as unknown;
+    if (!Array.isArray(parsed)) {
+      throw new Error("expected a JSON array");
+    }
+    return parsed as T[];
+  } catch (err) {
+    console.error(
+      `Could not read ${label} from ${file}: ${err instanceof Error ? err.message : String(err)}`
+    );
+    process.exit(1);
+  }
+}
+
+/** Short aliases for flags that take a value */
+const FLAG_ALIASES: Record<string, string> = {
+  "-f": "--forward",
+  "-m": "--machine",
+};
+
+/** Collect `--flag value` pairs into a map keyed by the long flag name */
+function parseFlags(args: string[]): Record<string, string | undefined> {
+  const flags: Record<string, string | undefined> = {};
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i] ?? "";
+    const value = args[i + 1];
+    if (arg.startsWith("-") && value) {
+      flags[FLAG_ALIASES[arg] ?? arg] = value;
+      i++;
+    }
+  }
+  return flags;
 }
 
 function parseArgs(): CliArgs {
@@ -48,32 +161,47 @@ function parseArgs(): CliArgs {
     return { command: "login" };
   }
 
-  // tunnelhook <slug> --forward <url> [--machine <name>]
+  // tunnelhook <slug> --forward <url> [--machine <name>] [--sign <scheme>]
   const slug = args[0];
-  let forwardUrl: string | undefined;
-  let machineName: string | undefined;
-
-  for (let i = 1; i < args.length; i++) {
-    const arg = args[i];
-    if ((arg === "--forward" || arg === "-f") && args[i + 1]) {
-      forwardUrl = args[i + 1];
-      i++;
-    } else if ((arg === "--machine" || arg === "-m") && args[i + 1]) {
-      machineName = args[i + 1];
-      i++;
-    }
-  }
+  const flags = parseFlags(args.slice(1));
+  const forwardUrl = flags["--forward"];
+  const machineName = flags["--machine"];
+  const signingScheme = flags["--sign"];
+  const signingSecret =
+    flags["--signing-secret"] ?? process.env.TUNNELHOOK_SIGNING_SECRET;
+  const transformsFile = flags["--transforms"];
+  const routesFile = flags["--routes"];
+  const filtersFile = flags["--filters"];
 
   if (!forwardUrl) {
-    console.error(
-      "Usage: tunnelhook <endpoint-slug> --forward <url> [--machine <name>]"
-    );
-    console.error("       tunnelhook login");
-    console.error("       tunnelhook              (interactive mode)");
+    printUsage();
     process.exit(1);
   }
 
-  return { command: "listen", slug, forwardUrl, machineName };
+  const signing = signingScheme
+    ? parseSigningConfig(signingScheme, signingSecret)
+    : undefined;
+
+  const transforms = transformsFile
+    ? loadJsonArrayFile<RequestTransform>(transformsFile, "transforms")
+    : undefined;
+  const routes = routesFile
+    ? loadJsonArrayFile<RouteRule>(routesFile, "routes")
+    : undefined;
+  const filters = filtersFile
+    ? loadJsonArrayFile<EventFilter>(filtersFile, "filters")
+    : undefined;
+
+  return {
+    command: "listen",
+    slug,
+    forwardUrl,
+    machineName,
+    signing,
+    transforms,
+    routes,
+    filters,
+  };
 }
 
 const cliArgs = parseArgs();
@@ -94,14 +222,24 @@ interface Endpoint {
 
 interface Machine {
   endpointId: string;
+  /** Subscription filters as a JSON array (null = receive every event) */
+  filters: string | null;
   forwardUrl: string;
+  /** The secret itself is fetched with fetchSigningConfig */
+  hasSigningSecret: boolean;
   id: string;
   name: string;
+  /** Routing rules as a JSON array (null = always use forwardUrl) */
+  routes: string | null;
+  signingScheme: SigningScheme | null;
   status: string;
+  /** Request transforms as a JSON array (null = forward unchanged) */
+  transforms: string | null;
 }
 
 interface WebhookEvent {
   body: string | null;
+  bodyBlob?: BodyBlobRef | null;
   contentType: string | null;
   createdAt: string;
   deliveryId?: string;
@@ -110,10 +248,14 @@ interface WebhookEvent {
   headers: string;
   id?: string;
   method: string;
+  path?: string | null;
   query: string | null;
+  signatureStatus?: SignatureStatus | null;
   sourceIp: string | null;
 }
 
+type SignatureStatus = "verified" | "invalid" | "missing";
+
 interface DeliveryResult {
   deliveryId: string;
   duration: number | null;
@@ -122,6 +264,7 @@ interface DeliveryResult {
   machineId: string;
   machineName: string;
   responseBody: string | null;
+  responseHeaders: Record<string, string> | null;
   responseStatus: number | null;
   status: "delivered" | "failed";
 }
@@ -141,11 +284,14 @@ const CONFIG_DIR = join(homedir(), ".tunnelhook");
 const SESSION_FILE = join(CONFIG_DIR, "session.json");
 
 interface SessionData {
-  cookies: string;
+  /** Session cookies from the interactive login screen */
+  cookies?: string;
   serverUrl: string;
+  /** API token issued by `tunnelhook login` */
+  token?: string;
 }
 
-function loadSession(): string | null {
+function loadSession(): SessionData | null {
   try {
     if (!existsSync(SESSION_FILE)) {
       return null;
@@ -153,8 +299,8 @@ function loadSession(): string | null {
     const raw = readFileSync(SESSION_FILE, "utf-8");
     const data = JSON.parse(raw) as SessionData;
     // Only use session if it matches the current server URL
-    if (data.serverUrl === SERVER_URL && data.cookies) {
-      return data.cookies;
+    if (data.serverUrl === SERVER_URL && (data.cookies || data.token)) {
+      return data;
     }
     return null;
   } catch {
@@ -162,12 +308,13 @@ function loadSession(): string | null {
   }
 }
 
-function saveSession(cookies: string): void {
+/** Persist credentials, replacing whatever a previous login saved */
+function saveSession(credentials: Omit<SessionData, "serverUrl">): void {
   try {
     if (!existsSync(CONFIG_DIR)) {
       mkdirSync(CONFIG_DIR, { recursive: true, mode: 0o700 });
     }
-    const data: SessionData = { cookies, serverUrl: SERVER_URL };
+    const data: SessionData = { ...credentials, serverUrl: SERVER_URL };
     writeFileSync(SESSION_FILE, JSON.stringify(data, null, 2), {
       encoding: "utf-8",
       mode: 0o600,
@@ -181,7 +328,10 @@ function saveSession(cookies: string): void {
 // Auth helpers
 // ---------------------------------------------------------------------------
 
-let authCookies: string | null = loadSession();
+const savedSession = loadSession();
+let authCookies: string | null = savedSession?.cookies ?? null;
+/** TUNNELHOOK_TOKEN, or else the token saved by `tunnelhook login` */
+const apiToken: string | null = API_TOKEN ?? savedSession?.token ?? null;
 
 async function signIn(
   email: string,
@@ -202,7 +352,7 @@ async function signIn(
     const cookies = res.headers.getSetCookie?.() ?? [];
     if (cookies.length > 0) {
       authCookies = cookies.map((c: string) => c.split(";")[0]).join("; ");
-      saveSession(authCookies);
+      saveSession({ cookies: authCookies });
     }
 
     return { success: true };
@@ -214,8 +364,19 @@ async function signIn(
   }
 }
 
-/** Validate the current session is still active by calling the auth session endpoint. */
+/**
+ * Validate the current credentials. An API token is checked with a cheap
+ * authenticated call; a login session via the auth session endpoint.
+ */
 async function validateSession(): Promise<boolean> {
+  if (apiToken) {
+    try {
+      await rpcClient.privateData({});
+      return true;
+    } catch {
+      return false;
+    }
+  }
   if (!authCookies) {
     return false;
   }
@@ -235,6 +396,9 @@ async function validateSession(): Promise<boolean> {
 
 function getAuthHeaders(): Record<string, string> {
   const headers: Record<string, string> = {};
+  if (apiToken) {
+    headers.Authorization = `Bearer ${apiToken}`;
+  }
   if (authCookies) {
     headers.Cookie = authCookies;
   }
@@ -266,15 +430,39 @@ async function fetchMachines(endpointId: string): Promise<Machine[]> {
   return result as unknown as Machine[];
 }
 
+/**
+ * The machine's signing scheme and secret, which the server only returns
+ * from a dedicated call; null when the machine doesn't re-sign requests
+ */
+async function fetchSigningConfig(
+  mach: Machine
+): Promise<SigningConfig | null> {
+  if (!(mach.signingScheme && mach.hasSigningSecret)) {
+    return null;
+  }
+  const { signingSecret } = await rpcClient.machines.revealSigningSecret({
+    id: mach.id,
+  });
+  return signingSecret
+    ? { scheme: mach.signingScheme, secret: signingSecret }
+    : null;
+}
+
 async function registerMachine(
   endpointId: string,
   name: string,
-  forwardUrl: string
+  forwardUrl: string,
+  config: MachineConfig = {}
 ): Promise<Machine> {
   const result = await rpcClient.machines.register({
     endpointId,
     name,
     forwardUrl,
+    signingScheme: config.signing?.scheme,
+    signingSecret: config.signing?.secret,
+    transforms: config.transforms,
+    routes: config.routes,
+    filters: config.filters,
   });
   return result as unknown as Machine;
 }
@@ -290,11 +478,37 @@ async function createEndpointApi(
   return result as unknown as Endpoint;
 }
 
+async function replayEvent(
+  eventId: string,
+  target?: { type: "machine"; machineId: string }
+): Promise<{ deliveries: number; forwarded: boolean }> {
+  return await rpcClient.events.replay({ id: eventId, target });
+}
+
+async function searchEvents(
+  endpointId: string,
+  query: EventSearchQuery
+): Promise<WebhookEvent[]> {
+  const result = await rpcClient.events.search({
+    endpointId,
+    limit: 100,
+    ...query,
+  });
+  return result.items.map((ev) => ({
+    ...ev,
+    createdAt: new Date(ev.createdAt).toISOString(),
+    bodyBlob: ev.bodySha256
+      ? { sha256: ev.bodySha256, size: ev.bodySize ?? 0 }
+      : null,
+  }));
+}
+
 async function reportDeliveryResult(params: {
   deliveryId: string;
   duration: number | null;
   error: string | null;
   responseBody: string | null;
+  responseHeaders: Record<string, string> | null;
   responseStatus: number | null;
   status: "delivered" | "failed";
 }): Promise<void> {
@@ -325,10 +539,18 @@ async function findEndpointBySlug(slug: string): Promise<Endpoint> {
 
 const MACHINE_NAME_SUFFIX_RE = /^(.+)-(\d+)$/;
 
+/** Whether a JSON array setting from the CLI differs from the stored column */
+function jsonArrayChanged(stored: string | null, next?: unknown[]): boolean {
+  return (
+    next !== undefined && stored !== (next.length ? JSON.stringify(next) : null)
+  );
+}
+
 async function findOrCreateMachine(
   endpointId: string,
   forwardUrl: string,
-  nameOverride?: string
+  nameOverride?: string,
+  config: MachineConfig = {}
 ): Promise<Machine> {
   const baseName = nameOverride ?? getMachineName();
   const machines = await fetchMachines(endpointId);
@@ -345,11 +567,29 @@ async function findOrCreateMachine(
 
   const offlineMachine = ownMachines.find((m) => m.status === "offline");
   if (offlineMachine) {
-    // Reuse an offline machine, updating forward URL if needed
-    if (offlineMachine.forwardUrl !== forwardUrl) {
+    // Reuse an offline machine, updating forward URL and config if needed.
+    // Settings not given on the command line keep their stored values.
+    const { signing, transforms, routes, filters } = config;
+    const stored =
+      signing === undefined ? null : await fetchSigningConfig(offlineMachine);
+    const signingChanged =
+      signing !== undefined &&
+      (stored?.scheme !== signing.scheme || stored.secret !== signing.secret);
+    if (
+      offlineMachine.forwardUrl !== forwardUrl ||
+      signingChanged ||
+      jsonArrayChanged(offlineMachine.transforms, transforms) ||
+      jsonArrayChanged(offlineMachine.routes, routes) ||
+      jsonArrayChanged(offlineMachine.filters, filters)
+    ) {
       const updated = await rpcClient.machines.update({
         id: offlineMachine.id,
         forwardUrl,
+        signingScheme: signing?.scheme,
+        signingSecret: signing?.secret,
+        transforms,
+        routes,
+        filters,
       });
       return updated as unknown as Machine;
     }
@@ -363,85 +603,123 @@ async function findOrCreateMachine(
     nextName = `${baseName}-${ownMachines.length + 1}`;
   }
 
-  return registerMachine(endpointId, nextName, forwardUrl);
+  return registerMachine(endpointId, nextName, forwardUrl, config);
 }
 
 // ---------------------------------------------------------------------------
 // CLI command handlers (non-interactive)
 // ---------------------------------------------------------------------------
 
-async function handleLoginCommand(): Promise<never> {
-  const readline = await import("node:readline");
-  const rl = readline.createInterface({
-    input: process.stdin,
-    output: process.stdout,
-  });
+/** RFC 8628 device authorization response from POST /device/code */
+interface DeviceCodeResponse {
+  device_code: string;
+  expires_in: number;
+  interval: number;
+  user_code: string;
+  verification_uri: string;
+  verification_uri_complete: string;
+}
 
-  const ask = (q: string): Promise<string> =>
-    new Promise((resolve) => rl.question(q, resolve));
+/** Extra wait added when the server asks the CLI to poll more slowly */
+const SLOW_DOWN_MS = 5000;
 
-  console.log("tunnelhook login");
-  console.log(`Server: ${SERVER_URL}\n`);
+function exitWithError(message: string): never {
+  console.error(message);
+  process.exit(1);
+}
 
-  const email = await ask("Email: ");
-  rl.close();
-
-  // Read password with masked input (echo asterisks instead of plaintext)
-  const password = await new Promise<string>((resolve) => {
-    process.stdout.write("Password: ");
-    let pwd = "";
-    process.stdin.setRawMode(true);
-    process.stdin.resume();
-    process.stdin.setEncoding("utf8");
-    const onData = (ch: string) => {
-      if (ch === "\r" || ch === "\n") {
-        process.stdin.setRawMode(false);
-        process.stdin.pause();
-        process.stdin.removeListener("data", onData);
-        process.stdout.write("\n");
-        resolve(pwd);
-      } else if (ch === "\u007F" || ch === "\b") {
-        if (pwd.length > 0) {
-          pwd = pwd.slice(0, -1);
-          process.stdout.write("\b \b");
-        }
-      } else if (ch === "\u0003") {
-        // Ctrl+C
-        process.stdout.write("\n");
-        process.exit(0);
-      } else {
-        pwd += ch;
-        process.stdout.write("*");
-      }
-    };
-    process.stdin.on("data", onData);
-  });
+async function requestDeviceToken(
+  deviceCode: string
+): Promise<{ access_token?: string; error?: string }> {
+  try {
+    const res = await fetch(`${SERVER_URL}/device/token`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ device_code: deviceCode }),
+    });
+    return (await res.json()) as { access_token?: string; error?: string };
+  } catch {
+    // Network blip — try again on the next poll
+    return { error: "authorization_pending" };
+  }
+}
+
+/** Poll until the login is approved in the dashboard; exits on denial or expiry */
+async function pollDeviceToken(start: DeviceCodeResponse): Promise<string> {
+  const deadline = Date.now() + start.expires_in * 1000;
+  let intervalMs = start.interval * 1000;
 
-  console.log("\nSigning in...");
-  const result = await signIn(email, password);
+  while (Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, intervalMs));
+    const result = await requestDeviceToken(start.device_code);
 
-  if (result.success) {
-    console.log(
-      "Logged in successfully. Session saved to ~/.tunnelhook/session.json"
+    if (result.access_token) {
+      return result.access_token;
+    }
+    if (result.error === "slow_down") {
+      intervalMs += SLOW_DOWN_MS;
+    } else if (result.error === "access_denied") {
+      exitWithError("Login was denied in the dashboard.");
+    } else if (result.error !== "authorization_pending") {
+      break;
+    }
+  }
+
+  return exitWithError("Login request expired. Run `tunnelhook login` again.");
+}
+
+/**
+ * Log in through the browser: print a code, let the user approve it in the
+ * dashboard, and save the API token the server issues on approval.
+ */
+async function handleLoginCommand(): Promise<never> {
+  console.log("tunnelhook login");
+  console.log(`Server: ${SERVER_URL}\n`);
+
+  let start: DeviceCodeResponse;
+  try {
+    const res = await fetch(`${SERVER_URL}/device/code`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ client_name: getMachineName() }),
+    });
+    if (!res.ok) {
+      exitWithError(`Login failed: server returned ${res.status}`);
+    }
+    start = (await res.json()) as DeviceCodeResponse;
+  } catch (err) {
+    exitWithError(
+      `Login failed: ${err instanceof Error ? err.message : "Network error"}`
     );
-  } else {
-    console.error(`Login failed: ${result.error ?? "Unknown error"}`);
-    process.exit(1);
   }
 
+  console.log("Open this URL in your browser to approve the login:");
+  console.log(`  ${start.verification_uri_complete}\n`);
+  console.log(`Make sure it shows the code ${start.user_code}`);
+  console.log("Waiting for approval...");
+
+  const token = await pollDeviceToken(start);
+  saveSession({ token });
+
+  console.log(
+    "\nLogged in successfully. Credentials saved to ~/.tunnelhook/session.json"
+  );
   process.exit(0);
 }
 
 async function handleListenCommand(
   slug: string,
   forwardUrl: string,
-  machineNameOverride?: string
+  machineNameOverride?: string,
+  config: MachineConfig = {}
 ): Promise<{ endpoint: Endpoint; machine: Machine }> {
   // Validate session
   const valid = await validateSession();
   if (!valid) {
     console.error(
-      "Not logged in or session expired. Run `tunnelhook login` first."
+      API_TOKEN
+        ? "TUNNELHOOK_TOKEN is invalid, expired or revoked."
+        : "Not logged in or session expired. Run `tunnelhook login` first, or set TUNNELHOOK_TOKEN."
     );
     process.exit(1);
   }
@@ -453,7 +731,8 @@ async function handleListenCommand(
   const machine = await findOrCreateMachine(
     endpoint.id,
     forwardUrl,
-    machineNameOverride
+    machineNameOverride,
+    config
   );
 
   return { endpoint, machine };
@@ -463,15 +742,30 @@ async function handleListenCommand(
 // WebSocket helpers
 // ---------------------------------------------------------------------------
 
+/** Reference to a large or binary body kept in the server's blob store */
+interface BodyBlobRef {
+  /** Hex SHA-256 of the body bytes */
+  sha256: string;
+  size: number;
+}
+
 interface WebhookMessage {
+  /** 1-based attempt number — greater than 1 for server-side retries */
+  attempt: number;
   body: string | null;
+  /** Set when the body must be downloaded from /events/:eventId/body */
+  bodyBlob?: BodyBlobRef | null;
   contentType: string | null;
   createdAt: string;
   deliveryId: string;
   eventId: string;
   headers: string;
   method: string;
+  /** Sub-path after `/hooks/:slug` (null for the endpoint root) */
+  path: string | null;
   query: string | null;
+  /** Signature verification outcome (null if the endpoint has no verifier) */
+  signatureStatus: SignatureStatus | null;
   sourceIp: string | null;
   type: "webhook";
 }
@@ -484,6 +778,7 @@ interface DeliveryResultMessage {
   machineId: string;
   machineName: string;
   responseBody: string | null;
+  responseHeaders: Record<string, string> | null;
   responseStatus: number | null;
   status: "delivered" | "failed";
   type: "delivery-result";
@@ -501,20 +796,376 @@ type ServerMessage =
   | DeliveryResultMessage
   | MachineStatusMessage;
 
+/** Signature headers owned by each scheme — replaced when re-signing */
+const SIGNATURE_HEADERS: Record<SigningScheme, string[]> = {
+  stripe: ["stripe-signature"],
+  github: ["x-hub-signature-256", "x-hub-signature"],
+  slack: ["x-slack-signature", "x-slack-request-timestamp"],
+  standard: [
+    "webhook-id",
+    "webhook-timestamp",
+    "webhook-signature",
+    "svix-id",
+    "svix-timestamp",
+    "svix-signature",
+  ],
+};
+
+/**
+ * Compute fresh signature headers for the local target, so handlers that
+ * verify signatures still accept the forwarded request. The timestamp is
+ * "now" so replays and retries stay within the handler's tolerance window.
+ */
+function signForLocalTarget(
+  signing: SigningConfig,
+  body: string | Buffer,
+  originalHeaders: Record<string, string>,
+  eventId: string
+): Record<string, string> {
+  const timestamp = Math.floor(Date.now() / 1000);
+  // Signed payloads are built from parts so binary bodies stay byte-exact
+  const hmac = (key: string | Buffer, ...parts: Array<string | Buffer>) => {
+    const mac = createHmac("sha256", key);
+    for (const part of parts) {
+      mac.update(part);
+    }
+    return mac;
+  };
+
+  switch (signing.scheme) {
+    case "stripe":
+      return {
+        "stripe-signature": `t=${timestamp},v1=${hmac(signing.secret, `${timestamp}.`, body).digest("hex")}`,
+      };
+    case "github":
+      return {
+        "x-hub-signature-256": `sha256=${hmac(signing.secret, body).digest("hex")}`,
+      };
+    case "slack":
+      return {
+        "x-slack-request-timestamp": String(timestamp),
+        "x-slack-signature": `v0=${hmac(signing.secret, `v0:${timestamp}:`, body).digest("hex")}`,
+      };
+    default: {
+      // Standard Webhooks / Svix: keep the sender's header prefix and message ID
+      const prefix = originalHeaders["svix-id"] ? "svix" : "webhook";
+      const id =
+        originalHeaders["svix-id"] ?? originalHeaders["webhook-id"] ?? eventId;
+      const key = signing.secret.startsWith("whsec_")
+        ? Buffer.from(signing.secret.slice("whsec_".length), "base64")
+        : signing.secret;
+      const signature = hmac(key, `${id}.${timestamp}.`, body).digest("base64");
+      return {
+        [`${prefix}-id`]: id,
+        [`${prefix}-timestamp`]: String(timestamp),
+        [`${prefix}-signature`]: `v1,${signature}`,
+      };
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Request transforms (declarative per-machine pipeline, see machine.transforms)
+// ---------------------------------------------------------------------------
+
+type RequestTransform =
+  | { name: string; op: "set-header"; value: string }
+  | { name: string; op: "remove-header" }
+  | { from: string; op: "rename-header"; to: string }
+  | { op: "rewrite-path"; pattern: string; replacement: string }
+  | { op: "json-set"; path: string; value: unknown }
+  | { op: "json-delete"; path: string }
+  | { op: "form-to-json" }
+  | { op: "json-to-form" };
+
+/** The request as it is sent to the local target */
+interface LocalRequest {
+  body: string | null;
+  /** Byte-exact body downloaded from the blob store (`body` is null then) */
+  bodyBytes?: Buffer;
+  headers: Record<string, string>;
+  method: string;
+  url: string;
+}
+
+type JsonContainer = Record<string | number, unknown>;
+
+function jsonSet(
+  root: unknown,
+  segments: Array<string | number>,
+  value: unknown
+): unknown {
+  if (segments.length === 0) {
+    return value;
+  }
+  const base: JsonContainer =
+    root !== null && typeof root === "object"
+      ? (root as JsonContainer)
+      : ((typeof segments[0] === "number" ? [] : {}) as JsonContainer);
+  let node = base;
+  for (let i = 0; i < segments.length - 1; i++) {
+    const key = segments[i] as string | number;
+    const next = node[key];
+    if (next === null || typeof next !== "object") {
+      node[key] = typeof segments[i + 1] === "number" ? [] : {};
+    }
+    node = node[key] as JsonContainer;
+  }
+  node[segments.at(-1) as string | number] = value;
+  return base;
+}
+
+function jsonDelete(root: unknown, segments: Array<string | number>): void {
+  let node = root;
+  for (const key of segments.slice(0, -1)) {
+    if (node === null || typeof node !== "object") {
+      return;
+    }
+    node = (node as JsonContainer)[key];
+  }
+  const last = segments.at(-1);
+  if (last === undefined || node === null || typeof node !== "object") {
+    return;
+  }
+  if (Array.isArray(node) && typeof last === "number") {
+    node.splice(last, 1);
+  } else {
+    delete (node as JsonContainer)[last];
+  }
+}
+
+function parseJsonBody(body: string | null): unknown {
+  try {
+    return body ? JSON.parse(body) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function applyTransform(
+  req: LocalRequest,
+  transform: RequestTransform
+): LocalRequest {
+  const headers = { ...req.headers };
+  switch (transform.op) {
+    case "set-header":
+      headers[transform.name.toLowerCase()] = transform.value;
+      return { ...req, headers };
+    case "remove-header":
+      delete headers[transform.name.toLowerCase()];
+      return { ...req, headers };
+    case "rename-header": {
+      const from = transform.from.toLowerCase();
+      if (from in headers) {
+        headers[transform.to.toLowerCase()] = headers[from] as string;
+        delete headers[from];
+      }
+      return { ...req, headers };
+    }
+    case "rewrite-path": {
+      const url = new URL(req.url);
+      url.pathname = url.pathname.replace(
+        new RegExp(transform.pattern),
+        transform.replacement
+      );
+      return { ...req, url: url.toString() };
+    }
+    case "json-set":
+    case "json-delete": {
+      const segments = parseJsonPath(transform.path);
+      const parsed = parseJsonBody(req.body);
+      // Leave non-JSON bodies alone; json-set may start from an empty body
+      if (
+        !segments ||
+        (parsed === undefined && (req.body || transform.op === "json-delete"))
+      ) {
+        return req;
+      }
+      let next = parsed;
+      if (transform.op === "json-set") {
+        next = jsonSet(parsed, segments, transform.value);
+      } else {
+        jsonDelete(parsed, segments);
+      }
+      return { ...req, body: JSON.stringify(next) };
+    }
+    case "form-to-json": {
+      const form = new URLSearchParams(req.body ?? "");
+      headers["content-type"] = "application/json";
+      return {
+        ...req,
+        headers,
+        body: JSON.stringify(Object.fromEntries(form)),
+      };
+    }
+    case "json-to-form": {
+      const parsed = parseJsonBody(req.body);
+      if (parsed === null || typeof parsed !== "object") {
+        return req;
+      }
+      const form = new URLSearchParams();
+      for (const [key, value] of Object.entries(parsed)) {
+        form.append(
+          key,
+          typeof value === "string" ? value : JSON.stringify(value)
+        );
+      }
+      headers["content-type"] = "application/x-www-form-urlencoded";
+      return { ...req, headers, body: form.toString() };
+    }
+    default:
+      return req;
+  }
+}
+
+/** Parse a JSON array column from the machine row, ignoring bad data */
+function parseJsonArray<T>(raw: string | null): T[] {
+  if (!raw) {
+    return [];
+  }
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    return Array.isArray(parsed) ? (parsed as T[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+/** Ops that read or rewrite the body; skipped for binary blob bodies */
+const BODY_TRANSFORM_OPS = new Set<RequestTransform["op"]>([
+  "json-set",
+  "json-delete",
+  "form-to-json",
+  "json-to-form",
+]);
+
+/**
+ * Run the machine's transform pipeline in order. The body length changes,
+ * so the original content-length is dropped and fetch recomputes it.
+ */
+function applyTransforms(
+  req: LocalRequest,
+  transforms: RequestTransform[]
+): LocalRequest {
+  const applicable = req.bodyBytes
+    ? transforms.filter((t) => !BODY_TRANSFORM_OPS.has(t.op))
+    : transforms;
+  if (applicable.length === 0) {
+    return req;
+  }
+  const { "content-length": _contentLength, ...headers } = req.headers;
+  return applicable.reduce(applyTransform, { ...req, headers });
+}
+
+// ---------------------------------------------------------------------------
+// Routing rules (per-machine, see machine.routes)
+// ---------------------------------------------------------------------------
+
+/** Every given condition must match; the first matching rule wins */
+interface RouteRule {
+  forwardUrl: string;
+  header?: { name: string; value: string };
+  jsonField?: { equals: string | number | boolean | null; path: string };
+  method?: string;
+  /** Sub-path under /hooks/:slug; `*` matches any run of characters */
+  path?: string;
+}
+
+function routeMatches(
+  rule: RouteRule,
+  req: {
+    body: string | null;
+    headers: Record<string, string>;
+    method: string;
+    path: string | null;
+  }
+): boolean {
+  if (rule.method && rule.method.toUpperCase() !== req.method.toUpperCase()) {
+    return false;
+  }
+  if (rule.path && !globToRegExp(rule.path).test(req.path ?? "/")) {
+    return false;
+  }
+  if (
+    rule.header &&
+    req.headers[rule.header.name.toLowerCase()] !== rule.header.value
+  ) {
+    return false;
+  }
+  if (rule.jsonField) {
+    const segments = parseJsonPath(rule.jsonField.path);
+    if (
+      !segments ||
+      jsonGet(parseJsonBody(req.body), segments) !== rule.jsonField.equals
+    ) {
+      return false;
+    }
+  }
+  return true;
+}
+
+const TRAILING_SLASH_RE = /\/$/;
+
+/**
+ * Pick the local URL for a request: the first matching rule's URL, else the
+ * default with the webhook's sub-path appended. Both keep the query string.
+ */
+function resolveForwardUrl(
+  defaultUrl: string,
+  routes: RouteRule[],
+  req: Parameters<typeof routeMatches>[1] & { query: string | null }
+): string {
+  const route = routes.find((rule) => routeMatches(rule, req));
+  const url = new URL(route?.forwardUrl ?? defaultUrl);
+  if (!route && req.path) {
+    url.pathname = url.pathname.replace(TRAILING_SLASH_RE, "") + req.path;
+  }
+  if (req.query) {
+    url.search = url.search ? `${url.search}&${req.query.slice(1)}` : req.query;
+  }
+  return url.toString();
+}
+
 /**
- * Forward a webhook to a local URL and return the result.
+ * Download a blob-stored request body and check it against the advertised
+ * SHA-256 so the local server receives exactly the bytes the provider sent.
+ */
+async function downloadEventBody(
+  eventId: string,
+  blob: BodyBlobRef
+): Promise<Buffer> {
+  const res = await fetch(`${SERVER_URL}/events/${eventId}/body`, {
+    headers: getAuthHeaders(),
+  });
+  if (!res.ok) {
+    throw new Error(`Body download failed: ${res.status}`);
+  }
+  const bytes = Buffer.from(await res.arrayBuffer());
+  if (createHash("sha256").update(bytes).digest("hex") !== blob.sha256) {
+    throw new Error("Body download failed: SHA-256 mismatch");
+  }
+  return bytes;
+}
+
+/**
+ * Forward a webhook to the machine's local URL and return the result.
  */
 async function forwardWebhookLocally(
-  forwardUrl: string,
+  mach: Machine,
+  signing: SigningConfig | null,
   msg: WebhookMessage
 ): Promise<{
   duration: number;
   error: string | null;
+  /** The request after transforms and re-signing */
+  request: LocalRequest | null;
   responseBody: string | null;
+  responseHeaders: Record<string, string> | null;
   responseStatus: number | null;
   status: "delivered" | "failed";
 }> {
   const startTime = Date.now();
+  let request: LocalRequest | null = null;
   try {
     let parsedHeaders: Record<string, string> = {};
     try {
@@ -526,19 +1177,66 @@ async function forwardWebhookLocally(
     // Remove host header to avoid conflicts
     const { host: _host, ...forwardHeaders } = parsedHeaders;
 
-    const res = await fetch(forwardUrl, {
-      method: msg.method,
-      headers: {
-        ...forwardHeaders,
-        host: new URL(forwardUrl).host,
-        "x-tunnelhook-event-id": msg.eventId,
-        "x-tunnelhook-delivery-id": msg.deliveryId,
+    const bodyBytes = msg.bodyBlob
+      ? await downloadEventBody(msg.eventId, msg.bodyBlob)
+      : undefined;
+
+    request = applyTransforms(
+      {
+        method: msg.method,
+        url: resolveForwardUrl(
+          mach.forwardUrl,
+          parseJsonArray<RouteRule>(mach.routes),
+          {
+            method: msg.method,
+            path: msg.path,
+            query: msg.query,
+            headers: parsedHeaders,
+            body: msg.body,
+          }
+        ),
+        headers: forwardHeaders,
+        body: msg.body,
+        bodyBytes,
       },
+      parseJsonArray<RequestTransform>(mach.transforms)
+    );
+
+    // Replace the provider signature, which no longer matches after the
+    // request was rewritten on its way here
+    if (signing) {
+      for (const header of SIGNATURE_HEADERS[signing.scheme]) {
+        delete request.headers[header];
+      }
+      Object.assign(
+        request.headers,
+        signForLocalTarget(
+          signing,
+          request.bodyBytes ?? request.body ?? "",
+          parsedHeaders,
+          msg.eventId
+        )
+      );
+    }
+
+    request.headers = {
+      ...request.headers,
+      host: new URL(request.url).host,
+      "x-tunnelhook-event-id": msg.eventId,
+      "x-tunnelhook-delivery-id": msg.deliveryId,
+    };
+
+    const res = await fetch(request.url, {
+      method: request.method,
+      headers: request.headers,
       body:
-        msg.method !== "GET" && msg.method !== "HEAD" ? msg.body : undefined,
+        request.method !== "GET" && request.method !== "HEAD"
+          ? (request.bodyBytes ?? request.body)
+          : undefined,
     });
 
     const duration = Date.now() - startTime;
+    const responseHeaders = Object.fromEntries(res.headers.entries());
     let responseBody: string | null = null;
     try {
       responseBody = await res.text();
@@ -553,8 +1251,10 @@ async function forwardWebhookLocally(
       status: res.ok ? "delivered" : "failed",
       responseStatus: res.status,
       responseBody,
+      responseHeaders,
       error: null,
       duration,
+      request,
     };
   } catch (err) {
     const duration = Date.now() - startTime;
@@ -562,8 +1262,10 @@ async function forwardWebhookLocally(
       status: "failed",
       responseStatus: null,
       responseBody: null,
+      responseHeaders: null,
       error: err instanceof Error ? err.message : "Unknown error",
       duration,
+      request,
     };
   }
 }
@@ -598,6 +1300,13 @@ function methodColor(method: string): string {
   return METHOD_COLORS[method.toUpperCase()] ?? COLORS.text;
 }
 
+const SIGNATURE_LABELS: Record<SignatureStatus, { fg: string; text: string }> =
+  {
+    verified: { fg: COLORS.green, text: "verified" },
+    invalid: { fg: COLORS.red, text: "invalid" },
+    missing: { fg: COLORS.yellow, text: "unsigned" },
+  };
+
 function statusColor(status: number | null): string {
   if (status === null) {
     return COLORS.textDim;
@@ -655,9 +1364,10 @@ function HelpBar({ screen }: { screen: Screen }) {
     login: "Tab: switch fields  Enter: submit",
     endpoints: "j/k: navigate  Enter: select  n: new  r: refresh  q: quit",
     "machine-setup": "j/k: navigate  Enter: select  n: new machine  esc: back",
-    monitor: "j/k: navigate  Enter: detail  esc: back  q: quit",
+    monitor:
+      "j/k: navigate  Enter: detail  /: search  esc: back/clear search  q: quit",
     "event-detail":
-      "1: body  2: headers  3: deliveries  Tab: switch  esc: back",
+      "1: body  2: headers  3: deliveries  4: forwarded  Tab: switch  r: replay  R: replay all  esc: back",
   };
 
   return (
@@ -1159,32 +1869,193 @@ function MachineSetupScreen({
   );
 }
 
+// ---------------------------------------------------------------------------
+// Event search (the monitor's `/` prompt)
+// ---------------------------------------------------------------------------
+
+/** Filters accepted by events.search */
+interface EventSearchQuery {
+  contentType?: string;
+  deliveryStatus?: DeliverySearchStatus;
+  from?: Date;
+  header?: { name: string; value?: string };
+  jsonField?: { path: string; value?: string };
+  method?: string;
+  sourceIp?: string;
+  text?: string;
+  to?: Date;
+}
+
+type DeliverySearchStatus = "pending" | "delivered" | "failed" | "filtered";
+
+const DELIVERY_SEARCH_STATUSES: DeliverySearchStatus[] = [
+  "pending",
+  "delivered",
+  "failed",
+  "filtered",
+];
+
+const RELATIVE_TIME_RE = /^(\d+)([mhd])$/;
+const WHITESPACE_RE = /\s+/;
+const RELATIVE_TIME_UNITS_MS: Record<string, number> = {
+  m: 60_000,
+  h: 3_600_000,
+  d: 86_400_000,
+};
+
+function splitOnce(value: string, separator: string): [string, string?] {
+  const idx = value.indexOf(separator);
+  return idx === -1
+    ? [value]
+    : [value.slice(0, idx), value.slice(idx + separator.length)];
+}
+
+/** `30m`, `6h` or `7d` ago, or anything Date understands */
+function parseSearchDate(value: string): Date | undefined {
+  const relative = RELATIVE_TIME_RE.exec(value);
+  if (relative) {
+    const unit = RELATIVE_TIME_UNITS_MS[relative[2] ?? ""] ?? 0;
+    return new Date(Date.now() - Number(relative[1]) * unit);
+  }
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+const SEARCH_TOKEN_HANDLERS: Record<
+  string,
+  (query: EventSearchQuery, value: string) => void
+> = {
+  method: (query, value) => {
+    query.method = value.toUpperCase();
+  },
+  status: (query, value) => {
+    query.deliveryStatus = DELIVERY_SEARCH_STATUSES.find((s) => s === value);
+  },
+  ip: (query, value) => {
+    query.sourceIp = value;
+  },
+  type: (query, value) => {
+    query.contentType = value;
+  },
+  header: (query, value) => {
+    const [name, headerValue] = splitOnce(value, "=");
+    query.header = { name, value: headerValue };
+  },
+  since: (query, value) => {
+    query.from = parseSearchDate(value);
+  },
+  until: (query, value) => {
+    query.to = parseSearchDate(value);
+  },
+};
+
+/**
+ * Parse the search prompt. `key:value` tokens set structured filters,
+ * `$.path=value` matches a JSON body field, and the remaining words are
+ * searched in request bodies:
+ *
+ *   method:POST status:failed ip:140.82.* type:json since:1h
+ *   header:x-github-event=push $.type=charge.* refund
+ */
+function parseSearchQuery(raw: string): EventSearchQuery {
+  const query: EventSearchQuery = {};
+  const words: string[] = [];
+
+  for (const token of raw.trim().split(WHITESPACE_RE).filter(Boolean)) {
+    if (token.startsWith("$")) {
+      const [path, value] = splitOnce(token, "=");
+      query.jsonField = { path, value };
+      continue;
+    }
+    const [key, value] = splitOnce(token, ":");
+    const handler = SEARCH_TOKEN_HANDLERS[key.toLowerCase()];
+    if (handler && value) {
+      handler(query, value);
+    } else {
+      words.push(token);
+    }
+  }
+
+  if (words.length > 0) {
+    query.text = words.join(" ");
+  }
+  return query;
+}
+
+/**
+ * Search state for the monitor. Lives in App so results survive opening an
+ * event's detail screen and coming back.
+ */
+function useEventSearch(ep: Endpoint | null) {
+  const [query, setQuery] = useState<string | null>(null);
+  const [results, setResults] = useState<MonitorEvent[]>([]);
+  const [status, setStatus] = useState<string | null>(null);
+
+  const run = useCallback(
+    (raw: string) => {
+      if (!ep) {
+        return;
+      }
+      if (!raw.trim()) {
+        setQuery(null);
+        setResults([]);
+        return;
+      }
+      setQuery(raw);
+      setStatus("searching...");
+      searchEvents(ep.id, parseSearchQuery(raw))
+        .then((items) => {
+          setResults(
+            items.map((ev) => ({
+              attempt: 1,
+              deliveryId: "",
+              event: ev,
+              eventId: ev.id ?? "",
+            }))
+          );
+          setStatus(`${items.length} matching events`);
+        })
+        .catch((err: Error) => {
+          setResults([]);
+          setStatus(`search failed: ${err.message}`);
+        });
+    },
+    [ep]
+  );
+
+  const clear = useCallback(() => {
+    setQuery(null);
+    setResults([]);
+    setStatus(null);
+  }, []);
+
+  return { query, results, status, run, clear };
+}
+
+type EventSearchState = ReturnType<typeof useEventSearch>;
+
 // ---------------------------------------------------------------------------
 // Live Monitor Screen (WebSocket machine connection)
 // ---------------------------------------------------------------------------
 
 interface MonitorEvent {
+  attempt: number;
+  /** Empty for search results, which are not tied to a delivery */
   deliveryId: string;
   deliveryResult?: DeliveryResult;
   event: WebhookEvent;
   eventId: string;
+  /** The request actually sent to the local target, after transforms */
+  forwarded?: LocalRequest;
 }
 
-function MonitorScreen({
-  endpoint: ep,
-  machine: mach,
-  onBack,
-  onSelectEvent,
-  onQuit,
-}: {
-  endpoint: Endpoint;
-  machine: Machine;
-  onBack: () => void;
-  onSelectEvent: (evt: MonitorEvent) => void;
-  onQuit: () => void;
-}) {
+/**
+ * Maintains the machine WebSocket connection and forwards incoming webhooks
+ * locally. Lives in App so the connection and the session's events survive
+ * switching between the monitor and detail screens.
+ */
+function useMachineConnection(ep: Endpoint | null, mach: Machine | null) {
   const [events, setEvents] = useState<MonitorEvent[]>([]);
-  const [selectedIndex, setSelectedIndex] = useState(0);
   const [connected, setConnected] = useState(false);
   const [wsStatus, setWsStatus] = useState<string>("connecting...");
   const [reconnectAttempt, setReconnectAttempt] = useState(0);
@@ -1195,7 +2066,16 @@ function MonitorScreen({
 
   // Connect to WebSocket as a machine
   useEffect(() => {
+    if (!(ep && mach)) {
+      setEvents([]);
+      setConnected(false);
+      setWsStatus("connecting...");
+      return;
+    }
+
     const wsUrl = `${WS_URL}/hooks/${ep.slug}/ws?role=machine&machineId=${mach.id}&machineName=${encodeURIComponent(mach.name)}`;
+    // Fetched once per connection; without it requests are forwarded unsigned
+    const signing = fetchSigningConfig(mach).catch(() => null);
 
     let ws: WebSocket;
     try {
@@ -1233,73 +2113,90 @@ function MonitorScreen({
         const monitorEvent: MonitorEvent = {
           eventId: webhookMsg.eventId,
           deliveryId: webhookMsg.deliveryId,
+          attempt: webhookMsg.attempt ?? 1,
           event: {
             method: webhookMsg.method,
             headers: webhookMsg.headers,
             body: webhookMsg.body,
+            bodyBlob: webhookMsg.bodyBlob,
+            path: webhookMsg.path,
             query: webhookMsg.query,
             contentType: webhookMsg.contentType,
             sourceIp: webhookMsg.sourceIp,
+            signatureStatus: webhookMsg.signatureStatus,
             createdAt: webhookMsg.createdAt,
           },
         };
 
-        setEvents((prev) => [monitorEvent, ...prev]);
+        // Server-side retries reuse the delivery ID — update the existing row
+        setEvents((prev) =>
+          prev.some((e) => e.deliveryId === webhookMsg.deliveryId)
+            ? prev.map((e) =>
+                e.deliveryId === webhookMsg.deliveryId ? monitorEvent : e
+              )
+            : [monitorEvent, ...prev]
+        );
 
         // Forward locally and report back
-        forwardWebhookLocally(mach.forwardUrl, webhookMsg).then((result) => {
-          // Send delivery report back via WebSocket
-          const report = {
-            type: "delivery-report" as const,
-            eventId: webhookMsg.eventId,
-            deliveryId: webhookMsg.deliveryId,
-            status: result.status,
-            responseStatus: result.responseStatus,
-            responseBody: result.responseBody,
-            error: result.error,
-            duration: result.duration,
-          };
-
-          try {
-            ws.send(JSON.stringify(report));
-          } catch {
-            // WebSocket closed
-          }
+        signing
+          .then((config) => forwardWebhookLocally(mach, config, webhookMsg))
+          .then((result) => {
+            // Send delivery report back via WebSocket
+            const report = {
+              type: "delivery-report" as const,
+              eventId: webhookMsg.eventId,
+              deliveryId: webhookMsg.deliveryId,
+              status: result.status,
+              responseStatus: result.responseStatus,
+              responseBody: result.responseBody,
+              responseHeaders: result.responseHeaders,
+              error: result.error,
+              duration: result.duration,
+            };
 
-          // Also persist via oRPC
-          reportDeliveryResult({
-            deliveryId: webhookMsg.deliveryId,
-            status: result.status,
-            responseStatus: result.responseStatus,
-            responseBody: result.responseBody,
-            error: result.error,
-            duration: result.duration,
-          }).catch(() => {
-            // Non-critical — delivery result already sent via WS
-          });
+            try {
+              ws.send(JSON.stringify(report));
+            } catch {
+              // WebSocket closed
+            }
 
-          // Update local state with delivery result
-          setEvents((prev) =>
-            prev.map((e) =>
-              e.deliveryId === webhookMsg.deliveryId
-                ? {
-                    ...e,
-                    deliveryResult: {
-                      deliveryId: webhookMsg.deliveryId,
-                      eventId: webhookMsg.eventId,
-                      machineId: mach.id,
-                      machineName: mach.name,
-                      status: result.status,
-                      responseStatus: result.responseStatus,
-                      responseBody: result.responseBody,
-                      error: result.error,
-                      duration: result.duration,
-                    },
-                  }
-                : e
-            )
-          );
-        });
+            // Also persist via oRPC
+            reportDeliveryResult({
+              deliveryId: webhookMsg.deliveryId,
+              status: result.status,
+              responseStatus: result.responseStatus,
+              responseBody: result.responseBody,
+              responseHeaders: result.responseHeaders,
+              error: result.error,
+              duration: result.duration,
+            }).catch(() => {
+              // Non-critical — delivery result already sent via WS
+            });
+
+            // Update local state with delivery result
+            setEvents((prev) =>
+              prev.map((e) =>
+                e.deliveryId === webhookMsg.deliveryId
+                  ? {
+                      ...e,
+                      forwarded: result.request ?? undefined,
+                      deliveryResult: {
+                        deliveryId: webhookMsg.deliveryId,
+                        eventId: webhookMsg.eventId,
+                        machineId: mach.id,
+                        machineName: mach.name,
+                        status: result.status,
+                        responseStatus: result.responseStatus,
+                        responseBody: result.responseBody,
+                        responseHeaders: result.responseHeaders,
+                        error: result.error,
+                        duration: result.duration,
+                      },
+                    }
+                  : e
+              )
+            );
+          });
       }
 
       if (parsed.type === "delivery-result") {
@@ -1318,6 +2215,7 @@ function MonitorScreen({
                     status: resultMsg.status,
                     responseStatus: resultMsg.responseStatus,
                     responseBody: resultMsg.responseBody,
+                    responseHeaders: resultMsg.responseHeaders ?? null,
                     error: resultMsg.error,
                     duration: resultMsg.duration,
                   },
@@ -1355,28 +2253,89 @@ function MonitorScreen({
       }
       ws.close(1000); // Intentional close — code 1000 prevents reconnect
     };
-  }, [ep.slug, mach.id, mach.name, mach.forwardUrl, reconnectAttempt]);
+  }, [ep, mach, reconnectAttempt]);
+
+  return { events, connected, wsStatus };
+}
+
+function MonitorScreen({
+  endpoint: ep,
+  machine: mach,
+  events,
+  connected,
+  wsStatus,
+  onBack,
+  onSelectEvent,
+  onQuit,
+  search,
+}: {
+  endpoint: Endpoint;
+  machine: Machine;
+  events: MonitorEvent[];
+  connected: boolean;
+  wsStatus: string;
+  onBack: () => void;
+  onSelectEvent: (evt: MonitorEvent) => void;
+  onQuit: () => void;
+  search: EventSearchState;
+}) {
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [promptOpen, setPromptOpen] = useState(false);
+  const [promptValue, setPromptValue] = useState(search.query ?? "");
+
+  // Search results replace the live list until the search is cleared
+  const shown = search.query === null ? events : search.results;
+
+  const handlePromptKey = (key: { name: string }) => {
+    if (key.name === "escape") {
+      setPromptOpen(false);
+    }
+    if (key.name === "enter" || key.name === "return") {
+      setPromptOpen(false);
+      setSelectedIndex(0);
+      search.run(promptValue);
+    }
+  };
+
+  // Esc clears an active search first, then leaves the monitor
+  const handleEscape = () => {
+    if (search.query === null) {
+      onBack();
+      return;
+    }
+    search.clear();
+    setPromptValue("");
+    setSelectedIndex(0);
+  };
 
   useKeyboard((key) => {
+    if (promptOpen) {
+      handlePromptKey(key);
+      return;
+    }
     if (key.name === "q" || (key.ctrl && key.name === "c")) {
       onQuit();
       return;
     }
+    if (key.sequence === "/") {
+      setPromptOpen(true);
+      return;
+    }
     if (key.name === "escape") {
-      onBack();
+      handleEscape();
       return;
     }
     if (key.name === "j" || key.name === "down") {
-      setSelectedIndex((idx: number) => Math.min(events.length - 1, idx + 1));
+      setSelectedIndex((idx: number) => Math.min(shown.length - 1, idx + 1));
     }
     if (key.name === "k" || key.name === "up") {
       setSelectedIndex((idx: number) => Math.max(0, idx - 1));
     }
     if (
       (key.name === "enter" || key.name === "return") &&
-      events[selectedIndex]
+      shown[selectedIndex]
     ) {
-      onSelectEvent(events[selectedIndex]);
+      onSelectEvent(shown[selectedIndex]);
     }
   });
 
@@ -1411,18 +2370,29 @@ function MonitorScreen({
             Forward: <span fg={COLORS.accent}>{mach.forwardUrl}</span>
           </text>
         </box>
-        <text fg={COLORS.textDim}>
-          {events.length} events received this session
-        </text>
+        {search.query === null ? (
+          <text fg={COLORS.textDim}>
+            {events.length} events received this session
+          </text>
+        ) : (
+          <text fg={COLORS.accent}>
+            /{search.query} <span fg={COLORS.textDim}>— {search.status}</span>
+          </text>
+        )}
       </box>
 
       {/* Events list */}
-      <scrollbox focused height={height - 10}>
-        {events.map((me: MonitorEvent, idx: number) => {
+      <scrollbox focused={!promptOpen} height={height - (promptOpen ? 11 : 10)}>
+        {shown.map((me: MonitorEvent, idx: number) => {
           const time = new Date(me.event.createdAt).toLocaleTimeString();
           const dr = me.deliveryResult;
 
-          let statusText = "pending";
+          const signature = me.event.signatureStatus
+            ? SIGNATURE_LABELS[me.event.signatureStatus]
+            : null;
+
+          let statusText =
+            me.attempt > 1 ? `retry #${me.attempt - 1}` : "pending";
           let statusFg = COLORS.yellow;
           if (dr) {
             statusText =
@@ -1457,7 +2427,7 @@ function MonitorScreen({
               flexDirection="row"
               gap={1}
               height={2}
-              key={me.deliveryId}
+              key={me.deliveryId || me.eventId}
               paddingX={2}
             >
               <text
@@ -1475,11 +2445,16 @@ function MonitorScreen({
               <text fg={statusFg} width={20}>
                 {statusText}
               </text>
+              {signature ? (
+                <text fg={signature.fg} width={9}>
+                  {signature.text}
+                </text>
+              ) : null}
               <text fg={COLORS.text}>{bodyPreview || "(no body)"}</text>
             </box>
           );
         })}
-        {events.length === 0 ? (
+        {events.length === 0 && search.query === null ? (
           <box padding={2}>
             <text fg={COLORS.textDim}>
               Waiting for webhooks... Send a request to: {webhookUrl}
@@ -1487,6 +2462,23 @@ function MonitorScreen({
           </box>
         ) : null}
       </scrollbox>
+
+      {/* Search prompt */}
+      {promptOpen ? (
+        <box flexDirection="row" height={1} paddingX={1}>
+          <text fg={COLORS.accent}>/</text>
+          <input
+            backgroundColor={COLORS.bg}
+            focused
+            focusedBackgroundColor="#1c2128"
+            onChange={setPromptValue}
+            placeholder="method:POST status:failed $.type=charge.* text"
+            textColor={COLORS.text}
+            value={promptValue}
+            width={Math.max(20, width - 4)}
+          />
+        </box>
+      ) : null}
     </box>
   );
 }
@@ -1495,19 +2487,64 @@ function MonitorScreen({
 // Event Detail Screen
 // ---------------------------------------------------------------------------
 
+const DETAIL_TABS = ["body", "headers", "delivery", "forwarded"] as const;
+
+type DetailTab = (typeof DETAIL_TABS)[number];
+
+/** Render a forwarded request roughly as it looks on the wire */
+function formatLocalRequest(req: LocalRequest): string {
+  const headerLines = Object.entries(req.headers).map(
+    ([key, value]) => `${key}: ${value}`
+  );
+  let body = req.bodyBytes
+    ? `<${req.bodyBytes.byteLength} bytes, forwarded byte-exact>`
+    : (req.body ?? "");
+  try {
+    if (req.body) {
+      body = JSON.stringify(JSON.parse(body), null, 2);
+    }
+  } catch {
+    // Use raw body
+  }
+  return [`${req.method} ${req.url}`, ...headerLines, "", body].join("\n");
+}
+
 function EventDetailScreen({
   monitorEvent,
+  machine: mach,
   onBack,
   onQuit,
 }: {
   monitorEvent: MonitorEvent;
+  machine: Machine;
   onBack: () => void;
   onQuit: () => void;
 }) {
-  const [tab, setTab] = useState<"body" | "headers" | "delivery">("body");
+  const [tab, setTab] = useState<DetailTab>("body");
+  const [replayStatus, setReplayStatus] = useState<string | null>(null);
   const evt = monitorEvent.event;
   const dr = monitorEvent.deliveryResult;
 
+  const handleReplay = useCallback(
+    (allTargets: boolean) => {
+      setReplayStatus("replaying...");
+      replayEvent(
+        monitorEvent.eventId,
+        allTargets ? undefined : { type: "machine", machineId: mach.id }
+      )
+        .then((result) => {
+          const forwarded = result.forwarded ? " + forward URL" : "";
+          setReplayStatus(
+            `replayed to ${result.deliveries} machine(s)${forwarded}`
+          );
+        })
+        .catch((err: Error) =>
+          setReplayStatus(`replay failed: ${err.message}`)
+        );
+    },
+    [monitorEvent.eventId, mach.id]
+  );
+
   useKeyboard((key) => {
     if (key.name === "q" || (key.ctrl && key.name === "c")) {
       onQuit();
@@ -1526,21 +2563,25 @@ function EventDetailScreen({
     if (key.name === "3") {
       setTab("delivery");
     }
+    if (key.name === "4") {
+      setTab("forwarded");
+    }
+    if (key.name === "r") {
+      handleReplay(key.shift);
+    }
     if (key.name === "tab") {
-      setTab((prev) => {
-        if (prev === "body") {
-          return "headers";
-        }
-        if (prev === "headers") {
-          return "delivery";
-        }
-        return "body";
-      });
+      setTab(
+        (prev) =>
+          DETAIL_TABS[(DETAIL_TABS.indexOf(prev) + 1) % DETAIL_TABS.length] ??
+          "body"
+      );
     }
   });
 
   const time = new Date(evt.createdAt).toLocaleString();
-  let formattedBody = evt.body ?? "(no body)";
+  let formattedBody = evt.bodyBlob
+    ? `(${evt.bodyBlob.size} bytes in blob storage, sha256 ${evt.bodyBlob.sha256})`
+    : (evt.body ?? "(no body)");
   try {
     if (evt.body) {
       formattedBody = JSON.stringify(JSON.parse(evt.body), null, 2);
@@ -1563,22 +2604,26 @@ function EventDetailScreen({
       status: dr.status,
       machineId: dr.machineId,
       machineName: dr.machineName,
+      attempt: monitorEvent.attempt,
       responseStatus: dr.responseStatus,
       duration: dr.duration ? `${dr.duration}ms` : null,
       error: dr.error,
+      responseHeaders: dr.responseHeaders,
       responseBody: dr.responseBody,
     };
     deliveryContent = JSON.stringify(deliveryInfo, null, 2);
   }
 
-  let content: string;
-  if (tab === "body") {
-    content = formattedBody;
-  } else if (tab === "headers") {
-    content = formattedHeaders;
-  } else {
-    content = deliveryContent;
-  }
+  const forwardedContent = monitorEvent.forwarded
+    ? formatLocalRequest(monitorEvent.forwarded)
+    : "Not forwarded yet";
+
+  const content = {
+    body: formattedBody,
+    headers: formattedHeaders,
+    delivery: deliveryContent,
+    forwarded: forwardedContent,
+  }[tab];
 
   const { height } = useTerminalDimensions();
 
@@ -1597,6 +2642,7 @@ function EventDetailScreen({
           <text fg={methodColor(evt.method)}>
             <strong>{evt.method}</strong>
           </text>
+          {evt.path ? <text fg={COLORS.accentBright}>{evt.path}</text> : null}
           <text fg={COLORS.text}>{monitorEvent.eventId}</text>
           {dr ? (
             <text fg={dr.status === "delivered" ? COLORS.green : COLORS.red}>
@@ -1615,6 +2661,7 @@ function EventDetailScreen({
           {evt.sourceIp ? (
             <text fg={COLORS.textDim}>from {evt.sourceIp}</text>
           ) : null}
+          {replayStatus ? <text fg={COLORS.purple}>{replayStatus}</text> : null}
         </box>
         <box flexDirection="row" gap={2}>
           <text fg={tab === "body" ? COLORS.accent : COLORS.textDim}>
@@ -1626,6 +2673,9 @@ function EventDetailScreen({
           <text fg={tab === "delivery" ? COLORS.accent : COLORS.textDim}>
             [3] Delivery
           </text>
+          <text fg={tab === "forwarded" ? COLORS.accent : COLORS.textDim}>
+            [4] Forwarded{mach.transforms ? " (transformed)" : ""}
+          </text>
         </box>
       </box>
 
@@ -1661,7 +2711,7 @@ function getStartScreen(hasDirectMode: boolean): Screen {
   if (hasDirectMode) {
     return "monitor";
   }
-  if (authCookies) {
+  if (apiToken || authCookies) {
     return "endpoints";
   }
   return "login";
@@ -1684,12 +2734,24 @@ function App({ initialEndpoint, initialMachine }: AppProps) {
   const [selectedEvent, setSelectedEvent] = useState<MonitorEvent | null>(null);
   const [sessionChecked, setSessionChecked] = useState(hasDirectMode);
 
+  const { events, connected, wsStatus } = useMachineConnection(
+    selectedEndpoint,
+    selectedMachine
+  );
+  const search = useEventSearch(selectedEndpoint);
+
+  // Keep the detail screen in sync with delivery results that arrive later
+  const liveSelectedEvent = selectedEvent
+    ? (events.find((e) => e.deliveryId === selectedEvent.deliveryId) ??
+      selectedEvent)
+    : null;
+
   // On interactive mode, validate session before showing endpoints
   useEffect(() => {
     if (hasDirectMode || sessionChecked) {
       return;
     }
-    if (!authCookies) {
+    if (!(apiToken || authCookies)) {
       setSessionChecked(true);
       return;
     }
@@ -1743,7 +2805,9 @@ function App({ initialEndpoint, initialMachine }: AppProps) {
 
       {screen === "monitor" && selectedEndpoint && selectedMachine ? (
         <MonitorScreen
+          connected={connected}
           endpoint={selectedEndpoint}
+          events={events}
           machine={selectedMachine}
           onBack={() => {
             // In direct mode, quit instead of going back
@@ -1759,12 +2823,15 @@ function App({ initialEndpoint, initialMachine }: AppProps) {
             setSelectedEvent(evt);
             setScreen("event-detail");
           }}
+          search={search}
+          wsStatus={wsStatus}
         />
       ) : null}
 
-      {screen === "event-detail" && selectedEvent ? (
+      {screen === "event-detail" && liveSelectedEvent && selectedMachine ? (
         <EventDetailScreen
-          monitorEvent={selectedEvent}
+          machine={selectedMachine}
+          monitorEvent={liveSelectedEvent}
           onBack={() => {
             setScreen("monitor");
             setSelectedEvent(null);
@@ -1789,7 +2856,13 @@ if (cliArgs.command === "login") {
   const { endpoint, machine } = await handleListenCommand(
     cliArgs.slug,
     cliArgs.forwardUrl,
-    cliArgs.machineName
+    cliArgs.machineName,
+    {
+      signing: cliArgs.signing,
+      transforms: cliArgs.transforms,
+      routes: cliArgs.routes,
+      filters: cliArgs.filters,
+    }
   );
 
   console.log(
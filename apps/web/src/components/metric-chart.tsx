@@ -0,0 +1,195 @@
+import { useState } from "react";
+
+import { cn } from "@/lib/utils";
+
+const CHART_WIDTH = 600;
+const SPARKLINE_WIDTH = 80;
+const SPARKLINE_HEIGHT = 24;
+
+export interface ChartSeries {
+  /** Text color class; lines are drawn in `currentColor` */
+  className: string;
+  label: string;
+  /** One value per time bucket; null leaves a gap */
+  values: (number | null)[];
+}
+
+/** Each bucket gets an equal slice of the width; points sit at its center */
+function xOf(index: number, count: number, width: number): number {
+  return ((index + 0.5) / count) * width;
+}
+
+/** SVG path through the values, scaled so `max` touches the top */
+function linePath(
+  values: (number | null)[],
+  max: number,
+  width: number,
+  height: number
+): string {
+  let path = "";
+  let drawing = false;
+  for (const [i, value] of values.entries()) {
+    if (value === null) {
+      drawing = false;
+      continue;
+    }
+    const x = xOf(i, values.length, width).toFixed(1);
+    const y = (height - (value / max) * height).toFixed(1);
+    path += `${drawing ? "L" : "M"}${x},${y}`;
+    drawing = true;
+  }
+  return path;
+}
+
+function maxOf(values: (number | null)[]): number {
+  return Math.max(
+    0,
+    ...values.filter((value): value is number => value !== null)
+  );
+}
+
+/** A tiny line chart without axes, for tables */
+export function Sparkline({
+  values,
+  className,
+  label,
+}: {
+  values: number[];
+  className?: string;
+  label: string;
+}) {
+  const max = maxOf(values) || 1;
+  const line = linePath(values, max, SPARKLINE_WIDTH, SPARKLINE_HEIGHT);
+  return (
+    <svg
+      className={cn("h-6 w-20 overflow-visible", className)}
+      preserveAspectRatio="none"
+      viewBox={`0 0 ${SPARKLINE_WIDTH} ${SPARKLINE_HEIGHT}`}
+    >
+      <title>{label}</title>
+      <path
+        d={`${line}L${SPARKLINE_WIDTH},${SPARKLINE_HEIGHT}L0,${SPARKLINE_HEIGHT}Z`}
+        fill="currentColor"
+        opacity={0.12}
+      />
+      <path
+        d={line}
+        fill="none"
+        stroke="currentColor"
+        strokeWidth={1.5}
+        vectorEffect="non-scaling-stroke"
+      />
+    </svg>
+  );
+}
+
+/**
+ * A line chart over time buckets. Hovering shows the values of the bucket
+ * under the pointer; otherwise the latest bucket is shown.
+ */
+export function MetricChart({
+  title,
+  times,
+  series,
+  formatValue,
+  formatTime,
+  height = 120,
+}: {
+  title: string;
+  /** Start of each bucket, epoch ms */
+  times: number[];
+  series: ChartSeries[];
+  formatValue: (value: number | null) => string;
+  formatTime: (time: number) => string;
+  height?: number;
+}) {
+  const [hover, setHover] = useState<number | null>(null);
+  const max = Math.max(...series.map((s) => maxOf(s.values))) || 1;
+  const index = hover ?? times.length - 1;
+  const first = times[0];
+  const last = times.at(-1);
+  const hovered = hover === null ? undefined : times[hover];
+
+  return (
+    <div className="grid gap-2 rounded-[14px] bg-card p-4 shadow-[0_1px_2px_rgba(0,0,0,.06)] ring-1 ring-border">
+      <div className="flex items-baseline justify-between gap-3">
+        <h3 className="font-medium text-[13px]">{title}</h3>
+        <div className="flex gap-3 text-[11px] text-muted-foreground">
+          {series.map((s) => (
+            <span className="flex items-center gap-1.5" key={s.label}>
+              <span
+                className={cn("size-2 rounded-full bg-current", s.className)}
+              />
+              {s.label}
+              <span className="font-mono text-foreground">
+                {formatValue(s.values[index] ?? null)}
+              </span>
+            </span>
+          ))}
+        </div>
+      </div>
+      <div className="relative">
+        <svg
+          className="block w-full"
+          preserveAspectRatio="none"
+          style={{ height }}
+          viewBox={`0 0 ${CHART_WIDTH} ${height}`}
+        >
+          <title>{title}</title>
+          <line
+            className="text-border"
+            stroke="currentColor"
+            vectorEffect="non-scaling-stroke"
+            x1={0}
+            x2={CHART_WIDTH}
+            y1={height}
+            y2={height}
+          />
+          {series.map((s) => (
+            <path
+              className={s.className}
+              d={linePath(s.values, max, CHART_WIDTH, height)}
+              fill="none"
+              key={s.label}
+              stroke="currentColor"
+              strokeWidth={1.5}
+              vectorEffect="non-scaling-stroke"
+            />
+          ))}
+          {hover === null ? null : (
+            <line
+              className="text-muted-foreground"
+              stroke="currentColor"
+              strokeDasharray="2 2"
+              vectorEffect="non-scaling-stroke"
+              x1={xOf(hover, times.length, CHART_WIDTH)}
+              x2={xOf(hover, times.length, CHART_WIDTH)}
+              y1={0}
+              y2={height}
+            />
+          )}
+        </svg>
+        {/* One invisible target per bucket, so hovering or tabbing shows its values */}
+        <div className="absolute inset-0 flex">
+          {times.map((time, i) => (
+            <button
+              aria-label={formatTime(time)}
+              className="flex-1 cursor-default outline-none"
+              key={time}
+              onBlur={() => setHover(null)}
+              onFocus={() => setHover(i)}
+              onMouseEnter={() => setHover(i)}
+              onMouseLeave={() => setHover(null)}
+              type="button"
+            />
+          ))}
+        </div>
+      </div>
+      <div className="flex justify-between text-[11px] text-muted-foreground">
+        <span>{first === undefined ? null : formatTime(first)}</span>
+        <span>{hovered === undefined ? null : formatTime(hovered)}</span>
+        <span>{last === undefined ? null : formatTime(last)}</span>
+      </div>
+    </div>
+  );
+}
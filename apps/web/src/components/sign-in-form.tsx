@@ -12,8 +12,11 @@ import { Label } from "./ui/label";
 
 export default function SignInForm({
   onSwitchToSignUp,
+  redirectTo,
 }: {
   onSwitchToSignUp: () => void;
+  /** Where to go after signing in, e.g. back to a CLI login approval */
+  redirectTo?: string;
 }) {
   const navigate = useNavigate({
     from: "/",
@@ -33,7 +36,7 @@ export default function SignInForm({
         {
           onSuccess: () => {
             navigate({
-              to: "/dashboard",
+              href: redirectTo ?? "/dashboard",
             });
             toast.success("Signed in");
           },
@@ -12,8 +12,11 @@ import { Label } from "./ui/label";
 
 export default function SignUpForm({
   onSwitchToSignIn,
+  redirectTo,
 }: {
   onSwitchToSignIn: () => void;
+  /** Where to go after signing in, e.g. back to a CLI login approval */
+  redirectTo?: string;
 }) {
   const navigate = useNavigate({
     from: "/",
@@ -35,7 +38,7 @@ export default function SignUpForm({
         {
           onSuccess: () => {
             navigate({
-              to: "/dashboard",
+              href: redirectTo ?? "/dashboard",
             });
             toast.success("Account created");
           },
@@ -13,6 +13,9 @@ import { Route as LoginRouteImport } from './routes/login'
 import { Route as DashboardRouteImport } from './routes/dashboard'
 import { Route as IndexRouteImport } from './routes/index'
 import { Route as DashboardIndexRouteImport } from './routes/dashboard.index'
+import { Route as DashboardTokensRouteImport } from './routes/dashboard.tokens'
+import { Route as DashboardTeamRouteImport } from './routes/dashboard.team'
+import { Route as DashboardDeviceRouteImport } from './routes/dashboard.device'
 import { Route as DashboardChangelogRouteImport } from './routes/dashboard.changelog'
 import { Route as DashboardEndpointsEndpointIdRouteImport } from './routes/dashboard.endpoints.$endpointId'
 
@@ -36,6 +39,21 @@ const DashboardIndexRoute = DashboardIndexRouteImport.update({
   path: '/',
   getParentRoute: () => DashboardRoute,
 } as any)
+const DashboardTokensRoute = DashboardTokensRouteImport.update({
+  id: '/tokens',
+  path: '/tokens',
+  getParentRoute: () => DashboardRoute,
+} as any)
+const DashboardTeamRoute = DashboardTeamRouteImport.update({
+  id: '/team',
+  path: '/team',
+  getParentRoute: () => DashboardRoute,
+} as any)
+const DashboardDeviceRoute = DashboardDeviceRouteImport.update({
+  id: '/device',
+  path: '/device',
+  getParentRoute: () => DashboardRoute,
+} as any)
 const DashboardChangelogRoute = DashboardChangelogRouteImport.update({
   id: '/changelog',
   path: '/changelog',
@@ -53,6 +71,9 @@ export interface FileRoutesByFullPath {
   '/dashboard': typeof DashboardRouteWithChildren
   '/login': typeof LoginRoute
   '/dashboard/': typeof DashboardIndexRoute
+  '/dashboard/tokens': typeof DashboardTokensRoute
+  '/dashboard/team': typeof DashboardTeamRoute
+  '/dashboard/device': typeof DashboardDeviceRoute
   '/dashboard/changelog': typeof DashboardChangelogRoute
   '/dashboard/endpoints/$endpointId': typeof DashboardEndpointsEndpointIdRoute
 }
@@ -60,6 +81,9 @@ export interface FileRoutesByTo {
   '/': typeof IndexRoute
   '/login': typeof LoginRoute
   '/dashboard': typeof DashboardIndexRoute
+  '/dashboard/tokens': typeof DashboardTokensRoute
+  '/dashboard/team': typeof DashboardTeamRoute
+  '/dashboard/device': typeof DashboardDeviceRoute
   '/dashboard/changelog': typeof DashboardChangelogRoute
   '/dashboard/endpoints/$endpointId': typeof DashboardEndpointsEndpointIdRoute
 }
@@ -69,6 +93,9 @@ export interface FileRoutesById {
   '/dashboard': typeof DashboardRouteWithChildren
   '/login': typeof LoginRoute
   '/dashboard/': typeof DashboardIndexRoute
+  '/dashboard/tokens': typeof DashboardTokensRoute
+  '/dashboard/team': typeof DashboardTeamRoute
+  '/dashboard/device': typeof DashboardDeviceRoute
   '/dashboard/changelog': typeof DashboardChangelogRoute
   '/dashboard/endpoints/$endpointId': typeof DashboardEndpointsEndpointIdRoute
 }
@@ -79,16 +106,30 @@ export interface FileRouteTypes {
     | '/dashboard'
     | '/login'
     | '/dashboard/'
+    | '/dashboard/tokens'
+    | '/dashboard/team'
+    | '/dashboard/device'
     | '/dashboard/changelog'
     | '/dashboard/endpoints/$endpointId'
   fileRoutesByTo: FileRoutesByTo
-  to: '/' | '/login' | '/dashboard' | '/dashboard/changelog' | '/dashboard/endpoints/$endpointId'
+  to:
+    | '/'
+    | '/login'
+    | '/dashboard'
+    | '/dashboard/tokens'
+    | '/dashboard/team'
+    | '/dashboard/device'
+    | '/dashboard/changelog'
+    | '/dashboard/endpoints/$endpointId'
   id:
     | '__root__'
     | '/'
     | '/dashboard'
     | '/login'
     | '/dashboard/'
+    | '/dashboard/tokens'
+    | '/dashboard/team'
+    | '/dashboard/device'
     | '/dashboard/changelog'
     | '/dashboard/endpoints/$endpointId'
   fileRoutesById: FileRoutesById
@@ -129,6 +170,27 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof DashboardIndexRouteImport
       parentRoute: typeof DashboardRoute
     }
+    '/dashboard/tokens': {
+      id: '/dashboard/tokens'
+      path: '/tokens'
+      fullPath: '/dashboard/tokens'
+      preLoaderRoute: typeof DashboardTokensRouteImport
+      parentRoute: typeof DashboardRoute
+    }
+    '/dashboard/team': {
+      id: '/dashboard/team'
+      path: '/team'
+      fullPath: '/dashboard/team'
+      preLoaderRoute: typeof DashboardTeamRouteImport
+      parentRoute: typeof DashboardRoute
+    }
+    '/dashboard/device': {
+      id: '/dashboard/device'
+      path: '/device'
+      fullPath: '/dashboard/device'
+      preLoaderRoute: typeof DashboardDeviceRouteImport
+      parentRoute: typeof DashboardRoute
+    }
     '/dashboard/changelog': {
       id: '/dashboard/changelog'
       path: '/changelog'
@@ -148,12 +210,18 @@ declare module '@tanstack/react-router' {
 
 interface DashboardRouteChildren {
   DashboardIndexRoute: typeof DashboardIndexRoute
+  DashboardTokensRoute: typeof DashboardTokensRoute
+  DashboardTeamRoute: typeof DashboardTeamRoute
+  DashboardDeviceRoute: typeof DashboardDeviceRoute
   DashboardChangelogRoute: typeof DashboardChangelogRoute
   DashboardEndpointsEndpointIdRoute: typeof DashboardEndpointsEndpointIdRoute
 }
 
 const DashboardRouteChildren: DashboardRouteChildren = {
   DashboardIndexRoute: DashboardIndexRoute,
+  DashboardTokensRoute: DashboardTokensRoute,
+  DashboardTeamRoute: DashboardTeamRoute,
+  DashboardDeviceRoute: DashboardDeviceRoute,
   DashboardChangelogRoute: DashboardChangelogRoute,
   DashboardEndpointsEndpointIdRoute: DashboardEndpointsEndpointIdRoute,
 }
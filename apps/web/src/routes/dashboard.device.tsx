@@ -0,0 +1,196 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { createFileRoute } from "@tanstack/react-router";
+import { CheckCircle2, Loader2, Terminal, XCircle } from "lucide-react";
+import { useState } from "react";
+import { z } from "zod";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { client, orpc } from "@/utils/orpc";
+
+export const Route = createFileRoute("/dashboard/device")({
+  component: DeviceLoginPage,
+  validateSearch: z.object({
+    code: z.string().optional().catch(undefined),
+  }),
+});
+
+type Decision = "approved" | "denied";
+
+function DecisionResult({ decision }: { decision: Decision }) {
+  return decision === "approved" ? (
+    <div className="flex flex-col items-center gap-2 text-center">
+      <CheckCircle2 className="size-8 text-cyan" />
+      <p className="font-medium text-[15px]">CLI signed in</p>
+      <p className="text-[13px] text-muted-foreground">
+        You can close this tab and return to your terminal.
+      </p>
+    </div>
+  ) : (
+    <div className="flex flex-col items-center gap-2 text-center">
+      <XCircle className="size-8 text-destructive" />
+      <p className="font-medium text-[15px]">Login denied</p>
+      <p className="text-[13px] text-muted-foreground">
+        The CLI was not signed in. If you didn't start this login, no further
+        action is needed.
+      </p>
+    </div>
+  );
+}
+
+/** Confirm the client that asked to sign in, then approve or deny it */
+function ApproveRequest({
+  userCode,
+  onDecided,
+  onBack,
+}: {
+  userCode: string;
+  onDecided: (decision: Decision) => void;
+  onBack: () => void;
+}) {
+  const requestQuery = useQuery({
+    ...orpc.device.lookup.queryOptions({ input: { userCode } }),
+    retry: false,
+  });
+
+  const decideMutation = useMutation({
+    mutationFn: (approve: boolean) =>
+      approve
+        ? client.device.approve({ userCode })
+        : client.device.deny({ userCode }),
+    onSuccess: (_, approve) => onDecided(approve ? "approved" : "denied"),
+  });
+
+  if (requestQuery.isLoading) {
+    return (
+      <div className="flex justify-center">
+        <Loader2 className="size-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (!requestQuery.data) {
+    return (
+      <div className="grid gap-3 text-center">
+        <p className="text-[13px] text-muted-foreground">
+          This code wasn't found or has expired. Run{" "}
+          <code>tunnelhook login</code> again to get a new one.
+        </p>
+        <Button onClick={onBack} variant="outline">
+          Enter another code
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid gap-4">
+      <div className="grid gap-1 text-center">
+        <p className="text-[13px] text-muted-foreground">
+          Sign in the tunnelhook CLI on
+        </p>
+        <p className="font-medium text-[15px]">
+          {requestQuery.data.clientName}
+        </p>
+        <code className="font-mono text-muted-foreground text-xs">
+          {requestQuery.data.userCode}
+        </code>
+      </div>
+      <p className="text-[13px] text-muted-foreground">
+        Only approve if this code matches the one shown in your terminal. The
+        CLI will get full access to your account until you revoke it under API
+        tokens.
+      </p>
+      {decideMutation.error ? (
+        <p className="text-destructive text-xs">
+          {decideMutation.error.message}
+        </p>
+      ) : null}
+      <div className="grid grid-cols-2 gap-2">
+        <Button
+          disabled={decideMutation.isPending}
+          onClick={() => decideMutation.mutate(false)}
+          variant="outline"
+        >
+          Deny
+        </Button>
+        <Button
+          disabled={decideMutation.isPending}
+          onClick={() => decideMutation.mutate(true)}
+        >
+          {decideMutation.isPending ? (
+            <Loader2 className="animate-spin" data-icon="inline-start" />
+          ) : null}
+          Approve
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function DeviceLoginPage() {
+  const { code } = Route.useSearch();
+  const [draft, setDraft] = useState(code ?? "");
+  const [userCode, setUserCode] = useState<string | null>(code ?? null);
+  const [decision, setDecision] = useState<Decision | null>(null);
+
+  let content: React.ReactNode;
+  if (decision) {
+    content = <DecisionResult decision={decision} />;
+  } else if (userCode) {
+    content = (
+      <ApproveRequest
+        onBack={() => setUserCode(null)}
+        onDecided={setDecision}
+        userCode={userCode}
+      />
+    );
+  } else {
+    content = (
+      <form
+        className="grid gap-3"
+        onSubmit={(e) => {
+          e.preventDefault();
+          setUserCode(draft.trim());
+        }}
+      >
+        <div className="grid gap-1.5">
+          <Label htmlFor="device-code">Code</Label>
+          <Input
+            autoFocus
+            className="text-center font-mono uppercase tracking-widest"
+            id="device-code"
+            onChange={(e) => setDraft(e.target.value)}
+            placeholder="XXXX-XXXX"
+            value={draft}
+          />
+        </div>
+        <Button disabled={!draft.trim()} type="submit">
+          Continue
+        </Button>
+      </form>
+    );
+  }
+
+  return (
+    <div className="flex flex-1 items-center justify-center p-6">
+      <div className="w-full max-w-sm">
+        <div className="mb-6 flex flex-col items-center gap-2">
+          <div className="flex size-10 items-center justify-center rounded-[14px] bg-cyan-subtle">
+            <Terminal className="size-5 text-cyan" />
+          </div>
+          <h1 className="font-semibold text-[18px] tracking-tight">
+            CLI login
+          </h1>
+          <p className="text-center text-[13px] text-muted-foreground">
+            Enter the code shown by <code>tunnelhook login</code>
+          </p>
+        </div>
+        <div className="rounded-[14px] bg-card p-5 shadow-[0_1px_2px_rgba(0,0,0,.06)] ring-1 ring-border">
+          {content}
+        </div>
+      </div>
+    </div>
+  );
+}
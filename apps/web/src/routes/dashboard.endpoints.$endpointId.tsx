@@ -5,18 +5,23 @@ import {
   ArrowLeft,
   Circle,
   Copy,
+  Download,
   Loader2,
   Monitor,
   Pause,
   Play,
   Plus,
+  RotateCcw,
+  Search,
   Settings,
+  SlidersHorizontal,
   Trash2,
   X,
 } from "lucide-react";
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { toast } from "sonner";
 
+import { MetricChart } from "@/components/metric-chart";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import {
@@ -27,6 +32,14 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { ScrollArea } from "@/components/ui/scroll-area";
@@ -54,17 +67,30 @@ export const Route = createFileRoute("/dashboard/endpoints/$endpointId")({
 /* ──────────────────────── Types ──────────────────────── */
 
 interface WebhookEvent {
+  /** Why the request was rejected without delivery (IP allowlist) */
+  blockedReason?: string | null;
   body: string | null;
+  /** Set when the body is kept in blob storage instead of inline */
+  bodySha256?: string | null;
+  bodySize?: number | null;
   contentType: string | null;
   createdAt: string;
   endpointId: string;
   headers: string;
   id: string;
   method: string;
+  path: string | null;
   query: string | null;
+  signatureStatus: SignatureStatus | null;
+  /** Client network, from the platform's geo data (not sent over the live feed) */
+  sourceAsn?: number | null;
+  sourceAsOrganization?: string | null;
+  sourceCountry?: string | null;
   sourceIp: string | null;
 }
 
+type SignatureStatus = "verified" | "invalid" | "missing";
+
 interface DeliveryResult {
   deliveryId: string;
   duration: number | null;
@@ -73,8 +99,21 @@ interface DeliveryResult {
   machineId: string;
   machineName: string;
   responseBody: string | null;
+  responseHeaders: Record<string, string> | null;
   responseStatus: number | null;
-  status: "delivered" | "failed" | "pending";
+  status: "delivered" | "failed" | "filtered" | "pending";
+}
+
+/** Parse a headers JSON column, tolerating nulls and malformed data */
+function parseHeadersJson(json: string | null): Record<string, string> | null {
+  if (!json) {
+    return null;
+  }
+  try {
+    return JSON.parse(json) as Record<string, string>;
+  } catch {
+    return null;
+  }
 }
 
 interface ConnectedMachine {
@@ -85,14 +124,18 @@ interface ConnectedMachine {
 
 type ServerMessage =
   | {
+      attempt: number;
       body: string | null;
+      bodyBlob?: { sha256: string; size: number } | null;
       contentType: string | null;
       createdAt: string;
       deliveryId: string;
       eventId: string;
       headers: string;
       method: string;
+      path: string | null;
       query: string | null;
+      signatureStatus: SignatureStatus | null;
       sourceIp: string | null;
       type: "webhook";
     }
@@ -104,6 +147,7 @@ type ServerMessage =
       machineId: string;
       machineName: string;
       responseBody: string | null;
+      responseHeaders: Record<string, string> | null;
       responseStatus: number | null;
       status: "delivered" | "failed";
       type: "delivery-result";
@@ -173,9 +217,13 @@ function useViewerWebSocket(slug: string | undefined, endpointId: string) {
             method: msg.method,
             headers: msg.headers,
             body: msg.body,
+            bodySha256: msg.bodyBlob?.sha256 ?? null,
+            bodySize: msg.bodyBlob?.size ?? null,
+            path: msg.path,
             query: msg.query,
             sourceIp: msg.sourceIp,
             contentType: msg.contentType,
+            signatureStatus: msg.signatureStatus,
             createdAt: msg.createdAt,
           };
           setEvents((prev) => [ev, ...prev]);
@@ -190,6 +238,7 @@ function useViewerWebSocket(slug: string | undefined, endpointId: string) {
             status: msg.status,
             responseStatus: msg.responseStatus,
             responseBody: msg.responseBody,
+            responseHeaders: msg.responseHeaders,
             error: msg.error,
             duration: msg.duration,
           };
@@ -277,14 +326,22 @@ function useViewerWebSocket(slug: string | undefined, endpointId: string) {
 function useMergedEvents(
   liveEvents: WebhookEvent[],
   historicalItems: Array<{
+    blockedReason: string | null;
     body: string | null;
+    bodySha256: string | null;
+    bodySize: number | null;
     contentType: string | null;
     createdAt: Date | string;
     endpointId: string;
     headers: string;
     id: string;
     method: string;
+    path: string | null;
     query: string | null;
+    signatureStatus: SignatureStatus | null;
+    sourceAsn: number | null;
+    sourceAsOrganization: string | null;
+    sourceCountry: string | null;
     sourceIp: string | null;
   }>
 ): WebhookEvent[] {
@@ -318,11 +375,78 @@ function useMergedEvents(
 
 /* ──────────────────────── Sub-components ──────────────────────── */
 
+interface EndpointUsage {
+  bodyBytes: number;
+  /** Requests rejected by the rate limits */
+  dropped: number;
+  events: number;
+  lastDroppedAt: number | null;
+}
+
+interface RetentionLimits {
+  retentionMaxAgeMs: number | null;
+  retentionMaxBytes: number | null;
+  retentionMaxEvents: number | null;
+}
+
+/**
+ * Event count and body storage against the endpoint's retention limits, plus
+ * requests dropped by the rate limits
+ */
+function UsageSummary({
+  usage,
+  limits,
+}: {
+  usage: EndpointUsage;
+  limits: RetentionLimits;
+}) {
+  const events = usage.events.toLocaleString();
+  const bytes = formatBytes(usage.bodyBytes);
+  return (
+    <div className="flex items-center gap-2 text-[11px] text-muted-foreground">
+      <span>
+        {limits.retentionMaxEvents === null
+          ? `${events} events`
+          : `${events} / ${limits.retentionMaxEvents.toLocaleString()} events`}
+      </span>
+      <span>·</span>
+      <span>
+        {limits.retentionMaxBytes === null
+          ? bytes
+          : `${bytes} / ${formatBytes(limits.retentionMaxBytes)}`}
+      </span>
+      {limits.retentionMaxAgeMs === null ? null : (
+        <>
+          <span>·</span>
+          <span>kept {formatRetentionAge(limits.retentionMaxAgeMs)}</span>
+        </>
+      )}
+      {usage.dropped > 0 ? (
+        <>
+          <span>·</span>
+          <span
+            className="text-destructive"
+            title={
+              usage.lastDroppedAt === null
+                ? undefined
+                : `Last dropped ${new Date(usage.lastDroppedAt).toLocaleString()}`
+            }
+          >
+            {usage.dropped.toLocaleString()} rate limited
+          </span>
+        </>
+      ) : null}
+    </div>
+  );
+}
+
 function EndpointPageHeader({
   name,
   slug,
   webhookUrl,
   connected,
+  usage,
+  limits,
   onEdit,
   onDelete,
 }: {
@@ -330,6 +454,8 @@ function EndpointPageHeader({
   slug: string;
   webhookUrl: string;
   connected: boolean;
+  usage: EndpointUsage | undefined;
+  limits: RetentionLimits;
   onEdit: () => void;
   onDelete: () => void;
 }) {
@@ -359,6 +485,7 @@ function EndpointPageHeader({
         </div>
       </div>
       <div className="flex items-center gap-2">
+        {usage ? <UsageSummary limits={limits} usage={usage} /> : null}
         {/* Webhook URL pill */}
         <button
           className="flex items-center gap-1.5 rounded-full bg-muted px-3 py-1 font-mono text-muted-foreground text-xs transition-colors duration-120 hover:bg-muted/80"
@@ -584,8 +711,240 @@ function RegisterMachineDialog({
   );
 }
 
+/* ──── Event Search ──── */
+
+type DeliveryStatusFilter =
+  | ""
+  | "pending"
+  | "delivered"
+  | "failed"
+  | "filtered";
+
+/** Search form state; empty strings mean "not filtered" */
+interface EventSearchFilters {
+  contentType: string;
+  deliveryStatus: DeliveryStatusFilter;
+  from: string;
+  /** `name` or `name: value glob` */
+  header: string;
+  /** `$.path` or `$.path = value glob` */
+  jsonField: string;
+  method: string;
+  sourceIp: string;
+  text: string;
+  to: string;
+}
+
+const EMPTY_SEARCH: EventSearchFilters = {
+  contentType: "",
+  deliveryStatus: "",
+  from: "",
+  header: "",
+  jsonField: "",
+  method: "",
+  sourceIp: "",
+  text: "",
+  to: "",
+};
+
+/** Split `key<sep>value` on the first separator; the value is optional */
+function splitPair(
+  raw: string,
+  separator: string
+): { key: string; value?: string } {
+  const idx = raw.indexOf(separator);
+  if (idx === -1) {
+    return { key: raw.trim() };
+  }
+  return {
+    key: raw.slice(0, idx).trim(),
+    value: raw.slice(idx + separator.length).trim(),
+  };
+}
+
+/** Build the events.search input, or null when no filter is set */
+function toSearchInput(endpointId: string, filters: EventSearchFilters) {
+  if (Object.values(filters).every((value) => value.trim() === "")) {
+    return null;
+  }
+  const header = filters.header.trim() ? splitPair(filters.header, ":") : null;
+  const jsonField = filters.jsonField.trim()
+    ? splitPair(filters.jsonField, "=")
+    : null;
+  return {
+    endpointId,
+    limit: 100,
+    text: filters.text.trim() || undefined,
+    method: filters.method || undefined,
+    deliveryStatus: filters.deliveryStatus || undefined,
+    contentType: filters.contentType.trim() || undefined,
+    sourceIp: filters.sourceIp.trim() || undefined,
+    from: filters.from ? new Date(filters.from) : undefined,
+    to: filters.to ? new Date(filters.to) : undefined,
+    header: header ? { name: header.key, value: header.value } : undefined,
+    jsonField: jsonField
+      ? { path: jsonField.key, value: jsonField.value }
+      : undefined,
+  };
+}
+
+const FILTER_SELECT_CLASS =
+  "h-8 rounded-[10px] border border-input bg-transparent px-2 text-[13px] outline-none focus-visible:border-ring focus-visible:ring-2 focus-visible:ring-ring/30 dark:bg-input/30";
+
+function EventSearchBar({
+  applied,
+  onApply,
+}: {
+  applied: EventSearchFilters;
+  onApply: (filters: EventSearchFilters) => void;
+}) {
+  const [draft, setDraft] = useState(applied);
+  const [expanded, setExpanded] = useState(false);
+
+  const set = (key: keyof EventSearchFilters) => (value: string) =>
+    setDraft((prev) => ({ ...prev, [key]: value }));
+
+  // Selects apply immediately; text fields apply on Enter
+  const setAndApply = (key: keyof EventSearchFilters) => (value: string) => {
+    const next = { ...draft, [key]: value };
+    setDraft(next);
+    onApply(next);
+  };
+
+  const active = Object.values(applied).some((value) => value !== "");
+
+  return (
+    <form
+      className="flex flex-col gap-2 px-6 pt-3"
+      onSubmit={(e) => {
+        e.preventDefault();
+        onApply(draft);
+      }}
+    >
+      <div className="flex items-center gap-2">
+        <div className="relative flex-1">
+          <Search className="absolute top-1/2 left-2.5 size-3.5 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            className="pl-8"
+            onChange={(e) => set("text")(e.target.value)}
+            placeholder="Search request bodies and paths…"
+            value={draft.text}
+          />
+        </div>
+        <select
+          aria-label="Method"
+          className={FILTER_SELECT_CLASS}
+          onChange={(e) => setAndApply("method")(e.target.value)}
+          value={draft.method}
+        >
+          <option value="">Any method</option>
+          {["GET", "POST", "PUT", "PATCH", "DELETE"].map((m) => (
+            <option key={m} value={m}>
+              {m}
+            </option>
+          ))}
+        </select>
+        <select
+          aria-label="Delivery status"
+          className={FILTER_SELECT_CLASS}
+          onChange={(e) => setAndApply("deliveryStatus")(e.target.value)}
+          value={draft.deliveryStatus}
+        >
+          <option value="">Any status</option>
+          <option value="delivered">Delivered</option>
+          <option value="failed">Failed</option>
+          <option value="pending">Pending</option>
+          <option value="filtered">Filtered</option>
+        </select>
+        <Tooltip>
+          <TooltipTrigger>
+            <Button
+              onClick={() => setExpanded((prev) => !prev)}
+              size="icon-sm"
+              type="button"
+              variant={expanded ? "secondary" : "ghost"}
+            >
+              <SlidersHorizontal />
+            </Button>
+          </TooltipTrigger>
+          <TooltipContent>More filters</TooltipContent>
+        </Tooltip>
+        {active ? (
+          <Button
+            onClick={() => {
+              setDraft(EMPTY_SEARCH);
+              onApply(EMPTY_SEARCH);
+            }}
+            size="sm"
+            type="button"
+            variant="ghost"
+          >
+            Clear
+          </Button>
+        ) : null}
+      </div>
+      {expanded ? (
+        <div className="grid grid-cols-3 gap-2">
+          <Input
+            onChange={(e) => set("contentType")(e.target.value)}
+            placeholder="Content type, e.g. json"
+            value={draft.contentType}
+          />
+          <Input
+            onChange={(e) => set("sourceIp")(e.target.value)}
+            placeholder="Source IP, e.g. 140.82.*"
+            value={draft.sourceIp}
+          />
+          <Input
+            onChange={(e) => set("header")(e.target.value)}
+            placeholder="Header, e.g. x-github-event: push"
+            value={draft.header}
+          />
+          <Input
+            className="font-mono"
+            onChange={(e) => set("jsonField")(e.target.value)}
+            placeholder="$.type = charge.*"
+            value={draft.jsonField}
+          />
+          <Input
+            aria-label="From"
+            onChange={(e) => set("from")(e.target.value)}
+            type="datetime-local"
+            value={draft.from}
+          />
+          <Input
+            aria-label="To"
+            onChange={(e) => set("to")(e.target.value)}
+            type="datetime-local"
+            value={draft.to}
+          />
+        </div>
+      ) : null}
+      {/* Lets Enter submit from any text field */}
+      <button className="hidden" type="submit" />
+    </form>
+  );
+}
+
 /* ──── Events Table ──── */
 
+const signatureBadge: Record<
+  SignatureStatus,
+  { label: string; variant: "success" | "destructive" | "warning" }
+> = {
+  verified: { label: "verified", variant: "success" },
+  invalid: { label: "invalid", variant: "destructive" },
+  missing: { label: "unsigned", variant: "warning" },
+};
+
+function SignatureBadge({ status }: { status: SignatureStatus | null }) {
+  if (!status) {
+    return <span className="text-muted-foreground/50 text-xs">--</span>;
+  }
+  const { label, variant } = signatureBadge[status];
+  return <Badge variant={variant}>{label}</Badge>;
+}
+
 function EventsTable({
   events,
   selectedEventId,
@@ -594,6 +953,7 @@ function EventsTable({
   onTogglePause,
   onClearEvents,
   deliveries,
+  searching,
 }: {
   events: WebhookEvent[];
   selectedEventId: string | null;
@@ -602,6 +962,8 @@ function EventsTable({
   onTogglePause: () => void;
   onClearEvents: () => void;
   deliveries: Map<string, DeliveryResult[]>;
+  /** Showing search results rather than the live feed */
+  searching: boolean;
 }) {
   return (
     <div className="flex flex-1 flex-col overflow-hidden">
@@ -640,7 +1002,9 @@ function EventsTable({
         {events.length === 0 ? (
           <div className="flex flex-1 flex-col items-center justify-center py-16 text-center">
             <p className="text-[13px] text-muted-foreground">
-              No events yet. Send a request to your webhook URL.
+              {searching
+                ? "No events match these filters."
+                : "No events yet. Send a request to your webhook URL."}
             </p>
           </div>
         ) : (
@@ -649,6 +1013,7 @@ function EventsTable({
               <TableRow className="hover:bg-transparent">
                 <TableHead className="w-[70px]">Method</TableHead>
                 <TableHead>ID</TableHead>
+                <TableHead>Signature</TableHead>
                 <TableHead>Deliveries</TableHead>
                 <TableHead className="text-right">Time</TableHead>
               </TableRow>
@@ -680,22 +1045,20 @@ function EventsTable({
                       <span className="font-mono text-muted-foreground text-xs">
                         {ev.id.slice(0, 8)}
                       </span>
+                      {ev.path ? (
+                        <span className="ml-2 font-mono text-xs">
+                          {ev.path}
+                        </span>
+                      ) : null}
                     </TableCell>
                     <TableCell>
-                      {evDeliveries.length > 0 ? (
-                        <div className="flex items-center gap-1">
-                          {evDeliveries.map((d) => (
-                            <DeliveryStatusDot
-                              key={d.deliveryId}
-                              status={d.status}
-                            />
-                          ))}
-                        </div>
-                      ) : (
-                        <span className="text-muted-foreground/50 text-xs">
-                          --
-                        </span>
-                      )}
+                      <SignatureBadge status={ev.signatureStatus} />
+                    </TableCell>
+                    <TableCell>
+                      <DeliverySummary
+                        blockedReason={ev.blockedReason ?? null}
+                        deliveries={evDeliveries}
+                      />
                     </TableCell>
                     <TableCell className="text-right">
                       <span className="text-muted-foreground text-xs">
@@ -713,6 +1076,33 @@ function EventsTable({
   );
 }
 
+/** Delivery status dots, or a badge for requests that were blocked */
+function DeliverySummary({
+  blockedReason,
+  deliveries,
+}: {
+  blockedReason: string | null;
+  deliveries: DeliveryResult[];
+}) {
+  if (blockedReason) {
+    return (
+      <Badge title={blockedReason} variant="destructive">
+        blocked
+      </Badge>
+    );
+  }
+  if (deliveries.length === 0) {
+    return <span className="text-muted-foreground/50 text-xs">--</span>;
+  }
+  return (
+    <div className="flex items-center gap-1">
+      {deliveries.map((d) => (
+        <DeliveryStatusDot key={d.deliveryId} status={d.status} />
+      ))}
+    </div>
+  );
+}
+
 function DeliveryStatusDot({ status }: { status: string }) {
   return (
     <span
@@ -720,21 +1110,117 @@ function DeliveryStatusDot({ status }: { status: string }) {
         "inline-block size-2 rounded-full",
         status === "delivered" && "bg-success",
         status === "failed" && "bg-destructive",
-        status === "pending" && "bg-warning"
+        status === "pending" && "bg-warning",
+        status === "filtered" && "bg-muted-foreground/40"
       )}
     />
   );
 }
 
+/* ──── Replay Menu ──── */
+
+type ReplayTarget =
+  | { type: "machine"; machineId: string }
+  | { type: "forward" };
+
+function ReplayMenu({
+  eventId,
+  forwardUrl,
+  machines,
+}: {
+  eventId: string;
+  forwardUrl: string | null;
+  machines: Array<{ id: string; name: string }>;
+}) {
+  const replayMutation = useMutation({
+    mutationFn: (target?: ReplayTarget) =>
+      client.events.replay({ id: eventId, target }),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({
+        queryKey: orpc.deliveries.listByEvent.queryOptions({
+          input: { eventId },
+        }).queryKey,
+      });
+      const parts: string[] = [];
+      if (result.deliveries > 0) {
+        parts.push(
+          `${result.deliveries} ${result.deliveries === 1 ? "machine" : "machines"}`
+        );
+      }
+      if (result.forwarded) {
+        parts.push("forward URL");
+      }
+      toast.success(
+        parts.length > 0
+          ? `Replayed to ${parts.join(" and ")}`
+          : "Nothing to replay to"
+      );
+    },
+    onError: (error) => {
+      toast.error(`Failed to replay: ${error.message}`);
+    },
+  });
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger
+        render={
+          <Button
+            disabled={replayMutation.isPending}
+            size="icon-xs"
+            variant="ghost"
+          >
+            {replayMutation.isPending ? (
+              <Loader2 className="animate-spin" />
+            ) : (
+              <RotateCcw />
+            )}
+            <span className="sr-only">Replay</span>
+          </Button>
+        }
+      />
+      <DropdownMenuContent align="end" className="w-56">
+        <DropdownMenuLabel>Replay event</DropdownMenuLabel>
+        <DropdownMenuItem onClick={() => replayMutation.mutate(undefined)}>
+          All targets
+        </DropdownMenuItem>
+        {forwardUrl ? (
+          <DropdownMenuItem
+            onClick={() => replayMutation.mutate({ type: "forward" })}
+          >
+            <span className="truncate">Forward URL</span>
+          </DropdownMenuItem>
+        ) : null}
+        {machines.length > 0 ? <DropdownMenuSeparator /> : null}
+        {machines.map((m) => (
+          <DropdownMenuItem
+            key={m.id}
+            onClick={() =>
+              replayMutation.mutate({ type: "machine", machineId: m.id })
+            }
+          >
+            <Monitor />
+            <span className="truncate">{m.name}</span>
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
 /* ──── Inspector Drawer ──── */
 
 function InspectorDrawer({
   event,
   liveDeliveries,
+  forwardUrl,
+  machines,
   onClose,
 }: {
   event: WebhookEvent;
   liveDeliveries: DeliveryResult[];
+  forwardUrl: string | null;
+  machines: Array<{ id: string; name: string }>;
   onClose: () => void;
 }) {
   let parsedHeaders: Record<string, string> = {};
@@ -776,9 +1262,10 @@ function InspectorDrawer({
           eventId: d.eventId,
           machineId: d.machineId,
           machineName: d.machineName ?? "Unknown",
-          status: d.status as "delivered" | "failed" | "pending",
+          status: d.status as DeliveryResult["status"],
           responseStatus: d.responseStatus,
           responseBody: d.responseBody,
+          responseHeaders: parseHeadersJson(d.responseHeaders),
           error: d.error,
           duration: d.duration,
         });
@@ -806,6 +1293,11 @@ function InspectorDrawer({
           </span>
         </div>
         <div className="flex items-center gap-1">
+          <ReplayMenu
+            eventId={event.id}
+            forwardUrl={forwardUrl}
+            machines={machines}
+          />
           <Button
             onClick={() => {
               navigator.clipboard.writeText(event.id);
@@ -839,12 +1331,40 @@ function InspectorDrawer({
                 <p className="mt-0.5 font-mono text-xs">{event.sourceIp}</p>
               </div>
             ) : null}
+            {event.sourceCountry || event.sourceAsn ? (
+              <div>
+                <span className="text-muted-foreground">Network</span>
+                <p className="mt-0.5 text-xs">{formatNetwork(event)}</p>
+              </div>
+            ) : null}
+            {event.signatureStatus ? (
+              <div>
+                <span className="text-muted-foreground">Signature</span>
+                <p className="mt-0.5">
+                  <SignatureBadge status={event.signatureStatus} />
+                </p>
+              </div>
+            ) : null}
+            {event.blockedReason ? (
+              <div className="col-span-2">
+                <span className="text-muted-foreground">Blocked</span>
+                <p className="mt-0.5 text-destructive text-xs">
+                  {event.blockedReason}
+                </p>
+              </div>
+            ) : null}
             <div>
               <span className="text-muted-foreground">Received</span>
               <p className="mt-0.5 text-xs">
                 {formatTimeFull(event.createdAt)}
               </p>
             </div>
+            {event.path ? (
+              <div>
+                <span className="text-muted-foreground">Path</span>
+                <p className="mt-0.5 font-mono text-xs">{event.path}</p>
+              </div>
+            ) : null}
             {event.query ? (
               <div>
                 <span className="text-muted-foreground">Query</span>
@@ -867,15 +1387,17 @@ function InspectorDrawer({
 
             <TabsContent value="body">
               <div className="mt-3">
-                {formattedBody ? (
-                  <pre className="overflow-x-auto rounded-[10px] bg-muted p-3 font-mono text-xs leading-relaxed">
-                    {formattedBody}
-                  </pre>
-                ) : (
-                  <p className="py-4 text-[13px] text-muted-foreground italic">
-                    No body
-                  </p>
-                )}
+                {event.bodySha256 ? <StoredBodyNotice event={event} /> : null}
+                {!event.bodySha256 &&
+                  (formattedBody ? (
+                    <pre className="overflow-x-auto rounded-[10px] bg-muted p-3 font-mono text-xs leading-relaxed">
+                      {formattedBody}
+                    </pre>
+                  ) : (
+                    <p className="py-4 text-[13px] text-muted-foreground italic">
+                      No body
+                    </p>
+                  ))}
               </div>
             </TabsContent>
 
@@ -909,14 +1431,46 @@ function InspectorDrawer({
   );
 }
 
+/* ──── Stored Body ──── */
+
+/** Large or binary bodies are not inlined; offer a byte-exact download instead */
+function StoredBodyNotice({ event }: { event: WebhookEvent }) {
+  return (
+    <div className="flex flex-col gap-3 rounded-[10px] bg-muted p-3">
+      <div className="grid gap-1.5 font-mono text-xs">
+        <div className="flex gap-2">
+          <span className="shrink-0 text-muted-foreground">size:</span>
+          <span>{formatBytes(event.bodySize ?? 0)}</span>
+        </div>
+        <div className="flex gap-2">
+          <span className="shrink-0 text-muted-foreground">sha256:</span>
+          <span className="break-all">{event.bodySha256}</span>
+        </div>
+      </div>
+      <p className="text-[13px] text-muted-foreground">
+        This body is binary or too large to preview and is kept in blob storage.
+      </p>
+      <a
+        className="inline-flex w-fit items-center gap-1.5 rounded-[10px] border border-border px-3 py-1.5 font-medium text-[13px] text-muted-foreground transition-colors hover:bg-background hover:text-foreground"
+        download
+        href={`${env.VITE_SERVER_URL}/events/${event.id}/body?download=1`}
+      >
+        <Download className="size-3.5" />
+        Download body
+      </a>
+    </div>
+  );
+}
+
 /* ──── Deliveries Panel ──── */
 
 const deliveryStatusVariant: Record<
   string,
-  "success" | "destructive" | "warning"
+  "success" | "destructive" | "warning" | "secondary"
 > = {
   delivered: "success",
   failed: "destructive",
+  filtered: "secondary",
 };
 
 function DeliveriesPanel({
@@ -988,6 +1542,14 @@ function DeliveriesPanel({
 }
 
 function DeliveryExpandedDetail({ delivery }: { delivery: DeliveryResult }) {
+  const attemptsQuery = useQuery(
+    orpc.deliveries.listAttempts.queryOptions({
+      input: { deliveryId: delivery.deliveryId },
+    })
+  );
+  const attempts = attemptsQuery.data ?? [];
+  const responseHeaders = Object.entries(delivery.responseHeaders ?? {});
+
   let formattedBody = delivery.responseBody ?? "";
   try {
     if (formattedBody) {
@@ -1005,6 +1567,21 @@ function DeliveryExpandedDetail({ delivery }: { delivery: DeliveryResult }) {
           <span className="text-destructive">{delivery.error}</span>
         </div>
       ) : null}
+      {responseHeaders.length > 0 ? (
+        <div>
+          <span className="mb-1 block text-muted-foreground">
+            Response headers
+          </span>
+          <div className="grid gap-1 rounded-[10px] bg-muted p-2">
+            {responseHeaders.map(([key, value]) => (
+              <div className="flex gap-2 font-mono text-xs" key={key}>
+                <span className="shrink-0 text-muted-foreground">{key}:</span>
+                <span className="break-all">{value}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      ) : null}
       {formattedBody ? (
         <div>
           <span className="mb-1 block text-muted-foreground">
@@ -1015,81 +1592,1060 @@ function DeliveryExpandedDetail({ delivery }: { delivery: DeliveryResult }) {
           </pre>
         </div>
       ) : null}
+      {attempts.length > 1 ? (
+        <div>
+          <span className="mb-1 block text-muted-foreground">Attempts</span>
+          <div className="grid gap-1">
+            {attempts.map((a) => (
+              <div className="flex items-center gap-2 text-xs" key={a.id}>
+                <span className="w-6 font-mono text-muted-foreground">
+                  #{a.attempt}
+                </span>
+                <DeliveryStatusDot status={a.status} />
+                <span className="font-mono">
+                  {a.responseStatus ?? a.error ?? a.status}
+                </span>
+                {a.duration !== null ? (
+                  <span className="text-muted-foreground">{a.duration}ms</span>
+                ) : null}
+                <span className="flex-1" />
+                <span className="text-muted-foreground">
+                  {new Date(a.createdAt).toLocaleTimeString()}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      ) : null}
     </div>
   );
 }
 
-/* ──── Edit Endpoint Dialog ──── */
+/* ──── Activity ──── */
+
+const AUDIT_ACTION_LABELS: Record<string, string> = {
+  "endpoint.create": "created the endpoint",
+  "endpoint.update": "updated the endpoint",
+  "endpoint.transfer": "transferred the endpoint",
+  "endpoint.delete": "deleted the endpoint",
+  "endpoint.revealSecret": "revealed the verification secret",
+  "machine.register": "registered a machine",
+  "machine.update": "updated a machine",
+  "machine.delete": "deleted a machine",
+  "machine.revealSecret": "revealed a machine's signing secret",
+  "event.delete": "deleted an event",
+  "event.replay": "replayed an event",
+  "events.clear": "cleared all events",
+};
 
-interface EndpointData {
-  description: string | null;
-  enabled: boolean;
-  forwardUrl: string | null;
-  id: string;
-  name: string;
-  slug: string;
+/** Keep long values (bodies, header maps) readable in a single line */
+function formatAuditValue(value: unknown): string {
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  return text.length > 80 ? `${text.slice(0, 80)}…` : text;
 }
 
-function EditEndpointDialog({
-  endpoint,
-  open,
-  onOpenChange,
-}: {
-  endpoint: EndpointData;
-  open: boolean;
-  onOpenChange: (open: boolean) => void;
-}) {
-  const [name, setName] = useState(endpoint.name);
-  const [description, setDescription] = useState(endpoint.description ?? "");
-  const [forwardUrl, setForwardUrl] = useState(endpoint.forwardUrl ?? "");
-  const [enabled, setEnabled] = useState(endpoint.enabled);
+function ActivityLog({ endpointId }: { endpointId: string }) {
+  const auditQuery = useQuery(
+    orpc.audit.list.queryOptions({ input: { endpointId, limit: 100 } })
+  );
+  const entries = auditQuery.data?.items ?? [];
 
-  const updateMutation = useMutation({
-    mutationFn: () =>
-      client.endpoints.update({
-        id: endpoint.id,
-        name,
-        description: description || undefined,
-        forwardUrl: forwardUrl || null,
-        enabled,
-      }),
-    onSuccess: () => {
-      queryClient.invalidateQueries({
-        queryKey: orpc.endpoints.get.queryOptions({
-          input: { id: endpoint.id },
-        }).queryKey,
-      });
-      queryClient.invalidateQueries({
-        queryKey: orpc.endpoints.list.queryOptions().queryKey,
-      });
-      toast.success("Endpoint updated");
-      onOpenChange(false);
-    },
-    onError: (error) => {
-      toast.error(`Failed to update: ${error.message}`);
-    },
-  });
+  if (auditQuery.isLoading) {
+    return (
+      <div className="flex justify-center py-10">
+        <Loader2 className="size-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (entries.length === 0) {
+    return (
+      <p className="py-10 text-center text-[13px] text-muted-foreground">
+        No changes recorded yet.
+      </p>
+    );
+  }
 
   return (
-    <Dialog onOpenChange={onOpenChange} open={open}>
-      <DialogContent>
-        <DialogHeader>
-          <DialogTitle>Edit hook</DialogTitle>
-          <DialogDescription>
-            Update your endpoint configuration.
-          </DialogDescription>
-        </DialogHeader>
-        <form
-          className="grid gap-3"
-          onSubmit={(e) => {
-            e.preventDefault();
-            updateMutation.mutate();
-          }}
-        >
-          <div className="grid gap-1.5">
-            <Label htmlFor="edit-name">Name</Label>
-            <Input
-              id="edit-name"
+    <ScrollArea className="h-full">
+      <div className="grid gap-1 px-6 py-4">
+        {entries.map((entry) => (
+          <div
+            className="grid gap-1 rounded-[10px] px-3 py-2.5 hover:bg-muted/50"
+            key={entry.id}
+          >
+            <div className="flex items-center gap-2 text-[13px]">
+              <span className="font-medium">
+                {entry.actorName ?? "Deleted user"}
+              </span>
+              <span className="text-muted-foreground">
+                {AUDIT_ACTION_LABELS[entry.action] ?? entry.action}
+              </span>
+              {entry.targetType === "endpoint" ? null : (
+                <code className="font-mono text-[11px] text-muted-foreground">
+                  {entry.targetId.slice(0, 8)}
+                </code>
+              )}
+              {entry.tokenId ? (
+                <Badge variant="secondary">API token</Badge>
+              ) : null}
+              <span className="flex-1" />
+              {entry.ip ? (
+                <span className="font-mono text-[11px] text-muted-foreground">
+                  {entry.ip}
+                </span>
+              ) : null}
+              <span className="text-[11px] text-muted-foreground">
+                {formatTimeFull(String(entry.createdAt))}
+              </span>
+            </div>
+            {entry.changes && entry.action !== "endpoint.create" ? (
+              <div className="grid gap-0.5 pl-1 font-mono text-[11px]">
+                {Object.entries(entry.changes).map(([field, change]) => (
+                  <div className="flex gap-2" key={field}>
+                    <span className="text-muted-foreground">{field}</span>
+                    <span className="text-destructive line-through">
+                      {formatAuditValue(change.before)}
+                    </span>
+                    <span className="text-cyan">
+                      {formatAuditValue(change.after)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            ) : null}
+          </div>
+        ))}
+      </div>
+    </ScrollArea>
+  );
+}
+
+/* ──── Metrics ──── */
+
+type MetricRange = "1h" | "24h" | "7d" | "30d";
+
+const METRIC_RANGE_LABELS: Record<MetricRange, string> = {
+  "1h": "Last hour",
+  "24h": "Last 24 hours",
+  "7d": "Last 7 days",
+  "30d": "Last 30 days",
+};
+
+function formatLatency(ms: number | null): string {
+  if (ms === null) {
+    return "--";
+  }
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+function formatErrorRate(rate: number | null): string {
+  return rate === null ? "--" : `${(rate * 100).toFixed(1)}%`;
+}
+
+function formatCount(value: number | null): string {
+  return value === null ? "--" : value.toLocaleString();
+}
+
+function MetricStat({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="grid gap-0.5">
+      <span className="text-[11px] text-muted-foreground">{label}</span>
+      <span className="font-medium font-mono text-[15px]">{value}</span>
+    </div>
+  );
+}
+
+function MetricsPanel({ endpointId }: { endpointId: string }) {
+  const [range, setRange] = useState<MetricRange>("24h");
+  const [machineId, setMachineId] = useState("");
+
+  const metricsQuery = useQuery({
+    ...orpc.metrics.endpoint.queryOptions({
+      input: { endpointId, range, machineId: machineId || undefined },
+    }),
+    refetchInterval: 60_000,
+  });
+  const metrics = metricsQuery.data;
+  const series = metrics?.series ?? [];
+  const times = series.map((point) => point.t);
+  const formatTime = (time: number) =>
+    (metrics?.bucketMs ?? 0) >= DAY_MS
+      ? new Date(time).toLocaleDateString()
+      : new Date(time).toLocaleTimeString([], {
+          hour: "2-digit",
+          minute: "2-digit",
+        });
+
+  return (
+    <ScrollArea className="h-full">
+      <div className="grid gap-4 px-6 py-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            className={FILTER_SELECT_CLASS}
+            onChange={(e) => setRange(e.target.value as MetricRange)}
+            value={range}
+          >
+            {Object.entries(METRIC_RANGE_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+          <select
+            className={FILTER_SELECT_CLASS}
+            onChange={(e) => setMachineId(e.target.value)}
+            value={machineId}
+          >
+            <option value="">All machines</option>
+            {metrics?.machines.map((m) => (
+              <option key={m.machineId} value={m.machineId}>
+                {m.machineName}
+              </option>
+            ))}
+          </select>
+          {metricsQuery.isFetching ? (
+            <Loader2 className="size-3.5 animate-spin text-muted-foreground" />
+          ) : null}
+        </div>
+
+        {metrics ? (
+          <div className="grid grid-cols-2 gap-4 sm:grid-cols-5">
+            <MetricStat
+              label="Requests"
+              value={formatCount(metrics.totals.received)}
+            />
+            <MetricStat
+              label="Blocked"
+              value={formatCount(metrics.totals.blocked)}
+            />
+            <MetricStat
+              label="Error rate"
+              value={formatErrorRate(metrics.totals.errorRate)}
+            />
+            <MetricStat label="p50" value={formatLatency(metrics.totals.p50)} />
+            <MetricStat label="p95" value={formatLatency(metrics.totals.p95)} />
+          </div>
+        ) : null}
+
+        <MetricChart
+          formatTime={formatTime}
+          formatValue={formatCount}
+          series={[
+            {
+              label: "Requests",
+              className: "text-cyan",
+              values: series.map((point) => point.received),
+            },
+            {
+              label: "Blocked",
+              className: "text-amber-500",
+              values: series.map((point) => point.blocked),
+            },
+          ]}
+          times={times}
+          title="Volume"
+        />
+        <MetricChart
+          formatTime={formatTime}
+          formatValue={formatErrorRate}
+          series={[
+            {
+              label: "Failed attempts",
+              className: "text-destructive",
+              values: series.map((point) => point.errorRate),
+            },
+          ]}
+          times={times}
+          title="Error rate"
+        />
+        <MetricChart
+          formatTime={formatTime}
+          formatValue={formatLatency}
+          series={[
+            {
+              label: "p50",
+              className: "text-cyan",
+              values: series.map((point) => point.p50),
+            },
+            {
+              label: "p95",
+              className: "text-violet-500",
+              values: series.map((point) => point.p95),
+            },
+          ]}
+          times={times}
+          title="Latency"
+        />
+
+        {metrics && metrics.machines.length > 0 ? (
+          <div className="overflow-hidden rounded-[14px] bg-card ring-1 ring-border">
+            <Table>
+              <TableHeader>
+                <TableRow className="hover:bg-transparent">
+                  <TableHead>Machine</TableHead>
+                  <TableHead className="text-right">Delivered</TableHead>
+                  <TableHead className="text-right">Failed</TableHead>
+                  <TableHead className="text-right">Error rate</TableHead>
+                  <TableHead className="text-right">p50</TableHead>
+                  <TableHead className="text-right">p95</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {metrics.machines.map((m) => (
+                  <TableRow key={m.machineId}>
+                    <TableCell className="font-medium text-[13px]">
+                      {m.machineName}
+                    </TableCell>
+                    <TableCell className="text-right font-mono text-xs">
+                      {formatCount(m.delivered)}
+                    </TableCell>
+                    <TableCell className="text-right font-mono text-xs">
+                      {formatCount(m.failed)}
+                    </TableCell>
+                    <TableCell className="text-right font-mono text-xs">
+                      {formatErrorRate(m.errorRate)}
+                    </TableCell>
+                    <TableCell className="text-right font-mono text-xs">
+                      {formatLatency(m.p50)}
+                    </TableCell>
+                    <TableCell className="text-right font-mono text-xs">
+                      {formatLatency(m.p95)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        ) : null}
+      </div>
+    </ScrollArea>
+  );
+}
+
+/* ──── Alerts ──── */
+
+type AlertCondition = "consecutive-failures" | "failure-rate" | "no-events";
+type AlertChannel = "email" | "slack" | "http";
+
+interface AlertRuleData {
+  channel: AlertChannel;
+  condition: AlertCondition;
+  cooldownMs: number;
+  enabled: boolean;
+  id: string;
+  name: string;
+  target: string;
+  threshold: number | null;
+  windowMs: number | null;
+}
+
+const ALERT_SELECT_CLASS =
+  "h-8 w-full rounded-[10px] border border-input bg-transparent px-2 text-[13px] outline-none focus-visible:border-ring focus-visible:ring-2 focus-visible:ring-ring/30 dark:bg-input/30";
+
+const ALERT_CHANNEL_LABELS: Record<AlertChannel, string> = {
+  email: "Email",
+  slack: "Slack",
+  http: "HTTP callback",
+};
+
+const ALERT_TARGET_PLACEHOLDERS: Record<AlertChannel, string> = {
+  email: "oncall@example.com",
+  slack: "https://hooks.slack.com/services/...",
+  http: "https://example.com/alerts",
+};
+
+function formatAlertWindow(ms: number): string {
+  return ms % 3_600_000 === 0
+    ? formatRetentionAge(ms)
+    : `${Math.round(ms / 60_000)}m`;
+}
+
+function describeAlertCondition(rule: AlertRuleData): string {
+  if (rule.condition === "consecutive-failures") {
+    return `${rule.threshold} failed deliveries in a row`;
+  }
+  if (rule.condition === "failure-rate") {
+    return `${rule.threshold}% of deliveries failing over ${formatAlertWindow(rule.windowMs ?? 0)}`;
+  }
+  return `No events for ${formatAlertWindow(rule.windowMs ?? 0)}`;
+}
+
+/** The condition fields of a rule as the API expects them */
+function alertConditionInput(
+  condition: AlertCondition,
+  threshold: number,
+  windowMinutes: number
+) {
+  const windowMs = Math.round(windowMinutes * 60_000);
+  if (condition === "consecutive-failures") {
+    return { condition, threshold };
+  }
+  if (condition === "failure-rate") {
+    return { condition, threshold, windowMs };
+  }
+  return { condition, windowMs };
+}
+
+/** Threshold and window inputs; only those the condition uses are shown */
+function AlertConditionFields({
+  condition,
+  threshold,
+  windowMinutes,
+  onThresholdChange,
+  onWindowMinutesChange,
+}: {
+  condition: AlertCondition;
+  threshold: number;
+  windowMinutes: number;
+  onThresholdChange: (value: number) => void;
+  onWindowMinutesChange: (value: number) => void;
+}) {
+  return (
+    <div className="grid grid-cols-2 gap-2">
+      {condition === "no-events" ? null : (
+        <div className="grid gap-1.5">
+          <Label htmlFor="alert-threshold">
+            {condition === "failure-rate" ? "Failure rate (%)" : "Failures"}
+          </Label>
+          <Input
+            id="alert-threshold"
+            max={100}
+            min={1}
+            onChange={(e) => onThresholdChange(Number(e.target.value))}
+            type="number"
+            value={threshold}
+          />
+        </div>
+      )}
+      {condition === "consecutive-failures" ? null : (
+        <div className="grid gap-1.5">
+          <Label htmlFor="alert-window">Window (minutes)</Label>
+          <Input
+            id="alert-window"
+            min={condition === "no-events" ? 60 : 5}
+            onChange={(e) => onWindowMinutesChange(Number(e.target.value))}
+            type="number"
+            value={windowMinutes}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
+
+function AlertRuleDialog({
+  endpointId,
+  rule,
+  open,
+  onOpenChange,
+}: {
+  endpointId: string;
+  /** The rule to edit; a new rule is created when omitted */
+  rule: AlertRuleData | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const [name, setName] = useState(rule?.name ?? "");
+  const [condition, setCondition] = useState<AlertCondition>(
+    rule?.condition ?? "consecutive-failures"
+  );
+  const [threshold, setThreshold] = useState(rule?.threshold ?? 3);
+  const [windowMinutes, setWindowMinutes] = useState(
+    (rule?.windowMs ?? 3_600_000) / 60_000
+  );
+  const [channel, setChannel] = useState<AlertChannel>(
+    rule?.channel ?? "email"
+  );
+  const [target, setTarget] = useState(rule?.target ?? "");
+  const [cooldownMinutes, setCooldownMinutes] = useState(
+    (rule?.cooldownMs ?? 3_600_000) / 60_000
+  );
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const input = {
+        endpointId,
+        name,
+        channel,
+        target,
+        cooldownMs: Math.round(cooldownMinutes * 60_000),
+        ...alertConditionInput(condition, threshold, windowMinutes),
+      };
+      if (rule) {
+        return await client.alerts.update({ ...input, id: rule.id });
+      }
+      return await client.alerts.create(input);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: orpc.alerts.key() });
+      toast.success(rule ? "Alert rule updated" : "Alert rule created");
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast.error(`Failed to save: ${error.message}`);
+    },
+  });
+
+  return (
+    <Dialog onOpenChange={onOpenChange} open={open}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>
+            {rule ? "Edit alert rule" : "New alert rule"}
+          </DialogTitle>
+          <DialogDescription>
+            Get notified when deliveries fail or the endpoint goes quiet.
+          </DialogDescription>
+        </DialogHeader>
+        <form
+          className="grid gap-3"
+          onSubmit={(e) => {
+            e.preventDefault();
+            saveMutation.mutate();
+          }}
+        >
+          <div className="grid gap-1.5">
+            <Label htmlFor="alert-name">Name</Label>
+            <Input
+              id="alert-name"
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Deliveries failing"
+              required
+              value={name}
+            />
+          </div>
+          <div className="grid gap-1.5">
+            <Label htmlFor="alert-condition">When</Label>
+            <select
+              className={ALERT_SELECT_CLASS}
+              id="alert-condition"
+              onChange={(e) => setCondition(e.target.value as AlertCondition)}
+              value={condition}
+            >
+              <option value="consecutive-failures">
+                Deliveries fail in a row
+              </option>
+              <option value="failure-rate">Failure rate exceeds</option>
+              <option value="no-events">No events received for</option>
+            </select>
+          </div>
+          <AlertConditionFields
+            condition={condition}
+            onThresholdChange={setThreshold}
+            onWindowMinutesChange={setWindowMinutes}
+            threshold={threshold}
+            windowMinutes={windowMinutes}
+          />
+          <div className="grid grid-cols-[140px_1fr] gap-2">
+            <div className="grid gap-1.5">
+              <Label htmlFor="alert-channel">Notify via</Label>
+              <select
+                className={ALERT_SELECT_CLASS}
+                id="alert-channel"
+                onChange={(e) => setChannel(e.target.value as AlertChannel)}
+                value={channel}
+              >
+                {Object.entries(ALERT_CHANNEL_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="grid gap-1.5">
+              <Label htmlFor="alert-target">
+                {channel === "email" ? "Email address" : "URL"}
+              </Label>
+              <Input
+                id="alert-target"
+                onChange={(e) => setTarget(e.target.value)}
+                placeholder={ALERT_TARGET_PLACEHOLDERS[channel]}
+                required
+                type={channel === "email" ? "email" : "url"}
+                value={target}
+              />
+            </div>
+          </div>
+          {condition === "no-events" ? null : (
+            <div className="grid gap-1.5">
+              <Label htmlFor="alert-cooldown">
+                Notify at most every (minutes)
+              </Label>
+              <Input
+                id="alert-cooldown"
+                max={1440}
+                min={1}
+                onChange={(e) => setCooldownMinutes(Number(e.target.value))}
+                type="number"
+                value={cooldownMinutes}
+              />
+            </div>
+          )}
+          <DialogFooter>
+            <Button
+              disabled={
+                !(name.trim() && target.trim()) || saveMutation.isPending
+              }
+              type="submit"
+            >
+              {saveMutation.isPending ? (
+                <Loader2 className="animate-spin" data-icon="inline-start" />
+              ) : null}
+              {rule ? "Save changes" : "Create rule"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function AlertRuleRow({
+  rule,
+  endpointId,
+  onEdit,
+}: {
+  rule: AlertRuleData;
+  endpointId: string;
+  onEdit: () => void;
+}) {
+  const invalidate = () =>
+    queryClient.invalidateQueries({ queryKey: orpc.alerts.key() });
+
+  const toggleMutation = useMutation({
+    mutationFn: () =>
+      client.alerts.update({
+        endpointId,
+        id: rule.id,
+        name: rule.name,
+        channel: rule.channel,
+        target: rule.target,
+        cooldownMs: rule.cooldownMs,
+        enabled: !rule.enabled,
+        ...alertConditionInput(
+          rule.condition,
+          rule.threshold ?? 1,
+          (rule.windowMs ?? 3_600_000) / 60_000
+        ),
+      }),
+    onSuccess: invalidate,
+    onError: (error) => {
+      toast.error(`Failed to update: ${error.message}`);
+    },
+  });
+
+  const testMutation = useMutation({
+    mutationFn: () => client.alerts.test({ endpointId, id: rule.id }),
+    onSuccess: (result) => {
+      if (result.sent) {
+        toast.success("Test notification sent");
+      } else {
+        toast.error(`Test failed: ${result.error}`);
+      }
+    },
+    onError: (error) => {
+      toast.error(`Test failed: ${error.message}`);
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: () => client.alerts.delete({ endpointId, id: rule.id }),
+    onSuccess: () => {
+      invalidate();
+      toast.success("Alert rule deleted");
+    },
+    onError: (error) => {
+      toast.error(`Failed to delete: ${error.message}`);
+    },
+  });
+
+  return (
+    <div className="flex items-center gap-3 rounded-[10px] px-3 py-2.5 hover:bg-muted/50">
+      <input
+        aria-label={`Enable ${rule.name}`}
+        checked={rule.enabled}
+        className="accent-cyan"
+        disabled={toggleMutation.isPending}
+        onChange={() => toggleMutation.mutate()}
+        type="checkbox"
+      />
+      <div className="grid min-w-0 flex-1 gap-0.5">
+        <span className="font-medium text-[13px]">{rule.name}</span>
+        <span className="truncate text-[11px] text-muted-foreground">
+          {describeAlertCondition(rule)} → {ALERT_CHANNEL_LABELS[rule.channel]}{" "}
+          {rule.target}
+        </span>
+      </div>
+      <Button
+        disabled={testMutation.isPending}
+        onClick={() => testMutation.mutate()}
+        size="sm"
+        variant="ghost"
+      >
+        Test
+      </Button>
+      <Button onClick={onEdit} size="icon-sm" variant="ghost">
+        <Settings />
+      </Button>
+      <Button
+        disabled={deleteMutation.isPending}
+        onClick={() => deleteMutation.mutate()}
+        size="icon-sm"
+        variant="ghost"
+      >
+        <Trash2 />
+      </Button>
+    </div>
+  );
+}
+
+function AlertsPanel({ endpointId }: { endpointId: string }) {
+  const [dialogRule, setDialogRule] = useState<AlertRuleData | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+
+  const rulesQuery = useQuery(
+    orpc.alerts.list.queryOptions({ input: { endpointId } })
+  );
+  const historyQuery = useQuery(
+    orpc.alerts.history.queryOptions({ input: { endpointId, limit: 100 } })
+  );
+  const rules = (rulesQuery.data ?? []) as AlertRuleData[];
+  const history = historyQuery.data?.items ?? [];
+
+  const openDialog = (rule: AlertRuleData | null) => {
+    setDialogRule(rule);
+    setDialogOpen(true);
+  };
+
+  return (
+    <ScrollArea className="h-full">
+      <div className="grid gap-6 px-6 py-4">
+        <section className="grid gap-2">
+          <div className="flex items-center justify-between">
+            <h2 className="font-medium text-[13px]">Rules</h2>
+            <Button
+              onClick={() => openDialog(null)}
+              size="sm"
+              variant="outline"
+            >
+              <Plus data-icon="inline-start" />
+              Add rule
+            </Button>
+          </div>
+          {rules.length === 0 ? (
+            <p className="py-4 text-[13px] text-muted-foreground">
+              No alert rules yet. Add one to hear about failing deliveries
+              without watching the dashboard.
+            </p>
+          ) : (
+            <div className="grid gap-1">
+              {rules.map((rule) => (
+                <AlertRuleRow
+                  endpointId={endpointId}
+                  key={rule.id}
+                  onEdit={() => openDialog(rule)}
+                  rule={rule}
+                />
+              ))}
+            </div>
+          )}
+        </section>
+
+        <section className="grid gap-2">
+          <h2 className="font-medium text-[13px]">History</h2>
+          {history.length === 0 ? (
+            <p className="py-4 text-[13px] text-muted-foreground">
+              No alerts have fired.
+            </p>
+          ) : (
+            <div className="grid gap-1">
+              {history.map((entry) => (
+                <div
+                  className="grid gap-0.5 rounded-[10px] px-3 py-2.5 hover:bg-muted/50"
+                  key={entry.id}
+                >
+                  <div className="flex items-center gap-2 text-[13px]">
+                    <Badge
+                      variant={
+                        entry.status === "sent" ? "success" : "destructive"
+                      }
+                    >
+                      {entry.status}
+                    </Badge>
+                    <span className="font-medium">{entry.ruleName}</span>
+                    <span className="text-muted-foreground">
+                      {entry.message}
+                    </span>
+                    <span className="flex-1" />
+                    <span className="text-[11px] text-muted-foreground">
+                      {ALERT_CHANNEL_LABELS[entry.channel]}
+                    </span>
+                    <span className="text-[11px] text-muted-foreground">
+                      {formatTimeFull(String(entry.createdAt))}
+                    </span>
+                  </div>
+                  {entry.error ? (
+                    <p className="pl-1 font-mono text-[11px] text-destructive">
+                      {entry.error}
+                    </p>
+                  ) : null}
+                </div>
+              ))}
+            </div>
+          )}
+        </section>
+      </div>
+
+      {dialogOpen ? (
+        <AlertRuleDialog
+          endpointId={endpointId}
+          onOpenChange={setDialogOpen}
+          open={dialogOpen}
+          rule={dialogRule}
+        />
+      ) : null}
+    </ScrollArea>
+  );
+}
+
+/* ──── Edit Endpoint Dialog ──── */
+
+type RetryBackoff = "fixed" | "linear" | "exponential";
+
+type VerifierProvider = "stripe" | "github" | "slack" | "svix";
+
+type IpAllowlistPreset = "github" | "stripe" | "shopify";
+
+const IP_ALLOWLIST_PRESETS: Array<{ label: string; value: IpAllowlistPreset }> =
+  [
+    { value: "github", label: "GitHub" },
+    { value: "stripe", label: "Stripe" },
+    { value: "shopify", label: "Shopify" },
+  ];
+
+type ResponsePreset =
+  | "default"
+  | "custom"
+  | "slack-challenge"
+  | "twilio-twiml"
+  | "ms-graph-validation";
+
+const HEADER_LINE_RE = /^([^:]+):\s*(.*)$/;
+
+/** Parse `Name: value` lines from the custom response headers field */
+function parseHeaderLines(text: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const line of text.split("\n")) {
+    const match = HEADER_LINE_RE.exec(line.trim());
+    if (match?.[1] && match[2] !== undefined) {
+      headers[match[1].trim()] = match[2];
+    }
+  }
+  return headers;
+}
+
+function formatHeaderLines(json: string | null): string {
+  return Object.entries(parseHeadersJson(json) ?? {})
+    .map(([key, value]) => `${key}: ${value}`)
+    .join("\n");
+}
+
+/** A JSON array column as a list (null = empty) */
+function parseJsonList<T extends string>(json: string | null): T[] {
+  try {
+    const value: unknown = json ? JSON.parse(json) : [];
+    return Array.isArray(value) ? (value as T[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+interface EndpointData {
+  description: string | null;
+  enabled: boolean;
+  forwardUrl: string | null;
+  /** The secret itself is only returned by endpoints.revealVerifierSecret */
+  hasVerifierSecret: boolean;
+  id: string;
+  ipAllowlist: string | null;
+  ipAllowlistPresets: string | null;
+  name: string;
+  offlineQueueMaxAgeMs: number;
+  rateLimitBurst: number;
+  rateLimitIpBurst: number;
+  rateLimitIpPerMinute: number;
+  rateLimitPerMinute: number;
+  responseBody: string | null;
+  responseHeaders: string | null;
+  responseMode: "immediate" | "local";
+  responsePreset: ResponsePreset;
+  responseStatus: number | null;
+  responseTimeoutMs: number;
+  retentionMaxAgeMs: number | null;
+  retentionMaxBytes: number | null;
+  retentionMaxEvents: number | null;
+  retryBackoff: RetryBackoff;
+  retryBaseDelayMs: number;
+  retryMaxAttempts: number;
+  slug: string;
+  verifierProvider: VerifierProvider | null;
+  verifierRejectInvalid: boolean;
+}
+
+function EditEndpointDialog({
+  endpoint,
+  open,
+  onOpenChange,
+}: {
+  endpoint: EndpointData;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const [name, setName] = useState(endpoint.name);
+  const [description, setDescription] = useState(endpoint.description ?? "");
+  const [forwardUrl, setForwardUrl] = useState(endpoint.forwardUrl ?? "");
+  const [enabled, setEnabled] = useState(endpoint.enabled);
+  const [retryMaxAttempts, setRetryMaxAttempts] = useState(
+    endpoint.retryMaxAttempts
+  );
+  const [retryBackoff, setRetryBackoff] = useState<RetryBackoff>(
+    endpoint.retryBackoff
+  );
+  const [retryBaseDelaySec, setRetryBaseDelaySec] = useState(
+    endpoint.retryBaseDelayMs / 1000
+  );
+  const [offlineQueueHours, setOfflineQueueHours] = useState(
+    endpoint.offlineQueueMaxAgeMs / 3_600_000
+  );
+  const [rateLimitBurst, setRateLimitBurst] = useState(endpoint.rateLimitBurst);
+  const [rateLimitPerMinute, setRateLimitPerMinute] = useState(
+    endpoint.rateLimitPerMinute
+  );
+  const [rateLimitIpBurst, setRateLimitIpBurst] = useState(
+    endpoint.rateLimitIpBurst
+  );
+  const [rateLimitIpPerMinute, setRateLimitIpPerMinute] = useState(
+    endpoint.rateLimitIpPerMinute
+  );
+  const [ipAllowlist, setIpAllowlist] = useState(
+    parseJsonList(endpoint.ipAllowlist).join("\n")
+  );
+  const [ipAllowlistPresets, setIpAllowlistPresets] = useState(
+    parseJsonList<IpAllowlistPreset>(endpoint.ipAllowlistPresets)
+  );
+  const [verifierProvider, setVerifierProvider] = useState<
+    VerifierProvider | ""
+  >(endpoint.verifierProvider ?? "");
+  // Left empty to keep the stored secret, which isn't sent to the browser
+  const [verifierSecret, setVerifierSecret] = useState("");
+  const [verifierRejectInvalid, setVerifierRejectInvalid] = useState(
+    endpoint.verifierRejectInvalid
+  );
+  const [responsePreset, setResponsePreset] = useState<ResponsePreset>(
+    endpoint.responsePreset
+  );
+  const [responseStatus, setResponseStatus] = useState(
+    endpoint.responseStatus ?? 200
+  );
+  const [responseHeaders, setResponseHeaders] = useState(
+    formatHeaderLines(endpoint.responseHeaders)
+  );
+  const [responseBody, setResponseBody] = useState(endpoint.responseBody ?? "");
+  const [relayLocalResponse, setRelayLocalResponse] = useState(
+    endpoint.responseMode === "local"
+  );
+  const [responseTimeoutSec, setResponseTimeoutSec] = useState(
+    endpoint.responseTimeoutMs / 1000
+  );
+  const [retentionDays, setRetentionDays] = useState(
+    formatLimit(endpoint.retentionMaxAgeMs, DAY_MS)
+  );
+  const [retentionEvents, setRetentionEvents] = useState(
+    formatLimit(endpoint.retentionMaxEvents, 1)
+  );
+  const [retentionMb, setRetentionMb] = useState(
+    formatLimit(endpoint.retentionMaxBytes, MB)
+  );
+
+  const updateMutation = useMutation({
+    mutationFn: () =>
+      client.endpoints.update({
+        id: endpoint.id,
+        name,
+        description: description || undefined,
+        forwardUrl: forwardUrl || null,
+        enabled,
+        retryMaxAttempts,
+        retryBackoff,
+        retryBaseDelayMs: Math.round(retryBaseDelaySec * 1000),
+        offlineQueueMaxAgeMs: Math.round(offlineQueueHours * 3_600_000),
+        rateLimitBurst,
+        rateLimitPerMinute,
+        rateLimitIpBurst,
+        rateLimitIpPerMinute,
+        ipAllowlist: ipAllowlist
+          .split("\n")
+          .map((line) => line.trim())
+          .filter(Boolean),
+        ipAllowlistPresets,
+        verifierProvider: verifierProvider || null,
+        verifierSecret: verifierSecretUpdate(
+          verifierProvider,
+          verifierSecret,
+          endpoint.hasVerifierSecret
+        ),
+        verifierRejectInvalid,
+        responsePreset,
+        responseStatus: responsePreset === "custom" ? responseStatus : null,
+        responseHeaders:
+          responsePreset === "custom"
+            ? parseHeaderLines(responseHeaders)
+            : null,
+        responseBody: responsePreset === "custom" ? responseBody || null : null,
+        responseMode: relayLocalResponse ? "local" : "immediate",
+        responseTimeoutMs: Math.round(responseTimeoutSec * 1000),
+        retentionMaxAgeMs: parseLimit(retentionDays, DAY_MS),
+        retentionMaxEvents: parseLimit(retentionEvents, 1),
+        retentionMaxBytes: parseLimit(retentionMb, MB),
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: orpc.endpoints.get.queryOptions({
+          input: { id: endpoint.id },
+        }).queryKey,
+      });
+      queryClient.invalidateQueries({
+        queryKey: orpc.endpoints.list.queryOptions().queryKey,
+      });
+      toast.success("Endpoint updated");
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast.error(`Failed to update: ${error.message}`);
+    },
+  });
+
+  return (
+    <Dialog onOpenChange={onOpenChange} open={open}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Edit hook</DialogTitle>
+          <DialogDescription>
+            Update your endpoint configuration.
+          </DialogDescription>
+        </DialogHeader>
+        <form
+          className="grid gap-3"
+          onSubmit={(e) => {
+            e.preventDefault();
+            updateMutation.mutate();
+          }}
+        >
+          <div className="grid gap-1.5">
+            <Label htmlFor="edit-name">Name</Label>
+            <Input
+              id="edit-name"
               onChange={(e) => setName(e.target.value)}
               required
               value={name}
@@ -1113,6 +2669,337 @@ function EditEndpointDialog({
               value={forwardUrl}
             />
           </div>
+          <div className="grid grid-cols-3 gap-2">
+            <div className="grid gap-1.5">
+              <Label htmlFor="edit-retry-attempts">Max attempts</Label>
+              <Input
+                id="edit-retry-attempts"
+                max={10}
+                min={1}
+                onChange={(e) => setRetryMaxAttempts(Number(e.target.value))}
+                type="number"
+                value={retryMaxAttempts}
+              />
+            </div>
+            <div className="grid gap-1.5">
+              <Label htmlFor="edit-retry-backoff">Backoff</Label>
+              <select
+                className="h-8 w-full rounded-[10px] border border-input bg-transparent px-2 text-[13px] outline-none focus-visible:border-ring focus-visible:ring-2 focus-visible:ring-ring/30 disabled:opacity-50 dark:bg-input/30"
+                disabled={retryMaxAttempts <= 1}
+                id="edit-retry-backoff"
+                onChange={(e) =>
+                  setRetryBackoff(e.target.value as RetryBackoff)
+                }
+                value={retryBackoff}
+              >
+                <option value="exponential">Exponential</option>
+                <option value="linear">Linear</option>
+                <option value="fixed">Fixed</option>
+              </select>
+            </div>
+            <div className="grid gap-1.5">
+              <Label htmlFor="edit-retry-delay">Base delay (s)</Label>
+              <Input
+                disabled={retryMaxAttempts <= 1}
+                id="edit-retry-delay"
+                max={3600}
+                min={1}
+                onChange={(e) => setRetryBaseDelaySec(Number(e.target.value))}
+                type="number"
+                value={retryBaseDelaySec}
+              />
+            </div>
+          </div>
+          <p className="-mt-1 text-muted-foreground text-xs">
+            Failed deliveries (network errors and 5xx responses) are retried
+            until max attempts is reached. 1 disables retries.
+          </p>
+          <div className="grid gap-1.5">
+            <Label htmlFor="edit-offline-queue">Offline queue (hours)</Label>
+            <Input
+              id="edit-offline-queue"
+              max={168}
+              min={0}
+              onChange={(e) => setOfflineQueueHours(Number(e.target.value))}
+              type="number"
+              value={offlineQueueHours}
+            />
+            <p className="text-muted-foreground text-xs">
+              Webhooks received while a machine is offline are delivered when it
+              reconnects, up to this age. 0 disables queueing.
+            </p>
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            <div className="grid gap-1.5">
+              <Label htmlFor="edit-retention-days">Keep (days)</Label>
+              <Input
+                id="edit-retention-days"
+                max={365}
+                min={1}
+                onChange={(e) => setRetentionDays(e.target.value)}
+                placeholder="Forever"
+                type="number"
+                value={retentionDays}
+              />
+            </div>
+            <div className="grid gap-1.5">
+              <Label htmlFor="edit-retention-events">Max events</Label>
+              <Input
+                id="edit-retention-events"
+                min={1}
+                onChange={(e) => setRetentionEvents(e.target.value)}
+                placeholder="No limit"
+                type="number"
+                value={retentionEvents}
+              />
+            </div>
+            <div className="grid gap-1.5">
+              <Label htmlFor="edit-retention-mb">Max storage (MB)</Label>
+              <Input
+                id="edit-retention-mb"
+                min={1}
+                onChange={(e) => setRetentionMb(e.target.value)}
+                placeholder="No limit"
+                type="number"
+                value={retentionMb}
+              />
+            </div>
+          </div>
+          <p className="-mt-1 text-muted-foreground text-xs">
+            Older events beyond these limits are pruned automatically, together
+            with their deliveries. Leave a field empty for no limit.
+          </p>
+          <div className="grid grid-cols-4 gap-2">
+            <div className="grid gap-1.5">
+              <Label htmlFor="edit-rate-burst">Burst</Label>
+              <Input
+                id="edit-rate-burst"
+                max={10_000}
+                min={1}
+                onChange={(e) => setRateLimitBurst(Number(e.target.value))}
+                type="number"
+                value={rateLimitBurst}
+              />
+            </div>
+            <div className="grid gap-1.5">
+              <Label htmlFor="edit-rate-sustain">Per minute</Label>
+              <Input
+                id="edit-rate-sustain"
+                max={100_000}
+                min={1}
+                onChange={(e) => setRateLimitPerMinute(Number(e.target.value))}
+                type="number"
+                value={rateLimitPerMinute}
+              />
+            </div>
+            <div className="grid gap-1.5">
+              <Label htmlFor="edit-rate-ip-burst">Burst per IP</Label>
+              <Input
+                id="edit-rate-ip-burst"
+                max={10_000}
+                min={1}
+                onChange={(e) => setRateLimitIpBurst(Number(e.target.value))}
+                type="number"
+                value={rateLimitIpBurst}
+              />
+            </div>
+            <div className="grid gap-1.5">
+              <Label htmlFor="edit-rate-ip-sustain">Per minute per IP</Label>
+              <Input
+                id="edit-rate-ip-sustain"
+                max={100_000}
+                min={1}
+                onChange={(e) =>
+                  setRateLimitIpPerMinute(Number(e.target.value))
+                }
+                type="number"
+                value={rateLimitIpPerMinute}
+              />
+            </div>
+          </div>
+          <p className="-mt-1 text-muted-foreground text-xs">
+            Requests beyond the burst are accepted at the per-minute rate; the
+            rest are rejected with 429 and counted as rate limited.
+          </p>
+          <div className="grid gap-1.5">
+            <Label htmlFor="edit-ip-allowlist">IP allowlist</Label>
+            <textarea
+              className="min-h-14 w-full rounded-[10px] border border-input bg-transparent px-2.5 py-1.5 font-mono text-xs outline-none focus-visible:border-ring focus-visible:ring-2 focus-visible:ring-ring/30 dark:bg-input/30"
+              id="edit-ip-allowlist"
+              onChange={(e) => setIpAllowlist(e.target.value)}
+              placeholder={"203.0.113.0/24\n2001:db8::/32"}
+              value={ipAllowlist}
+            />
+            <div className="flex items-center gap-3">
+              {IP_ALLOWLIST_PRESETS.map((preset) => (
+                <div className="flex items-center gap-1.5" key={preset.value}>
+                  <input
+                    checked={ipAllowlistPresets.includes(preset.value)}
+                    className="accent-cyan"
+                    id={`edit-ip-preset-${preset.value}`}
+                    onChange={(e) =>
+                      setIpAllowlistPresets((current) =>
+                        e.target.checked
+                          ? [...current, preset.value]
+                          : current.filter((p) => p !== preset.value)
+                      )
+                    }
+                    type="checkbox"
+                  />
+                  <Label htmlFor={`edit-ip-preset-${preset.value}`}>
+                    {preset.label}
+                  </Label>
+                </div>
+              ))}
+            </div>
+            <p className="text-muted-foreground text-xs">
+              One CIDR per line, plus the selected providers' published ranges.
+              Other clients get 403 and are logged as blocked events. Leave
+              empty to accept every client.
+            </p>
+          </div>
+          <div className="grid grid-cols-[140px_1fr] gap-2">
+            <div className="grid gap-1.5">
+              <Label htmlFor="edit-verifier">Signature</Label>
+              <select
+                className="h-8 w-full rounded-[10px] border border-input bg-transparent px-2 text-[13px] outline-none focus-visible:border-ring focus-visible:ring-2 focus-visible:ring-ring/30 dark:bg-input/30"
+                id="edit-verifier"
+                onChange={(e) =>
+                  setVerifierProvider(e.target.value as VerifierProvider | "")
+                }
+                value={verifierProvider}
+              >
+                <option value="">None</option>
+                <option value="stripe">Stripe</option>
+                <option value="github">GitHub</option>
+                <option value="slack">Slack</option>
+                <option value="svix">Svix</option>
+              </select>
+            </div>
+            <div className="grid gap-1.5">
+              <Label htmlFor="edit-verifier-secret">Signing secret</Label>
+              <Input
+                disabled={!verifierProvider}
+                id="edit-verifier-secret"
+                onChange={(e) => setVerifierSecret(e.target.value)}
+                placeholder={
+                  endpoint.hasVerifierSecret
+                    ? "Unchanged (stored secret hidden)"
+                    : "whsec_..."
+                }
+                required={
+                  Boolean(verifierProvider) && !endpoint.hasVerifierSecret
+                }
+                type="password"
+                value={verifierSecret}
+              />
+            </div>
+          </div>
+          {verifierProvider ? (
+            <div className="flex items-center gap-2">
+              <input
+                checked={verifierRejectInvalid}
+                className="accent-cyan"
+                id="edit-verifier-reject"
+                onChange={(e) => setVerifierRejectInvalid(e.target.checked)}
+                type="checkbox"
+              />
+              <Label htmlFor="edit-verifier-reject">
+                Reject unverified requests with 401
+              </Label>
+            </div>
+          ) : null}
+          <div className="grid grid-cols-[1fr_90px] gap-2">
+            <div className="grid gap-1.5">
+              <Label htmlFor="edit-response-preset">Response</Label>
+              <select
+                className="h-8 w-full rounded-[10px] border border-input bg-transparent px-2 text-[13px] outline-none focus-visible:border-ring focus-visible:ring-2 focus-visible:ring-ring/30 dark:bg-input/30"
+                id="edit-response-preset"
+                onChange={(e) =>
+                  setResponsePreset(e.target.value as ResponsePreset)
+                }
+                value={responsePreset}
+              >
+                <option value="default">Default (202 JSON)</option>
+                <option value="custom">Custom</option>
+                <option value="slack-challenge">Slack URL verification</option>
+                <option value="twilio-twiml">Twilio empty TwiML</option>
+                <option value="ms-graph-validation">
+                  Microsoft Graph validationToken
+                </option>
+              </select>
+            </div>
+            <div className="grid gap-1.5">
+              <Label htmlFor="edit-response-status">Status</Label>
+              <Input
+                disabled={responsePreset !== "custom"}
+                id="edit-response-status"
+                max={599}
+                min={200}
+                onChange={(e) => setResponseStatus(Number(e.target.value))}
+                type="number"
+                value={responseStatus}
+              />
+            </div>
+          </div>
+          {responsePreset === "custom" ? (
+            <>
+              <div className="grid gap-1.5">
+                <Label htmlFor="edit-response-headers">Response headers</Label>
+                <textarea
+                  className="min-h-14 w-full rounded-[10px] border border-input bg-transparent px-2.5 py-1.5 font-mono text-xs outline-none focus-visible:border-ring focus-visible:ring-2 focus-visible:ring-ring/30 dark:bg-input/30"
+                  id="edit-response-headers"
+                  onChange={(e) => setResponseHeaders(e.target.value)}
+                  placeholder="Content-Type: application/json"
+                  value={responseHeaders}
+                />
+              </div>
+              <div className="grid gap-1.5">
+                <Label htmlFor="edit-response-body">Response body</Label>
+                <textarea
+                  className="min-h-20 w-full rounded-[10px] border border-input bg-transparent px-2.5 py-1.5 font-mono text-xs outline-none focus-visible:border-ring focus-visible:ring-2 focus-visible:ring-ring/30 dark:bg-input/30"
+                  id="edit-response-body"
+                  onChange={(e) => setResponseBody(e.target.value)}
+                  placeholder='{"received": "{{eventId}}"}'
+                  value={responseBody}
+                />
+                <p className="text-muted-foreground text-xs">
+                  Use {"{{body.field}}"}, {"{{query.name}}"},{" "}
+                  {"{{headers.name}}"}, {"{{method}}"}, {"{{path}}"} or{" "}
+                  {"{{eventId}}"} to fill values from the request.
+                </p>
+              </div>
+            </>
+          ) : null}
+          <div className="flex items-center gap-2">
+            <input
+              checked={relayLocalResponse}
+              className="accent-cyan"
+              id="edit-response-local"
+              onChange={(e) => setRelayLocalResponse(e.target.checked)}
+              type="checkbox"
+            />
+            <Label htmlFor="edit-response-local">
+              Respond with the local server's response
+            </Label>
+          </div>
+          {relayLocalResponse ? (
+            <div className="grid gap-1.5">
+              <Label htmlFor="edit-response-timeout">Wait up to (s)</Label>
+              <Input
+                id="edit-response-timeout"
+                max={30}
+                min={1}
+                onChange={(e) => setResponseTimeoutSec(Number(e.target.value))}
+                type="number"
+                value={responseTimeoutSec}
+              />
+              <p className="text-muted-foreground text-xs">
+                The caller gets the first connected machine's status and body.
+                If none answers in time, the response above is sent instead.
+              </p>
+            </div>
+          ) : null}
           <div className="flex items-center gap-2">
             <input
               checked={enabled}
@@ -1148,6 +3035,7 @@ function EndpointDetail() {
   const [selectedEventId, setSelectedEventId] = useState<string | null>(null);
   const [editOpen, setEditOpen] = useState(false);
   const [deleteConfirmOpen, setDeleteConfirmOpen] = useState(false);
+  const [search, setSearch] = useState<EventSearchFilters>(EMPTY_SEARCH);
 
   const endpointQuery = useQuery(
     orpc.endpoints.get.queryOptions({ input: { id: endpointId } })
@@ -1165,6 +3053,13 @@ function EndpointDetail() {
     })
   );
 
+  const usageQuery = useQuery(
+    orpc.endpoints.usage.queryOptions({
+      input: { id: endpointId },
+      refetchInterval: 60_000,
+    })
+  );
+
   const ep = endpointQuery.data;
 
   const {
@@ -1181,8 +3076,19 @@ function EndpointDetail() {
 
   const mergedEvents = useMergedEvents(wsEvents, historicalEvents);
 
+  // While filters are applied, the table shows search results instead of the live feed
+  const searchInput = toSearchInput(endpointId, search);
+  const searchQuery = useQuery({
+    ...orpc.events.search.queryOptions({
+      input: searchInput ?? { endpointId },
+    }),
+    enabled: searchInput !== null,
+  });
+  const searchResults = useMergedEvents([], searchQuery.data?.items ?? []);
+  const displayedEvents = searchInput ? searchResults : mergedEvents;
+
   const selectedEvent = selectedEventId
-    ? mergedEvents.find((e) => e.id === selectedEventId)
+    ? displayedEvents.find((e) => e.id === selectedEventId)
     : null;
 
   const connected = wsConnected;
@@ -1209,6 +3115,12 @@ function EndpointDetail() {
           input: { endpointId, limit: 50 },
         }).queryKey,
       });
+      queryClient.invalidateQueries({
+        queryKey: orpc.endpoints.usage.queryOptions({
+          input: { id: endpointId },
+        }).queryKey,
+      });
+      queryClient.invalidateQueries({ queryKey: orpc.events.search.key() });
       clearWsEvents();
       toast.success("Events cleared");
     },
@@ -1246,10 +3158,12 @@ function EndpointDetail() {
       {/* Page header */}
       <EndpointPageHeader
         connected={connected}
+        limits={ep}
         name={ep.name}
         onDelete={() => setDeleteConfirmOpen(true)}
         onEdit={() => setEditOpen(true)}
         slug={ep.slug}
+        usage={usageQuery.data}
         webhookUrl={webhookUrl}
       />
 
@@ -1267,27 +3181,57 @@ function EndpointDetail() {
         }))}
       />
 
-      {/* Content: events table + inspector drawer */}
-      <div className="flex min-h-0 flex-1">
-        <EventsTable
-          deliveries={wsDeliveries}
-          events={mergedEvents}
-          onClearEvents={() => clearEventsMutation.mutate()}
-          onSelectEvent={setSelectedEventId}
-          onTogglePause={() => setPaused(!paused)}
-          paused={paused}
-          selectedEventId={selectedEventId}
-        />
+      <Tabs className="min-h-0 flex-1 gap-0" defaultValue="events">
+        <TabsList className="px-6" variant="line">
+          <TabsTrigger value="events">Events</TabsTrigger>
+          <TabsTrigger value="metrics">Metrics</TabsTrigger>
+          <TabsTrigger value="activity">Activity</TabsTrigger>
+          <TabsTrigger value="alerts">Alerts</TabsTrigger>
+        </TabsList>
+
+        {/* Content: search + events table + inspector drawer */}
+        <TabsContent className="flex min-h-0" value="events">
+          <div className="flex min-w-0 flex-1 flex-col">
+            <EventSearchBar applied={search} onApply={setSearch} />
+            <EventsTable
+              deliveries={wsDeliveries}
+              events={displayedEvents}
+              onClearEvents={() => clearEventsMutation.mutate()}
+              onSelectEvent={setSelectedEventId}
+              onTogglePause={() => setPaused(!paused)}
+              paused={paused}
+              searching={searchInput !== null}
+              selectedEventId={selectedEventId}
+            />
+          </div>
 
-        {/* Inspector drawer */}
-        {selectedEvent ? (
-          <InspectorDrawer
-            event={selectedEvent}
-            liveDeliveries={wsDeliveries.get(selectedEvent.id) ?? []}
-            onClose={() => setSelectedEventId(null)}
-          />
-        ) : null}
-      </div>
+          {/* Inspector drawer */}
+          {selectedEvent ? (
+            <InspectorDrawer
+              event={selectedEvent}
+              forwardUrl={ep.forwardUrl}
+              liveDeliveries={wsDeliveries.get(selectedEvent.id) ?? []}
+              machines={(machinesQuery.data ?? []).map((m) => ({
+                id: m.id,
+                name: m.name,
+              }))}
+              onClose={() => setSelectedEventId(null)}
+            />
+          ) : null}
+        </TabsContent>
+
+        <TabsContent className="min-h-0" value="metrics">
+          <MetricsPanel endpointId={endpointId} />
+        </TabsContent>
+
+        <TabsContent className="min-h-0" value="activity">
+          <ActivityLog endpointId={endpointId} />
+        </TabsContent>
+
+        <TabsContent className="min-h-0" value="alerts">
+          <AlertsPanel endpointId={endpointId} />
+        </TabsContent>
+      </Tabs>
 
       {/* Edit dialog */}
       {editOpen ? (
@@ -1346,6 +3290,61 @@ function formatTime(dateStr: string): string {
   }
 }
 
+const DAY_MS = 86_400_000;
+const MB = 1024 * 1024;
+
+/** Show a nullable limit in display units; empty means "no limit" */
+function formatLimit(value: number | null, unit: number): string {
+  return value === null ? "" : String(value / unit);
+}
+
+/**
+ * The verifierSecret to send on update: undefined keeps the stored secret
+ * when the field was left empty, null clears it along with the provider
+ */
+function verifierSecretUpdate(
+  provider: VerifierProvider | "",
+  secret: string,
+  hasStoredSecret: boolean
+): string | null | undefined {
+  if (!provider) {
+    return null;
+  }
+  if (secret) {
+    return secret;
+  }
+  return hasStoredSecret ? undefined : null;
+}
+
+function parseLimit(value: string, unit: number): number | null {
+  return value.trim() === "" ? null : Math.round(Number(value) * unit);
+}
+
+function formatRetentionAge(ms: number): string {
+  const days = ms / DAY_MS;
+  return days >= 1 ? `${Math.round(days)}d` : `${Math.round(ms / 3_600_000)}h`;
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/** "DE · AS3320 Deutsche Telekom AG" from whichever geo fields are known */
+function formatNetwork(event: WebhookEvent): string {
+  const asn = event.sourceAsn
+    ? [`AS${event.sourceAsn}`, event.sourceAsOrganization]
+        .filter(Boolean)
+        .join(" ")
+    : null;
+  return [event.sourceCountry, asn].filter(Boolean).join(" · ");
+}
+
 function formatTimeFull(dateStr: string): string {
   try {
     const date = new Date(dateStr);
@@ -11,6 +11,7 @@ import {
 import { useState } from "react";
 import { toast } from "sonner";
 
+import { Sparkline } from "@/components/metric-chart";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import {
@@ -45,10 +46,20 @@ export const Route = createFileRoute("/dashboard/")({
   component: DashboardIndex,
 });
 
+const SELECT_CLASS =
+  "h-8 w-full rounded-[10px] border border-input bg-transparent px-2 text-[13px] outline-none focus-visible:border-ring focus-visible:ring-2 focus-visible:ring-ring/30 disabled:opacity-50 dark:bg-input/30";
+
+/** Org roles that may create endpoints in the org */
+const CREATOR_ROLES = new Set(["owner", "admin"]);
+
 function CreateEndpointDialog({ onClose }: { onClose: () => void }) {
   const [name, setName] = useState("");
   const [description, setDescription] = useState("");
   const [forwardUrl, setForwardUrl] = useState("");
+  const [organizationId, setOrganizationId] = useState("");
+  const orgsQuery = useQuery(orpc.organizations.list.queryOptions());
+  const ownerOrgs =
+    orgsQuery.data?.filter((org) => CREATOR_ROLES.has(org.role)) ?? [];
 
   const createMutation = useMutation({
     mutationFn: () =>
@@ -56,6 +67,7 @@ function CreateEndpointDialog({ onClose }: { onClose: () => void }) {
         name,
         description: description || undefined,
         forwardUrl: forwardUrl || undefined,
+        organizationId: organizationId || undefined,
       }),
     onSuccess: () => {
       queryClient.invalidateQueries({
@@ -95,6 +107,24 @@ function CreateEndpointDialog({ onClose }: { onClose: () => void }) {
             value={name}
           />
         </div>
+        {ownerOrgs.length > 0 ? (
+          <div className="grid gap-1.5">
+            <Label htmlFor="ep-owner">Owner</Label>
+            <select
+              className={SELECT_CLASS}
+              id="ep-owner"
+              onChange={(e) => setOrganizationId(e.target.value)}
+              value={organizationId}
+            >
+              <option value="">Personal</option>
+              {ownerOrgs.map((org) => (
+                <option key={org.id} value={org.id}>
+                  {org.name}
+                </option>
+              ))}
+            </select>
+          </div>
+        ) : null}
         <div className="grid gap-1.5">
           <Label htmlFor="ep-desc">Description (optional)</Label>
           <Input
@@ -169,17 +199,53 @@ function EndpointActions({
   );
 }
 
+/** Requests over the last 24 hours, with the delivery error rate */
+function EndpointSparkline({ endpointId }: { endpointId: string }) {
+  const metricsQuery = useQuery({
+    ...orpc.metrics.endpoint.queryOptions({
+      input: { endpointId, range: "24h" },
+    }),
+    staleTime: 60_000,
+  });
+  const metrics = metricsQuery.data;
+  if (!metrics) {
+    return <span className="text-muted-foreground/50 text-xs">--</span>;
+  }
+
+  const { errorRate, received } = metrics.totals;
+  return (
+    <div className="flex items-center gap-2">
+      <Sparkline
+        className="text-cyan"
+        label={`${received} requests in the last 24 hours`}
+        values={metrics.series.map((point) => point.received)}
+      />
+      <span className="font-mono text-muted-foreground text-xs">
+        {received.toLocaleString()}
+      </span>
+      {errorRate ? (
+        <span className="font-mono text-destructive text-xs">
+          {(errorRate * 100).toFixed(1)}% failed
+        </span>
+      ) : null}
+    </div>
+  );
+}
+
 interface Endpoint {
   description: string | null;
   enabled: boolean;
   forwardUrl: string | null;
   id: string;
   name: string;
+  organizationId: string | null;
   slug: string;
 }
 
 function DashboardIndex() {
   const endpointsQuery = useQuery(orpc.endpoints.list.queryOptions());
+  const orgsQuery = useQuery(orpc.organizations.list.queryOptions());
+  const orgNames = new Map(orgsQuery.data?.map((org) => [org.id, org.name]));
   const [createOpen, setCreateOpen] = useState(false);
   const [deleteTarget, setDeleteTarget] = useState<{
     id: string;
@@ -266,7 +332,9 @@ function DashboardIndex() {
               <TableRow className="hover:bg-transparent">
                 <TableHead className="sticky top-0 bg-card">Name</TableHead>
                 <TableHead className="sticky top-0 bg-card">Slug</TableHead>
+                <TableHead className="sticky top-0 bg-card">Owner</TableHead>
                 <TableHead className="sticky top-0 bg-card">Status</TableHead>
+                <TableHead className="sticky top-0 bg-card">Last 24h</TableHead>
                 <TableHead className="sticky top-0 bg-card">
                   Forward URL
                 </TableHead>
@@ -295,6 +363,11 @@ function DashboardIndex() {
                         /hooks/{endpoint.slug}
                       </code>
                     </TableCell>
+                    <TableCell className="text-[13px] text-muted-foreground">
+                      {endpoint.organizationId
+                        ? (orgNames.get(endpoint.organizationId) ?? "Team")
+                        : "Personal"}
+                    </TableCell>
                     <TableCell>
                       <Badge
                         variant={endpoint.enabled ? "success" : "secondary"}
@@ -302,6 +375,9 @@ function DashboardIndex() {
                         {endpoint.enabled ? "Active" : "Disabled"}
                       </Badge>
                     </TableCell>
+                    <TableCell>
+                      <EndpointSparkline endpointId={endpoint.id} />
+                    </TableCell>
                     <TableCell>
                       {endpoint.forwardUrl ? (
                         <span className="truncate font-mono text-muted-foreground text-xs">
@@ -0,0 +1,685 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { createFileRoute } from "@tanstack/react-router";
+import { Loader2, Mail, Plus, Users } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { authClient } from "@/lib/auth-client";
+import { cn } from "@/lib/utils";
+import { client, orpc, queryClient } from "@/utils/orpc";
+
+export const Route = createFileRoute("/dashboard/team")({
+  component: TeamPage,
+});
+
+type OrgRole = "owner" | "admin" | "member" | "viewer";
+
+const ROLE_LABELS: Record<OrgRole, string> = {
+  owner: "Owner",
+  admin: "Admin",
+  member: "Member",
+  viewer: "Viewer",
+};
+
+const ROLE_DESCRIPTIONS: Record<OrgRole, string> = {
+  owner: "Full control, including deleting the organization.",
+  admin: "Manage members and endpoints.",
+  member: "View events and connect machines with the CLI.",
+  viewer: "View endpoints and events. Cannot change anything.",
+};
+
+const SELECT_CLASS =
+  "h-8 w-full rounded-[10px] border border-input bg-transparent px-2 text-[13px] outline-none focus-visible:border-ring focus-visible:ring-2 focus-visible:ring-ring/30 disabled:opacity-50 dark:bg-input/30";
+
+function isManager(role: OrgRole): boolean {
+  return role === "owner" || role === "admin";
+}
+
+function invalidateOrgs() {
+  queryClient.invalidateQueries({
+    queryKey: orpc.organizations.key(),
+  });
+}
+
+function RoleSelect({
+  id,
+  value,
+  onChange,
+  allowOwner,
+  disabled,
+}: {
+  id?: string;
+  value: OrgRole;
+  onChange: (role: OrgRole) => void;
+  allowOwner: boolean;
+  disabled?: boolean;
+}) {
+  return (
+    <select
+      className={SELECT_CLASS}
+      disabled={disabled}
+      id={id}
+      onChange={(e) => onChange(e.target.value as OrgRole)}
+      value={value}
+    >
+      {(Object.keys(ROLE_LABELS) as OrgRole[])
+        .filter((role) => allowOwner || role !== "owner" || value === "owner")
+        .map((role) => (
+          <option key={role} value={role}>
+            {ROLE_LABELS[role]}
+          </option>
+        ))}
+    </select>
+  );
+}
+
+/* ──── Dialogs ──── */
+
+function CreateOrgDialog({ onClose }: { onClose: () => void }) {
+  const [name, setName] = useState("");
+
+  const createMutation = useMutation({
+    mutationFn: () => client.organizations.create({ name }),
+    onSuccess: () => {
+      invalidateOrgs();
+      toast.success("Organization created");
+      onClose();
+    },
+    onError: (error) => {
+      toast.error(`Failed to create organization: ${error.message}`);
+    },
+  });
+
+  return (
+    <DialogContent>
+      <DialogHeader>
+        <DialogTitle>Create organization</DialogTitle>
+        <DialogDescription>
+          Organizations own endpoints together. You become its owner.
+        </DialogDescription>
+      </DialogHeader>
+      <form
+        className="grid gap-3"
+        onSubmit={(e) => {
+          e.preventDefault();
+          createMutation.mutate();
+        }}
+      >
+        <div className="grid gap-1.5">
+          <Label htmlFor="org-name">Name</Label>
+          <Input
+            id="org-name"
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g. Acme Payments"
+            required
+            value={name}
+          />
+        </div>
+        <DialogFooter>
+          <Button
+            disabled={!name.trim() || createMutation.isPending}
+            type="submit"
+          >
+            {createMutation.isPending ? (
+              <Loader2 className="animate-spin" data-icon="inline-start" />
+            ) : null}
+            Create
+          </Button>
+        </DialogFooter>
+      </form>
+    </DialogContent>
+  );
+}
+
+function InviteDialog({
+  organizationId,
+  callerRole,
+  onClose,
+}: {
+  organizationId: string;
+  callerRole: OrgRole;
+  onClose: () => void;
+}) {
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<OrgRole>("member");
+
+  const inviteMutation = useMutation({
+    mutationFn: () =>
+      client.organizations.invite({ organizationId, email, role }),
+    onSuccess: () => {
+      invalidateOrgs();
+      toast.success(`Invited ${email}`);
+      onClose();
+    },
+    onError: (error) => {
+      toast.error(`Failed to invite: ${error.message}`);
+    },
+  });
+
+  return (
+    <DialogContent>
+      <DialogHeader>
+        <DialogTitle>Invite member</DialogTitle>
+        <DialogDescription>
+          They'll see the invitation here after signing in with this email.
+          Invitations expire after 7 days.
+        </DialogDescription>
+      </DialogHeader>
+      <form
+        className="grid gap-3"
+        onSubmit={(e) => {
+          e.preventDefault();
+          inviteMutation.mutate();
+        }}
+      >
+        <div className="grid gap-1.5">
+          <Label htmlFor="invite-email">Email</Label>
+          <Input
+            id="invite-email"
+            onChange={(e) => setEmail(e.target.value)}
+            placeholder="teammate@example.com"
+            required
+            type="email"
+            value={email}
+          />
+        </div>
+        <div className="grid gap-1.5">
+          <Label htmlFor="invite-role">Role</Label>
+          <RoleSelect
+            allowOwner={callerRole === "owner"}
+            id="invite-role"
+            onChange={setRole}
+            value={role}
+          />
+          <p className="text-muted-foreground text-xs">
+            {ROLE_DESCRIPTIONS[role]}
+          </p>
+        </div>
+        <DialogFooter>
+          <Button
+            disabled={!email.trim() || inviteMutation.isPending}
+            type="submit"
+          >
+            {inviteMutation.isPending ? (
+              <Loader2 className="animate-spin" data-icon="inline-start" />
+            ) : null}
+            Send invitation
+          </Button>
+        </DialogFooter>
+      </form>
+    </DialogContent>
+  );
+}
+
+/* ──── Invitations for me ──── */
+
+/** Invitations are only matched against verified addresses */
+function VerifyEmailNotice({ email }: { email: string }) {
+  const resendMutation = useMutation({
+    mutationFn: async () => {
+      const { error } = await authClient.sendVerificationEmail({
+        email,
+        callbackURL: window.location.href,
+      });
+      if (error) {
+        throw new Error(error.message);
+      }
+    },
+    onSuccess: () => {
+      toast.success(`Verification email sent to ${email}`);
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+
+  return (
+    <div className="mb-6 flex items-center gap-3 rounded-[14px] bg-muted px-4 py-3">
+      <Mail className="size-4 text-muted-foreground" />
+      <p className="flex-1 text-[13px]">
+        Verify <span className="font-medium">{email}</span> to see invitations
+        sent to it.
+      </p>
+      <Button
+        disabled={resendMutation.isPending}
+        onClick={() => resendMutation.mutate()}
+        size="xs"
+        variant="ghost"
+      >
+        Resend email
+      </Button>
+    </div>
+  );
+}
+
+function MyInvitations() {
+  const { data: session } = authClient.useSession();
+  const verified = Boolean(session?.user.emailVerified);
+  const invitationsQuery = useQuery({
+    ...orpc.organizations.myInvitations.queryOptions(),
+    enabled: verified,
+  });
+
+  const respondMutation = useMutation({
+    mutationFn: async ({ id, accept }: { id: string; accept: boolean }) => {
+      if (accept) {
+        await client.organizations.acceptInvitation({ id });
+      } else {
+        await client.organizations.declineInvitation({ id });
+      }
+    },
+    onSuccess: (_, { accept }) => {
+      invalidateOrgs();
+      queryClient.invalidateQueries({
+        queryKey: orpc.endpoints.list.queryOptions().queryKey,
+      });
+      toast.success(accept ? "Invitation accepted" : "Invitation declined");
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+
+  if (session && !verified) {
+    return <VerifyEmailNotice email={session.user.email} />;
+  }
+  const invitations = invitationsQuery.data ?? [];
+  if (invitations.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mb-6 grid gap-2">
+      {invitations.map((invite) => (
+        <div
+          className="flex items-center gap-3 rounded-[14px] bg-cyan-subtle px-4 py-3"
+          key={invite.id}
+        >
+          <Mail className="size-4 text-cyan" />
+          <p className="flex-1 text-[13px]">
+            {invite.invitedByName} invited you to{" "}
+            <span className="font-medium">{invite.organizationName}</span> as{" "}
+            {ROLE_LABELS[invite.role].toLowerCase()}
+          </p>
+          <Button
+            disabled={respondMutation.isPending}
+            onClick={() =>
+              respondMutation.mutate({ id: invite.id, accept: false })
+            }
+            size="xs"
+            variant="ghost"
+          >
+            Decline
+          </Button>
+          <Button
+            disabled={respondMutation.isPending}
+            onClick={() =>
+              respondMutation.mutate({ id: invite.id, accept: true })
+            }
+            size="xs"
+          >
+            Accept
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/* ──── Organization detail ──── */
+
+function OrganizationDetail({
+  organizationId,
+  onLeft,
+}: {
+  organizationId: string;
+  onLeft: () => void;
+}) {
+  const { data: session } = authClient.useSession();
+  const orgQuery = useQuery(
+    orpc.organizations.get.queryOptions({ input: { id: organizationId } })
+  );
+  const [inviteOpen, setInviteOpen] = useState(false);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  const roleMutation = useMutation({
+    mutationFn: ({ userId, role }: { userId: string; role: OrgRole }) =>
+      client.organizations.updateMemberRole({ organizationId, userId, role }),
+    onSuccess: () => {
+      invalidateOrgs();
+      toast.success("Role updated");
+    },
+    onError: (error) => {
+      toast.error(`Failed to update role: ${error.message}`);
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: (userId: string) =>
+      client.organizations.removeMember({ organizationId, userId }),
+    onSuccess: (_, userId) => {
+      invalidateOrgs();
+      queryClient.invalidateQueries({
+        queryKey: orpc.endpoints.list.queryOptions().queryKey,
+      });
+      if (userId === session?.user.id) {
+        toast.success("You left the organization");
+        onLeft();
+      } else {
+        toast.success("Member removed");
+      }
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: (id: string) => client.organizations.revokeInvitation({ id }),
+    onSuccess: () => {
+      invalidateOrgs();
+      toast.success("Invitation revoked");
+    },
+    onError: (error) => {
+      toast.error(`Failed to revoke: ${error.message}`);
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: () => client.organizations.delete({ id: organizationId }),
+    onSuccess: () => {
+      invalidateOrgs();
+      queryClient.invalidateQueries({
+        queryKey: orpc.endpoints.list.queryOptions().queryKey,
+      });
+      toast.success("Organization deleted");
+      setConfirmDelete(false);
+      onLeft();
+    },
+    onError: (error) => {
+      toast.error(`Failed to delete: ${error.message}`);
+      setConfirmDelete(false);
+    },
+  });
+
+  const org = orgQuery.data;
+  if (!org) {
+    return (
+      <div className="flex flex-1 items-center justify-center">
+        <Loader2 className="size-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const manager = isManager(org.role);
+
+  return (
+    <div className="flex flex-1 flex-col gap-4 overflow-auto">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="font-semibold text-[16px]">{org.name}</h2>
+          <p className="text-[13px] text-muted-foreground">
+            You are {ROLE_LABELS[org.role].toLowerCase()}.{" "}
+            {ROLE_DESCRIPTIONS[org.role]}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            onClick={() => {
+              if (session) {
+                removeMutation.mutate(session.user.id);
+              }
+            }}
+            size="sm"
+            variant="outline"
+          >
+            Leave
+          </Button>
+          {org.role === "owner" ? (
+            <Button
+              onClick={() => setConfirmDelete(true)}
+              size="sm"
+              variant="destructive"
+            >
+              Delete
+            </Button>
+          ) : null}
+          {manager ? (
+            <Dialog onOpenChange={setInviteOpen} open={inviteOpen}>
+              <DialogTrigger
+                render={
+                  <Button size="sm">
+                    <Plus data-icon="inline-start" />
+                    Invite
+                  </Button>
+                }
+              />
+              {inviteOpen ? (
+                <InviteDialog
+                  callerRole={org.role}
+                  onClose={() => setInviteOpen(false)}
+                  organizationId={organizationId}
+                />
+              ) : null}
+            </Dialog>
+          ) : null}
+        </div>
+      </div>
+
+      <div className="overflow-auto rounded-[14px] bg-card shadow-[0_1px_2px_rgba(0,0,0,.06)] ring-1 ring-border">
+        <Table>
+          <TableHeader>
+            <TableRow className="hover:bg-transparent">
+              <TableHead>Member</TableHead>
+              <TableHead className="w-40">Role</TableHead>
+              <TableHead className="w-10" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {org.members.map((m) => {
+              const isSelf = m.userId === session?.user.id;
+              const canManage =
+                manager &&
+                !isSelf &&
+                (m.role !== "owner" || org.role === "owner");
+              return (
+                <TableRow className="h-[44px]" key={m.userId}>
+                  <TableCell>
+                    <span className="font-medium text-[13px]">{m.name}</span>
+                    <span className="ml-2 text-muted-foreground text-xs">
+                      {m.email}
+                    </span>
+                  </TableCell>
+                  <TableCell>
+                    {canManage ? (
+                      <RoleSelect
+                        allowOwner={org.role === "owner"}
+                        disabled={roleMutation.isPending}
+                        onChange={(role) =>
+                          roleMutation.mutate({ userId: m.userId, role })
+                        }
+                        value={m.role}
+                      />
+                    ) : (
+                      <span className="text-[13px]">{ROLE_LABELS[m.role]}</span>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {canManage ? (
+                      <Button
+                        onClick={() => removeMutation.mutate(m.userId)}
+                        size="xs"
+                        variant="ghost"
+                      >
+                        Remove
+                      </Button>
+                    ) : null}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+            {org.invitations.map((invite) => (
+              <TableRow className="h-[44px]" key={invite.id}>
+                <TableCell>
+                  <span className="text-[13px] text-muted-foreground">
+                    {invite.email}
+                  </span>
+                  <Badge className="ml-2" variant="secondary">
+                    Invited
+                  </Badge>
+                </TableCell>
+                <TableCell className="text-[13px] text-muted-foreground">
+                  {ROLE_LABELS[invite.role]}
+                </TableCell>
+                <TableCell>
+                  {manager ? (
+                    <Button
+                      onClick={() => revokeMutation.mutate(invite.id)}
+                      size="xs"
+                      variant="ghost"
+                    >
+                      Revoke
+                    </Button>
+                  ) : null}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      {/* Delete confirmation dialog */}
+      <Dialog onOpenChange={setConfirmDelete} open={confirmDelete}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete organization?</DialogTitle>
+            <DialogDescription>
+              "{org.name}" and all of its endpoints, events and machines will be
+              permanently deleted. This cannot be undone.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button onClick={() => setConfirmDelete(false)} variant="outline">
+              Cancel
+            </Button>
+            <Button
+              disabled={deleteMutation.isPending}
+              onClick={() => deleteMutation.mutate()}
+              variant="destructive"
+            >
+              Delete
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+/* ──── Page ──── */
+
+function TeamPage() {
+  const orgsQuery = useQuery(orpc.organizations.list.queryOptions());
+  const [createOpen, setCreateOpen] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const orgs = orgsQuery.data ?? [];
+  const selected = orgs.find((org) => org.id === selectedId) ?? orgs[0];
+
+  return (
+    <div className="flex flex-1 flex-col overflow-hidden p-6">
+      {/* Page header */}
+      <div className="mb-6 flex items-center justify-between">
+        <div>
+          <h1 className="font-semibold text-[22px] leading-[28px] tracking-tight">
+            Team
+          </h1>
+          <p className="mt-1 text-[13px] text-muted-foreground">
+            Share endpoints with your team through organizations.
+          </p>
+        </div>
+        <Dialog onOpenChange={setCreateOpen} open={createOpen}>
+          <DialogTrigger
+            render={
+              <Button>
+                <Plus data-icon="inline-start" />
+                New organization
+              </Button>
+            }
+          />
+          {createOpen ? (
+            <CreateOrgDialog onClose={() => setCreateOpen(false)} />
+          ) : null}
+        </Dialog>
+      </div>
+
+      <MyInvitations />
+
+      {orgsQuery.isLoading ? (
+        <div className="flex flex-1 items-center justify-center">
+          <Loader2 className="size-5 animate-spin text-muted-foreground" />
+        </div>
+      ) : null}
+
+      {!orgsQuery.isLoading && orgs.length === 0 ? (
+        <div className="flex flex-1 flex-col items-center justify-center gap-3">
+          <Users className="size-8 text-muted-foreground" />
+          <p className="text-[13px] text-muted-foreground">
+            You're not in any organization yet. Create one to share endpoints.
+          </p>
+        </div>
+      ) : null}
+
+      {selected ? (
+        <div className="flex flex-1 gap-6 overflow-hidden">
+          <nav className="flex w-48 shrink-0 flex-col gap-0.5">
+            {orgs.map((org) => (
+              <button
+                className={cn(
+                  "flex items-center justify-between rounded-[10px] px-3 py-2 text-left text-[13px] transition-colors",
+                  org.id === selected.id
+                    ? "bg-muted font-medium"
+                    : "text-muted-foreground hover:bg-muted/50 hover:text-foreground"
+                )}
+                key={org.id}
+                onClick={() => setSelectedId(org.id)}
+                type="button"
+              >
+                <span className="truncate">{org.name}</span>
+                <span className="text-[11px] text-muted-foreground">
+                  {ROLE_LABELS[org.role]}
+                </span>
+              </button>
+            ))}
+          </nav>
+          <OrganizationDetail
+            key={selected.id}
+            onLeft={() => setSelectedId(null)}
+            organizationId={selected.id}
+          />
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,464 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { createFileRoute } from "@tanstack/react-router";
+import { Copy, KeyRound, Loader2, Plus } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { client, orpc, queryClient } from "@/utils/orpc";
+
+export const Route = createFileRoute("/dashboard/tokens")({
+  component: TokensPage,
+});
+
+type TokenScope = "full" | "read" | "listen";
+
+interface ApiToken {
+  createdAt: Date;
+  endpointIds: string[] | null;
+  expiresAt: Date | null;
+  id: string;
+  lastUsedAt: Date | null;
+  name: string;
+  prefix: string;
+  revokedAt: Date | null;
+  scope: TokenScope;
+}
+
+const SCOPE_LABELS: Record<TokenScope, string> = {
+  full: "Full access",
+  read: "Read-only",
+  listen: "Listen-only",
+};
+
+const SCOPE_DESCRIPTIONS: Record<TokenScope, string> = {
+  full: "Everything you can do in the dashboard, except managing tokens.",
+  read: "View endpoints, events and deliveries. Cannot change anything.",
+  listen: "Connect machines from the CLI and report deliveries. Enough for CI.",
+};
+
+const SELECT_CLASS =
+  "h-8 w-full rounded-[10px] border border-input bg-transparent px-2 text-[13px] outline-none focus-visible:border-ring focus-visible:ring-2 focus-visible:ring-ring/30 disabled:opacity-50 dark:bg-input/30";
+
+function invalidateTokens() {
+  queryClient.invalidateQueries({
+    queryKey: orpc.tokens.list.queryOptions().queryKey,
+  });
+}
+
+function formatDate(date: Date | null): string {
+  return date ? new Date(date).toLocaleDateString() : "--";
+}
+
+function tokenStatus(token: ApiToken): {
+  label: string;
+  variant: "success" | "secondary" | "destructive";
+} {
+  if (token.revokedAt) {
+    return { label: "Revoked", variant: "destructive" };
+  }
+  if (token.expiresAt && new Date(token.expiresAt).getTime() <= Date.now()) {
+    return { label: "Expired", variant: "secondary" };
+  }
+  return { label: "Active", variant: "success" };
+}
+
+/* ──── Create dialog ──── */
+
+function EndpointPicker({
+  selected,
+  onChange,
+}: {
+  selected: string[];
+  onChange: (ids: string[]) => void;
+}) {
+  const endpointsQuery = useQuery(orpc.endpoints.list.queryOptions());
+
+  return (
+    <div className="grid max-h-40 gap-2 overflow-auto rounded-[10px] border border-input p-2">
+      {endpointsQuery.data?.map((ep) => (
+        <div className="flex items-center gap-2" key={ep.id}>
+          <Checkbox
+            checked={selected.includes(ep.id)}
+            id={`token-ep-${ep.id}`}
+            onCheckedChange={(checked) =>
+              onChange(
+                checked
+                  ? [...selected, ep.id]
+                  : selected.filter((id) => id !== ep.id)
+              )
+            }
+          />
+          <Label className="font-normal" htmlFor={`token-ep-${ep.id}`}>
+            {ep.name}
+            <code className="font-mono text-muted-foreground text-xs">
+              /hooks/{ep.slug}
+            </code>
+          </Label>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function CreatedToken({
+  token,
+  onClose,
+}: {
+  token: string;
+  onClose: () => void;
+}) {
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>Token created</DialogTitle>
+        <DialogDescription>
+          Copy it now — it won't be shown again. Set it as{" "}
+          <code>TUNNELHOOK_TOKEN</code> for the CLI.
+        </DialogDescription>
+      </DialogHeader>
+      <div className="flex items-center gap-2">
+        <code className="flex-1 break-all rounded-[6px] bg-muted px-2 py-1.5 font-mono text-xs">
+          {token}
+        </code>
+        <Button
+          onClick={() => {
+            navigator.clipboard.writeText(token);
+            toast.success("Copied token");
+          }}
+          size="icon-xs"
+          variant="ghost"
+        >
+          <Copy />
+          <span className="sr-only">Copy token</span>
+        </Button>
+      </div>
+      <DialogFooter>
+        <Button onClick={onClose}>Done</Button>
+      </DialogFooter>
+    </>
+  );
+}
+
+function CreateTokenDialog({ onClose }: { onClose: () => void }) {
+  const [name, setName] = useState("");
+  const [scope, setScope] = useState<TokenScope>("listen");
+  const [allEndpoints, setAllEndpoints] = useState(true);
+  const [endpointIds, setEndpointIds] = useState<string[]>([]);
+  const [expiresInDays, setExpiresInDays] = useState("90");
+  const [created, setCreated] = useState<string | null>(null);
+
+  const createMutation = useMutation({
+    mutationFn: () =>
+      client.tokens.create({
+        name,
+        scope,
+        endpointIds: allEndpoints ? undefined : endpointIds,
+        expiresInDays: expiresInDays ? Number(expiresInDays) : undefined,
+      }),
+    onSuccess: (result) => {
+      invalidateTokens();
+      setCreated(result.token);
+    },
+    onError: (error) => {
+      toast.error(`Failed to create token: ${error.message}`);
+    },
+  });
+
+  if (created) {
+    return (
+      <DialogContent>
+        <CreatedToken onClose={onClose} token={created} />
+      </DialogContent>
+    );
+  }
+
+  return (
+    <DialogContent>
+      <DialogHeader>
+        <DialogTitle>Create API token</DialogTitle>
+        <DialogDescription>
+          Tokens let the CLI and CI act on your behalf without a browser login.
+        </DialogDescription>
+      </DialogHeader>
+      <form
+        className="grid gap-3"
+        onSubmit={(e) => {
+          e.preventDefault();
+          createMutation.mutate();
+        }}
+      >
+        <div className="grid gap-1.5">
+          <Label htmlFor="token-name">Name</Label>
+          <Input
+            id="token-name"
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g. GitHub Actions"
+            required
+            value={name}
+          />
+        </div>
+        <div className="grid gap-1.5">
+          <Label htmlFor="token-scope">Scope</Label>
+          <select
+            className={SELECT_CLASS}
+            id="token-scope"
+            onChange={(e) => setScope(e.target.value as TokenScope)}
+            value={scope}
+          >
+            {(Object.keys(SCOPE_LABELS) as TokenScope[]).map((s) => (
+              <option key={s} value={s}>
+                {SCOPE_LABELS[s]}
+              </option>
+            ))}
+          </select>
+          <p className="text-muted-foreground text-xs">
+            {SCOPE_DESCRIPTIONS[scope]}
+          </p>
+        </div>
+        <div className="grid gap-1.5">
+          <Label htmlFor="token-endpoints">Endpoints</Label>
+          <select
+            className={SELECT_CLASS}
+            id="token-endpoints"
+            onChange={(e) => setAllEndpoints(e.target.value === "all")}
+            value={allEndpoints ? "all" : "some"}
+          >
+            <option value="all">All endpoints</option>
+            <option value="some">Only selected endpoints</option>
+          </select>
+          {allEndpoints ? null : (
+            <EndpointPicker onChange={setEndpointIds} selected={endpointIds} />
+          )}
+        </div>
+        <div className="grid gap-1.5">
+          <Label htmlFor="token-expiry">Expiry</Label>
+          <select
+            className={SELECT_CLASS}
+            id="token-expiry"
+            onChange={(e) => setExpiresInDays(e.target.value)}
+            value={expiresInDays}
+          >
+            <option value="7">7 days</option>
+            <option value="30">30 days</option>
+            <option value="90">90 days</option>
+            <option value="365">1 year</option>
+            <option value="">Never</option>
+          </select>
+        </div>
+        <DialogFooter>
+          <Button
+            disabled={
+              !name.trim() ||
+              (!allEndpoints && endpointIds.length === 0) ||
+              createMutation.isPending
+            }
+            type="submit"
+          >
+            {createMutation.isPending ? (
+              <Loader2 className="animate-spin" data-icon="inline-start" />
+            ) : null}
+            Create
+          </Button>
+        </DialogFooter>
+      </form>
+    </DialogContent>
+  );
+}
+
+/* ──── Page ──── */
+
+function TokensPage() {
+  const tokensQuery = useQuery(orpc.tokens.list.queryOptions());
+  const endpointsQuery = useQuery(orpc.endpoints.list.queryOptions());
+  const [createOpen, setCreateOpen] = useState(false);
+  const [revokeTarget, setRevokeTarget] = useState<ApiToken | null>(null);
+
+  const revokeMutation = useMutation({
+    mutationFn: (id: string) => client.tokens.revoke({ id }),
+    onSuccess: () => {
+      invalidateTokens();
+      toast.success(`Revoked "${revokeTarget?.name}"`);
+      setRevokeTarget(null);
+    },
+    onError: (error) => {
+      toast.error(`Failed to revoke: ${error.message}`);
+      setRevokeTarget(null);
+    },
+  });
+
+  const endpointNames = new Map(
+    endpointsQuery.data?.map((ep) => [ep.id, ep.name])
+  );
+  const tokens = (tokensQuery.data ?? []) as ApiToken[];
+
+  return (
+    <div className="flex flex-1 flex-col overflow-hidden p-6">
+      {/* Page header */}
+      <div className="mb-6 flex items-center justify-between">
+        <div>
+          <h1 className="font-semibold text-[22px] leading-[28px] tracking-tight">
+            API tokens
+          </h1>
+          <p className="mt-1 text-[13px] text-muted-foreground">
+            Personal access tokens for the CLI and CI, sent as{" "}
+            <code>Authorization: Bearer</code>.
+          </p>
+        </div>
+        <Dialog onOpenChange={setCreateOpen} open={createOpen}>
+          <DialogTrigger
+            render={
+              <Button>
+                <Plus data-icon="inline-start" />
+                New token
+              </Button>
+            }
+          />
+          {createOpen ? (
+            <CreateTokenDialog onClose={() => setCreateOpen(false)} />
+          ) : null}
+        </Dialog>
+      </div>
+
+      {tokensQuery.isLoading ? (
+        <div className="flex flex-1 items-center justify-center">
+          <Loader2 className="size-5 animate-spin text-muted-foreground" />
+        </div>
+      ) : null}
+
+      {!tokensQuery.isLoading && tokens.length === 0 ? (
+        <div className="flex flex-1 flex-col items-center justify-center gap-3">
+          <KeyRound className="size-8 text-muted-foreground" />
+          <p className="text-[13px] text-muted-foreground">
+            No tokens yet. Create one to use the CLI without logging in.
+          </p>
+        </div>
+      ) : null}
+
+      {tokens.length > 0 ? (
+        <div className="flex-1 overflow-auto rounded-[14px] bg-card shadow-[0_1px_2px_rgba(0,0,0,.06)] ring-1 ring-border">
+          <Table>
+            <TableHeader>
+              <TableRow className="hover:bg-transparent">
+                <TableHead className="sticky top-0 bg-card">Name</TableHead>
+                <TableHead className="sticky top-0 bg-card">Scope</TableHead>
+                <TableHead className="sticky top-0 bg-card">
+                  Endpoints
+                </TableHead>
+                <TableHead className="sticky top-0 bg-card">Expires</TableHead>
+                <TableHead className="sticky top-0 bg-card">
+                  Last used
+                </TableHead>
+                <TableHead className="sticky top-0 bg-card">Status</TableHead>
+                <TableHead className="sticky top-0 w-10 bg-card" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {tokens.map((token) => {
+                const status = tokenStatus(token);
+                return (
+                  <TableRow className="h-[44px]" key={token.id}>
+                    <TableCell>
+                      <span className="font-medium text-[13px]">
+                        {token.name}
+                      </span>
+                      <code className="ml-2 font-mono text-muted-foreground text-xs">
+                        {token.prefix}…
+                      </code>
+                    </TableCell>
+                    <TableCell className="text-[13px]">
+                      {SCOPE_LABELS[token.scope]}
+                    </TableCell>
+                    <TableCell className="text-[13px] text-muted-foreground">
+                      {token.endpointIds
+                        ? token.endpointIds
+                            .map((id) => endpointNames.get(id) ?? id)
+                            .join(", ")
+                        : "All"}
+                    </TableCell>
+                    <TableCell className="text-[13px] text-muted-foreground">
+                      {token.expiresAt ? formatDate(token.expiresAt) : "Never"}
+                    </TableCell>
+                    <TableCell className="text-[13px] text-muted-foreground">
+                      {formatDate(token.lastUsedAt)}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={status.variant}>{status.label}</Badge>
+                    </TableCell>
+                    <TableCell>
+                      {token.revokedAt ? null : (
+                        <Button
+                          onClick={() => setRevokeTarget(token)}
+                          size="xs"
+                          variant="ghost"
+                        >
+                          Revoke
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      ) : null}
+
+      {/* Revoke confirmation dialog */}
+      <Dialog
+        onOpenChange={(open) => {
+          if (!open) {
+            setRevokeTarget(null);
+          }
+        }}
+        open={revokeTarget !== null}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Revoke token?</DialogTitle>
+            <DialogDescription>
+              Anything using "{revokeTarget?.name}" will lose access
+              immediately. This cannot be undone.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button onClick={() => setRevokeTarget(null)} variant="outline">
+              Cancel
+            </Button>
+            <Button
+              onClick={() => {
+                if (revokeTarget) {
+                  revokeMutation.mutate(revokeTarget.id);
+                }
+              }}
+              variant="destructive"
+            >
+              Revoke
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
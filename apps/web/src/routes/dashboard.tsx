@@ -6,7 +6,14 @@ import {
   useNavigate,
   useRouterState,
 } from "@tanstack/react-router";
-import { LogOut, Monitor, ScrollText, Webhook } from "lucide-react";
+import {
+  KeyRound,
+  LogOut,
+  Monitor,
+  ScrollText,
+  Users,
+  Webhook,
+} from "lucide-react";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -20,11 +27,12 @@ import { cn } from "@/lib/utils";
 
 export const Route = createFileRoute("/dashboard")({
   component: DashboardLayout,
-  beforeLoad: async () => {
+  beforeLoad: async ({ location }) => {
     const session = await authClient.getSession();
     if (!session.data) {
       redirect({
         to: "/login",
+        search: { redirect: location.href },
         throw: true,
       });
     }
@@ -49,6 +57,18 @@ const NAV_ITEMS: NavItem[] = [
     exact: false,
     disabled: true,
   },
+  {
+    to: "/dashboard/team",
+    label: "Team",
+    icon: Users,
+    exact: false,
+  },
+  {
+    to: "/dashboard/tokens",
+    label: "API tokens",
+    icon: KeyRound,
+    exact: false,
+  },
   {
     to: "/dashboard/changelog",
     label: "Changelog",
@@ -1,16 +1,25 @@
 import { createFileRoute } from "@tanstack/react-router";
 import { Webhook } from "lucide-react";
 import { useState } from "react";
+import { z } from "zod";
 
 import SignInForm from "@/components/sign-in-form";
 import SignUpForm from "@/components/sign-up-form";
 
+/** Same-origin paths only, so the redirect can't send users to another site */
+const SAFE_REDIRECT_RE = /^\/(?!\/)/;
+
 export const Route = createFileRoute("/login")({
   component: LoginPage,
+  validateSearch: z.object({
+    redirect: z.string().regex(SAFE_REDIRECT_RE).optional().catch(undefined),
+  }),
 });
 
 function LoginPage() {
-  const [showSignIn, setShowSignIn] = useState(false);
+  const { redirect } = Route.useSearch();
+  // Someone sent here from a CLI login link most likely already has an account
+  const [showSignIn, setShowSignIn] = useState(Boolean(redirect));
 
   return (
     <div className="flex h-svh items-center justify-center bg-background px-4">
@@ -30,9 +39,15 @@ function LoginPage() {
         </div>
         <div className="rounded-[14px] bg-card p-5 shadow-[0_1px_2px_rgba(0,0,0,.06)] ring-1 ring-border">
           {showSignIn ? (
-            <SignInForm onSwitchToSignUp={() => setShowSignIn(false)} />
+            <SignInForm
+              onSwitchToSignUp={() => setShowSignIn(false)}
+              redirectTo={redirect}
+            />
           ) : (
-            <SignUpForm onSwitchToSignIn={() => setShowSignIn(true)} />
+            <SignUpForm
+              onSwitchToSignIn={() => setShowSignIn(true)}
+              redirectTo={redirect}
+            />
           )}
         </div>
       </div>
@@ -0,0 +1,291 @@
+import { db } from "@tunnelhook/db";
+import {
+  alertHistory,
+  alertRule,
+  delivery,
+  deliveryAttempt,
+  endpoint,
+  event,
+  machine,
+} from "@tunnelhook/db/schema";
+import { env } from "@tunnelhook/env/server";
+import {
+  and,
+  count,
+  desc,
+  eq,
+  gte,
+  inArray,
+  isNull,
+  sql,
+  sum,
+} from "drizzle-orm";
+
+type AlertRule = typeof alertRule.$inferSelect;
+
+interface AlertEndpoint {
+  id: string;
+  name: string;
+  slug: string;
+}
+
+/** Body of the generic HTTP callback; Slack gets a `text` message instead */
+export interface AlertPayload {
+  condition: AlertRule["condition"];
+  endpoint: AlertEndpoint;
+  message: string;
+  rule: { id: string; name: string };
+  triggeredAt: string;
+  type: "alert";
+}
+
+/** Too few deliveries in the window say nothing about a failure rate */
+const MIN_RATE_SAMPLE = 5;
+const NOTIFY_TIMEOUT_MS = 10_000;
+const RESEND_API_URL = "https://api.resend.com/emails";
+
+function formatDuration(ms: number): string {
+  if (ms % 3_600_000 === 0) {
+    const hours = ms / 3_600_000;
+    return hours === 1 ? "hour" : `${hours} hours`;
+  }
+  const minutes = Math.round(ms / 60_000);
+  return minutes === 1 ? "minute" : `${minutes} minutes`;
+}
+
+/** Statuses of the endpoint's most recent delivery attempts, newest first */
+async function recentAttemptStatuses(
+  endpointId: string,
+  limit: number
+): Promise<string[]> {
+  const rows = await db
+    .select({ status: deliveryAttempt.status })
+    .from(deliveryAttempt)
+    .innerJoin(delivery, eq(deliveryAttempt.deliveryId, delivery.id))
+    .innerJoin(machine, eq(delivery.machineId, machine.id))
+    .where(eq(machine.endpointId, endpointId))
+    .orderBy(desc(deliveryAttempt.createdAt))
+    .limit(limit);
+  return rows.map((row) => row.status);
+}
+
+async function attemptCounts(
+  endpointId: string,
+  since: Date
+): Promise<{ failed: number; total: number }> {
+  const [row] = await db
+    .select({
+      total: count(),
+      failed: sum(
+        sql`case when ${deliveryAttempt.status} = 'failed' then 1 else 0 end`
+      ),
+    })
+    .from(deliveryAttempt)
+    .innerJoin(delivery, eq(deliveryAttempt.deliveryId, delivery.id))
+    .innerJoin(machine, eq(delivery.machineId, machine.id))
+    .where(
+      and(
+        eq(machine.endpointId, endpointId),
+        gte(deliveryAttempt.createdAt, since)
+      )
+    );
+  return { total: Number(row?.total ?? 0), failed: Number(row?.failed ?? 0) };
+}
+
+/** What a failure rule observed, or null when it does not hold */
+async function checkFailureRule(rule: AlertRule): Promise<string | null> {
+  const threshold = rule.threshold ?? 1;
+  if (rule.condition === "consecutive-failures") {
+    const statuses = await recentAttemptStatuses(rule.endpointId, threshold);
+    const holds =
+      statuses.length === threshold &&
+      statuses.every((status) => status === "failed");
+    return holds ? `${threshold} deliveries in a row failed` : null;
+  }
+
+  const windowMs = rule.windowMs ?? 3_600_000;
+  const { failed, total } = await attemptCounts(
+    rule.endpointId,
+    new Date(Date.now() - windowMs)
+  );
+  const rate = total > 0 ? Math.round((failed * 100) / total) : 0;
+  if (total < MIN_RATE_SAMPLE || rate < threshold) {
+    return null;
+  }
+  return `${rate}% of ${total} deliveries failed in the last ${formatDuration(windowMs)}`;
+}
+
+function postJson(url: string, body: unknown): Promise<Response> {
+  return fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(NOTIFY_TIMEOUT_MS),
+  });
+}
+
+function sendEmail(to: string, payload: AlertPayload): Promise<Response> {
+  const apiKey: string = env.RESEND_API_KEY ?? "";
+  const from: string = env.ALERT_EMAIL_FROM ?? "";
+  if (!(apiKey && from)) {
+    throw new Error("Email delivery is not configured");
+  }
+  return fetch(RESEND_API_URL, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${apiKey}`,
+    },
+    body: JSON.stringify({
+      from,
+      to: [to],
+      subject: `[tunnelhook] ${payload.rule.name} on ${payload.endpoint.name}`,
+      text: `${payload.message}.\n\nEndpoint: ${payload.endpoint.name} (/hooks/${payload.endpoint.slug})\nRule: ${payload.rule.name}\nAt: ${payload.triggeredAt}`,
+    }),
+    signal: AbortSignal.timeout(NOTIFY_TIMEOUT_MS),
+  });
+}
+
+/** Deliver a notification over the rule's channel; throws when it fails */
+export async function sendAlertNotification(
+  rule: Pick<AlertRule, "channel" | "target">,
+  payload: AlertPayload
+): Promise<void> {
+  let response: Response;
+  if (rule.channel === "email") {
+    response = await sendEmail(rule.target, payload);
+  } else if (rule.channel === "slack") {
+    response = await postJson(rule.target, {
+      text: `:rotating_light: *${payload.endpoint.name}* — ${payload.rule.name}: ${payload.message}`,
+    });
+  } else {
+    response = await postJson(rule.target, payload);
+  }
+  if (!response.ok) {
+    throw new Error(`Notification failed with HTTP ${response.status}`);
+  }
+}
+
+/** Notify, record the outcome in the alert history and start the cooldown */
+async function fireAlert(
+  rule: AlertRule,
+  ep: AlertEndpoint,
+  message: string
+): Promise<void> {
+  const now = new Date();
+  await db
+    .update(alertRule)
+    .set({ lastTriggeredAt: now })
+    .where(eq(alertRule.id, rule.id));
+
+  let error: string | null = null;
+  try {
+    await sendAlertNotification(rule, {
+      type: "alert",
+      condition: rule.condition,
+      endpoint: ep,
+      rule: { id: rule.id, name: rule.name },
+      message,
+      triggeredAt: now.toISOString(),
+    });
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err);
+  }
+
+  await db.insert(alertHistory).values({
+    id: crypto.randomUUID(),
+    endpointId: ep.id,
+    ruleId: rule.id,
+    ruleName: rule.name,
+    condition: rule.condition,
+    channel: rule.channel,
+    message,
+    status: error ? "failed" : "sent",
+    error,
+  });
+}
+
+function coolingDown(rule: AlertRule, now: number): boolean {
+  return (
+    rule.lastTriggeredAt !== null &&
+    now - rule.lastTriggeredAt.getTime() < rule.cooldownMs
+  );
+}
+
+/**
+ * Evaluate an endpoint's failure rules. Called by the endpoint's DO after
+ * every delivery report.
+ */
+export async function evaluateDeliveryAlerts(
+  endpointId: string
+): Promise<void> {
+  const rules = await db.query.alertRule.findMany({
+    where: and(
+      eq(alertRule.endpointId, endpointId),
+      eq(alertRule.enabled, true),
+      inArray(alertRule.condition, ["consecutive-failures", "failure-rate"])
+    ),
+  });
+  const now = Date.now();
+  const due = rules.filter((rule) => !coolingDown(rule, now));
+  if (due.length === 0) {
+    return;
+  }
+
+  const ep = await db.query.endpoint.findFirst({
+    where: eq(endpoint.id, endpointId),
+    columns: { id: true, name: true, slug: true },
+  });
+  if (!ep) {
+    return;
+  }
+  for (const rule of due) {
+    const message = await checkFailureRule(rule);
+    if (message) {
+      await fireAlert(rule, ep, message);
+    }
+  }
+}
+
+/**
+ * Fire "no-events" rules whose endpoint has been quiet for longer than the
+ * rule's window. Each quiet period notifies once: the rule fires again only
+ * after a new event arrived; blocked requests do not count. Called by the
+ * cron trigger.
+ */
+export async function evaluateQuietAlerts(): Promise<void> {
+  const rules = await db.query.alertRule.findMany({
+    where: and(
+      eq(alertRule.enabled, true),
+      eq(alertRule.condition, "no-events")
+    ),
+  });
+  const now = Date.now();
+
+  for (const rule of rules) {
+    const ep = await db.query.endpoint.findFirst({
+      where: eq(endpoint.id, rule.endpointId),
+      columns: { id: true, name: true, slug: true, createdAt: true },
+    });
+    if (!ep) {
+      continue;
+    }
+    const last = await db.query.event.findFirst({
+      where: and(eq(event.endpointId, ep.id), isNull(event.blockedReason)),
+      orderBy: [desc(event.createdAt)],
+      columns: { createdAt: true },
+    });
+    const lastActivity = last?.createdAt ?? ep.createdAt;
+    const windowMs = rule.windowMs ?? 86_400_000;
+    const quiet = now - lastActivity.getTime() >= windowMs;
+    const notified =
+      rule.lastTriggeredAt !== null && rule.lastTriggeredAt >= lastActivity;
+    if (quiet && !notified) {
+      await fireAlert(
+        rule,
+        { id: ep.id, name: ep.name, slug: ep.slug },
+        `No events received in the last ${formatDuration(windowMs)}`
+      );
+    }
+  }
+}
@@ -0,0 +1,96 @@
+import { db } from "@tunnelhook/db";
+import { auditLog } from "@tunnelhook/db/schema";
+
+import type { TokenGrant } from "./tokens";
+
+export type AuditAction =
+  | "endpoint.create"
+  | "endpoint.update"
+  | "endpoint.transfer"
+  | "endpoint.delete"
+  | "endpoint.revealSecret"
+  | "machine.register"
+  | "machine.update"
+  | "machine.delete"
+  | "machine.revealSecret"
+  | "event.delete"
+  | "event.replay"
+  | "events.clear";
+
+export type AuditChanges = Record<string, { after: unknown; before: unknown }>;
+
+export interface AuditEntry {
+  action: AuditAction;
+  /** Field-level diff, see diffRecords */
+  changes?: AuditChanges | null;
+  endpointId: string;
+  targetId: string;
+  targetType: "endpoint" | "machine" | "event";
+}
+
+/** The parts of a procedure's context that identify who made a change */
+interface AuditActor {
+  ip: string | null;
+  session: { user: { id: string } };
+  token: TokenGrant | null;
+}
+
+/** Bookkeeping columns that change on every write and say nothing about intent */
+const IGNORED_FIELDS = new Set(["id", "createdAt", "updatedAt"]);
+/** Secrets are recorded as changed without their values */
+const REDACTED_FIELDS = new Set(["verifierSecret", "signingSecret"]);
+const REDACTED = "[redacted]";
+
+function auditValue(field: string, value: unknown): unknown {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  return REDACTED_FIELDS.has(field) ? REDACTED : value;
+}
+
+/**
+ * Fields that differ between two versions of a row. Pass an empty object as
+ * `before` for creations and as `after` for deletions to record every field.
+ * Returns null when nothing changed.
+ */
+export function diffRecords(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>
+): AuditChanges | null {
+  const changes: AuditChanges = {};
+  for (const field of new Set([
+    ...Object.keys(before),
+    ...Object.keys(after),
+  ])) {
+    if (IGNORED_FIELDS.has(field)) {
+      continue;
+    }
+    const was = before[field] ?? null;
+    const now = after[field] ?? null;
+    if (JSON.stringify(was) !== JSON.stringify(now)) {
+      changes[field] = {
+        before: auditValue(field, was),
+        after: auditValue(field, now),
+      };
+    }
+  }
+  return Object.keys(changes).length > 0 ? changes : null;
+}
+
+/** Append an entry to the endpoint's audit log */
+export async function recordAudit(
+  context: AuditActor,
+  entry: AuditEntry
+): Promise<void> {
+  await db.insert(auditLog).values({
+    id: crypto.randomUUID(),
+    endpointId: entry.endpointId,
+    actorId: context.session.user.id,
+    tokenId: context.token?.id ?? null,
+    action: entry.action,
+    targetType: entry.targetType,
+    targetId: entry.targetId,
+    changes: entry.changes ? JSON.stringify(entry.changes) : null,
+    ip: context.ip,
+  });
+}
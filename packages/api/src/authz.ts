@@ -0,0 +1,235 @@
+import { ORPCError } from "@orpc/server";
+import { db } from "@tunnelhook/db";
+import {
+  delivery,
+  endpoint,
+  event,
+  machine,
+  member,
+  type ORG_ROLES,
+} from "@tunnelhook/db/schema";
+import { and, eq, inArray, isNull, or, type SQL } from "drizzle-orm";
+
+export type OrgRole = (typeof ORG_ROLES)[number];
+
+/**
+ * What a caller wants to do with an endpoint or anything under it.
+ * - read:   view the endpoint, its events, machines and deliveries
+ * - listen: connect machines, report deliveries, replay events
+ * - write:  change endpoint settings, delete events and other people's machines
+ * - admin:  delete or transfer the endpoint
+ */
+export type EndpointAction = "read" | "listen" | "write" | "admin";
+
+/** Actions are ordered; allowing one allows every action before it */
+const ACTION_LEVEL: Record<EndpointAction, number> = {
+  read: 0,
+  listen: 1,
+  write: 2,
+  admin: 3,
+};
+
+/** The most privileged action each role may take */
+const ROLE_LEVEL: Record<OrgRole, number> = {
+  viewer: ACTION_LEVEL.read,
+  member: ACTION_LEVEL.listen,
+  admin: ACTION_LEVEL.admin,
+  owner: ACTION_LEVEL.admin,
+};
+
+type EndpointRow = typeof endpoint.$inferSelect;
+
+export function roleAllows(role: OrgRole, action: EndpointAction): boolean {
+  return ROLE_LEVEL[role] >= ACTION_LEVEL[action];
+}
+
+/** The caller's role in an organization, or null when not a member */
+export async function orgRole(
+  userId: string,
+  organizationId: string
+): Promise<OrgRole | null> {
+  const row = await db.query.member.findFirst({
+    where: and(
+      eq(member.organizationId, organizationId),
+      eq(member.userId, userId)
+    ),
+    columns: { role: true },
+  });
+  return row?.role ?? null;
+}
+
+/**
+ * Throw unless the caller's role in the organization allows `action` on its
+ * endpoints. Returns that role.
+ */
+export async function assertOrgAllows(
+  userId: string,
+  organizationId: string,
+  action: EndpointAction
+): Promise<OrgRole> {
+  const role = await orgRole(userId, organizationId);
+  if (!role) {
+    throw new ORPCError("NOT_FOUND", { message: "Organization not found" });
+  }
+  if (!roleAllows(role, action)) {
+    throw new ORPCError("FORBIDDEN", {
+      message: `Your ${role} role does not allow this`,
+    });
+  }
+  return role;
+}
+
+/**
+ * The caller's role on an endpoint: their org role for org endpoints,
+ * "owner" for their own personal endpoints, otherwise null.
+ */
+export function endpointRole(
+  userId: string,
+  ep: Pick<EndpointRow, "organizationId" | "userId">
+): Promise<OrgRole | null> {
+  if (ep.organizationId) {
+    return orgRole(userId, ep.organizationId);
+  }
+  return Promise.resolve(ep.userId === userId ? "owner" : null);
+}
+
+/**
+ * Throw unless the caller may take `action` on the endpoint.
+ * Endpoints the caller can't see at all are reported as NOT_FOUND so their
+ * existence isn't leaked; visible ones they lack the role for as FORBIDDEN.
+ */
+async function assertEndpointAccess(
+  userId: string,
+  ep: EndpointRow | undefined,
+  action: EndpointAction,
+  notFound: string
+): Promise<EndpointRow> {
+  const role = ep ? await endpointRole(userId, ep) : null;
+  if (!(ep && role)) {
+    throw new ORPCError("NOT_FOUND", { message: notFound });
+  }
+  if (!roleAllows(role, action)) {
+    throw new ORPCError("FORBIDDEN", {
+      message: `Your ${role} role does not allow this`,
+    });
+  }
+  return ep;
+}
+
+function findEndpoint(endpointId: string): Promise<EndpointRow | undefined> {
+  return db.query.endpoint.findFirst({
+    where: eq(endpoint.id, endpointId),
+  });
+}
+
+/** Load an endpoint the caller may take `action` on */
+export async function authorizeEndpoint(
+  userId: string,
+  endpointId: string,
+  action: EndpointAction
+): Promise<EndpointRow> {
+  const ep = await findEndpoint(endpointId);
+  return assertEndpointAccess(userId, ep, action, "Endpoint not found");
+}
+
+/** Load an event and its endpoint, if the caller may take `action` on the endpoint */
+export async function authorizeEvent(
+  userId: string,
+  eventId: string,
+  action: EndpointAction
+) {
+  const ev = await db.query.event.findFirst({
+    where: eq(event.id, eventId),
+  });
+  if (!ev) {
+    throw new ORPCError("NOT_FOUND", { message: "Event not found" });
+  }
+
+  // Separate lookup to avoid drizzle dedup type issues
+  const ep = await assertEndpointAccess(
+    userId,
+    await findEndpoint(ev.endpointId),
+    action,
+    "Event not found"
+  );
+  return { event: ev, endpoint: ep };
+}
+
+/**
+ * Load a machine and its endpoint. Changing a machine needs `action` on the
+ * endpoint, except that anyone who may listen can manage their own machines.
+ */
+export async function authorizeMachine(
+  userId: string,
+  machineId: string,
+  action: EndpointAction
+) {
+  const m = await db.query.machine.findFirst({
+    where: eq(machine.id, machineId),
+  });
+  if (!m) {
+    throw new ORPCError("NOT_FOUND", { message: "Machine not found" });
+  }
+
+  const ownAction =
+    m.userId === userId && action === "write" ? "listen" : action;
+  const ep = await assertEndpointAccess(
+    userId,
+    await findEndpoint(m.endpointId),
+    ownAction,
+    "Machine not found"
+  );
+  return { machine: m, endpoint: ep };
+}
+
+/** Load a delivery with its machine and endpoint, if the caller may take `action` on the endpoint */
+export async function authorizeDelivery(
+  userId: string,
+  deliveryId: string,
+  action: EndpointAction
+) {
+  const d = await db.query.delivery.findFirst({
+    where: eq(delivery.id, deliveryId),
+  });
+  const m = d
+    ? await db.query.machine.findFirst({
+        where: eq(machine.id, d.machineId),
+      })
+    : undefined;
+  if (!(d && m)) {
+    throw new ORPCError("NOT_FOUND", { message: "Delivery not found" });
+  }
+
+  const ep = await assertEndpointAccess(
+    userId,
+    await findEndpoint(m.endpointId),
+    action,
+    "Delivery not found"
+  );
+  return { delivery: d, machine: m, endpoint: ep };
+}
+
+/** SQL condition matching every endpoint the caller can see */
+export async function visibleEndpointsCondition(
+  userId: string
+): Promise<SQL | undefined> {
+  const memberships = await db
+    .select({ organizationId: member.organizationId })
+    .from(member)
+    .where(eq(member.userId, userId));
+
+  const personal = and(
+    eq(endpoint.userId, userId),
+    isNull(endpoint.organizationId)
+  );
+  if (memberships.length === 0) {
+    return personal;
+  }
+  return or(
+    personal,
+    inArray(
+      endpoint.organizationId,
+      memberships.map((m) => m.organizationId)
+    )
+  );
+}
@@ -0,0 +1,46 @@
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+
+import type { BlobStore } from "./blobs";
+
+/**
+ * Filesystem stand-in for the R2 blob store, for tests running on Node or
+ * Bun; install it with `setBlobStore`. Node-only: Worker code must never
+ * import this module, which keeps `node:fs` out of the Worker bundle.
+ * The content type is kept in a `<key>.type` sidecar file.
+ */
+export function createFsBlobStore(root: string): BlobStore {
+  const pathFor = (key: string) => join(root, key);
+  return {
+    async put(key, data, contentType) {
+      const path = pathFor(key);
+      await mkdir(dirname(path), { recursive: true });
+      await writeFile(path, data);
+      await writeFile(`${path}.type`, contentType ?? "");
+    },
+    async get(key) {
+      const path = pathFor(key);
+      try {
+        const data = await readFile(path);
+        const contentType = await readFile(`${path}.type`, "utf-8").catch(
+          () => ""
+        );
+        return {
+          body: new Blob([data]).stream(),
+          contentType: contentType || null,
+          size: data.byteLength,
+        };
+      } catch {
+        return null;
+      }
+    },
+    async delete(keys) {
+      await Promise.all(
+        keys.flatMap((key) => [
+          rm(pathFor(key), { force: true }),
+          rm(`${pathFor(key)}.type`, { force: true }),
+        ])
+      );
+    },
+  };
+}
@@ -0,0 +1,121 @@
+import { env } from "@tunnelhook/env/server";
+
+/**
+ * Storage for webhook bodies that do not belong in a D1 text column:
+ * anything over `INLINE_BODY_MAX_BYTES`, non-text content types, and text
+ * that is not valid UTF-8. Bodies are stored byte-exact under a per-event key.
+ */
+export interface BlobStore {
+  delete(keys: string[]): Promise<void>;
+  get(key: string): Promise<StoredBlob | null>;
+  put(key: string, data: Uint8Array, contentType: string | null): Promise<void>;
+}
+
+export interface StoredBlob {
+  body: ReadableStream;
+  contentType: string | null;
+  size: number;
+}
+
+/** Bodies larger than this are moved to the blob store */
+export const INLINE_BODY_MAX_BYTES = 64 * 1024;
+
+/** R2 accepts at most this many keys per delete call */
+const R2_DELETE_BATCH = 1000;
+
+const TEXT_CONTENT_TYPE_RE =
+  /^(text\/|application\/(json|xml|javascript|graphql|x-www-form-urlencoded|[\w.-]+\+(json|xml))\b)/i;
+
+const utf8Decoder = new TextDecoder("utf-8", {
+  fatal: true,
+  ignoreBOM: false,
+});
+
+function createR2BlobStore(bucket: typeof env.PAYLOADS): BlobStore {
+  return {
+    async put(key, data, contentType) {
+      await bucket.put(key, data, {
+        httpMetadata: contentType ? { contentType } : undefined,
+      });
+    },
+    async get(key) {
+      const object = await bucket.get(key);
+      if (!object) {
+        return null;
+      }
+      return {
+        body: object.body,
+        contentType: object.httpMetadata?.contentType ?? null,
+        size: object.size,
+      };
+    },
+    async delete(keys) {
+      for (let i = 0; i < keys.length; i += R2_DELETE_BATCH) {
+        await bucket.delete(keys.slice(i, i + R2_DELETE_BATCH));
+      }
+    },
+  };
+}
+
+let blobStoreOverride: BlobStore | null = null;
+
+/**
+ * Replace the blob store for code running outside Workers, such as tests
+ * using the filesystem stand-in in `blobs-fs.ts`. Pass null to go back to R2.
+ */
+export function setBlobStore(store: BlobStore | null): void {
+  blobStoreOverride = store;
+}
+
+/**
+ * The PAYLOADS R2 bucket, unless a test swapped in another store.
+ * `alchemy dev` emulates the bucket locally, so the e2e suite exercises the
+ * same store as production.
+ */
+export function getBlobStore(): BlobStore {
+  return blobStoreOverride ?? createR2BlobStore(env.PAYLOADS);
+}
+
+export function blobKeyForEvent(endpointId: string, eventId: string): string {
+  return `events/${endpointId}/${eventId}`;
+}
+
+export async function sha256Hex(
+  data: Uint8Array<ArrayBuffer>
+): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", data);
+  return Array.from(new Uint8Array(digest), (b) =>
+    b.toString(16).padStart(2, "0")
+  ).join("");
+}
+
+/**
+ * The body as text when it can be stored inline, or null when it belongs in
+ * the blob store. Requests without a content type are inlined if they decode.
+ */
+export function decodeInlineBody(
+  bytes: Uint8Array,
+  contentType: string | null
+): string | null {
+  if (bytes.byteLength > INLINE_BODY_MAX_BYTES) {
+    return null;
+  }
+  if (contentType && !TEXT_CONTENT_TYPE_RE.test(contentType)) {
+    return null;
+  }
+  try {
+    return utf8Decoder.decode(bytes);
+  } catch {
+    return null;
+  }
+}
+
+/** Remove the blob-stored bodies of event rows that are being deleted */
+export async function deleteEventBlobs(
+  rows: Array<{ bodyBlobKey: string | null }>
+): Promise<void> {
+  const keys = rows.flatMap((row) =>
+    row.bodyBlobKey ? [row.bodyBlobKey] : []
+  );
+  await getBlobStore().delete(keys);
+}
@@ -0,0 +1,101 @@
+import { env } from "@tunnelhook/env/server";
+
+import { type Cidr, cidrContains, parseCidr, parseIp } from "./ip-allowlist";
+
+/** Where a request came from, as far as the platform can tell */
+export interface ClientInfo {
+  /** Autonomous system number of the client's network */
+  asn: number | null;
+  asOrganization: string | null;
+  /** ISO 3166-1 alpha-2 country code */
+  country: string | null;
+  ip: string | null;
+}
+
+/** Geo fields the Workers runtime attaches to incoming requests */
+interface CfProperties {
+  asn?: number;
+  asOrganization?: string;
+  country?: string;
+}
+
+const IPV4_WITH_PORT_RE = /^(\d{1,3}(?:\.\d{1,3}){3}):\d+$/;
+
+/**
+ * Reduce a forwarded address to the bare IP: brackets and ports are dropped
+ * ("[2001:db8::1]:443", "203.0.113.7:8080"). Null when it is not an address.
+ */
+function normalizeAddress(raw: string): string | null {
+  let value = raw.trim();
+  if (value.startsWith("[")) {
+    value = value.slice(1, value.indexOf("]"));
+  }
+  value = value.replace(IPV4_WITH_PORT_RE, "$1").toLowerCase();
+  return parseIp(value) ? value : null;
+}
+
+function trustedProxies(): Cidr[] {
+  const configured: string = env.TRUSTED_PROXIES ?? "";
+  return configured
+    .split(",")
+    .map(parseCidr)
+    .filter((cidr): cidr is Cidr => cidr !== null);
+}
+
+function isTrusted(address: string, trusted: Cidr[]): boolean {
+  const ip = parseIp(address);
+  return ip !== null && trusted.some((cidr) => cidrContains(cidr, ip));
+}
+
+/**
+ * The address of the client that sent the request.
+ *
+ * `cf-connecting-ip` is set by Cloudflare's edge and cannot be forged, so it
+ * is the nearest hop. When that hop is a TRUSTED_PROXIES address, the
+ * `x-forwarded-for` chain is walked from the right, skipping trusted proxies;
+ * the first untrusted hop is the client. Entries left of it were written by
+ * the caller and are never used. Without the platform header (local
+ * development) the rightmost `x-forwarded-for` entry is the nearest hop.
+ */
+export function resolveClientIp(
+  headers: Headers,
+  trusted: Cidr[] = trustedProxies()
+): string | null {
+  const hops = (headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .filter((hop) => hop.trim() !== "");
+  const platform = headers.get("cf-connecting-ip");
+  if (platform) {
+    hops.push(platform);
+  }
+
+  let client: string | null = null;
+  for (let i = hops.length - 1; i >= 0; i--) {
+    client = normalizeAddress(hops[i] ?? "");
+    if (!(client && isTrusted(client, trusted))) {
+      return client;
+    }
+  }
+  // Every hop is a trusted proxy: the leftmost one made the request
+  return client;
+}
+
+/**
+ * The client IP plus the geo fields Cloudflare attaches to the request.
+ * The geo fields describe the connecting address, so they are only kept
+ * when that address is the resolved client.
+ */
+export function resolveClientInfo(request: Request): ClientInfo {
+  const ip = resolveClientIp(request.headers);
+  const platform = request.headers.get("cf-connecting-ip");
+  const cf = (request as { cf?: CfProperties }).cf;
+  if (!(cf && platform && ip === normalizeAddress(platform))) {
+    return { ip, country: null, asn: null, asOrganization: null };
+  }
+  return {
+    ip,
+    country: cf.country ?? null,
+    asn: cf.asn ?? null,
+    asOrganization: cf.asOrganization ?? null,
+  };
+}
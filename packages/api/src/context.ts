@@ -1,16 +1,37 @@
 import { auth } from "@tunnelhook/auth";
 import type { Context as HonoContext } from "hono";
 
+import { resolveClientIp } from "./client-ip";
+import { authenticateApiToken, type TokenGrant } from "./tokens";
+
 export type CreateContextOptions = {
   context: HonoContext;
 };
 
+/**
+ * Resolve the caller from an `Authorization: Bearer` API token or, failing
+ * that, the Better-Auth session cookie. `token` is set for token callers so
+ * procedures can be checked against its scope.
+ */
 export async function createContext({ context }: CreateContextOptions) {
-  const session = await auth.api.getSession({
-    headers: context.req.raw.headers,
-  });
+  const headers = context.req.raw.headers;
+  // Recorded with audit log entries
+  const ip = resolveClientIp(headers);
+
+  const tokenAuth = await authenticateApiToken(headers);
+  if (tokenAuth) {
+    return {
+      session: { user: tokenAuth.user, session: null },
+      token: tokenAuth.grant as TokenGrant | null,
+      ip,
+    };
+  }
+
+  const session = await auth.api.getSession({ headers });
   return {
     session,
+    token: null as TokenGrant | null,
+    ip,
   };
 }
 
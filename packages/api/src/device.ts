@@ -0,0 +1,156 @@
+import { db } from "@tunnelhook/db";
+import { deviceAuthorization } from "@tunnelhook/db/schema";
+import { and, eq, lt } from "drizzle-orm";
+
+import { createApiToken, hashApiToken } from "./tokens";
+
+/** How long a `tunnelhook login` request waits for approval */
+export const DEVICE_CODE_TTL_MS = 10 * 60_000;
+/** Seconds the CLI waits between polls */
+export const DEVICE_POLL_INTERVAL_S = 5;
+/** Tokens issued to the CLI by a device login expire after this */
+const DEVICE_TOKEN_TTL_MS = 90 * 86_400_000;
+/** Consonants only, so user codes never spell words and can't be misread (RFC 8628 §6.1) */
+const USER_CODE_ALPHABET = "BCDFGHJKLMNPQRSTVWXZ";
+const USER_CODE_LENGTH = 8;
+/** Random bytes at or above this would favour the alphabet's first letters */
+const USER_CODE_BYTE_LIMIT = 256 - (256 % USER_CODE_ALPHABET.length);
+/** New user codes to try before giving up on a run of collisions */
+const USER_CODE_ATTEMPTS = 5;
+const NON_CODE_CHARS_RE = /[^A-Z]/g;
+
+export type DeviceTokenResult =
+  | { status: "approved"; token: string }
+  | { status: "pending" | "denied" | "expired" };
+
+/** Uniformly random user code; bytes that would bias the modulo are skipped */
+function randomUserCode(): string {
+  let chars = "";
+  while (chars.length < USER_CODE_LENGTH) {
+    for (const b of crypto.getRandomValues(new Uint8Array(USER_CODE_LENGTH))) {
+      if (b < USER_CODE_BYTE_LIMIT && chars.length < USER_CODE_LENGTH) {
+        chars += USER_CODE_ALPHABET[b % USER_CODE_ALPHABET.length];
+      }
+    }
+  }
+  return `${chars.slice(0, 4)}-${chars.slice(4)}`;
+}
+
+/** Accept user codes typed in any case, with or without the dash */
+export function normalizeUserCode(input: string): string {
+  const chars = input.toUpperCase().replace(NON_CODE_CHARS_RE, "");
+  return `${chars.slice(0, 4)}-${chars.slice(4)}`;
+}
+
+/**
+ * Start a device login. The device code is a secret returned only to the CLI;
+ * the user code is what the user confirms in the dashboard.
+ */
+export async function createDeviceAuthorization(clientName: string): Promise<{
+  deviceCode: string;
+  expiresAt: Date;
+  userCode: string;
+}> {
+  // Expired requests are never looked at again, so sweep them here
+  await db
+    .delete(deviceAuthorization)
+    .where(lt(deviceAuthorization.expiresAt, new Date()));
+
+  const deviceCode = crypto.randomUUID();
+  const deviceCodeHash = await hashApiToken(deviceCode);
+  const expiresAt = new Date(Date.now() + DEVICE_CODE_TTL_MS);
+
+  // User codes are short enough to collide with another pending login
+  for (let attempt = 0; attempt < USER_CODE_ATTEMPTS; attempt++) {
+    const userCode = randomUserCode();
+    const [inserted] = await db
+      .insert(deviceAuthorization)
+      .values({
+        id: crypto.randomUUID(),
+        deviceCodeHash,
+        userCode,
+        clientName,
+        expiresAt,
+      })
+      .onConflictDoNothing({ target: deviceAuthorization.userCode })
+      .returning({ id: deviceAuthorization.id });
+    if (inserted) {
+      return { deviceCode, userCode, expiresAt };
+    }
+  }
+  throw new Error("Could not allocate a unique device user code");
+}
+
+/** A login still waiting for approval, by user code */
+export async function findPendingDeviceAuthorization(userCode: string) {
+  const row = await db.query.deviceAuthorization.findFirst({
+    where: eq(deviceAuthorization.userCode, normalizeUserCode(userCode)),
+  });
+  if (
+    !row ||
+    row.status !== "pending" ||
+    row.expiresAt.getTime() <= Date.now()
+  ) {
+    return;
+  }
+  return row;
+}
+
+/** Record the user's decision on a pending login */
+export async function decideDeviceAuthorization(
+  id: string,
+  userId: string,
+  approved: boolean
+): Promise<void> {
+  await db
+    .update(deviceAuthorization)
+    .set({ status: approved ? "approved" : "denied", userId })
+    .where(
+      and(
+        eq(deviceAuthorization.id, id),
+        eq(deviceAuthorization.status, "pending")
+      )
+    );
+}
+
+/**
+ * Poll a device login. Once approved, the request is consumed and the CLI is
+ * issued a full-scope API token named after the client.
+ */
+export async function redeemDeviceCode(
+  deviceCode: string
+): Promise<DeviceTokenResult> {
+  const deviceCodeHash = await hashApiToken(deviceCode);
+  const row = await db.query.deviceAuthorization.findFirst({
+    where: eq(deviceAuthorization.deviceCodeHash, deviceCodeHash),
+  });
+  if (!row || row.expiresAt.getTime() <= Date.now()) {
+    return { status: "expired" };
+  }
+  if (row.status !== "approved" || !row.userId) {
+    return { status: row.status === "denied" ? "denied" : "pending" };
+  }
+
+  // Deleting first makes the code single-use even if the CLI polls twice at once
+  const [claimed] = await db
+    .delete(deviceAuthorization)
+    .where(
+      and(
+        eq(deviceAuthorization.id, row.id),
+        eq(deviceAuthorization.status, "approved")
+      )
+    )
+    .returning({ id: deviceAuthorization.id });
+  if (!claimed) {
+    return { status: "expired" };
+  }
+
+  const { token } = await createApiToken({
+    userId: row.userId,
+    name: `CLI login (${row.clientName})`,
+    scope: "full",
+    endpointIds: null,
+    expiresAt: new Date(Date.now() + DEVICE_TOKEN_TTL_MS),
+  });
+  return { status: "approved", token };
+}
@@ -0,0 +1,341 @@
+import { db } from "@tunnelhook/db";
+import { delivery, event, machine } from "@tunnelhook/db/schema";
+import { env } from "@tunnelhook/env/server";
+import { and, eq, inArray } from "drizzle-orm";
+
+import { blobKeyForEvent, getBlobStore } from "./blobs";
+import { matchesEventFilters, parseEventFilters } from "./filters";
+
+/**
+ * Shared dispatch logic used by the webhook receiver (apps/server) and by
+ * oRPC procedures that need to (re)send a captured event, such as replay.
+ */
+
+const HEADERS_TO_STRIP = new Set([
+  // Sensitive headers that could leak credentials
+  "authorization",
+  "cookie",
+  "set-cookie",
+  // Hop-by-hop headers
+  "connection",
+  "keep-alive",
+  "transfer-encoding",
+  "te",
+  "trailer",
+  "upgrade",
+  "proxy-authorization",
+  "proxy-connection",
+  // Cloudflare-specific internal headers
+  "cf-connecting-ip",
+  "cf-ray",
+  "cf-ipcountry",
+  "cf-visitor",
+  "cf-worker",
+  "x-forwarded-for",
+  "x-forwarded-proto",
+  "x-real-ip",
+]);
+
+export interface DispatchEvent {
+  /** Inline body (null when stored in the blob store, see `bodyBlob`) */
+  body: string | null;
+  /** Set when the body lives in the blob store; machines download it byte-exact */
+  bodyBlob: BodyBlobRef | null;
+  contentType: string | null;
+  createdAt: string;
+  headers: Record<string, string>;
+  id: string;
+  method: string;
+  /** Sub-path after `/hooks/:slug` (null for the endpoint root) */
+  path: string | null;
+  query: string | null;
+  /** Signature verification outcome (null if the endpoint has no verifier) */
+  signatureStatus: "verified" | "invalid" | "missing" | null;
+  sourceIp: string | null;
+}
+
+/** Reference to a blob-stored body, sent to machines in place of the body */
+export interface BodyBlobRef {
+  /** Hex SHA-256 of the body bytes */
+  sha256: string;
+  size: number;
+}
+
+/** Build the blob reference for an event row (null for inline bodies) */
+export function toBodyBlobRef(row: {
+  bodySha256: string | null;
+  bodySize: number | null;
+}): BodyBlobRef | null {
+  return row.bodySha256 && row.bodySize !== null
+    ? { sha256: row.bodySha256, size: row.bodySize }
+    : null;
+}
+
+/**
+ * Helper to get the Durable Object stub for an endpoint.
+ */
+export function getEndpointDO(endpointId: string) {
+  const doId = env.ENDPOINT_DO.idFromName(endpointId);
+  return env.ENDPOINT_DO.get(doId);
+}
+
+/** Requests to an endpoint dropped by its rate limits */
+export interface RateLimitStats {
+  dropped: number;
+  /** Epoch ms of the latest dropped request (null = never) */
+  lastDroppedAt: number | null;
+}
+
+/** Read the dropped-request counter kept by the endpoint's DO */
+export async function getRateLimitStats(
+  endpointId: string
+): Promise<RateLimitStats> {
+  const response = await getEndpointDO(endpointId).fetch(
+    "http://do/rate-limit"
+  );
+  if (!response.ok) {
+    return { dropped: 0, lastDroppedAt: null };
+  }
+  return (await response.json()) as RateLimitStats;
+}
+
+export interface ConnectedMachine {
+  machineId: string;
+  machineName: string;
+}
+
+/** RPC methods of the endpoint DO, which type the ENDPOINT_DO binding */
+export interface EndpointRpc {
+  getConnectedMachines(): ConnectedMachine[];
+}
+
+/** Machines with an open WebSocket to the endpoint's DO, via its RPC method */
+export async function getConnectedMachines(
+  endpointId: string
+): Promise<ConnectedMachine[]> {
+  return await getEndpointDO(endpointId).getConnectedMachines();
+}
+
+/**
+ * The first delivery report from a machine, relayed to the webhook caller in
+ * the endpoint's "local" response mode.
+ */
+export interface LocalDeliveryReport {
+  deliveryId: string;
+  error: string | null;
+  responseBody: string | null;
+  responseHeaders?: Record<string, string> | null;
+  responseStatus: number | null;
+  status: "delivered" | "failed";
+}
+
+/**
+ * Create delivery records for the endpoint's machines and return the map of
+ * deliveries that should be sent (machineId -> deliveryId).
+ * When `machineIds` is given, only those machines of the endpoint receive it
+ * and their subscription filters are bypassed (explicit replay). Otherwise
+ * machines whose filters reject the event get a `filtered` delivery record
+ * and are not sent the event.
+ */
+async function createDeliveries(
+  endpointId: string,
+  eventData: DispatchEvent,
+  machineIds?: string[]
+): Promise<Record<string, string>> {
+  const conditions = [eq(machine.endpointId, endpointId)];
+  if (machineIds) {
+    if (machineIds.length === 0) {
+      return {};
+    }
+    conditions.push(inArray(machine.id, machineIds));
+  }
+
+  const machines = await db.query.machine.findMany({
+    where: and(...conditions),
+  });
+
+  if (machines.length === 0) {
+    return {};
+  }
+
+  // Create delivery records for each machine (pending, or filtered when the
+  // machine's subscription filters reject the event)
+  const deliveryRecords = machines.map((m) => ({
+    id: crypto.randomUUID(),
+    machineId: m.id,
+    status:
+      machineIds || matchesEventFilters(parseEventFilters(m.filters), eventData)
+        ? ("pending" as const)
+        : ("filtered" as const),
+  }));
+
+  // Batch insert delivery records
+  await db.insert(delivery).values(
+    deliveryRecords.map((d) => ({
+      id: d.id,
+      eventId: eventData.id,
+      machineId: d.machineId,
+      status: d.status,
+    }))
+  );
+
+  // Build the deliveries map: machineId -> deliveryId
+  const deliveriesMap: Record<string, string> = {};
+  for (const d of deliveryRecords) {
+    if (d.status === "pending") {
+      deliveriesMap[d.machineId] = d.id;
+    }
+  }
+  return deliveriesMap;
+}
+
+/**
+ * Call the DO to fan out the event to connected machines. With
+ * `waitForReportMs`, the DO holds the request open until the first machine
+ * reports back or the wait runs out.
+ */
+function postToEndpointDO(
+  endpointId: string,
+  eventData: DispatchEvent,
+  deliveries: Record<string, string>,
+  waitForReportMs?: number
+): Promise<Response> {
+  const stub = getEndpointDO(endpointId);
+  return stub.fetch(
+    new Request("http://do/broadcast", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        eventId: eventData.id,
+        method: eventData.method,
+        headers: JSON.stringify(eventData.headers),
+        body: eventData.body,
+        bodyBlob: eventData.bodyBlob,
+        path: eventData.path,
+        query: eventData.query,
+        sourceIp: eventData.sourceIp,
+        contentType: eventData.contentType,
+        signatureStatus: eventData.signatureStatus,
+        createdAt: eventData.createdAt,
+        deliveries,
+        waitForReportMs,
+      }),
+    })
+  );
+}
+
+/**
+ * Create delivery records and broadcast an event to connected machines via DO.
+ * See `createDeliveries` for how `machineIds` and machine filters apply.
+ * Returns the number of deliveries sent to machines.
+ */
+export async function broadcastToMachines(
+  endpointId: string,
+  eventData: DispatchEvent,
+  machineIds?: string[]
+): Promise<number> {
+  const deliveries = await createDeliveries(endpointId, eventData, machineIds);
+  const sentCount = Object.keys(deliveries).length;
+  if (sentCount === 0) {
+    return 0;
+  }
+
+  const doResponse = await postToEndpointDO(endpointId, eventData, deliveries);
+  if (!doResponse.ok) {
+    console.error(
+      `DO broadcast failed: ${doResponse.status} ${await doResponse.text()}`
+    );
+  }
+
+  return sentCount;
+}
+
+/**
+ * Broadcast an event and wait up to `timeoutMs` for the first connected
+ * machine to report its local server's response.
+ * Returns null when no machine is connected or none answered in time.
+ */
+export async function broadcastAndAwaitReport(
+  endpointId: string,
+  eventData: DispatchEvent,
+  timeoutMs: number
+): Promise<LocalDeliveryReport | null> {
+  const deliveries = await createDeliveries(endpointId, eventData);
+  if (Object.keys(deliveries).length === 0) {
+    return null;
+  }
+
+  const doResponse = await postToEndpointDO(
+    endpointId,
+    eventData,
+    deliveries,
+    timeoutMs
+  );
+  if (!doResponse.ok) {
+    console.error(
+      `DO broadcast failed: ${doResponse.status} ${await doResponse.text()}`
+    );
+    return null;
+  }
+
+  const result = (await doResponse.json()) as {
+    report: LocalDeliveryReport | null;
+  };
+  return result.report;
+}
+
+/**
+ * Forward an event to a static URL and record the outcome on the event row.
+ */
+export async function forwardToUrl(
+  ep: { id: string },
+  forwardUrl: string,
+  eventData: DispatchEvent
+): Promise<void> {
+  const startTime = Date.now();
+  try {
+    const forwardHeaders: Record<string, string> = {};
+    for (const [key, value] of Object.entries(eventData.headers)) {
+      if (!HEADERS_TO_STRIP.has(key.toLowerCase())) {
+        forwardHeaders[key] = value;
+      }
+    }
+
+    const blob = eventData.bodyBlob
+      ? await getBlobStore().get(blobKeyForEvent(ep.id, eventData.id))
+      : null;
+
+    const forwardResponse = await fetch(forwardUrl, {
+      method: eventData.method,
+      headers: {
+        ...forwardHeaders,
+        host: new URL(forwardUrl).host,
+        "x-tunnelhook-event-id": eventData.id,
+        "x-tunnelhook-endpoint-id": ep.id,
+      },
+      body:
+        eventData.method !== "GET" && eventData.method !== "HEAD"
+          ? (blob?.body ?? eventData.body)
+          : undefined,
+    });
+
+    const duration = Date.now() - startTime;
+    await db
+      .update(event)
+      .set({
+        forwardStatus: forwardResponse.status,
+        forwardError: null,
+        forwardDuration: duration,
+      })
+      .where(eq(event.id, eventData.id));
+  } catch (err) {
+    const duration = Date.now() - startTime;
+    await db
+      .update(event)
+      .set({
+        forwardError: err instanceof Error ? err.message : "Unknown error",
+        forwardDuration: duration,
+      })
+      .where(eq(event.id, eventData.id));
+  }
+}
@@ -0,0 +1,83 @@
+import { globToRegExp, jsonGet, parseJsonPath } from "@tunnelhook/matching";
+import { z } from "zod";
+
+/**
+ * Machine subscription filters. A machine receives an event when any of its
+ * filters matches; every condition inside a filter must hold. Machines
+ * without filters receive everything.
+ */
+export const eventFilterSchema = z.object({
+  method: z.string().min(1).max(10).optional(),
+  /** Sub-path under /hooks/:slug; `*` matches any run of characters */
+  path: z.string().startsWith("/").optional(),
+  /** Header value glob, e.g. `{ name: "x-github-event", value: "pull_*" }` */
+  header: z.object({ name: z.string().min(1), value: z.string() }).optional(),
+  /** JSON body field glob, e.g. `{ path: "$.type", value: "customer.*" }` */
+  jsonField: z
+    .object({ path: z.string().startsWith("$"), value: z.string() })
+    .optional(),
+});
+
+export const eventFiltersSchema = z.array(eventFilterSchema).max(50);
+
+export type EventFilter = z.infer<typeof eventFilterSchema>;
+
+interface FilterableEvent {
+  body: string | null;
+  headers: Record<string, string>;
+  method: string;
+  path: string | null;
+}
+
+function parseJson(raw: string | null): unknown {
+  try {
+    return raw ? JSON.parse(raw) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function filterMatches(filter: EventFilter, ev: FilterableEvent): boolean {
+  if (filter.method && filter.method.toUpperCase() !== ev.method) {
+    return false;
+  }
+  if (filter.path && !globToRegExp(filter.path).test(ev.path ?? "/")) {
+    return false;
+  }
+  if (filter.header) {
+    const value = ev.headers[filter.header.name.toLowerCase()];
+    if (value === undefined || !globToRegExp(filter.header.value).test(value)) {
+      return false;
+    }
+  }
+  if (filter.jsonField) {
+    const segments = parseJsonPath(filter.jsonField.path);
+    const value = segments && jsonGet(parseJson(ev.body), segments);
+    if (
+      value === undefined ||
+      value === null ||
+      typeof value === "object" ||
+      !globToRegExp(filter.jsonField.value).test(String(value))
+    ) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Parse the JSON `machine.filters` column. Malformed data counts as no
+ * filters so a bad config never silently drops events.
+ */
+export function parseEventFilters(raw: string | null): EventFilter[] {
+  const result = eventFiltersSchema.safeParse(parseJson(raw) ?? []);
+  return result.success ? result.data : [];
+}
+
+/** Whether a machine with these filters should receive the event */
+export function matchesEventFilters(
+  filters: EventFilter[],
+  ev: FilterableEvent
+): boolean {
+  return filters.length === 0 || filters.some((f) => filterMatches(f, ev));
+}
@@ -1,20 +1,134 @@
 import { ORPCError, os } from "@orpc/server";
 
+import {
+  authorizeDelivery,
+  authorizeEndpoint,
+  authorizeEvent,
+  authorizeMachine,
+  type EndpointAction,
+} from "./authz";
 import type { Context } from "./context";
+import { assertGrantCovers, assertTokenAllows } from "./tokens";
 
 export const o = os.$context<Context>();
 
 export const publicProcedure = o;
 
-const requireAuth = o.middleware(async ({ context, next }) => {
-  if (!context.session?.user) {
-    throw new ORPCError("UNAUTHORIZED");
+/**
+ * Require a signed-in caller. Token callers are checked against the token's
+ * scope; `resourceScoped` procedures check the token's endpoints themselves
+ * once their resource is loaded.
+ */
+function requireAuth(resourceScoped: boolean) {
+  return o.middleware(({ context, next, path }) => {
+    if (!context.session?.user) {
+      throw new ORPCError("UNAUTHORIZED");
+    }
+    if (context.token) {
+      assertTokenAllows(context.token, path, resourceScoped);
+    }
+    return next({
+      context: {
+        session: context.session,
+      },
+    });
+  });
+}
+
+export const protectedProcedure = publicProcedure.use(requireAuth(false));
+
+/** Base of the procedures below, which act on one loaded resource */
+const resourceProcedure = publicProcedure.use(requireAuth(true));
+
+type IdField = "id" | "endpointId" | "eventId" | "machineId" | "deliveryId";
+
+/**
+ * Read a resource ID from a procedure's raw input. Resource middleware runs
+ * before input validation, so the ID is checked here.
+ */
+function inputId(input: unknown, field: IdField): string {
+  const value =
+    typeof input === "object" && input !== null
+      ? (input as Record<string, unknown>)[field]
+      : undefined;
+  if (typeof value !== "string" || !value) {
+    throw new ORPCError("BAD_REQUEST", { message: `${field} is required` });
   }
-  return next({
-    context: {
-      session: context.session,
-    },
+  return value;
+}
+
+/**
+ * A procedure on one endpoint, identified by `field` in its input.
+ * The endpoint is loaded and checked against the caller's role for `action`
+ * before the handler runs, and handed to it as `context.endpoint`.
+ */
+export function endpointProcedure(
+  action: EndpointAction,
+  field: IdField = "id"
+) {
+  return resourceProcedure.use(async ({ context, next }, input) => {
+    const endpoint = await authorizeEndpoint(
+      context.session.user.id,
+      inputId(input, field),
+      action
+    );
+    assertGrantCovers(context.token, endpoint.id, "Endpoint not found");
+    return next({ context: { endpoint } });
   });
-});
+}
 
-export const protectedProcedure = publicProcedure.use(requireAuth);
+/** A procedure on one event; the handler gets `context.event` and `context.endpoint` */
+export function eventProcedure(action: EndpointAction, field: IdField = "id") {
+  return resourceProcedure.use(async ({ context, next }, input) => {
+    const authorized = await authorizeEvent(
+      context.session.user.id,
+      inputId(input, field),
+      action
+    );
+    assertGrantCovers(context.token, authorized.endpoint.id, "Event not found");
+    return next({ context: authorized });
+  });
+}
+
+/** A procedure on one machine; the handler gets `context.machine` and `context.endpoint` */
+export function machineProcedure(
+  action: EndpointAction,
+  field: IdField = "id"
+) {
+  return resourceProcedure.use(async ({ context, next }, input) => {
+    const authorized = await authorizeMachine(
+      context.session.user.id,
+      inputId(input, field),
+      action
+    );
+    assertGrantCovers(
+      context.token,
+      authorized.endpoint.id,
+      "Machine not found"
+    );
+    return next({ context: authorized });
+  });
+}
+
+/**
+ * A procedure on one delivery; the handler gets `context.delivery`,
+ * `context.machine` and `context.endpoint`
+ */
+export function deliveryProcedure(
+  action: EndpointAction,
+  field: IdField = "id"
+) {
+  return resourceProcedure.use(async ({ context, next }, input) => {
+    const authorized = await authorizeDelivery(
+      context.session.user.id,
+      inputId(input, field),
+      action
+    );
+    assertGrantCovers(
+      context.token,
+      authorized.endpoint.id,
+      "Delivery not found"
+    );
+    return next({ context: authorized });
+  });
+}
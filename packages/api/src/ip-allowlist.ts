@@ -0,0 +1,237 @@
+import { z } from "zod";
+
+export const IP_ALLOWLIST_PRESETS = ["github", "stripe", "shopify"] as const;
+
+export type IpAllowlistPreset = (typeof IP_ALLOWLIST_PRESETS)[number];
+
+interface PresetRanges {
+  cidrs: string[];
+  /** Where the ranges are published, to check them against when updating */
+  source: string;
+}
+
+/**
+ * Webhook source ranges of the supported providers. Endpoints store preset
+ * names, not the ranges, so updating a list here applies to every endpoint
+ * that uses it.
+ */
+export const PRESET_RANGES: Record<IpAllowlistPreset, PresetRanges> = {
+  github: {
+    source: "https://api.github.com/meta (hooks)",
+    cidrs: [
+      "192.30.252.0/22",
+      "185.199.108.0/22",
+      "140.82.112.0/20",
+      "143.55.64.0/20",
+      "2a0a:a440::/29",
+      "2606:50c0::/32",
+    ],
+  },
+  stripe: {
+    source: "https://stripe.com/files/ips/ips_webhooks.txt",
+    cidrs: [
+      "3.18.12.63/32",
+      "3.130.192.231/32",
+      "13.235.14.237/32",
+      "13.235.122.149/32",
+      "18.211.135.69/32",
+      "35.154.171.200/32",
+      "52.15.183.38/32",
+      "54.88.130.119/32",
+      "54.88.130.237/32",
+      "54.187.174.169/32",
+      "54.187.205.235/32",
+      "54.187.216.72/32",
+    ],
+  },
+  // Shopify publishes no dedicated webhook list; these are the ranges of its
+  // own network (AS62679). Pair the preset with HMAC verification.
+  shopify: {
+    source: "https://bgp.he.net/AS62679#_prefixes",
+    cidrs: ["23.227.32.0/19", "2620:127:f000::/40"],
+  },
+};
+
+const IPV4_PART_RE = /^\d{1,3}$/;
+const IPV6_GROUP_RE = /^[0-9a-f]{1,4}$/i;
+const PREFIX_RE = /^\d{1,3}$/;
+
+function parseIpv4(raw: string): number[] | null {
+  const parts = raw.split(".");
+  if (parts.length !== 4 || !parts.every((part) => IPV4_PART_RE.test(part))) {
+    return null;
+  }
+  const bytes = parts.map(Number);
+  return bytes.every((byte) => byte <= 255) ? bytes : null;
+}
+
+/** Expand one side of a `::` into 16-bit groups */
+function parseIpv6Groups(raw: string): number[] | null {
+  if (raw === "") {
+    return [];
+  }
+  const groups: number[] = [];
+  for (const group of raw.split(":")) {
+    if (!IPV6_GROUP_RE.test(group)) {
+      return null;
+    }
+    groups.push(Number.parseInt(group, 16));
+  }
+  return groups;
+}
+
+function parseIpv6(raw: string): number[] | null {
+  let address = raw.split("%")[0] ?? "";
+  // An embedded IPv4 tail (::ffff:1.2.3.4) becomes the last two groups
+  const lastColon = address.lastIndexOf(":");
+  const tail = address.slice(lastColon + 1);
+  if (tail.includes(".")) {
+    const v4 = parseIpv4(tail);
+    if (!v4) {
+      return null;
+    }
+    const [a = 0, b = 0, c = 0, d = 0] = v4;
+    const high = (a * 256 + b).toString(16);
+    const low = (c * 256 + d).toString(16);
+    address = `${address.slice(0, lastColon + 1)}${high}:${low}`;
+  }
+
+  const sides = address.split("::");
+  if (sides.length > 2) {
+    return null;
+  }
+  const head = parseIpv6Groups(sides[0] ?? "");
+  const rest = sides.length === 2 ? parseIpv6Groups(sides[1] ?? "") : [];
+  if (!(head && rest)) {
+    return null;
+  }
+  const missing = 8 - head.length - rest.length;
+  if (sides.length === 2 ? missing < 1 : missing !== 0) {
+    return null;
+  }
+  const groups = [...head, ...new Array<number>(missing).fill(0), ...rest];
+  return groups.flatMap((group) => [Math.floor(group / 256), group % 256]);
+}
+
+/**
+ * Parse an address into its bytes: 4 for IPv4, 16 for IPv6. IPv4-mapped
+ * IPv6 addresses are treated as the IPv4 address they carry.
+ */
+export function parseIp(raw: string): number[] | null {
+  const trimmed = raw.trim();
+  if (!trimmed.includes(":")) {
+    return parseIpv4(trimmed);
+  }
+  const bytes = parseIpv6(trimmed);
+  if (!bytes) {
+    return null;
+  }
+  const mapped =
+    bytes.slice(0, 10).every((byte) => byte === 0) &&
+    bytes[10] === 255 &&
+    bytes[11] === 255;
+  return mapped ? bytes.slice(12) : bytes;
+}
+
+export interface Cidr {
+  bytes: number[];
+  prefix: number;
+}
+
+/** Parse `address/prefix`; a bare address covers just itself */
+export function parseCidr(raw: string): Cidr | null {
+  const [address = "", prefix, ...rest] = raw.trim().split("/");
+  const bytes = parseIp(address);
+  if (!bytes || rest.length > 0) {
+    return null;
+  }
+  const maxPrefix = bytes.length * 8;
+  if (prefix === undefined) {
+    return { bytes, prefix: maxPrefix };
+  }
+  if (!PREFIX_RE.test(prefix) || Number(prefix) > maxPrefix) {
+    return null;
+  }
+  return { bytes, prefix: Number(prefix) };
+}
+
+export function cidrContains(cidr: Cidr, ip: number[]): boolean {
+  if (cidr.bytes.length !== ip.length) {
+    return false;
+  }
+  let remaining = cidr.prefix;
+  for (let i = 0; i < ip.length && remaining > 0; i++) {
+    const bits = Math.min(8, remaining);
+    const scale = 2 ** (8 - bits);
+    if (
+      Math.floor((ip[i] ?? 0) / scale) !==
+      Math.floor((cidr.bytes[i] ?? 0) / scale)
+    ) {
+      return false;
+    }
+    remaining -= bits;
+  }
+  return true;
+}
+
+export const ipAllowlistSchema = z
+  .array(
+    z
+      .string()
+      .max(64)
+      .refine((value) => parseCidr(value) !== null, "Invalid CIDR")
+  )
+  .max(200);
+
+export const ipAllowlistPresetsSchema = z
+  .array(z.enum(IP_ALLOWLIST_PRESETS))
+  .max(IP_ALLOWLIST_PRESETS.length);
+
+/** Allowlist settings stored on the endpoint row as JSON arrays */
+export interface AllowlistConfig {
+  ipAllowlist: string | null;
+  ipAllowlistPresets: string | null;
+}
+
+function parseJsonArray(raw: string | null): string[] {
+  try {
+    const value: unknown = raw ? JSON.parse(raw) : [];
+    return Array.isArray(value) ? (value as string[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+/** Every CIDR the endpoint allows, with its presets expanded */
+export function allowlistCidrs(config: AllowlistConfig): Cidr[] {
+  const presets = parseJsonArray(config.ipAllowlistPresets).flatMap(
+    (name) => PRESET_RANGES[name as IpAllowlistPreset]?.cidrs ?? []
+  );
+  return [...parseJsonArray(config.ipAllowlist), ...presets]
+    .map(parseCidr)
+    .filter((cidr): cidr is Cidr => cidr !== null);
+}
+
+/**
+ * Why a client may not post to the endpoint, or null when it may. Endpoints
+ * without an allowlist accept every client.
+ */
+export function allowlistBlockReason(
+  config: AllowlistConfig,
+  clientIp: string | null
+): string | null {
+  const cidrs = allowlistCidrs(config);
+  if (cidrs.length === 0) {
+    return null;
+  }
+  if (!clientIp) {
+    return "Client IP unknown";
+  }
+  const ip = parseIp(clientIp);
+  if (!ip) {
+    return `Client IP ${clientIp} is not a valid address`;
+  }
+  return cidrs.some((cidr) => cidrContains(cidr, ip))
+    ? null
+    : `${clientIp} is not in the IP allowlist`;
+}
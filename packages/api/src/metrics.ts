@@ -0,0 +1,329 @@
+import { db } from "@tunnelhook/db";
+import {
+  deliveryMetric,
+  eventMetric,
+  LATENCY_BUCKETS_MS,
+  machine,
+} from "@tunnelhook/db/schema";
+import { and, eq, gte, inArray, lt, sql, sum } from "drizzle-orm";
+
+export const METRIC_RANGES = {
+  "1h": { rangeMs: 3_600_000, bucketMs: 60_000 },
+  "24h": { rangeMs: 86_400_000, bucketMs: 900_000 },
+  "7d": { rangeMs: 604_800_000, bucketMs: 7_200_000 },
+  "30d": { rangeMs: 2_592_000_000, bucketMs: 86_400_000 },
+} as const;
+
+export type MetricRange = keyof typeof METRIC_RANGES;
+
+/** Rollups older than the longest range are deleted by the cron trigger */
+const ROLLUP_RETENTION_MS = METRIC_RANGES["30d"].rangeMs + 86_400_000;
+const MINUTE_MS = 60_000;
+const NO_DURATION = -1;
+
+/** Delivery figures shared by the series points, machines and totals */
+export interface DeliveryStats {
+  delivered: number;
+  /** Failed share of the attempts, 0-1; null without attempts */
+  errorRate: number | null;
+  failed: number;
+  /** Estimated median attempt duration in ms */
+  p50: number | null;
+  /** Estimated 95th percentile attempt duration in ms */
+  p95: number | null;
+}
+
+export interface MetricPoint extends DeliveryStats {
+  blocked: number;
+  received: number;
+  /** Start of the bucket, epoch ms */
+  t: number;
+}
+
+export interface MachineMetrics extends DeliveryStats {
+  machineId: string;
+  machineName: string;
+}
+
+export interface EndpointMetrics {
+  bucketMs: number;
+  from: number;
+  machines: MachineMetrics[];
+  series: MetricPoint[];
+  to: number;
+  totals: DeliveryStats & { blocked: number; received: number };
+}
+
+/** Attempt counts plus a latency histogram indexed like LATENCY_BUCKETS_MS */
+interface DeliveryTally {
+  delivered: number;
+  failed: number;
+  histogram: number[];
+}
+
+function minuteOf(at: number): Date {
+  return new Date(at - (at % MINUTE_MS));
+}
+
+function latencyBucketOf(duration: number | null): number {
+  if (duration === null) {
+    return NO_DURATION;
+  }
+  const index = LATENCY_BUCKETS_MS.findIndex((bound) => duration <= bound);
+  return index === -1 ? LATENCY_BUCKETS_MS.length : index;
+}
+
+/** Count a webhook request in its endpoint's current minute */
+export async function recordEventMetric(
+  endpointId: string,
+  blocked: boolean
+): Promise<void> {
+  await db
+    .insert(eventMetric)
+    .values({
+      id: crypto.randomUUID(),
+      endpointId,
+      bucketStart: minuteOf(Date.now()),
+      received: 1,
+      blocked: blocked ? 1 : 0,
+    })
+    .onConflictDoUpdate({
+      target: [eventMetric.endpointId, eventMetric.bucketStart],
+      set: {
+        received: sql`${eventMetric.received} + 1`,
+        blocked: sql`${eventMetric.blocked} + excluded.blocked`,
+      },
+    });
+}
+
+/** Count a delivery attempt in its machine's current minute */
+export async function recordDeliveryMetric(
+  endpointId: string,
+  machineId: string,
+  attempt: { duration: number | null; status: "delivered" | "failed" }
+): Promise<void> {
+  const delivered = attempt.status === "delivered" ? 1 : 0;
+  await db
+    .insert(deliveryMetric)
+    .values({
+      id: crypto.randomUUID(),
+      endpointId,
+      machineId,
+      bucketStart: minuteOf(Date.now()),
+      latencyBucket: latencyBucketOf(attempt.duration),
+      delivered,
+      failed: 1 - delivered,
+      durationTotal: attempt.duration ?? 0,
+    })
+    .onConflictDoUpdate({
+      target: [
+        deliveryMetric.endpointId,
+        deliveryMetric.bucketStart,
+        deliveryMetric.machineId,
+        deliveryMetric.latencyBucket,
+      ],
+      set: {
+        delivered: sql`${deliveryMetric.delivered} + excluded.delivered`,
+        failed: sql`${deliveryMetric.failed} + excluded.failed`,
+        durationTotal: sql`${deliveryMetric.durationTotal} + excluded.duration_total`,
+      },
+    });
+}
+
+function emptyTally(): DeliveryTally {
+  return {
+    delivered: 0,
+    failed: 0,
+    histogram: new Array<number>(LATENCY_BUCKETS_MS.length + 1).fill(0),
+  };
+}
+
+function addToTally(
+  tally: DeliveryTally,
+  row: { delivered: number; failed: number; latencyBucket: number }
+): void {
+  tally.delivered += row.delivered;
+  tally.failed += row.failed;
+  if (row.latencyBucket !== NO_DURATION) {
+    tally.histogram[row.latencyBucket] =
+      (tally.histogram[row.latencyBucket] ?? 0) + row.delivered + row.failed;
+  }
+}
+
+/**
+ * Estimate a percentile from the histogram, interpolating linearly inside
+ * the bucket it falls in. The overflow bucket reports the last bound.
+ */
+function percentile(histogram: number[], p: number): number | null {
+  const total = histogram.reduce((acc, n) => acc + n, 0);
+  if (total === 0) {
+    return null;
+  }
+  const rank = p * total;
+  let seen = 0;
+  for (const [i, n] of histogram.entries()) {
+    if (n > 0 && seen + n >= rank) {
+      const lower = i === 0 ? 0 : (LATENCY_BUCKETS_MS[i - 1] ?? 0);
+      const upper = LATENCY_BUCKETS_MS[i] ?? lower;
+      return Math.round(lower + ((upper - lower) * (rank - seen)) / n);
+    }
+    seen += n;
+  }
+  return LATENCY_BUCKETS_MS.at(-1) ?? null;
+}
+
+function statsOf(tally: DeliveryTally): DeliveryStats {
+  const attempts = tally.delivered + tally.failed;
+  return {
+    delivered: tally.delivered,
+    failed: tally.failed,
+    errorRate: attempts > 0 ? tally.failed / attempts : null,
+    p50: percentile(tally.histogram, 0.5),
+    p95: percentile(tally.histogram, 0.95),
+  };
+}
+
+function tallyFor<K>(tallies: Map<K, DeliveryTally>, key: K): DeliveryTally {
+  let tally = tallies.get(key);
+  if (!tally) {
+    tally = emptyTally();
+    tallies.set(key, tally);
+  }
+  return tally;
+}
+
+async function eventCounts(
+  endpointId: string,
+  from: Date,
+  bucketMs: number
+): Promise<Map<number, { blocked: number; received: number }>> {
+  const bucket = sql<number>`(${eventMetric.bucketStart} / ${bucketMs}) * ${bucketMs}`;
+  const rows = await db
+    .select({
+      t: bucket,
+      received: sum(eventMetric.received),
+      blocked: sum(eventMetric.blocked),
+    })
+    .from(eventMetric)
+    .where(
+      and(
+        eq(eventMetric.endpointId, endpointId),
+        gte(eventMetric.bucketStart, from)
+      )
+    )
+    .groupBy(bucket);
+
+  // drizzle types SUM() as a string to avoid precision loss
+  return new Map(
+    rows.map((row) => [
+      Number(row.t),
+      {
+        received: Number(row.received ?? 0),
+        blocked: Number(row.blocked ?? 0),
+      },
+    ])
+  );
+}
+
+async function deliveryRows(endpointId: string, from: Date, bucketMs: number) {
+  const bucket = sql<number>`(${deliveryMetric.bucketStart} / ${bucketMs}) * ${bucketMs}`;
+  const rows = await db
+    .select({
+      t: bucket,
+      machineId: deliveryMetric.machineId,
+      latencyBucket: deliveryMetric.latencyBucket,
+      delivered: sum(deliveryMetric.delivered),
+      failed: sum(deliveryMetric.failed),
+    })
+    .from(deliveryMetric)
+    .where(
+      and(
+        eq(deliveryMetric.endpointId, endpointId),
+        gte(deliveryMetric.bucketStart, from)
+      )
+    )
+    .groupBy(bucket, deliveryMetric.machineId, deliveryMetric.latencyBucket);
+
+  return rows.map((row) => ({
+    t: Number(row.t),
+    machineId: String(row.machineId),
+    latencyBucket: Number(row.latencyBucket),
+    delivered: Number(row.delivered ?? 0),
+    failed: Number(row.failed ?? 0),
+  }));
+}
+
+/**
+ * Bucketed request volume, error rate and latency for an endpoint over the
+ * range, plus per-machine figures. Empty buckets are included so the series
+ * can be charted as is. With `machineId`, delivery figures in the series and
+ * totals cover only that machine.
+ */
+export async function getEndpointMetrics(
+  endpointId: string,
+  range: MetricRange,
+  machineId?: string
+): Promise<EndpointMetrics> {
+  const { rangeMs, bucketMs } = METRIC_RANGES[range];
+  const now = Date.now();
+  const to = now - (now % bucketMs) + bucketMs;
+  const from = to - rangeMs;
+
+  const events = await eventCounts(endpointId, new Date(from), bucketMs);
+  const rows = await deliveryRows(endpointId, new Date(from), bucketMs);
+
+  const byBucket = new Map<number, DeliveryTally>();
+  const byMachine = new Map<string, DeliveryTally>();
+  const overall = emptyTally();
+  for (const row of rows) {
+    addToTally(tallyFor(byMachine, row.machineId), row);
+    if (!machineId || row.machineId === machineId) {
+      addToTally(tallyFor(byBucket, row.t), row);
+      addToTally(overall, row);
+    }
+  }
+
+  const series: MetricPoint[] = [];
+  let received = 0;
+  let blocked = 0;
+  for (let t = from; t < to; t += bucketMs) {
+    const counts = events.get(t) ?? { received: 0, blocked: 0 };
+    received += counts.received;
+    blocked += counts.blocked;
+    series.push({
+      t,
+      ...counts,
+      ...statsOf(byBucket.get(t) ?? emptyTally()),
+    });
+  }
+
+  const names = byMachine.size
+    ? await db
+        .select({ id: machine.id, name: machine.name })
+        .from(machine)
+        .where(inArray(machine.id, [...byMachine.keys()]))
+    : [];
+  const machines = names
+    .map((m) => ({
+      machineId: m.id,
+      machineName: m.name,
+      ...statsOf(byMachine.get(m.id) ?? emptyTally()),
+    }))
+    .sort((a, b) => a.machineName.localeCompare(b.machineName));
+
+  return {
+    bucketMs,
+    from,
+    to,
+    series,
+    machines,
+    totals: { received, blocked, ...statsOf(overall) },
+  };
+}
+
+/** Scheduled job: drop rollups older than the longest chartable range */
+export async function pruneMetrics(): Promise<void> {
+  const cutoff = new Date(Date.now() - ROLLUP_RETENTION_MS);
+  await db.delete(eventMetric).where(lt(eventMetric.bucketStart, cutoff));
+  await db.delete(deliveryMetric).where(lt(deliveryMetric.bucketStart, cutoff));
+}
@@ -0,0 +1,255 @@
+import { db } from "@tunnelhook/db";
+import { endpoint, event } from "@tunnelhook/db/schema";
+import {
+  and,
+  asc,
+  count,
+  desc,
+  eq,
+  gt,
+  inArray,
+  isNotNull,
+  lt,
+  or,
+  sum,
+} from "drizzle-orm";
+
+import { deleteEventBlobs } from "./blobs";
+
+/** Retention limits stored on the endpoint row; null means unlimited */
+export interface RetentionPolicy {
+  maxAgeMs: number | null;
+  maxBytes: number | null;
+  maxEvents: number | null;
+}
+
+export interface EndpointUsage {
+  /** Total size of the stored request bodies */
+  bodyBytes: number;
+  events: number;
+}
+
+/** D1 allows at most 100 bound parameters per statement */
+const PRUNE_BATCH = 90;
+/** Rows read per page while finding the events over the byte limit */
+const SCAN_PAGE = 500;
+/** Events deleted per endpoint per run; anything left over waits for the next run */
+const MAX_PRUNED_PER_RUN = 5000;
+
+export function retentionPolicyOf(ep: {
+  retentionMaxAgeMs: number | null;
+  retentionMaxBytes: number | null;
+  retentionMaxEvents: number | null;
+}): RetentionPolicy {
+  return {
+    maxAgeMs: ep.retentionMaxAgeMs,
+    maxBytes: ep.retentionMaxBytes,
+    maxEvents: ep.retentionMaxEvents,
+  };
+}
+
+/** Current storage used by an endpoint's captured events */
+export async function getEndpointUsage(
+  endpointId: string
+): Promise<EndpointUsage> {
+  const [row] = await db
+    .select({
+      events: count(),
+      bodyBytes: sum(event.bodySize),
+    })
+    .from(event)
+    .where(eq(event.endpointId, endpointId));
+
+  // drizzle types SUM() as a string to avoid precision loss
+  return {
+    events: Number(row?.events ?? 0),
+    bodyBytes: Number(row?.bodyBytes ?? 0),
+  };
+}
+
+/**
+ * Delete events (and, by cascade, their deliveries and attempts) plus any
+ * blob-stored bodies, in batches small enough for a single D1 statement.
+ */
+async function deleteEvents(ids: string[]): Promise<void> {
+  for (let i = 0; i < ids.length; i += PRUNE_BATCH) {
+    const batch = ids.slice(i, i + PRUNE_BATCH);
+    const blobs = await db
+      .select({ bodyBlobKey: event.bodyBlobKey })
+      .from(event)
+      .where(and(inArray(event.id, batch), isNotNull(event.bodyBlobKey)));
+
+    await db.delete(event).where(inArray(event.id, batch));
+    await deleteEventBlobs(blobs);
+  }
+}
+
+/** IDs of events older than the cutoff, oldest first */
+async function findExpiredEvents(
+  endpointId: string,
+  maxAgeMs: number,
+  limit: number
+): Promise<string[]> {
+  const cutoff = new Date(Date.now() - maxAgeMs);
+  const rows = await db
+    .select({ id: event.id })
+    .from(event)
+    .where(and(eq(event.endpointId, endpointId), lt(event.createdAt, cutoff)))
+    .orderBy(asc(event.createdAt))
+    .limit(limit);
+  return rows.map((r) => r.id);
+}
+
+/** IDs of events beyond the newest `maxEvents` */
+async function findExcessEvents(
+  endpointId: string,
+  maxEvents: number,
+  limit: number
+): Promise<string[]> {
+  const rows = await db
+    .select({ id: event.id })
+    .from(event)
+    .where(eq(event.endpointId, endpointId))
+    .orderBy(desc(event.createdAt))
+    .limit(limit)
+    .offset(maxEvents);
+  return rows.map((r) => r.id);
+}
+
+/** One page of an endpoint's events, oldest first, after the cursor */
+function loadScanPage(
+  endpointId: string,
+  after: { createdAt: Date; id: string } | null
+) {
+  return db
+    .select({
+      id: event.id,
+      bodySize: event.bodySize,
+      createdAt: event.createdAt,
+    })
+    .from(event)
+    .where(
+      and(
+        eq(event.endpointId, endpointId),
+        after
+          ? or(
+              gt(event.createdAt, after.createdAt),
+              and(eq(event.createdAt, after.createdAt), gt(event.id, after.id))
+            )
+          : undefined
+      )
+    )
+    .orderBy(asc(event.createdAt), asc(event.id))
+    .limit(SCAN_PAGE);
+}
+
+/**
+ * IDs of the oldest events whose bodies push the endpoint over `maxBytes`.
+ * Endpoints within the limit cost a single SUM; otherwise events are walked
+ * oldest first until dropping them brings the total back under the limit.
+ */
+async function findOversizedEvents(
+  endpointId: string,
+  maxBytes: number,
+  limit: number
+): Promise<string[]> {
+  const { bodyBytes } = await getEndpointUsage(endpointId);
+  let excess = bodyBytes - maxBytes;
+  if (excess <= 0) {
+    return [];
+  }
+
+  const ids: string[] = [];
+  let after: { createdAt: Date; id: string } | null = null;
+  while (excess > 0 && ids.length < limit) {
+    const rows = await loadScanPage(endpointId, after);
+    for (const row of rows) {
+      if (excess <= 0 || ids.length >= limit) {
+        break;
+      }
+      ids.push(row.id);
+      excess -= row.bodySize ?? 0;
+    }
+
+    const last = rows.at(-1);
+    if (!last || rows.length < SCAN_PAGE) {
+      break;
+    }
+    after = { createdAt: last.createdAt, id: last.id };
+  }
+
+  return ids;
+}
+
+/**
+ * Prune an endpoint's events down to its retention policy.
+ * Returns the number of events deleted.
+ */
+export async function pruneEndpoint(
+  endpointId: string,
+  policy: RetentionPolicy
+): Promise<number> {
+  let pruned = 0;
+
+  if (policy.maxAgeMs !== null) {
+    const ids = await findExpiredEvents(
+      endpointId,
+      policy.maxAgeMs,
+      MAX_PRUNED_PER_RUN - pruned
+    );
+    await deleteEvents(ids);
+    pruned += ids.length;
+  }
+
+  if (policy.maxEvents !== null && pruned < MAX_PRUNED_PER_RUN) {
+    const ids = await findExcessEvents(
+      endpointId,
+      policy.maxEvents,
+      MAX_PRUNED_PER_RUN - pruned
+    );
+    await deleteEvents(ids);
+    pruned += ids.length;
+  }
+
+  if (policy.maxBytes !== null && pruned < MAX_PRUNED_PER_RUN) {
+    const ids = await findOversizedEvents(
+      endpointId,
+      policy.maxBytes,
+      MAX_PRUNED_PER_RUN - pruned
+    );
+    await deleteEvents(ids);
+    pruned += ids.length;
+  }
+
+  return pruned;
+}
+
+/**
+ * Scheduled job: prune every endpoint that has a retention limit configured.
+ * Errors on one endpoint are logged and do not stop the others.
+ */
+export async function pruneAllEndpoints(): Promise<void> {
+  const endpoints = await db
+    .select({
+      id: endpoint.id,
+      retentionMaxAgeMs: endpoint.retentionMaxAgeMs,
+      retentionMaxBytes: endpoint.retentionMaxBytes,
+      retentionMaxEvents: endpoint.retentionMaxEvents,
+    })
+    .from(endpoint)
+    .where(
+      or(
+        isNotNull(endpoint.retentionMaxAgeMs),
+        isNotNull(endpoint.retentionMaxEvents),
+        isNotNull(endpoint.retentionMaxBytes)
+      )
+    );
+
+  for (const ep of endpoints) {
+    try {
+      await pruneEndpoint(ep.id, retentionPolicyOf(ep));
+    } catch (err) {
+      console.error(`Failed to prune endpoint ${ep.id}:`, err);
+    }
+  }
+}
@@ -0,0 +1,202 @@
+import { ORPCError } from "@orpc/server";
+import { db } from "@tunnelhook/db";
+import {
+  ALERT_CHANNELS,
+  alertHistory,
+  alertRule,
+  endpoint,
+} from "@tunnelhook/db/schema";
+import { and, asc, desc, eq, lt } from "drizzle-orm";
+import { z } from "zod";
+
+import { sendAlertNotification } from "../alerts";
+import { endpointProcedure } from "../index";
+
+/** What a rule watches; only the fields its condition uses are accepted */
+const conditionSchema = z.discriminatedUnion("condition", [
+  z.object({
+    condition: z.literal("consecutive-failures"),
+    /** Failed delivery attempts in a row */
+    threshold: z.number().int().min(1).max(100),
+  }),
+  z.object({
+    condition: z.literal("failure-rate"),
+    /** Percentage of failed delivery attempts */
+    threshold: z.number().int().min(1).max(100),
+    /** 5 minutes to 7 days */
+    windowMs: z.number().int().min(300_000).max(604_800_000),
+  }),
+  z.object({
+    condition: z.literal("no-events"),
+    /** 1 hour to 30 days */
+    windowMs: z.number().int().min(3_600_000).max(2_592_000_000),
+  }),
+]);
+
+const ruleSchema = z
+  .object({
+    endpointId: z.string(),
+    name: z.string().min(1).max(100),
+    channel: z.enum(ALERT_CHANNELS),
+    /** Email address, or the Slack / HTTP callback URL */
+    target: z.string().min(1).max(500),
+    /** 1 minute to 1 day between notifications of a failure rule */
+    cooldownMs: z.number().int().min(60_000).max(86_400_000).optional(),
+    enabled: z.boolean().optional(),
+  })
+  .and(conditionSchema);
+
+type RuleInput = z.infer<typeof ruleSchema>;
+
+const emailSchema = z.email();
+const callbackUrlSchema = z.url({ protocol: /^https?$/ });
+
+function assertValidTarget(input: RuleInput): void {
+  if (input.channel === "email") {
+    if (!emailSchema.safeParse(input.target).success) {
+      throw new ORPCError("BAD_REQUEST", {
+        message: "Target must be an email address",
+      });
+    }
+  } else if (!callbackUrlSchema.safeParse(input.target).success) {
+    throw new ORPCError("BAD_REQUEST", {
+      message: "Target must be an http(s) URL",
+    });
+  }
+}
+
+/** Column values for a rule; fields the condition does not use are cleared */
+function ruleValues(input: RuleInput) {
+  return {
+    name: input.name,
+    channel: input.channel,
+    target: input.target,
+    cooldownMs: input.cooldownMs,
+    enabled: input.enabled,
+    condition: input.condition,
+    threshold: "threshold" in input ? input.threshold : null,
+    windowMs: "windowMs" in input ? input.windowMs : null,
+  };
+}
+
+async function findRule(id: string, endpointId: string) {
+  const rule = await db.query.alertRule.findFirst({
+    where: and(eq(alertRule.id, id), eq(alertRule.endpointId, endpointId)),
+  });
+  if (!rule) {
+    throw new ORPCError("NOT_FOUND", { message: "Alert rule not found" });
+  }
+  return rule;
+}
+
+export const alertRouter = {
+  /** List an endpoint's alert rules */
+  list: endpointProcedure("read", "endpointId")
+    .input(z.object({ endpointId: z.string() }))
+    .handler(async ({ input }) => {
+      return await db.query.alertRule.findMany({
+        where: eq(alertRule.endpointId, input.endpointId),
+        orderBy: [asc(alertRule.createdAt)],
+      });
+    }),
+
+  /** Add an alert rule to an endpoint */
+  create: endpointProcedure("write", "endpointId")
+    .input(ruleSchema)
+    .handler(async ({ input }) => {
+      assertValidTarget(input);
+      const id = crypto.randomUUID();
+      await db.insert(alertRule).values({
+        id,
+        endpointId: input.endpointId,
+        ...ruleValues(input),
+      });
+      return await findRule(id, input.endpointId);
+    }),
+
+  /** Replace an alert rule's settings */
+  update: endpointProcedure("write", "endpointId")
+    .input(ruleSchema.and(z.object({ id: z.string() })))
+    .handler(async ({ input }) => {
+      await findRule(input.id, input.endpointId);
+      assertValidTarget(input);
+      await db
+        .update(alertRule)
+        .set(ruleValues(input))
+        .where(eq(alertRule.id, input.id));
+      return await findRule(input.id, input.endpointId);
+    }),
+
+  /** Delete an alert rule; its history is kept */
+  delete: endpointProcedure("write", "endpointId")
+    .input(z.object({ endpointId: z.string(), id: z.string() }))
+    .handler(async ({ input }) => {
+      await findRule(input.id, input.endpointId);
+      await db.delete(alertRule).where(eq(alertRule.id, input.id));
+      return { success: true };
+    }),
+
+  /** Send a test notification over a rule's channel without recording it */
+  test: endpointProcedure("write", "endpointId")
+    .input(z.object({ endpointId: z.string(), id: z.string() }))
+    .handler(async ({ input }) => {
+      const rule = await findRule(input.id, input.endpointId);
+      const ep = await db.query.endpoint.findFirst({
+        where: eq(endpoint.id, input.endpointId),
+        columns: { id: true, name: true, slug: true },
+      });
+      if (!ep) {
+        throw new ORPCError("NOT_FOUND", { message: "Endpoint not found" });
+      }
+
+      try {
+        await sendAlertNotification(rule, {
+          type: "alert",
+          condition: rule.condition,
+          endpoint: ep,
+          rule: { id: rule.id, name: rule.name },
+          message: "Test notification",
+          triggeredAt: new Date().toISOString(),
+        });
+      } catch (err) {
+        return {
+          sent: false,
+          error: err instanceof Error ? err.message : String(err),
+        };
+      }
+      return { sent: true, error: null };
+    }),
+
+  /** Alerts that fired for an endpoint, newest first, with cursor-based pagination */
+  history: endpointProcedure("read", "endpointId")
+    .input(
+      z.object({
+        endpointId: z.string(),
+        cursor: z.number().optional(),
+        limit: z.number().min(1).max(100).default(50),
+      })
+    )
+    .handler(async ({ input }) => {
+      const conditions = [eq(alertHistory.endpointId, input.endpointId)];
+      if (input.cursor) {
+        conditions.push(lt(alertHistory.createdAt, new Date(input.cursor)));
+      }
+
+      const rows = await db.query.alertHistory.findMany({
+        where: and(...conditions),
+        orderBy: [desc(alertHistory.createdAt)],
+        limit: input.limit + 1,
+      });
+
+      const hasMore = rows.length > input.limit;
+      const items = hasMore ? rows.slice(0, input.limit) : rows;
+      const nextCursor = hasMore
+        ? items.at(-1)?.createdAt.getTime()
+        : undefined;
+
+      return {
+        items,
+        nextCursor,
+      };
+    }),
+};
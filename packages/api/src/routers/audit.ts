@@ -0,0 +1,63 @@
+import { db } from "@tunnelhook/db";
+import { auditLog, user } from "@tunnelhook/db/schema";
+import { and, desc, eq, lt } from "drizzle-orm";
+import { z } from "zod";
+
+import type { AuditChanges } from "../audit";
+import { endpointProcedure } from "../index";
+
+export const auditRouter = {
+  /** List an endpoint's audit log, newest first, with cursor-based pagination */
+  list: endpointProcedure("read", "endpointId")
+    .input(
+      z.object({
+        endpointId: z.string(),
+        cursor: z.number().optional(),
+        limit: z.number().min(1).max(100).default(50),
+      })
+    )
+    .handler(async ({ input }) => {
+      const conditions = [eq(auditLog.endpointId, input.endpointId)];
+      if (input.cursor) {
+        conditions.push(lt(auditLog.createdAt, new Date(input.cursor)));
+      }
+
+      const rows = await db
+        .select({
+          id: auditLog.id,
+          action: auditLog.action,
+          targetType: auditLog.targetType,
+          targetId: auditLog.targetId,
+          changes: auditLog.changes,
+          ip: auditLog.ip,
+          tokenId: auditLog.tokenId,
+          createdAt: auditLog.createdAt,
+          actorId: auditLog.actorId,
+          actorName: user.name,
+          actorEmail: user.email,
+        })
+        .from(auditLog)
+        .leftJoin(user, eq(auditLog.actorId, user.id))
+        .where(and(...conditions))
+        .orderBy(desc(auditLog.createdAt))
+        .limit(input.limit + 1);
+
+      const hasMore = rows.length > input.limit;
+      const items = (hasMore ? rows.slice(0, input.limit) : rows).map(
+        (row) => ({
+          ...row,
+          changes: row.changes
+            ? (JSON.parse(row.changes) as AuditChanges)
+            : null,
+        })
+      );
+      const nextCursor = hasMore
+        ? items.at(-1)?.createdAt.getTime()
+        : undefined;
+
+      return {
+        items,
+        nextCursor,
+      };
+    }),
+};
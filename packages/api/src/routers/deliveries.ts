@@ -1,32 +1,20 @@
 import { db } from "@tunnelhook/db";
-import { delivery, endpoint, event, machine } from "@tunnelhook/db/schema";
-import { desc, eq } from "drizzle-orm";
+import {
+  delivery,
+  deliveryAttempt,
+  event,
+  machine,
+} from "@tunnelhook/db/schema";
+import { asc, desc, eq } from "drizzle-orm";
 import { z } from "zod";
 
-import { protectedProcedure } from "../index";
+import { deliveryProcedure, eventProcedure, machineProcedure } from "../index";
 
 export const deliveryRouter = {
   /** List deliveries for a specific event */
-  listByEvent: protectedProcedure
+  listByEvent: eventProcedure("read", "eventId")
     .input(z.object({ eventId: z.string() }))
-    .handler(async ({ input, context }) => {
-      const userId = context.session.user.id;
-
-      // Verify event ownership through endpoint (separate lookups to avoid drizzle dedup type issues)
-      const ev = await db.query.event.findFirst({
-        where: eq(event.id, input.eventId),
-      });
-      if (!ev) {
-        throw new ORPCError("NOT_FOUND", { message: "Event not found" });
-      }
-
-      const ep = await db.query.endpoint.findFirst({
-        where: eq(endpoint.id, ev.endpointId),
-      });
-      if (!ep || ep.userId !== userId) {
-        throw new ORPCError("NOT_FOUND", { message: "Event not found" });
-      }
-
+    .handler(async ({ input }) => {
       const deliveries = await db
         .select({
           id: delivery.id,
@@ -35,6 +23,7 @@ export const deliveryRouter = {
           status: delivery.status,
           responseStatus: delivery.responseStatus,
           responseBody: delivery.responseBody,
+          responseHeaders: delivery.responseHeaders,
           error: delivery.error,
           duration: delivery.duration,
           createdAt: delivery.createdAt,
@@ -50,24 +39,14 @@ export const deliveryRouter = {
     }),
 
   /** List deliveries for a specific machine */
-  listByMachine: protectedProcedure
+  listByMachine: machineProcedure("read", "machineId")
     .input(
       z.object({
         machineId: z.string(),
         limit: z.number().min(1).max(100).default(50),
       })
     )
-    .handler(async ({ input, context }) => {
-      const userId = context.session.user.id;
-
-      // Verify machine ownership
-      const m = await db.query.machine.findFirst({
-        where: eq(machine.id, input.machineId),
-      });
-      if (!m || m.userId !== userId) {
-        throw new ORPCError("NOT_FOUND", { message: "Machine not found" });
-      }
-
+    .handler(async ({ input }) => {
       const deliveries = await db
         .select({
           id: delivery.id,
@@ -76,6 +55,7 @@ export const deliveryRouter = {
           status: delivery.status,
           responseStatus: delivery.responseStatus,
           responseBody: delivery.responseBody,
+          responseHeaders: delivery.responseHeaders,
           error: delivery.error,
           duration: delivery.duration,
           createdAt: delivery.createdAt,
@@ -93,28 +73,23 @@ export const deliveryRouter = {
     }),
 
   /** Get a single delivery by ID */
-  get: protectedProcedure
+  get: deliveryProcedure("read")
     .input(z.object({ id: z.string() }))
-    .handler(async ({ input, context }) => {
-      const result = await db.query.delivery.findFirst({
-        where: eq(delivery.id, input.id),
-      });
-      if (!result) {
-        throw new ORPCError("NOT_FOUND", { message: "Delivery not found" });
-      }
-
-      // Verify ownership through machine (separate lookup)
-      const m = await db.query.machine.findFirst({
-        where: eq(machine.id, result.machineId),
-      });
-      if (!m || m.userId !== context.session.user.id) {
-        throw new ORPCError("NOT_FOUND", { message: "Delivery not found" });
-      }
-
+    .handler(({ context }) => {
       return {
-        ...result,
-        machineName: m.name,
-        machineForwardUrl: m.forwardUrl,
+        ...context.delivery,
+        machineName: context.machine.name,
+        machineForwardUrl: context.machine.forwardUrl,
       };
     }),
+
+  /** List every attempt made for a delivery, oldest first */
+  listAttempts: deliveryProcedure("read", "deliveryId")
+    .input(z.object({ deliveryId: z.string() }))
+    .handler(({ input }) => {
+      return db.query.deliveryAttempt.findMany({
+        where: eq(deliveryAttempt.deliveryId, input.deliveryId),
+        orderBy: [asc(deliveryAttempt.attempt)],
+      });
+    }),
 };
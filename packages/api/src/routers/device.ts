@@ -0,0 +1,59 @@
+import { ORPCError } from "@orpc/server";
+import { z } from "zod";
+
+import {
+  decideDeviceAuthorization,
+  findPendingDeviceAuthorization,
+} from "../device";
+import { protectedProcedure } from "../index";
+
+async function requirePending(userCode: string) {
+  const request = await findPendingDeviceAuthorization(userCode);
+  if (!request) {
+    throw new ORPCError("NOT_FOUND", {
+      message: "Code not found or expired",
+    });
+  }
+  return request;
+}
+
+const userCodeInput = z.object({ userCode: z.string().min(1).max(20) });
+
+export const deviceRouter = {
+  /** Look up a pending `tunnelhook login` so the user can check it before approving */
+  lookup: protectedProcedure.input(userCodeInput).handler(async ({ input }) => {
+    const request = await requirePending(input.userCode);
+    return {
+      userCode: request.userCode,
+      clientName: request.clientName,
+      createdAt: request.createdAt,
+      expiresAt: request.expiresAt,
+    };
+  }),
+
+  /** Approve a pending login; the CLI receives a token on its next poll */
+  approve: protectedProcedure
+    .input(userCodeInput)
+    .handler(async ({ input, context }) => {
+      const request = await requirePending(input.userCode);
+      await decideDeviceAuthorization(
+        request.id,
+        context.session.user.id,
+        true
+      );
+      return { success: true };
+    }),
+
+  /** Deny a pending login; the CLI stops polling with an error */
+  deny: protectedProcedure
+    .input(userCodeInput)
+    .handler(async ({ input, context }) => {
+      const request = await requirePending(input.userCode);
+      await decideDeviceAuthorization(
+        request.id,
+        context.session.user.id,
+        false
+      );
+      return { success: true };
+    }),
+};
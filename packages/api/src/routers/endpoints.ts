@@ -1,8 +1,19 @@
 import { db } from "@tunnelhook/db";
-import { endpoint } from "@tunnelhook/db/schema";
-import { desc, eq } from "drizzle-orm";
+import { endpoint, event } from "@tunnelhook/db/schema";
+import { and, desc, eq, inArray, isNotNull } from "drizzle-orm";
 import { z } from "zod";
-import { protectedProcedure } from "../index";
+import { diffRecords, recordAudit } from "../audit";
+import {
+  assertOrgAllows,
+  endpointRole,
+  visibleEndpointsCondition,
+} from "../authz";
+import { deleteEventBlobs } from "../blobs";
+import { getRateLimitStats } from "../dispatch";
+import { endpointProcedure, protectedProcedure } from "../index";
+import { ipAllowlistPresetsSchema, ipAllowlistSchema } from "../ip-allowlist";
+import { getEndpointUsage } from "../retention";
+import { withoutVerifierSecret } from "../secrets";
 
 function generateId(): string {
   return crypto.randomUUID();
@@ -17,6 +28,119 @@ function generateSlug(): string {
   return slug;
 }
 
+/** JSON-encode the optional custom response headers */
+function serializeHeaders(
+  headers: Record<string, string> | null | undefined
+): string | null {
+  return headers ? JSON.stringify(headers) : null;
+}
+
+/** Stored as a JSON array; empty lists are stored as null */
+function serializeList(list: string[] | null | undefined): string | null {
+  return list?.length ? JSON.stringify(list) : null;
+}
+
+/** Retry policy inputs shared by create and update */
+const retryMaxAttemptsSchema = z.number().int().min(1).max(10);
+const retryBackoffSchema = z.enum(["fixed", "linear", "exponential"]);
+const retryBaseDelayMsSchema = z.number().int().min(1000).max(3_600_000);
+/** Up to 7 days; 0 disables the offline queue */
+const offlineQueueMaxAgeMsSchema = z.number().int().min(0).max(604_800_000);
+const verifierProviderSchema = z.enum(["stripe", "github", "slack", "svix"]);
+const verifierSecretSchema = z.string().min(1).max(500);
+/** Receiver response: default 202 JSON, a custom template, or a handshake preset */
+const responsePresetSchema = z.enum([
+  "default",
+  "custom",
+  "slack-challenge",
+  "twilio-twiml",
+  "ms-graph-validation",
+]);
+const responseStatusSchema = z.number().int().min(200).max(599);
+const responseHeadersSchema = z.record(z.string(), z.string());
+const responseBodySchema = z.string().max(10_000);
+/** "local" relays the first machine's response instead of answering right away */
+const responseModeSchema = z.enum(["immediate", "local"]);
+const responseTimeoutMsSchema = z.number().int().min(1000).max(30_000);
+/** Retention limits; null removes the limit. Age is between 1 hour and 1 year */
+const retentionMaxAgeMsSchema = z
+  .number()
+  .int()
+  .min(3_600_000)
+  .max(31_536_000_000);
+const retentionMaxEventsSchema = z.number().int().min(1).max(1_000_000);
+const retentionMaxBytesSchema = z
+  .number()
+  .int()
+  .min(1024 * 1024);
+
+interface RetentionInput {
+  retentionMaxAgeMs?: number | null;
+  retentionMaxBytes?: number | null;
+  retentionMaxEvents?: number | null;
+}
+
+/** Retention columns to update, skipping fields left undefined */
+function retentionUpdates(input: RetentionInput): Record<string, unknown> {
+  const updates: Record<string, unknown> = {};
+  if (input.retentionMaxAgeMs !== undefined) {
+    updates.retentionMaxAgeMs = input.retentionMaxAgeMs;
+  }
+  if (input.retentionMaxEvents !== undefined) {
+    updates.retentionMaxEvents = input.retentionMaxEvents;
+  }
+  if (input.retentionMaxBytes !== undefined) {
+    updates.retentionMaxBytes = input.retentionMaxBytes;
+  }
+  return updates;
+}
+
+/** Rate limits: requests accepted at once, and sustained requests per minute */
+const rateLimitBurstSchema = z.number().int().min(1).max(10_000);
+const rateLimitPerMinuteSchema = z.number().int().min(1).max(100_000);
+
+interface RateLimitInput {
+  rateLimitBurst?: number;
+  rateLimitIpBurst?: number;
+  rateLimitIpPerMinute?: number;
+  rateLimitPerMinute?: number;
+}
+
+/** Rate limit columns to update, skipping fields left undefined */
+function rateLimitUpdates(input: RateLimitInput): Record<string, unknown> {
+  const updates: Record<string, unknown> = {};
+  if (input.rateLimitBurst !== undefined) {
+    updates.rateLimitBurst = input.rateLimitBurst;
+  }
+  if (input.rateLimitPerMinute !== undefined) {
+    updates.rateLimitPerMinute = input.rateLimitPerMinute;
+  }
+  if (input.rateLimitIpBurst !== undefined) {
+    updates.rateLimitIpBurst = input.rateLimitIpBurst;
+  }
+  if (input.rateLimitIpPerMinute !== undefined) {
+    updates.rateLimitIpPerMinute = input.rateLimitIpPerMinute;
+  }
+  return updates;
+}
+
+interface AllowlistInput {
+  ipAllowlist?: string[] | null;
+  ipAllowlistPresets?: string[] | null;
+}
+
+/** IP allowlist columns to update, skipping fields left undefined */
+function allowlistUpdates(input: AllowlistInput): Record<string, unknown> {
+  const updates: Record<string, unknown> = {};
+  if (input.ipAllowlist !== undefined) {
+    updates.ipAllowlist = serializeList(input.ipAllowlist);
+  }
+  if (input.ipAllowlistPresets !== undefined) {
+    updates.ipAllowlistPresets = serializeList(input.ipAllowlistPresets);
+  }
+  return updates;
+}
+
 export const endpointRouter = {
   /** Create a new webhook endpoint */
   create: protectedProcedure
@@ -31,6 +155,30 @@ export const endpointRouter = {
           .optional(),
         description: z.string().max(500).optional(),
         forwardUrl: z.url().optional(),
+        retryMaxAttempts: retryMaxAttemptsSchema.optional(),
+        retryBackoff: retryBackoffSchema.optional(),
+        retryBaseDelayMs: retryBaseDelayMsSchema.optional(),
+        offlineQueueMaxAgeMs: offlineQueueMaxAgeMsSchema.optional(),
+        verifierProvider: verifierProviderSchema.optional(),
+        verifierSecret: verifierSecretSchema.optional(),
+        verifierRejectInvalid: z.boolean().optional(),
+        responsePreset: responsePresetSchema.optional(),
+        responseStatus: responseStatusSchema.optional(),
+        responseHeaders: responseHeadersSchema.optional(),
+        responseBody: responseBodySchema.optional(),
+        responseMode: responseModeSchema.optional(),
+        responseTimeoutMs: responseTimeoutMsSchema.optional(),
+        retentionMaxAgeMs: retentionMaxAgeMsSchema.optional(),
+        retentionMaxEvents: retentionMaxEventsSchema.optional(),
+        retentionMaxBytes: retentionMaxBytesSchema.optional(),
+        rateLimitBurst: rateLimitBurstSchema.optional(),
+        rateLimitPerMinute: rateLimitPerMinuteSchema.optional(),
+        rateLimitIpBurst: rateLimitBurstSchema.optional(),
+        rateLimitIpPerMinute: rateLimitPerMinuteSchema.optional(),
+        ipAllowlist: ipAllowlistSchema.optional(),
+        ipAllowlistPresets: ipAllowlistPresetsSchema.optional(),
+        /** Create the endpoint in this organization instead of as a personal endpoint */
+        organizationId: z.string().optional(),
       })
     )
     .handler(async ({ input, context }) => {
@@ -38,6 +186,10 @@ export const endpointRouter = {
       const slug = input.slug ?? generateSlug();
       const userId = context.session.user.id;
 
+      if (input.organizationId) {
+        await assertOrgAllows(userId, input.organizationId, "write");
+      }
+
       await db.insert(endpoint).values({
         id,
         slug,
@@ -45,41 +197,91 @@ export const endpointRouter = {
         description: input.description ?? null,
         forwardUrl: input.forwardUrl ?? null,
         userId,
+        organizationId: input.organizationId ?? null,
         enabled: true,
+        retryMaxAttempts: input.retryMaxAttempts,
+        retryBackoff: input.retryBackoff,
+        retryBaseDelayMs: input.retryBaseDelayMs,
+        offlineQueueMaxAgeMs: input.offlineQueueMaxAgeMs,
+        verifierProvider: input.verifierProvider ?? null,
+        verifierSecret: input.verifierSecret ?? null,
+        verifierRejectInvalid: input.verifierRejectInvalid,
+        responsePreset: input.responsePreset,
+        responseStatus: input.responseStatus ?? null,
+        responseHeaders: serializeHeaders(input.responseHeaders),
+        responseBody: input.responseBody ?? null,
+        responseMode: input.responseMode,
+        responseTimeoutMs: input.responseTimeoutMs,
+        retentionMaxAgeMs: input.retentionMaxAgeMs ?? null,
+        retentionMaxEvents: input.retentionMaxEvents ?? null,
+        retentionMaxBytes: input.retentionMaxBytes ?? null,
+        rateLimitBurst: input.rateLimitBurst,
+        rateLimitPerMinute: input.rateLimitPerMinute,
+        rateLimitIpBurst: input.rateLimitIpBurst,
+        rateLimitIpPerMinute: input.rateLimitIpPerMinute,
+        ipAllowlist: serializeList(input.ipAllowlist),
+        ipAllowlistPresets: serializeList(input.ipAllowlistPresets),
       });
 
       const created = await db.query.endpoint.findFirst({
         where: eq(endpoint.id, id),
       });
+      if (created) {
+        await recordAudit(context, {
+          action: "endpoint.create",
+          endpointId: id,
+          targetType: "endpoint",
+          targetId: id,
+          changes: diffRecords({}, created),
+        });
+      }
 
-      return created;
+      return created && withoutVerifierSecret(created);
     }),
 
-  /** List all endpoints for the current user */
+  /**
+   * List the caller's personal endpoints and those of their organizations
+   * (limited to the token's endpoints for API tokens)
+   */
   list: protectedProcedure.handler(async ({ context }) => {
-    const userId = context.session.user.id;
+    const visible = await visibleEndpointsCondition(context.session.user.id);
+    const tokenEndpointIds = context.token?.endpointIds;
     const endpoints = await db.query.endpoint.findMany({
-      where: eq(endpoint.userId, userId),
+      where: tokenEndpointIds
+        ? and(visible, inArray(endpoint.id, tokenEndpointIds))
+        : visible,
       orderBy: [desc(endpoint.createdAt)],
     });
-    return endpoints;
+    return endpoints.map(withoutVerifierSecret);
   }),
 
   /** Get a single endpoint by ID */
-  get: protectedProcedure
+  get: endpointProcedure("read")
     .input(z.object({ id: z.string() }))
-    .handler(async ({ input, context }) => {
-      const result = await db.query.endpoint.findFirst({
-        where: eq(endpoint.id, input.id),
+    .handler(async ({ context }) => {
+      const result = context.endpoint;
+      // The caller's role lets clients hide actions they aren't allowed to take
+      return {
+        ...withoutVerifierSecret(result),
+        role: await endpointRole(context.session.user.id, result),
+      };
+    }),
+
+  /** The endpoint's signature verification secret, for those who may change it */
+  revealVerifierSecret: endpointProcedure("write")
+    .input(z.object({ id: z.string() }))
+    .handler(async ({ context }) => {
+      await recordAudit(context, {
+        action: "endpoint.revealSecret",
+        endpointId: context.endpoint.id,
+        targetType: "endpoint",
+        targetId: context.endpoint.id,
       });
-      if (!result || result.userId !== context.session.user.id) {
-        throw new ORPCError("NOT_FOUND", { message: "Endpoint not found" });
-      }
-      return result;
+      return { verifierSecret: context.endpoint.verifierSecret };
     }),
 
   /** Update an endpoint */
-  update: protectedProcedure
+  update: endpointProcedure("write")
     .input(
       z.object({
         id: z.string(),
@@ -87,16 +289,31 @@ export const endpointRouter = {
         description: z.string().max(500).optional(),
         forwardUrl: z.url().nullable().optional(),
         enabled: z.boolean().optional(),
+        retryMaxAttempts: retryMaxAttemptsSchema.optional(),
+        retryBackoff: retryBackoffSchema.optional(),
+        retryBaseDelayMs: retryBaseDelayMsSchema.optional(),
+        offlineQueueMaxAgeMs: offlineQueueMaxAgeMsSchema.optional(),
+        verifierProvider: verifierProviderSchema.nullable().optional(),
+        verifierSecret: verifierSecretSchema.nullable().optional(),
+        verifierRejectInvalid: z.boolean().optional(),
+        responsePreset: responsePresetSchema.optional(),
+        responseStatus: responseStatusSchema.nullable().optional(),
+        responseHeaders: responseHeadersSchema.nullable().optional(),
+        responseBody: responseBodySchema.nullable().optional(),
+        responseMode: responseModeSchema.optional(),
+        responseTimeoutMs: responseTimeoutMsSchema.optional(),
+        retentionMaxAgeMs: retentionMaxAgeMsSchema.nullable().optional(),
+        retentionMaxEvents: retentionMaxEventsSchema.nullable().optional(),
+        retentionMaxBytes: retentionMaxBytesSchema.nullable().optional(),
+        rateLimitBurst: rateLimitBurstSchema.optional(),
+        rateLimitPerMinute: rateLimitPerMinuteSchema.optional(),
+        rateLimitIpBurst: rateLimitBurstSchema.optional(),
+        rateLimitIpPerMinute: rateLimitPerMinuteSchema.optional(),
+        ipAllowlist: ipAllowlistSchema.nullable().optional(),
+        ipAllowlistPresets: ipAllowlistPresetsSchema.nullable().optional(),
       })
     )
     .handler(async ({ input, context }) => {
-      const existing = await db.query.endpoint.findFirst({
-        where: eq(endpoint.id, input.id),
-      });
-      if (!existing || existing.userId !== context.session.user.id) {
-        throw new ORPCError("NOT_FOUND", { message: "Endpoint not found" });
-      }
-
       const updates: Record<string, unknown> = {};
       if (input.name !== undefined) {
         updates.name = input.name;
@@ -110,26 +327,146 @@ export const endpointRouter = {
       if (input.enabled !== undefined) {
         updates.enabled = input.enabled;
       }
+      if (input.retryMaxAttempts !== undefined) {
+        updates.retryMaxAttempts = input.retryMaxAttempts;
+      }
+      if (input.retryBackoff !== undefined) {
+        updates.retryBackoff = input.retryBackoff;
+      }
+      if (input.retryBaseDelayMs !== undefined) {
+        updates.retryBaseDelayMs = input.retryBaseDelayMs;
+      }
+      if (input.offlineQueueMaxAgeMs !== undefined) {
+        updates.offlineQueueMaxAgeMs = input.offlineQueueMaxAgeMs;
+      }
+      if (input.verifierProvider !== undefined) {
+        updates.verifierProvider = input.verifierProvider;
+      }
+      if (input.verifierSecret !== undefined) {
+        updates.verifierSecret = input.verifierSecret;
+      }
+      if (input.verifierRejectInvalid !== undefined) {
+        updates.verifierRejectInvalid = input.verifierRejectInvalid;
+      }
+      if (input.responsePreset !== undefined) {
+        updates.responsePreset = input.responsePreset;
+      }
+      if (input.responseStatus !== undefined) {
+        updates.responseStatus = input.responseStatus;
+      }
+      if (input.responseHeaders !== undefined) {
+        updates.responseHeaders = serializeHeaders(input.responseHeaders);
+      }
+      if (input.responseBody !== undefined) {
+        updates.responseBody = input.responseBody;
+      }
+      if (input.responseMode !== undefined) {
+        updates.responseMode = input.responseMode;
+      }
+      if (input.responseTimeoutMs !== undefined) {
+        updates.responseTimeoutMs = input.responseTimeoutMs;
+      }
+      Object.assign(
+        updates,
+        retentionUpdates(input),
+        rateLimitUpdates(input),
+        allowlistUpdates(input)
+      );
 
       await db.update(endpoint).set(updates).where(eq(endpoint.id, input.id));
 
-      return db.query.endpoint.findFirst({
+      const updated = await db.query.endpoint.findFirst({
         where: eq(endpoint.id, input.id),
       });
+      const changes = updated ? diffRecords(context.endpoint, updated) : null;
+      if (changes) {
+        await recordAudit(context, {
+          action: "endpoint.update",
+          endpointId: input.id,
+          targetType: "endpoint",
+          targetId: input.id,
+          changes,
+        });
+      }
+      return updated && withoutVerifierSecret(updated);
+    }),
+
+  /**
+   * Current event count and body storage, for comparison with the retention
+   * limits, and the requests dropped by the rate limits
+   */
+  usage: endpointProcedure("read")
+    .input(z.object({ id: z.string() }))
+    .handler(async ({ input }) => {
+      const [usage, rateLimit] = await Promise.all([
+        getEndpointUsage(input.id),
+        getRateLimitStats(input.id),
+      ]);
+      return { ...usage, ...rateLimit };
     }),
 
   /** Delete an endpoint */
-  delete: protectedProcedure
+  delete: endpointProcedure("admin")
     .input(z.object({ id: z.string() }))
     .handler(async ({ input, context }) => {
-      const existing = await db.query.endpoint.findFirst({
-        where: eq(endpoint.id, input.id),
-      });
-      if (!existing || existing.userId !== context.session.user.id) {
-        throw new ORPCError("NOT_FOUND", { message: "Endpoint not found" });
-      }
+      // Events cascade with the endpoint; their blob bodies must go explicitly
+      const blobs = await db
+        .select({ bodyBlobKey: event.bodyBlobKey })
+        .from(event)
+        .where(
+          and(eq(event.endpointId, input.id), isNotNull(event.bodyBlobKey))
+        );
 
       await db.delete(endpoint).where(eq(endpoint.id, input.id));
+      await deleteEventBlobs(blobs);
+      await recordAudit(context, {
+        action: "endpoint.delete",
+        endpointId: input.id,
+        targetType: "endpoint",
+        targetId: input.id,
+        changes: diffRecords(context.endpoint, {}),
+      });
       return { success: true };
     }),
+
+  /**
+   * Move an endpoint into an organization, or back to a personal endpoint of
+   * the caller (organizationId null). Its URL, events and machines move along.
+   */
+  transfer: endpointProcedure("admin")
+    .input(
+      z.object({
+        id: z.string(),
+        organizationId: z.string().nullable(),
+      })
+    )
+    .handler(async ({ input, context }) => {
+      const userId = context.session.user.id;
+      if (input.organizationId) {
+        await assertOrgAllows(userId, input.organizationId, "write");
+      }
+
+      await db
+        .update(endpoint)
+        .set(
+          input.organizationId
+            ? { organizationId: input.organizationId }
+            : { organizationId: null, userId }
+        )
+        .where(eq(endpoint.id, input.id));
+
+      const transferred = await db.query.endpoint.findFirst({
+        where: eq(endpoint.id, input.id),
+      });
+      if (transferred) {
+        await recordAudit(context, {
+          action: "endpoint.transfer",
+          endpointId: input.id,
+          targetType: "endpoint",
+          targetId: input.id,
+          changes: diffRecords(context.endpoint, transferred),
+        });
+      }
+      return transferred && withoutVerifierSecret(transferred);
+    }),
 };
@@ -1,13 +1,20 @@
+import { ORPCError } from "@orpc/server";
 import { db } from "@tunnelhook/db";
-import { endpoint, event } from "@tunnelhook/db/schema";
-import { and, desc, eq, lt } from "drizzle-orm";
+import { event, machine } from "@tunnelhook/db/schema";
+import { and, desc, eq, isNotNull, lt } from "drizzle-orm";
 import { z } from "zod";
 
-import { protectedProcedure } from "../index";
+import { recordAudit } from "../audit";
+import { deleteEventBlobs } from "../blobs";
+import { broadcastToMachines, forwardToUrl, toBodyBlobRef } from "../dispatch";
+import { endpointProcedure, eventProcedure } from "../index";
+import { getEndpointUsage } from "../retention";
+import { eventSearchConditions, eventSearchSchema } from "../search";
+import { withoutVerifierSecret } from "../secrets";
 
 export const eventRouter = {
   /** List events for an endpoint with cursor-based pagination */
-  list: protectedProcedure
+  list: endpointProcedure("read", "endpointId")
     .input(
       z.object({
         endpointId: z.string(),
@@ -15,15 +22,7 @@ export const eventRouter = {
         limit: z.number().min(1).max(100).default(50),
       })
     )
-    .handler(async ({ input, context }) => {
-      // Verify endpoint ownership
-      const ep = await db.query.endpoint.findFirst({
-        where: eq(endpoint.id, input.endpointId),
-      });
-      if (!ep || ep.userId !== context.session.user.id) {
-        throw new ORPCError("NOT_FOUND", { message: "Endpoint not found" });
-      }
-
+    .handler(async ({ input }) => {
       const conditions = [eq(event.endpointId, input.endpointId)];
       if (input.cursor) {
         conditions.push(lt(event.createdAt, input.cursor));
@@ -45,48 +44,162 @@ export const eventRouter = {
       };
     }),
 
+  /** Search an endpoint's events by request fields, delivery status and body text */
+  search: endpointProcedure("read", "endpointId")
+    .input(eventSearchSchema)
+    .handler(async ({ input }) => {
+      const events = await db.query.event.findMany({
+        where: and(...eventSearchConditions(input)),
+        orderBy: [desc(event.createdAt)],
+        limit: input.limit + 1,
+      });
+
+      const hasMore = events.length > input.limit;
+      const items = hasMore ? events.slice(0, input.limit) : events;
+      const nextCursor = hasMore ? items.at(-1)?.createdAt : undefined;
+
+      return {
+        items,
+        nextCursor,
+      };
+    }),
+
   /** Get a single event by ID */
-  get: protectedProcedure
+  get: eventProcedure("read")
     .input(z.object({ id: z.string() }))
-    .handler(async ({ input, context }) => {
-      const result = await db.query.event.findFirst({
-        where: eq(event.id, input.id),
-        with: { endpoint: true },
-      });
-      if (!result || result.endpoint.userId !== context.session.user.id) {
-        throw new ORPCError("NOT_FOUND", { message: "Event not found" });
-      }
-      return result;
+    .handler(({ context }) => {
+      return {
+        ...context.event,
+        endpoint: withoutVerifierSecret(context.endpoint),
+      };
     }),
 
   /** Delete an event */
-  delete: protectedProcedure
+  delete: eventProcedure("write")
     .input(z.object({ id: z.string() }))
     .handler(async ({ input, context }) => {
-      const result = await db.query.event.findFirst({
-        where: eq(event.id, input.id),
-        with: { endpoint: true },
-      });
-      if (!result || result.endpoint.userId !== context.session.user.id) {
-        throw new ORPCError("NOT_FOUND", { message: "Event not found" });
-      }
-
       await db.delete(event).where(eq(event.id, input.id));
+      await deleteEventBlobs([context.event]);
+      await recordAudit(context, {
+        action: "event.delete",
+        endpointId: context.endpoint.id,
+        targetType: "event",
+        targetId: input.id,
+      });
       return { success: true };
     }),
 
   /** Clear all events for an endpoint */
-  clear: protectedProcedure
+  clear: endpointProcedure("write", "endpointId")
     .input(z.object({ endpointId: z.string() }))
     .handler(async ({ input, context }) => {
-      const ep = await db.query.endpoint.findFirst({
-        where: eq(endpoint.id, input.endpointId),
-      });
-      if (!ep || ep.userId !== context.session.user.id) {
-        throw new ORPCError("NOT_FOUND", { message: "Endpoint not found" });
-      }
+      const { events: cleared } = await getEndpointUsage(input.endpointId);
+      const blobs = await db
+        .select({ bodyBlobKey: event.bodyBlobKey })
+        .from(event)
+        .where(
+          and(
+            eq(event.endpointId, input.endpointId),
+            isNotNull(event.bodyBlobKey)
+          )
+        );
 
       await db.delete(event).where(eq(event.endpointId, input.endpointId));
+      await deleteEventBlobs(blobs);
+      await recordAudit(context, {
+        action: "events.clear",
+        endpointId: input.endpointId,
+        targetType: "endpoint",
+        targetId: input.endpointId,
+        changes: { events: { before: cleared, after: 0 } },
+      });
       return { success: true };
     }),
+
+  /**
+   * Replay a stored event. Creates fresh delivery records and broadcasts it
+   * through the endpoint's DO, and re-sends it to the static forward URL.
+   * Pass a target to replay to a single machine or only to the forward URL.
+   */
+  replay: eventProcedure("listen")
+    .input(
+      z.object({
+        id: z.string(),
+        target: z
+          .discriminatedUnion("type", [
+            z.object({ type: z.literal("machine"), machineId: z.string() }),
+            z.object({ type: z.literal("forward") }),
+          ])
+          .optional(),
+      })
+    )
+    .handler(async ({ input, context }) => {
+      const { event: result, endpoint: ep } = context;
+      const target = input.target;
+
+      if (result.blockedReason) {
+        throw new ORPCError("BAD_REQUEST", {
+          message: "Blocked events cannot be replayed",
+        });
+      }
+
+      if (target?.type === "machine") {
+        const m = await db.query.machine.findFirst({
+          where: eq(machine.id, target.machineId),
+        });
+        if (!m || m.endpointId !== ep.id) {
+          throw new ORPCError("NOT_FOUND", { message: "Machine not found" });
+        }
+      }
+
+      if (target?.type === "forward" && !ep.forwardUrl) {
+        throw new ORPCError("BAD_REQUEST", {
+          message: "Endpoint has no forward URL",
+        });
+      }
+
+      let headers: Record<string, string> = {};
+      try {
+        headers = JSON.parse(result.headers) as Record<string, string>;
+      } catch {
+        // Use empty headers
+      }
+
+      const eventData = {
+        id: result.id,
+        method: result.method,
+        headers,
+        body: result.body,
+        bodyBlob: toBodyBlobRef(result),
+        path: result.path,
+        query: result.query,
+        sourceIp: result.sourceIp,
+        contentType: result.contentType,
+        signatureStatus: result.signatureStatus,
+        createdAt: result.createdAt.toISOString(),
+      };
+
+      let deliveries = 0;
+      if (target?.type !== "forward") {
+        deliveries = await broadcastToMachines(
+          ep.id,
+          eventData,
+          target?.type === "machine" ? [target.machineId] : undefined
+        );
+      }
+
+      let forwarded = false;
+      if (target?.type !== "machine" && ep.forwardUrl) {
+        await forwardToUrl(ep, ep.forwardUrl, eventData);
+        forwarded = true;
+      }
+
+      await recordAudit(context, {
+        action: "event.replay",
+        endpointId: ep.id,
+        targetType: "event",
+        targetId: result.id,
+      });
+      return { deliveries, forwarded };
+    }),
 };
@@ -1,10 +1,16 @@
 import type { RouterClient } from "@orpc/server";
 
 import { protectedProcedure, publicProcedure } from "../index";
+import { alertRouter } from "./alerts";
+import { auditRouter } from "./audit";
 import { deliveryRouter } from "./deliveries";
+import { deviceRouter } from "./device";
 import { endpointRouter } from "./endpoints";
 import { eventRouter } from "./events";
 import { machineRouter } from "./machines";
+import { metricsRouter } from "./metrics";
+import { organizationRouter } from "./organizations";
+import { tokenRouter } from "./tokens";
 
 export const appRouter = {
   healthCheck: publicProcedure.handler(() => {
@@ -20,6 +26,12 @@ export const appRouter = {
   events: eventRouter,
   machines: machineRouter,
   deliveries: deliveryRouter,
+  audit: auditRouter,
+  alerts: alertRouter,
+  metrics: metricsRouter,
+  organizations: organizationRouter,
+  tokens: tokenRouter,
+  device: deviceRouter,
 };
 export type AppRouter = typeof appRouter;
 export type AppRouterClient = RouterClient<typeof appRouter>;
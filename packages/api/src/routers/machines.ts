@@ -1,31 +1,102 @@
+import { ORPCError } from "@orpc/server";
 import { db } from "@tunnelhook/db";
-import { delivery, endpoint, machine } from "@tunnelhook/db/schema";
+import { delivery, machine } from "@tunnelhook/db/schema";
 import { eq } from "drizzle-orm";
 import { z } from "zod";
 
-import { protectedProcedure } from "../index";
+import { diffRecords, recordAudit } from "../audit";
+import { eventFiltersSchema } from "../filters";
+import {
+  deliveryProcedure,
+  endpointProcedure,
+  machineProcedure,
+} from "../index";
+import { withoutSigningSecret } from "../secrets";
+
+const signingSchemeSchema = z.enum(["stripe", "github", "slack", "standard"]);
+const signingSecretSchema = z.string().min(1).max(500);
+
+/** rewrite-path patterns are compiled and run by the CLI on every request */
+const MAX_PATH_PATTERN_LENGTH = 500;
+
+function isValidRegExp(pattern: string): boolean {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** One step of a machine's request transform pipeline, applied in order by the CLI */
+const requestTransformSchema = z.discriminatedUnion("op", [
+  z.object({
+    op: z.literal("set-header"),
+    name: z.string().min(1),
+    value: z.string(),
+  }),
+  z.object({ op: z.literal("remove-header"), name: z.string().min(1) }),
+  z.object({
+    op: z.literal("rename-header"),
+    from: z.string().min(1),
+    to: z.string().min(1),
+  }),
+  z.object({
+    op: z.literal("rewrite-path"),
+    pattern: z
+      .string()
+      .min(1)
+      .max(MAX_PATH_PATTERN_LENGTH)
+      .refine(isValidRegExp, "Invalid regular expression"),
+    replacement: z.string(),
+  }),
+  z.object({
+    op: z.literal("json-set"),
+    path: z.string().startsWith("$"),
+    value: z.unknown(),
+  }),
+  z.object({ op: z.literal("json-delete"), path: z.string().startsWith("$") }),
+  z.object({ op: z.literal("form-to-json") }),
+  z.object({ op: z.literal("json-to-form") }),
+]);
+const transformsSchema = z.array(requestTransformSchema).max(50);
+
+/**
+ * A routing rule: every given condition must match. The first matching rule
+ * picks the local URL; otherwise the machine's forwardUrl is used.
+ */
+const routeRuleSchema = z.object({
+  method: z.string().min(1).max(10).optional(),
+  /** Sub-path under /hooks/:slug; `*` matches any run of characters */
+  path: z.string().startsWith("/").optional(),
+  header: z.object({ name: z.string().min(1), value: z.string() }).optional(),
+  jsonField: z
+    .object({
+      path: z.string().startsWith("$"),
+      equals: z.union([z.string(), z.number(), z.boolean(), z.null()]),
+    })
+    .optional(),
+  forwardUrl: z.url(),
+});
+const routesSchema = z.array(routeRuleSchema).max(50);
 
 export const machineRouter = {
   /** Register a new machine for an endpoint */
-  register: protectedProcedure
+  register: endpointProcedure("listen", "endpointId")
     .input(
       z.object({
         endpointId: z.string(),
         name: z.string().min(1).max(100),
         forwardUrl: z.url(),
+        signingScheme: signingSchemeSchema.optional(),
+        signingSecret: signingSecretSchema.optional(),
+        transforms: transformsSchema.optional(),
+        routes: routesSchema.optional(),
+        filters: eventFiltersSchema.optional(),
       })
     )
     .handler(async ({ input, context }) => {
       const userId = context.session.user.id;
-
-      // Verify endpoint ownership
-      const ep = await db.query.endpoint.findFirst({
-        where: eq(endpoint.id, input.endpointId),
-      });
-      if (!ep || ep.userId !== userId) {
-        throw new ORPCError("NOT_FOUND", { message: "Endpoint not found" });
-      }
-
       const id = crypto.randomUUID();
 
       await db.insert(machine).values({
@@ -34,67 +105,81 @@ export const machineRouter = {
         endpointId: input.endpointId,
         userId,
         forwardUrl: input.forwardUrl,
+        signingScheme: input.signingScheme ?? null,
+        signingSecret: input.signingSecret ?? null,
+        transforms: input.transforms?.length
+          ? JSON.stringify(input.transforms)
+          : null,
+        routes: input.routes?.length ? JSON.stringify(input.routes) : null,
+        filters: input.filters?.length ? JSON.stringify(input.filters) : null,
         status: "offline",
       });
 
       const created = await db.query.machine.findFirst({
         where: eq(machine.id, id),
       });
+      if (created) {
+        await recordAudit(context, {
+          action: "machine.register",
+          endpointId: input.endpointId,
+          targetType: "machine",
+          targetId: id,
+          changes: diffRecords({}, created),
+        });
+      }
 
-      return created;
+      return created && withoutSigningSecret(created);
     }),
 
   /** List machines for an endpoint */
-  list: protectedProcedure
+  list: endpointProcedure("read", "endpointId")
     .input(z.object({ endpointId: z.string() }))
-    .handler(async ({ input, context }) => {
-      const userId = context.session.user.id;
-
-      // Verify endpoint ownership
-      const ep = await db.query.endpoint.findFirst({
-        where: eq(endpoint.id, input.endpointId),
-      });
-      if (!ep || ep.userId !== userId) {
-        throw new ORPCError("NOT_FOUND", { message: "Endpoint not found" });
-      }
-
+    .handler(async ({ input }) => {
       const machines = await db.query.machine.findMany({
         where: eq(machine.endpointId, input.endpointId),
       });
 
-      return machines;
+      return machines.map(withoutSigningSecret);
     }),
 
   /** Get a single machine */
-  get: protectedProcedure
+  get: machineProcedure("read")
     .input(z.object({ id: z.string() }))
-    .handler(async ({ input, context }) => {
-      const result = await db.query.machine.findFirst({
-        where: eq(machine.id, input.id),
+    .handler(({ context }) => {
+      return withoutSigningSecret(context.machine);
+    }),
+
+  /**
+   * The machine's signing secret, for its owner (so the CLI can re-sign
+   * requests) and those who may change other people's machines
+   */
+  revealSigningSecret: machineProcedure("write")
+    .input(z.object({ id: z.string() }))
+    .handler(async ({ context }) => {
+      await recordAudit(context, {
+        action: "machine.revealSecret",
+        endpointId: context.endpoint.id,
+        targetType: "machine",
+        targetId: context.machine.id,
       });
-      if (!result || result.userId !== context.session.user.id) {
-        throw new ORPCError("NOT_FOUND", { message: "Machine not found" });
-      }
-      return result;
+      return { signingSecret: context.machine.signingSecret };
     }),
 
   /** Update a machine */
-  update: protectedProcedure
+  update: machineProcedure("write")
     .input(
       z.object({
         id: z.string(),
         name: z.string().min(1).max(100).optional(),
         forwardUrl: z.url().optional(),
+        signingScheme: signingSchemeSchema.nullable().optional(),
+        signingSecret: signingSecretSchema.nullable().optional(),
+        transforms: transformsSchema.nullable().optional(),
+        routes: routesSchema.nullable().optional(),
+        filters: eventFiltersSchema.nullable().optional(),
       })
     )
     .handler(async ({ input, context }) => {
-      const existing = await db.query.machine.findFirst({
-        where: eq(machine.id, input.id),
-      });
-      if (!existing || existing.userId !== context.session.user.id) {
-        throw new ORPCError("NOT_FOUND", { message: "Machine not found" });
-      }
-
       const updates: Record<string, unknown> = {};
       if (input.name !== undefined) {
         updates.name = input.name;
@@ -102,54 +187,77 @@ export const machineRouter = {
       if (input.forwardUrl !== undefined) {
         updates.forwardUrl = input.forwardUrl;
       }
+      if (input.signingScheme !== undefined) {
+        updates.signingScheme = input.signingScheme;
+      }
+      if (input.signingSecret !== undefined) {
+        updates.signingSecret = input.signingSecret;
+      }
+      if (input.transforms !== undefined) {
+        updates.transforms = input.transforms?.length
+          ? JSON.stringify(input.transforms)
+          : null;
+      }
+      if (input.routes !== undefined) {
+        updates.routes = input.routes?.length
+          ? JSON.stringify(input.routes)
+          : null;
+      }
+      if (input.filters !== undefined) {
+        updates.filters = input.filters?.length
+          ? JSON.stringify(input.filters)
+          : null;
+      }
 
       await db.update(machine).set(updates).where(eq(machine.id, input.id));
 
-      return db.query.machine.findFirst({
+      const updated = await db.query.machine.findFirst({
         where: eq(machine.id, input.id),
       });
+      const changes = updated ? diffRecords(context.machine, updated) : null;
+      if (changes) {
+        await recordAudit(context, {
+          action: "machine.update",
+          endpointId: context.endpoint.id,
+          targetType: "machine",
+          targetId: input.id,
+          changes,
+        });
+      }
+      return updated && withoutSigningSecret(updated);
     }),
 
   /** Delete a machine */
-  delete: protectedProcedure
+  delete: machineProcedure("write")
     .input(z.object({ id: z.string() }))
     .handler(async ({ input, context }) => {
-      const existing = await db.query.machine.findFirst({
-        where: eq(machine.id, input.id),
-      });
-      if (!existing || existing.userId !== context.session.user.id) {
-        throw new ORPCError("NOT_FOUND", { message: "Machine not found" });
-      }
-
       await db.delete(machine).where(eq(machine.id, input.id));
+      await recordAudit(context, {
+        action: "machine.delete",
+        endpointId: context.endpoint.id,
+        targetType: "machine",
+        targetId: input.id,
+        changes: diffRecords(context.machine, {}),
+      });
       return { success: true };
     }),
 
   /** Report a delivery result (called by TUI/CLI after forwarding locally) */
-  reportDelivery: protectedProcedure
+  reportDelivery: deliveryProcedure("listen", "deliveryId")
     .input(
       z.object({
         deliveryId: z.string(),
         status: z.enum(["delivered", "failed"]),
         responseStatus: z.number().nullable(),
         responseBody: z.string().max(10_000).nullable(),
+        responseHeaders: z.record(z.string(), z.string()).nullable().optional(),
         error: z.string().max(2000).nullable(),
         duration: z.number().nullable(),
       })
     )
     .handler(async ({ input, context }) => {
-      const existing = await db.query.delivery.findFirst({
-        where: eq(delivery.id, input.deliveryId),
-      });
-      if (!existing) {
-        throw new ORPCError("NOT_FOUND", { message: "Delivery not found" });
-      }
-
-      // Verify ownership through machine (separate lookup to avoid drizzle dedup type issues)
-      const m = await db.query.machine.findFirst({
-        where: eq(machine.id, existing.machineId),
-      });
-      if (!m || m.userId !== context.session.user.id) {
+      // Only the machine that received the event reports on it
+      if (context.machine.userId !== context.session.user.id) {
         throw new ORPCError("NOT_FOUND", { message: "Delivery not found" });
       }
 
@@ -159,6 +267,9 @@ export const machineRouter = {
           status: input.status,
           responseStatus: input.responseStatus,
           responseBody: input.responseBody,
+          responseHeaders: input.responseHeaders
+            ? JSON.stringify(input.responseHeaders)
+            : null,
           error: input.error,
           duration: input.duration,
         })
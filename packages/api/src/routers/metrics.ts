@@ -0,0 +1,35 @@
+import { z } from "zod";
+
+import { endpointProcedure } from "../index";
+import {
+  getEndpointMetrics,
+  METRIC_RANGES,
+  type MetricRange,
+} from "../metrics";
+
+const rangeSchema = z.enum(
+  Object.keys(METRIC_RANGES) as [MetricRange, ...MetricRange[]]
+);
+
+export const metricsRouter = {
+  /**
+   * Request volume, delivery error rate and p50/p95 latency for an endpoint,
+   * bucketed over the range, plus the same delivery figures per machine
+   */
+  endpoint: endpointProcedure("read", "endpointId")
+    .input(
+      z.object({
+        endpointId: z.string(),
+        range: rangeSchema.default("24h"),
+        /** Limit the series' delivery figures to one machine */
+        machineId: z.string().optional(),
+      })
+    )
+    .handler(async ({ input }) => {
+      return await getEndpointMetrics(
+        input.endpointId,
+        input.range,
+        input.machineId
+      );
+    }),
+};
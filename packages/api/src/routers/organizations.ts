@@ -0,0 +1,450 @@
+import { ORPCError } from "@orpc/server";
+import { db } from "@tunnelhook/db";
+import {
+  endpoint,
+  event,
+  invitation,
+  member,
+  ORG_ROLES,
+  organization,
+  user,
+} from "@tunnelhook/db/schema";
+import { and, asc, desc, eq, gt, inArray, isNotNull } from "drizzle-orm";
+import { z } from "zod";
+
+import { assertOrgAllows, type OrgRole } from "../authz";
+import { deleteEventBlobs } from "../blobs";
+import { protectedProcedure } from "../index";
+
+const INVITATION_TTL_MS = 7 * 86_400_000;
+const SLUG_SEPARATOR_RE = /[^a-z0-9]+/g;
+const SLUG_TRIM_RE = /^-+|-+$/g;
+
+function generateId(): string {
+  return crypto.randomUUID();
+}
+
+/** URL-safe slug from the org name, with a random suffix so names can repeat */
+function generateOrgSlug(name: string): string {
+  const base = name
+    .toLowerCase()
+    .replace(SLUG_SEPARATOR_RE, "-")
+    .replace(SLUG_TRIM_RE, "")
+    .slice(0, 40);
+  const suffix = crypto.randomUUID().slice(0, 6);
+  return base ? `${base}-${suffix}` : suffix;
+}
+
+const roleSchema = z.enum(ORG_ROLES);
+
+/** Only owners may hand out or take away the owner role */
+function assertCanGrant(callerRole: OrgRole, role: OrgRole) {
+  if (role === "owner" && callerRole !== "owner") {
+    throw new ORPCError("FORBIDDEN", {
+      message: "Only owners can manage owners",
+    });
+  }
+}
+
+async function findMember(organizationId: string, userId: string) {
+  const row = await db.query.member.findFirst({
+    where: and(
+      eq(member.organizationId, organizationId),
+      eq(member.userId, userId)
+    ),
+  });
+  if (!row) {
+    throw new ORPCError("NOT_FOUND", { message: "Member not found" });
+  }
+  return row;
+}
+
+/** Refuse to remove or demote the organization's last owner */
+async function assertNotLastOwner(organizationId: string, userId: string) {
+  const owners = await db
+    .select({ userId: member.userId })
+    .from(member)
+    .where(
+      and(eq(member.organizationId, organizationId), eq(member.role, "owner"))
+    );
+  if (owners.length === 1 && owners[0]?.userId === userId) {
+    throw new ORPCError("BAD_REQUEST", {
+      message: "An organization needs at least one owner",
+    });
+  }
+}
+
+/**
+ * The caller's email, once they have proven they own it. Sign-up doesn't
+ * check addresses, so invitations are matched only against verified ones.
+ */
+function verifiedEmail(user: { email: string; emailVerified: boolean }) {
+  if (!user.emailVerified) {
+    throw new ORPCError("FORBIDDEN", {
+      message: "Verify your email address to see invitations sent to it",
+    });
+  }
+  return user.email;
+}
+
+/** Load a pending, unexpired invitation addressed to the caller */
+async function findMyInvitation(id: string, email: string) {
+  const row = await db.query.invitation.findFirst({
+    where: eq(invitation.id, id),
+  });
+  if (
+    !row ||
+    row.email !== email.toLowerCase() ||
+    row.status !== "pending" ||
+    row.expiresAt.getTime() < Date.now()
+  ) {
+    throw new ORPCError("NOT_FOUND", { message: "Invitation not found" });
+  }
+  return row;
+}
+
+export const organizationRouter = {
+  /** List the caller's organizations with their role in each */
+  list: protectedProcedure.handler(async ({ context }) => {
+    return await db
+      .select({
+        id: organization.id,
+        name: organization.name,
+        slug: organization.slug,
+        createdAt: organization.createdAt,
+        role: member.role,
+      })
+      .from(member)
+      .innerJoin(organization, eq(organization.id, member.organizationId))
+      .where(eq(member.userId, context.session.user.id))
+      .orderBy(asc(organization.name));
+  }),
+
+  /** Create an organization; the caller becomes its owner */
+  create: protectedProcedure
+    .input(z.object({ name: z.string().min(1).max(100) }))
+    .handler(async ({ input, context }) => {
+      const id = generateId();
+      await db.insert(organization).values({
+        id,
+        name: input.name,
+        slug: generateOrgSlug(input.name),
+      });
+      await db.insert(member).values({
+        id: generateId(),
+        organizationId: id,
+        userId: context.session.user.id,
+        role: "owner",
+      });
+
+      return db.query.organization.findFirst({
+        where: eq(organization.id, id),
+      });
+    }),
+
+  /** Get an organization with its members and pending invitations */
+  get: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .handler(async ({ input, context }) => {
+      const role = await assertOrgAllows(
+        context.session.user.id,
+        input.id,
+        "read"
+      );
+      const org = await db.query.organization.findFirst({
+        where: eq(organization.id, input.id),
+      });
+      if (!org) {
+        throw new ORPCError("NOT_FOUND", {
+          message: "Organization not found",
+        });
+      }
+
+      const members = await db
+        .select({
+          userId: member.userId,
+          role: member.role,
+          name: user.name,
+          email: user.email,
+          createdAt: member.createdAt,
+        })
+        .from(member)
+        .innerJoin(user, eq(user.id, member.userId))
+        .where(eq(member.organizationId, input.id))
+        .orderBy(asc(member.createdAt));
+
+      const invitations = await db.query.invitation.findMany({
+        where: and(
+          eq(invitation.organizationId, input.id),
+          eq(invitation.status, "pending"),
+          gt(invitation.expiresAt, new Date())
+        ),
+        orderBy: [desc(invitation.createdAt)],
+      });
+
+      return { ...org, role, members, invitations };
+    }),
+
+  /** Rename an organization (owner/admin) */
+  update: protectedProcedure
+    .input(z.object({ id: z.string(), name: z.string().min(1).max(100) }))
+    .handler(async ({ input, context }) => {
+      await assertOrgAllows(context.session.user.id, input.id, "admin");
+      await db
+        .update(organization)
+        .set({ name: input.name })
+        .where(eq(organization.id, input.id));
+      return { success: true };
+    }),
+
+  /** Delete an organization together with its endpoints (owner only) */
+  delete: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .handler(async ({ input, context }) => {
+      const role = await assertOrgAllows(
+        context.session.user.id,
+        input.id,
+        "admin"
+      );
+      if (role !== "owner") {
+        throw new ORPCError("FORBIDDEN", {
+          message: "Only owners can delete an organization",
+        });
+      }
+
+      const endpoints = await db
+        .select({ id: endpoint.id })
+        .from(endpoint)
+        .where(eq(endpoint.organizationId, input.id));
+      const endpointIds = endpoints.map((ep) => ep.id);
+
+      // Events cascade with their endpoints, but blob-stored bodies live outside D1
+      const blobs =
+        endpointIds.length > 0
+          ? await db
+              .select({ id: event.id, bodyBlobKey: event.bodyBlobKey })
+              .from(event)
+              .where(
+                and(
+                  inArray(event.endpointId, endpointIds),
+                  isNotNull(event.bodyBlobKey)
+                )
+              )
+          : [];
+
+      if (endpointIds.length > 0) {
+        await db.delete(endpoint).where(inArray(endpoint.id, endpointIds));
+      }
+      await db.delete(organization).where(eq(organization.id, input.id));
+      await deleteEventBlobs(blobs);
+      return { success: true };
+    }),
+
+  /** Invite someone by email (owner/admin); they accept from their dashboard */
+  invite: protectedProcedure
+    .input(
+      z.object({
+        organizationId: z.string(),
+        email: z.email(),
+        role: roleSchema,
+      })
+    )
+    .handler(async ({ input, context }) => {
+      const userId = context.session.user.id;
+      const callerRole = await assertOrgAllows(
+        userId,
+        input.organizationId,
+        "admin"
+      );
+      assertCanGrant(callerRole, input.role);
+
+      const email = input.email.toLowerCase();
+      const existing = await db
+        .select({ id: member.id })
+        .from(member)
+        .innerJoin(user, eq(user.id, member.userId))
+        .where(
+          and(
+            eq(member.organizationId, input.organizationId),
+            eq(user.email, email)
+          )
+        );
+      if (existing.length > 0) {
+        throw new ORPCError("BAD_REQUEST", {
+          message: "This person is already a member",
+        });
+      }
+
+      // A new invitation replaces any earlier one to the same address
+      await db
+        .update(invitation)
+        .set({ status: "revoked" })
+        .where(
+          and(
+            eq(invitation.organizationId, input.organizationId),
+            eq(invitation.email, email),
+            eq(invitation.status, "pending")
+          )
+        );
+
+      const id = generateId();
+      await db.insert(invitation).values({
+        id,
+        organizationId: input.organizationId,
+        email,
+        role: input.role,
+        invitedBy: userId,
+        expiresAt: new Date(Date.now() + INVITATION_TTL_MS),
+      });
+
+      return db.query.invitation.findFirst({
+        where: eq(invitation.id, id),
+      });
+    }),
+
+  /** Withdraw a pending invitation (owner/admin) */
+  revokeInvitation: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .handler(async ({ input, context }) => {
+      const existing = await db.query.invitation.findFirst({
+        where: eq(invitation.id, input.id),
+      });
+      if (!existing) {
+        throw new ORPCError("NOT_FOUND", { message: "Invitation not found" });
+      }
+      await assertOrgAllows(
+        context.session.user.id,
+        existing.organizationId,
+        "admin"
+      );
+
+      await db
+        .update(invitation)
+        .set({ status: "revoked" })
+        .where(
+          and(eq(invitation.id, input.id), eq(invitation.status, "pending"))
+        );
+      return { success: true };
+    }),
+
+  /** Change a member's role (owner/admin; only owners can touch owners) */
+  updateMemberRole: protectedProcedure
+    .input(
+      z.object({
+        organizationId: z.string(),
+        userId: z.string(),
+        role: roleSchema,
+      })
+    )
+    .handler(async ({ input, context }) => {
+      const callerRole = await assertOrgAllows(
+        context.session.user.id,
+        input.organizationId,
+        "admin"
+      );
+      const target = await findMember(input.organizationId, input.userId);
+      assertCanGrant(callerRole, target.role);
+      assertCanGrant(callerRole, input.role);
+      if (target.role === "owner" && input.role !== "owner") {
+        await assertNotLastOwner(input.organizationId, input.userId);
+      }
+
+      await db
+        .update(member)
+        .set({ role: input.role })
+        .where(eq(member.id, target.id));
+      return { success: true };
+    }),
+
+  /**
+   * Remove a member (owner/admin), or leave the organization when userId is
+   * the caller's own. Endpoints stay with the organization.
+   */
+  removeMember: protectedProcedure
+    .input(z.object({ organizationId: z.string(), userId: z.string() }))
+    .handler(async ({ input, context }) => {
+      const callerId = context.session.user.id;
+      const target = await findMember(input.organizationId, input.userId);
+      if (input.userId !== callerId) {
+        const callerRole = await assertOrgAllows(
+          callerId,
+          input.organizationId,
+          "admin"
+        );
+        assertCanGrant(callerRole, target.role);
+      }
+      if (target.role === "owner") {
+        await assertNotLastOwner(input.organizationId, input.userId);
+      }
+
+      await db.delete(member).where(eq(member.id, target.id));
+      return { success: true };
+    }),
+
+  /** Pending invitations addressed to the caller's verified email */
+  myInvitations: protectedProcedure.handler(async ({ context }) => {
+    const email = verifiedEmail(context.session.user);
+    return await db
+      .select({
+        id: invitation.id,
+        role: invitation.role,
+        expiresAt: invitation.expiresAt,
+        createdAt: invitation.createdAt,
+        organizationId: organization.id,
+        organizationName: organization.name,
+        invitedByName: user.name,
+      })
+      .from(invitation)
+      .innerJoin(organization, eq(organization.id, invitation.organizationId))
+      .innerJoin(user, eq(user.id, invitation.invitedBy))
+      .where(
+        and(
+          eq(invitation.email, email.toLowerCase()),
+          eq(invitation.status, "pending"),
+          gt(invitation.expiresAt, new Date())
+        )
+      )
+      .orderBy(desc(invitation.createdAt));
+  }),
+
+  /** Join the organization an invitation is for, with the invited role */
+  acceptInvitation: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .handler(async ({ input, context }) => {
+      const userId = context.session.user.id;
+      const invite = await findMyInvitation(
+        input.id,
+        verifiedEmail(context.session.user)
+      );
+
+      await db
+        .insert(member)
+        .values({
+          id: generateId(),
+          organizationId: invite.organizationId,
+          userId,
+          role: invite.role,
+        })
+        .onConflictDoNothing();
+      await db
+        .update(invitation)
+        .set({ status: "accepted" })
+        .where(eq(invitation.id, invite.id));
+      return { organizationId: invite.organizationId };
+    }),
+
+  /** Decline an invitation addressed to the caller */
+  declineInvitation: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .handler(async ({ input, context }) => {
+      const invite = await findMyInvitation(
+        input.id,
+        verifiedEmail(context.session.user)
+      );
+      await db
+        .update(invitation)
+        .set({ status: "declined" })
+        .where(eq(invitation.id, invite.id));
+      return { success: true };
+    }),
+};
@@ -0,0 +1,109 @@
+import { ORPCError } from "@orpc/server";
+import { db } from "@tunnelhook/db";
+import { apiToken, endpoint } from "@tunnelhook/db/schema";
+import { and, desc, eq, inArray } from "drizzle-orm";
+import { z } from "zod";
+
+import { visibleEndpointsCondition } from "../authz";
+import { protectedProcedure } from "../index";
+import { createApiToken } from "../tokens";
+
+const DAY_MS = 86_400_000;
+
+/** Token fields safe to return; the hash never leaves the server */
+const publicColumns = {
+  id: apiToken.id,
+  name: apiToken.name,
+  prefix: apiToken.prefix,
+  scope: apiToken.scope,
+  endpointIds: apiToken.endpointIds,
+  expiresAt: apiToken.expiresAt,
+  lastUsedAt: apiToken.lastUsedAt,
+  revokedAt: apiToken.revokedAt,
+  createdAt: apiToken.createdAt,
+};
+
+export const tokenRouter = {
+  /** List the current user's API tokens, newest first */
+  list: protectedProcedure.handler(async ({ context }) => {
+    const rows = await db
+      .select(publicColumns)
+      .from(apiToken)
+      .where(eq(apiToken.userId, context.session.user.id))
+      .orderBy(desc(apiToken.createdAt));
+
+    return rows.map((row) => ({
+      ...row,
+      endpointIds: row.endpointIds
+        ? (JSON.parse(row.endpointIds) as string[])
+        : null,
+    }));
+  }),
+
+  /**
+   * Create an API token. The plaintext token is only returned here;
+   * the server keeps its hash.
+   */
+  create: protectedProcedure
+    .input(
+      z.object({
+        name: z.string().min(1).max(100),
+        scope: z.enum(["full", "read", "listen"]),
+        /** Limit the token to these endpoints (omit for all endpoints) */
+        endpointIds: z.array(z.string()).min(1).max(50).optional(),
+        /** Days until the token expires (omit for no expiry) */
+        expiresInDays: z.number().int().min(1).max(365).optional(),
+      })
+    )
+    .handler(async ({ input, context }) => {
+      const userId = context.session.user.id;
+      const endpointIds = input.endpointIds
+        ? [...new Set(input.endpointIds)]
+        : null;
+
+      if (endpointIds) {
+        const visible = await db
+          .select({ id: endpoint.id })
+          .from(endpoint)
+          .where(
+            and(
+              await visibleEndpointsCondition(userId),
+              inArray(endpoint.id, endpointIds)
+            )
+          );
+        if (visible.length !== endpointIds.length) {
+          throw new ORPCError("NOT_FOUND", { message: "Endpoint not found" });
+        }
+      }
+
+      return createApiToken({
+        userId,
+        name: input.name,
+        scope: input.scope,
+        endpointIds,
+        expiresAt: input.expiresInDays
+          ? new Date(Date.now() + input.expiresInDays * DAY_MS)
+          : null,
+      });
+    }),
+
+  /** Revoke a token; it stops working immediately but stays listed */
+  revoke: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .handler(async ({ input, context }) => {
+      const existing = await db.query.apiToken.findFirst({
+        where: eq(apiToken.id, input.id),
+      });
+      if (!existing || existing.userId !== context.session.user.id) {
+        throw new ORPCError("NOT_FOUND", { message: "Token not found" });
+      }
+
+      if (!existing.revokedAt) {
+        await db
+          .update(apiToken)
+          .set({ revokedAt: new Date() })
+          .where(eq(apiToken.id, input.id));
+      }
+      return { success: true };
+    }),
+};
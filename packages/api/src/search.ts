@@ -0,0 +1,140 @@
+import { db } from "@tunnelhook/db";
+import { delivery, event } from "@tunnelhook/db/schema";
+import {
+  and,
+  eq,
+  exists,
+  gte,
+  lt,
+  lte,
+  type SQL,
+  type SQLWrapper,
+  sql,
+} from "drizzle-orm";
+import { z } from "zod";
+
+/** RFC 7230 token characters, so a header name is safe inside a JSON path */
+const HEADER_NAME_RE = /^[A-Za-z0-9!#$%&'*+.^_`|~-]+$/;
+/** The JSONPath subset SQLite's json_extract understands: `$.a.b`, `$.items[0]` */
+const SQLITE_JSON_PATH_RE = /^\$(\.[A-Za-z0-9_-]+|\[\d+\])*$/;
+const LIKE_SPECIAL_RE = /[\\%_]/g;
+const WHITESPACE_RE = /\s+/;
+
+/**
+ * Structured search over an endpoint's events. Every given condition must
+ * match. Value fields accept `*` wildcards like machine filters do.
+ */
+export const eventSearchSchema = z.object({
+  endpointId: z.string(),
+  method: z.string().min(1).max(10).optional(),
+  /** Substring of the Content-Type header, e.g. "json" */
+  contentType: z.string().min(1).max(200).optional(),
+  /** Client IP glob, e.g. "140.82.*" */
+  sourceIp: z.string().min(1).max(100).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  /** Header value glob; without a value any event carrying the header matches */
+  header: z
+    .object({
+      name: z.string().regex(HEADER_NAME_RE),
+      value: z.string().optional(),
+    })
+    .optional(),
+  /** Events with at least one delivery in this status */
+  deliveryStatus: z
+    .enum(["pending", "delivered", "failed", "filtered"])
+    .optional(),
+  /** Free text over the body and sub-path; every word must appear (prefix match) */
+  text: z.string().min(1).max(200).optional(),
+  /** JSON body field glob; without a value any body containing the field matches */
+  jsonField: z
+    .object({
+      path: z.string().regex(SQLITE_JSON_PATH_RE),
+      value: z.string().optional(),
+    })
+    .optional(),
+  cursor: z.number().optional(),
+  limit: z.number().min(1).max(100).default(50),
+});
+
+export type EventSearch = z.infer<typeof eventSearchSchema>;
+
+/** Translate a `*` glob to a LIKE pattern, escaping LIKE's own wildcards */
+function globToLike(pattern: string): string {
+  return pattern.replace(LIKE_SPECIAL_RE, "\\$&").replaceAll("*", "%");
+}
+
+function like(column: SQLWrapper, glob: string): SQL {
+  return sql`${column} LIKE ${globToLike(glob)} ESCAPE '\\'`;
+}
+
+/**
+ * Build an FTS5 MATCH expression from free text. Each word is quoted so FTS
+ * operators in user input are taken literally, and prefix-matched.
+ */
+export function toFtsQuery(text: string): string | null {
+  const terms = text
+    .split(WHITESPACE_RE)
+    .filter(Boolean)
+    .map((term) => `"${term.replaceAll('"', '""')}"*`);
+  return terms.length > 0 ? terms.join(" ") : null;
+}
+
+function headerCondition(header: NonNullable<EventSearch["header"]>): SQL {
+  const value = sql`json_extract(${event.headers}, ${`$."${header.name.toLowerCase()}"`})`;
+  return header.value === undefined
+    ? sql`${value} IS NOT NULL`
+    : like(value, header.value);
+}
+
+function jsonFieldCondition(field: NonNullable<EventSearch["jsonField"]>): SQL {
+  // json_extract raises on malformed JSON, so only look inside valid bodies
+  const value = sql`CASE WHEN json_valid(${event.body}) THEN json_extract(${event.body}, ${field.path}) END`;
+  return field.value === undefined
+    ? sql`${value} IS NOT NULL`
+    : like(value, field.value);
+}
+
+function deliveryStatusCondition(
+  status: NonNullable<EventSearch["deliveryStatus"]>
+): SQL {
+  return exists(
+    db
+      .select({ id: delivery.id })
+      .from(delivery)
+      .where(and(eq(delivery.eventId, event.id), eq(delivery.status, status)))
+  );
+}
+
+function textCondition(text: string): SQL | undefined {
+  const query = toFtsQuery(text);
+  if (!query) {
+    return;
+  }
+  return sql`${event}.rowid IN (SELECT rowid FROM event_fts WHERE event_fts MATCH ${query})`;
+}
+
+/** SQL conditions for a search; the caller has already checked endpoint ownership */
+export function eventSearchConditions(input: EventSearch): SQL[] {
+  const optional: Array<SQL | undefined> = [
+    input.method ? eq(event.method, input.method.toUpperCase()) : undefined,
+    input.contentType
+      ? like(event.contentType, `*${input.contentType}*`)
+      : undefined,
+    input.sourceIp ? like(event.sourceIp, input.sourceIp) : undefined,
+    input.from ? gte(event.createdAt, input.from) : undefined,
+    input.to ? lte(event.createdAt, input.to) : undefined,
+    input.cursor ? lt(event.createdAt, new Date(input.cursor)) : undefined,
+    input.header ? headerCondition(input.header) : undefined,
+    input.jsonField ? jsonFieldCondition(input.jsonField) : undefined,
+    input.deliveryStatus
+      ? deliveryStatusCondition(input.deliveryStatus)
+      : undefined,
+    input.text ? textCondition(input.text) : undefined,
+  ];
+
+  return [
+    eq(event.endpointId, input.endpointId),
+    ...optional.filter((c): c is SQL => c !== undefined),
+  ];
+}
@@ -0,0 +1,24 @@
+/**
+ * Endpoint and machine rows are returned without their secrets, which only
+ * the reveal procedures hand out. Clients see whether one is set.
+ */
+
+export type WithoutVerifierSecret<T extends { verifierSecret: string | null }> =
+  Omit<T, "verifierSecret"> & { hasVerifierSecret: boolean };
+
+export type WithoutSigningSecret<T extends { signingSecret: string | null }> =
+  Omit<T, "signingSecret"> & { hasSigningSecret: boolean };
+
+export function withoutVerifierSecret<
+  T extends { verifierSecret: string | null },
+>(ep: T): WithoutVerifierSecret<T> {
+  const { verifierSecret, ...rest } = ep;
+  return { ...rest, hasVerifierSecret: verifierSecret !== null };
+}
+
+export function withoutSigningSecret<
+  T extends { signingSecret: string | null },
+>(m: T): WithoutSigningSecret<T> {
+  const { signingSecret, ...rest } = m;
+  return { ...rest, hasSigningSecret: signingSecret !== null };
+}
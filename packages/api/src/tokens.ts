@@ -0,0 +1,250 @@
+import { ORPCError } from "@orpc/server";
+import { auth } from "@tunnelhook/auth";
+import { db } from "@tunnelhook/db";
+import { apiToken, user } from "@tunnelhook/db/schema";
+import { eq } from "drizzle-orm";
+
+import { sha256Hex } from "./blobs";
+
+export type TokenScope = "full" | "read" | "listen";
+
+/** What a personal access token is allowed to do, attached to the request context */
+export interface TokenGrant {
+  /** Endpoints the token is limited to (null = all of the owner's endpoints) */
+  endpointIds: string[] | null;
+  id: string;
+  scope: TokenScope;
+}
+
+export interface TokenAuth {
+  grant: TokenGrant;
+  user: typeof user.$inferSelect;
+}
+
+/** Every token starts with this, so it can be told apart from other bearer credentials */
+export const TOKEN_PREFIX = "th_";
+/** Characters of the token kept in plaintext for display */
+const DISPLAY_PREFIX_LENGTH = 10;
+/** lastUsedAt is only written when older than this, to keep reads write-free */
+const LAST_USED_RESOLUTION_MS = 60_000;
+const BEARER_RE = /^Bearer\s+(\S+)$/i;
+
+/** Procedures a "read" token may call */
+const READ_PROCEDURES = new Set([
+  "privateData",
+  "endpoints.list",
+  "endpoints.get",
+  "endpoints.usage",
+  "events.list",
+  "events.search",
+  "events.get",
+  "machines.list",
+  "machines.get",
+  "deliveries.listByEvent",
+  "deliveries.listByMachine",
+  "deliveries.get",
+  "deliveries.listAttempts",
+  "audit.list",
+  "alerts.list",
+  "alerts.history",
+  "metrics.endpoint",
+]);
+
+/** Procedures a "listen" token may call: reads plus what `tunnelhook listen` needs */
+const LISTEN_PROCEDURES = new Set([
+  ...READ_PROCEDURES,
+  "machines.register",
+  "machines.update",
+  "machines.revealSigningSecret",
+  "machines.reportDelivery",
+]);
+
+/** Procedures that don't act on a single endpoint and stay callable by endpoint-limited tokens */
+const UNSCOPED_PROCEDURES = new Set(["privateData", "endpoints.list"]);
+
+/** Create a new random token; only its hash is stored */
+function generateApiToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  const hex = Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join(
+    ""
+  );
+  return `${TOKEN_PREFIX}${hex}`;
+}
+
+export function hashApiToken(token: string): Promise<string> {
+  return sha256Hex(new Uint8Array(new TextEncoder().encode(token)));
+}
+
+function tokenDisplayPrefix(token: string): string {
+  return token.slice(0, DISPLAY_PREFIX_LENGTH);
+}
+
+/**
+ * Store a new token for a user. Returns the plaintext token, which is
+ * never stored and cannot be shown again.
+ */
+export async function createApiToken(params: {
+  endpointIds: string[] | null;
+  expiresAt: Date | null;
+  name: string;
+  scope: TokenScope;
+  userId: string;
+}): Promise<{ id: string; token: string }> {
+  const id = crypto.randomUUID();
+  const token = generateApiToken();
+
+  await db.insert(apiToken).values({
+    id,
+    userId: params.userId,
+    name: params.name,
+    tokenHash: await hashApiToken(token),
+    prefix: tokenDisplayPrefix(token),
+    scope: params.scope,
+    endpointIds: params.endpointIds ? JSON.stringify(params.endpointIds) : null,
+    expiresAt: params.expiresAt,
+  });
+
+  return { id, token };
+}
+
+function bearerToken(headers: Headers): string | null {
+  const match = BEARER_RE.exec(headers.get("authorization") ?? "");
+  const token = match?.[1];
+  return token?.startsWith(TOKEN_PREFIX) ? token : null;
+}
+
+/**
+ * Authenticate an `Authorization: Bearer th_…` header.
+ * Returns null when there is no token, or it is unknown, revoked or expired.
+ */
+export async function authenticateApiToken(
+  headers: Headers
+): Promise<TokenAuth | null> {
+  const token = bearerToken(headers);
+  if (!token) {
+    return null;
+  }
+
+  const row = await db.query.apiToken.findFirst({
+    where: eq(apiToken.tokenHash, await hashApiToken(token)),
+  });
+  const now = Date.now();
+  if (
+    !row ||
+    row.revokedAt ||
+    (row.expiresAt && row.expiresAt.getTime() <= now)
+  ) {
+    return null;
+  }
+
+  // Separate lookup to avoid drizzle dedup type issues
+  const owner = await db.query.user.findFirst({
+    where: eq(user.id, row.userId),
+  });
+  if (!owner) {
+    return null;
+  }
+
+  if (
+    !row.lastUsedAt ||
+    now - row.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS
+  ) {
+    await db
+      .update(apiToken)
+      .set({ lastUsedAt: new Date(now) })
+      .where(eq(apiToken.id, row.id));
+  }
+
+  return {
+    user: owner,
+    grant: {
+      id: row.id,
+      scope: row.scope,
+      endpointIds: row.endpointIds ? JSON.parse(row.endpointIds) : null,
+    },
+  };
+}
+
+/**
+ * Authenticate a request by API token or, failing that, by session cookie.
+ * `grant` is null for session (dashboard) requests, which are not scoped.
+ */
+export async function authenticateRequest(
+  headers: Headers
+): Promise<{ grant: TokenGrant | null; user: { id: string } } | null> {
+  const token = await authenticateApiToken(headers);
+  if (token) {
+    return token;
+  }
+  const session = await auth.api.getSession({ headers });
+  return session?.user ? { user: session.user, grant: null } : null;
+}
+
+/** Whether the grant covers an endpoint; session requests (no grant) always do */
+export function grantCoversEndpoint(
+  grant: TokenGrant | null,
+  endpointId: string
+): boolean {
+  return !grant?.endpointIds || grant.endpointIds.includes(endpointId);
+}
+
+function scopeAllows(scope: TokenScope, procedure: string): boolean {
+  switch (scope) {
+    case "full":
+      return true;
+    case "listen":
+      return LISTEN_PROCEDURES.has(procedure);
+    default:
+      return READ_PROCEDURES.has(procedure);
+  }
+}
+
+/**
+ * Check a token-authenticated call against the token's scope. Tokens limited
+ * to specific endpoints may only call procedures on a single endpoint, event,
+ * machine or delivery (`resourceScoped`), which check the loaded resource's
+ * endpoint with `assertGrantCovers`, plus the UNSCOPED_PROCEDURES.
+ * Throws FORBIDDEN for procedures the token may not call.
+ */
+export function assertTokenAllows(
+  grant: TokenGrant,
+  path: readonly string[],
+  resourceScoped: boolean
+): void {
+  const procedure = path.join(".");
+
+  if (path[0] === "tokens" || path[0] === "device") {
+    throw new ORPCError("FORBIDDEN", {
+      message: "API tokens and CLI logins cannot be managed with an API token",
+    });
+  }
+  if (!scopeAllows(grant.scope, procedure)) {
+    throw new ORPCError("FORBIDDEN", {
+      message: `This token's "${grant.scope}" scope does not allow ${procedure}`,
+    });
+  }
+  if (
+    grant.endpointIds &&
+    !resourceScoped &&
+    !UNSCOPED_PROCEDURES.has(procedure)
+  ) {
+    throw new ORPCError("FORBIDDEN", {
+      message: `${procedure} is not available to tokens limited to specific endpoints`,
+    });
+  }
+}
+
+/**
+ * Throw NOT_FOUND, with the resource's own message, when a loaded resource's
+ * endpoint is outside the token's grant, so it looks the same as someone
+ * else's. Session calls (no grant) always pass.
+ */
+export function assertGrantCovers(
+  grant: TokenGrant | null,
+  endpointId: string,
+  notFoundMessage: string
+): void {
+  if (!grantCoversEndpoint(grant, endpointId)) {
+    throw new ORPCError("NOT_FOUND", { message: notFoundMessage });
+  }
+}
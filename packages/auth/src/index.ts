@@ -15,6 +15,43 @@ const cookieDomain = authUrl.hostname.endsWith("tunnelhook.com")
   ? "tunnelhook.com"
   : undefined;
 
+const RESEND_API_URL = "https://api.resend.com/emails";
+
+/**
+ * Email the verification link through Resend, like alert emails. Without
+ * Resend configured the link is logged so local accounts can be verified.
+ */
+async function sendVerificationEmail({
+  user: { email },
+  url,
+}: {
+  url: string;
+  user: { email: string };
+}): Promise<void> {
+  const apiKey: string = env.RESEND_API_KEY ?? "";
+  const from: string = env.ALERT_EMAIL_FROM ?? "";
+  if (!(apiKey && from)) {
+    console.warn(`Email delivery is not configured; verify ${email} at ${url}`);
+    return;
+  }
+  const response = await fetch(RESEND_API_URL, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${apiKey}`,
+    },
+    body: JSON.stringify({
+      from,
+      to: [email],
+      subject: "[tunnelhook] Verify your email address",
+      text: `Open this link to verify your email address:\n\n${url}`,
+    }),
+  });
+  if (!response.ok) {
+    throw new Error(`Verification email failed with HTTP ${response.status}`);
+  }
+}
+
 export const auth = betterAuth({
   database: drizzleAdapter(db, {
     provider: "sqlite",
@@ -30,6 +67,12 @@ export const auth = betterAuth({
   emailAndPassword: {
     enabled: true,
   },
+  // Sign-in doesn't wait for verification, but invitations are only matched
+  // against verified addresses
+  emailVerification: {
+    sendOnSignUp: true,
+    sendVerificationEmail,
+  },
   session: {
     cookieCache: {
       enabled: false,
@@ -0,0 +1,17 @@
+CREATE TABLE `delivery_attempt` (
+	`id` text PRIMARY KEY NOT NULL,
+	`delivery_id` text NOT NULL,
+	`attempt` integer NOT NULL,
+	`status` text NOT NULL,
+	`response_status` integer,
+	`response_body` text,
+	`error` text,
+	`duration` integer,
+	`created_at` integer DEFAULT (cast(unixepoch('subsecond') * 1000 as integer)) NOT NULL,
+	FOREIGN KEY (`delivery_id`) REFERENCES `delivery`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `deliveryAttempt_deliveryId_idx` ON `delivery_attempt` (`delivery_id`);--> statement-breakpoint
+ALTER TABLE `endpoint` ADD `retry_max_attempts` integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE `endpoint` ADD `retry_backoff` text DEFAULT 'exponential' NOT NULL;--> statement-breakpoint
+ALTER TABLE `endpoint` ADD `retry_base_delay_ms` integer DEFAULT 5000 NOT NULL;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `endpoint` ADD `offline_queue_max_age_ms` integer DEFAULT 86400000 NOT NULL;
\ No newline at end of file
@@ -0,0 +1,5 @@
+ALTER TABLE `endpoint` ADD `verifier_provider` text;--> statement-breakpoint
+ALTER TABLE `endpoint` ADD `verifier_secret` text;--> statement-breakpoint
+ALTER TABLE `endpoint` ADD `verifier_reject_invalid` integer DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE `event` ADD `signature_status` text;--> statement-breakpoint
+ALTER TABLE `event` ADD `signature_error` text;
\ No newline at end of file
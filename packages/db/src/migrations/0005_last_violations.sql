@@ -0,0 +1,2 @@
+ALTER TABLE `machine` ADD `signing_scheme` text;--> statement-breakpoint
+ALTER TABLE `machine` ADD `signing_secret` text;
\ No newline at end of file
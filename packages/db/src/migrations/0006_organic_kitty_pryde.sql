@@ -0,0 +1 @@
+ALTER TABLE `machine` ADD `transforms` text;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE `event` ADD `path` text;--> statement-breakpoint
+ALTER TABLE `machine` ADD `routes` text;
\ No newline at end of file
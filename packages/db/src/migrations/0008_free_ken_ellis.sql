@@ -0,0 +1 @@
+ALTER TABLE `machine` ADD `filters` text;
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE `endpoint` ADD `response_preset` text DEFAULT 'default' NOT NULL;--> statement-breakpoint
+ALTER TABLE `endpoint` ADD `response_status` integer;--> statement-breakpoint
+ALTER TABLE `endpoint` ADD `response_headers` text;--> statement-breakpoint
+ALTER TABLE `endpoint` ADD `response_body` text;
\ No newline at end of file
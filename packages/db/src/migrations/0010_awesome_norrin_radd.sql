@@ -0,0 +1,2 @@
+ALTER TABLE `endpoint` ADD `response_mode` text DEFAULT 'immediate' NOT NULL;--> statement-breakpoint
+ALTER TABLE `endpoint` ADD `response_timeout_ms` integer DEFAULT 10000 NOT NULL;
\ No newline at end of file
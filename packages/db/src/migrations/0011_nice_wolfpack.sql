@@ -0,0 +1,2 @@
+ALTER TABLE `delivery` ADD `response_headers` text;--> statement-breakpoint
+ALTER TABLE `delivery_attempt` ADD `response_headers` text;
\ No newline at end of file
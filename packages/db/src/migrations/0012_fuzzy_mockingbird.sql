@@ -0,0 +1,3 @@
+ALTER TABLE `event` ADD `body_blob_key` text;--> statement-breakpoint
+ALTER TABLE `event` ADD `body_size` integer;--> statement-breakpoint
+ALTER TABLE `event` ADD `body_sha256` text;
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE `endpoint` ADD `retention_max_age_ms` integer;--> statement-breakpoint
+ALTER TABLE `endpoint` ADD `retention_max_events` integer;--> statement-breakpoint
+ALTER TABLE `endpoint` ADD `retention_max_bytes` integer;--> statement-breakpoint
+UPDATE `event` SET `body_size` = coalesce(length(CAST(`body` AS BLOB)), 0) WHERE `body_size` IS NULL;
\ No newline at end of file
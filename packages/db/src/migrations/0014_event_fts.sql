@@ -0,0 +1,14 @@
+-- Full-text index over event bodies and sub-paths, kept in sync by triggers.
+-- External-content table: the text lives in `event`, FTS5 only stores the index.
+CREATE VIRTUAL TABLE `event_fts` USING fts5(`body`, `path`, content='event', content_rowid='rowid');--> statement-breakpoint
+CREATE TRIGGER `event_fts_ai` AFTER INSERT ON `event` BEGIN
+  INSERT INTO `event_fts`(rowid, `body`, `path`) VALUES (new.rowid, new.`body`, new.`path`);
+END;--> statement-breakpoint
+CREATE TRIGGER `event_fts_ad` AFTER DELETE ON `event` BEGIN
+  INSERT INTO `event_fts`(`event_fts`, rowid, `body`, `path`) VALUES ('delete', old.rowid, old.`body`, old.`path`);
+END;--> statement-breakpoint
+CREATE TRIGGER `event_fts_au` AFTER UPDATE OF `body`, `path` ON `event` BEGIN
+  INSERT INTO `event_fts`(`event_fts`, rowid, `body`, `path`) VALUES ('delete', old.rowid, old.`body`, old.`path`);
+  INSERT INTO `event_fts`(rowid, `body`, `path`) VALUES (new.rowid, new.`body`, new.`path`);
+END;--> statement-breakpoint
+INSERT INTO `event_fts`(`event_fts`) VALUES ('rebuild');
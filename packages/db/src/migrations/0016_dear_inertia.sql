@@ -0,0 +1,14 @@
+CREATE TABLE `device_authorization` (
+	`id` text PRIMARY KEY NOT NULL,
+	`device_code_hash` text NOT NULL,
+	`user_code` text NOT NULL,
+	`client_name` text NOT NULL,
+	`status` text DEFAULT 'pending' NOT NULL,
+	`user_id` text,
+	`expires_at` integer NOT NULL,
+	`created_at` integer DEFAULT (cast(unixepoch('subsecond') * 1000 as integer)) NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `device_authorization_device_code_hash_unique` ON `device_authorization` (`device_code_hash`);--> statement-breakpoint
+CREATE UNIQUE INDEX `device_authorization_user_code_unique` ON `device_authorization` (`user_code`);
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE `endpoint` ADD `rate_limit_burst` integer DEFAULT 100 NOT NULL;--> statement-breakpoint
+ALTER TABLE `endpoint` ADD `rate_limit_per_minute` integer DEFAULT 600 NOT NULL;--> statement-breakpoint
+ALTER TABLE `endpoint` ADD `rate_limit_ip_burst` integer DEFAULT 20 NOT NULL;--> statement-breakpoint
+ALTER TABLE `endpoint` ADD `rate_limit_ip_per_minute` integer DEFAULT 120 NOT NULL;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE `endpoint` ADD `ip_allowlist` text;--> statement-breakpoint
+ALTER TABLE `endpoint` ADD `ip_allowlist_presets` text;--> statement-breakpoint
+ALTER TABLE `event` ADD `blocked_reason` text;
\ No newline at end of file
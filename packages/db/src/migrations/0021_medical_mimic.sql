@@ -0,0 +1,3 @@
+ALTER TABLE `event` ADD `source_country` text;--> statement-breakpoint
+ALTER TABLE `event` ADD `source_asn` integer;--> statement-breakpoint
+ALTER TABLE `event` ADD `source_as_organization` text;
\ No newline at end of file
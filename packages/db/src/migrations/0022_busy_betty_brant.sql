@@ -0,0 +1,34 @@
+CREATE TABLE `alert_history` (
+	`id` text PRIMARY KEY NOT NULL,
+	`endpoint_id` text NOT NULL,
+	`rule_id` text,
+	`rule_name` text NOT NULL,
+	`condition` text NOT NULL,
+	`channel` text NOT NULL,
+	`message` text NOT NULL,
+	`status` text NOT NULL,
+	`error` text,
+	`created_at` integer DEFAULT (cast(unixepoch('subsecond') * 1000 as integer)) NOT NULL,
+	FOREIGN KEY (`endpoint_id`) REFERENCES `endpoint`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`rule_id`) REFERENCES `alert_rule`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+CREATE INDEX `alertHistory_endpoint_createdAt_idx` ON `alert_history` (`endpoint_id`,`created_at`);--> statement-breakpoint
+CREATE TABLE `alert_rule` (
+	`id` text PRIMARY KEY NOT NULL,
+	`endpoint_id` text NOT NULL,
+	`name` text NOT NULL,
+	`condition` text NOT NULL,
+	`threshold` integer,
+	`window_ms` integer,
+	`channel` text NOT NULL,
+	`target` text NOT NULL,
+	`enabled` integer DEFAULT true NOT NULL,
+	`cooldown_ms` integer DEFAULT 3600000 NOT NULL,
+	`last_triggered_at` integer,
+	`created_at` integer DEFAULT (cast(unixepoch('subsecond') * 1000 as integer)) NOT NULL,
+	`updated_at` integer DEFAULT (cast(unixepoch('subsecond') * 1000 as integer)) NOT NULL,
+	FOREIGN KEY (`endpoint_id`) REFERENCES `endpoint`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `alertRule_endpointId_idx` ON `alert_rule` (`endpoint_id`);
\ No newline at end of file
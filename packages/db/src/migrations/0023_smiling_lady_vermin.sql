@@ -0,0 +1,24 @@
+CREATE TABLE `delivery_metric` (
+	`id` text PRIMARY KEY NOT NULL,
+	`endpoint_id` text NOT NULL,
+	`machine_id` text NOT NULL,
+	`bucket_start` integer NOT NULL,
+	`latency_bucket` integer NOT NULL,
+	`delivered` integer DEFAULT 0 NOT NULL,
+	`failed` integer DEFAULT 0 NOT NULL,
+	`duration_total` integer DEFAULT 0 NOT NULL,
+	FOREIGN KEY (`endpoint_id`) REFERENCES `endpoint`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`machine_id`) REFERENCES `machine`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `deliveryMetric_key_idx` ON `delivery_metric` (`endpoint_id`,`bucket_start`,`machine_id`,`latency_bucket`);--> statement-breakpoint
+CREATE TABLE `event_metric` (
+	`id` text PRIMARY KEY NOT NULL,
+	`endpoint_id` text NOT NULL,
+	`bucket_start` integer NOT NULL,
+	`received` integer DEFAULT 0 NOT NULL,
+	`blocked` integer DEFAULT 0 NOT NULL,
+	FOREIGN KEY (`endpoint_id`) REFERENCES `endpoint`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `eventMetric_endpoint_bucket_idx` ON `event_metric` (`endpoint_id`,`bucket_start`);
\ No newline at end of file
@@ -0,0 +1,98 @@
+import { relations, sql } from "drizzle-orm";
+import { index, integer, sqliteTable, text } from "drizzle-orm/sqlite-core";
+
+import { endpoint } from "./webhooks";
+
+export const ALERT_CONDITIONS = [
+  "consecutive-failures",
+  "failure-rate",
+  "no-events",
+] as const;
+
+export const ALERT_CHANNELS = ["email", "slack", "http"] as const;
+
+/**
+ * A condition on an endpoint's deliveries that notifies someone when it
+ * holds. Failure conditions are evaluated by the endpoint's DO on every
+ * delivery report, "no-events" by the cron trigger.
+ */
+export const alertRule = sqliteTable(
+  "alert_rule",
+  {
+    id: text("id").primaryKey(),
+    endpointId: text("endpoint_id")
+      .notNull()
+      .references(() => endpoint.id, { onDelete: "cascade" }),
+    name: text("name").notNull(),
+    condition: text("condition", { enum: ALERT_CONDITIONS }).notNull(),
+    /** Failures in a row, or the failure rate in percent (null for "no-events") */
+    threshold: integer("threshold"),
+    /** Failure rate window, or how long without events (null for "consecutive-failures") */
+    windowMs: integer("window_ms"),
+    channel: text("channel", { enum: ALERT_CHANNELS }).notNull(),
+    /** Email address, Slack incoming webhook URL or HTTP callback URL */
+    target: text("target").notNull(),
+    enabled: integer("enabled", { mode: "boolean" }).default(true).notNull(),
+    /** Minimum time between two notifications for a failure condition */
+    cooldownMs: integer("cooldown_ms").default(3_600_000).notNull(),
+    lastTriggeredAt: integer("last_triggered_at", { mode: "timestamp_ms" }),
+    createdAt: integer("created_at", { mode: "timestamp_ms" })
+      .default(sql`(cast(unixepoch('subsecond') * 1000 as integer))`)
+      .notNull(),
+    updatedAt: integer("updated_at", { mode: "timestamp_ms" })
+      .default(sql`(cast(unixepoch('subsecond') * 1000 as integer))`)
+      .$onUpdate(() => new Date())
+      .notNull(),
+  },
+  (table) => [index("alertRule_endpointId_idx").on(table.endpointId)]
+);
+
+/**
+ * Every time a rule fired, and whether its notification went out. Entries
+ * keep the rule's name and settings so they stay readable after the rule
+ * is changed or deleted.
+ */
+export const alertHistory = sqliteTable(
+  "alert_history",
+  {
+    id: text("id").primaryKey(),
+    endpointId: text("endpoint_id")
+      .notNull()
+      .references(() => endpoint.id, { onDelete: "cascade" }),
+    ruleId: text("rule_id").references(() => alertRule.id, {
+      onDelete: "set null",
+    }),
+    ruleName: text("rule_name").notNull(),
+    condition: text("condition", { enum: ALERT_CONDITIONS }).notNull(),
+    channel: text("channel", { enum: ALERT_CHANNELS }).notNull(),
+    /** What was observed, e.g. "5 deliveries in a row failed" */
+    message: text("message").notNull(),
+    status: text("status", { enum: ["sent", "failed"] }).notNull(),
+    /** Why the notification could not be sent */
+    error: text("error"),
+    createdAt: integer("created_at", { mode: "timestamp_ms" })
+      .default(sql`(cast(unixepoch('subsecond') * 1000 as integer))`)
+      .notNull(),
+  },
+  (table) => [
+    index("alertHistory_endpoint_createdAt_idx").on(
+      table.endpointId,
+      table.createdAt
+    ),
+  ]
+);
+
+export const alertRuleRelations = relations(alertRule, ({ one, many }) => ({
+  endpoint: one(endpoint, {
+    fields: [alertRule.endpointId],
+    references: [endpoint.id],
+  }),
+  history: many(alertHistory),
+}));
+
+export const alertHistoryRelations = relations(alertHistory, ({ one }) => ({
+  rule: one(alertRule, {
+    fields: [alertHistory.ruleId],
+    references: [alertRule.id],
+  }),
+}));
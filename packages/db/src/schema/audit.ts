@@ -0,0 +1,49 @@
+import { relations, sql } from "drizzle-orm";
+import { index, integer, sqliteTable, text } from "drizzle-orm/sqlite-core";
+
+import { user } from "./auth";
+
+/**
+ * Who changed what on an endpoint, its machines or its events.
+ * Rows outlive the endpoint they describe, so endpointId is not a foreign key.
+ */
+export const auditLog = sqliteTable(
+  "audit_log",
+  {
+    id: text("id").primaryKey(),
+    /** Endpoint the change belongs to */
+    endpointId: text("endpoint_id").notNull(),
+    /** User who made the change (null once their account is deleted) */
+    actorId: text("actor_id").references(() => user.id, {
+      onDelete: "set null",
+    }),
+    /** API token the change was made with (null for dashboard sessions) */
+    tokenId: text("token_id"),
+    /** What happened, e.g. "endpoint.update" or "machine.delete" */
+    action: text("action").notNull(),
+    targetType: text("target_type", {
+      enum: ["endpoint", "machine", "event"],
+    }).notNull(),
+    targetId: text("target_id").notNull(),
+    /** Changed fields as JSON: { field: { before, after } } (null when nothing is compared) */
+    changes: text("changes"),
+    /** Client IP the request came from */
+    ip: text("ip"),
+    createdAt: integer("created_at", { mode: "timestamp_ms" })
+      .default(sql`(cast(unixepoch('subsecond') * 1000 as integer))`)
+      .notNull(),
+  },
+  (table) => [
+    index("auditLog_endpoint_createdAt_idx").on(
+      table.endpointId,
+      table.createdAt
+    ),
+  ]
+);
+
+export const auditLogRelations = relations(auditLog, ({ one }) => ({
+  actor: one(user, {
+    fields: [auditLog.actorId],
+    references: [user.id],
+  }),
+}));
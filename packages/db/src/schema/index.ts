@@ -1,2 +1,7 @@
+export * from "./alerts";
+export * from "./audit";
 export * from "./auth";
+export * from "./metrics";
+export * from "./organizations";
+export * from "./tokens";
 export * from "./webhooks";
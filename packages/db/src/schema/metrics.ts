@@ -0,0 +1,77 @@
+import {
+  integer,
+  sqliteTable,
+  text,
+  uniqueIndex,
+} from "drizzle-orm/sqlite-core";
+
+import { endpoint, machine } from "./webhooks";
+
+/**
+ * Upper bounds (ms) of the delivery latency histogram buckets. Attempts
+ * slower than the last bound land in an overflow bucket.
+ */
+export const LATENCY_BUCKETS_MS = [
+  10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10_000, 30_000,
+] as const;
+
+/**
+ * Requests received by an endpoint per minute. Counted as webhooks arrive,
+ * including requests the IP allowlist blocked.
+ */
+export const eventMetric = sqliteTable(
+  "event_metric",
+  {
+    id: text("id").primaryKey(),
+    endpointId: text("endpoint_id")
+      .notNull()
+      .references(() => endpoint.id, { onDelete: "cascade" }),
+    /** Start of the minute the counts cover */
+    bucketStart: integer("bucket_start", { mode: "timestamp_ms" }).notNull(),
+    received: integer("received").default(0).notNull(),
+    blocked: integer("blocked").default(0).notNull(),
+  },
+  (table) => [
+    uniqueIndex("eventMetric_endpoint_bucket_idx").on(
+      table.endpointId,
+      table.bucketStart
+    ),
+  ]
+);
+
+/**
+ * Delivery attempts per machine per minute, split by latency bucket so
+ * percentiles can be estimated for any time range. Counted by the
+ * endpoint's DO as delivery reports arrive.
+ */
+export const deliveryMetric = sqliteTable(
+  "delivery_metric",
+  {
+    id: text("id").primaryKey(),
+    endpointId: text("endpoint_id")
+      .notNull()
+      .references(() => endpoint.id, { onDelete: "cascade" }),
+    machineId: text("machine_id")
+      .notNull()
+      .references(() => machine.id, { onDelete: "cascade" }),
+    /** Start of the minute the counts cover */
+    bucketStart: integer("bucket_start", { mode: "timestamp_ms" }).notNull(),
+    /**
+     * Index into LATENCY_BUCKETS_MS; LATENCY_BUCKETS_MS.length is the
+     * overflow bucket and -1 holds attempts that reported no duration
+     */
+    latencyBucket: integer("latency_bucket").notNull(),
+    delivered: integer("delivered").default(0).notNull(),
+    failed: integer("failed").default(0).notNull(),
+    /** Sum of the attempts' durations in ms */
+    durationTotal: integer("duration_total").default(0).notNull(),
+  },
+  (table) => [
+    uniqueIndex("deliveryMetric_key_idx").on(
+      table.endpointId,
+      table.bucketStart,
+      table.machineId,
+      table.latencyBucket
+    ),
+  ]
+);
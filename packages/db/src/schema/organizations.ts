@@ -0,0 +1,113 @@
+import { relations, sql } from "drizzle-orm";
+import {
+  index,
+  integer,
+  sqliteTable,
+  text,
+  uniqueIndex,
+} from "drizzle-orm/sqlite-core";
+
+import { user } from "./auth";
+
+/** Roles within an organization, from most to least privileged */
+export const ORG_ROLES = ["owner", "admin", "member", "viewer"] as const;
+
+/**
+ * An organization — a team that owns endpoints together.
+ * Members see and work on the org's endpoints according to their role.
+ */
+export const organization = sqliteTable("organization", {
+  id: text("id").primaryKey(),
+  /** Display name, e.g. "Acme Payments" */
+  name: text("name").notNull(),
+  /** Unique, URL-safe identifier */
+  slug: text("slug").notNull().unique(),
+  createdAt: integer("created_at", { mode: "timestamp_ms" })
+    .default(sql`(cast(unixepoch('subsecond') * 1000 as integer))`)
+    .notNull(),
+});
+
+/**
+ * A user's membership of an organization.
+ * owner/admin manage the org and its endpoints, members connect machines,
+ * viewers only watch events.
+ */
+export const member = sqliteTable(
+  "member",
+  {
+    id: text("id").primaryKey(),
+    organizationId: text("organization_id")
+      .notNull()
+      .references(() => organization.id, { onDelete: "cascade" }),
+    userId: text("user_id")
+      .notNull()
+      .references(() => user.id, { onDelete: "cascade" }),
+    role: text("role", { enum: ORG_ROLES }).notNull(),
+    createdAt: integer("created_at", { mode: "timestamp_ms" })
+      .default(sql`(cast(unixepoch('subsecond') * 1000 as integer))`)
+      .notNull(),
+  },
+  (table) => [
+    uniqueIndex("member_org_user_idx").on(table.organizationId, table.userId),
+    index("member_userId_idx").on(table.userId),
+  ]
+);
+
+/**
+ * An invitation to join an organization, addressed to an email address.
+ * The invitee sees it in the dashboard after signing in with that email.
+ */
+export const invitation = sqliteTable(
+  "invitation",
+  {
+    id: text("id").primaryKey(),
+    organizationId: text("organization_id")
+      .notNull()
+      .references(() => organization.id, { onDelete: "cascade" }),
+    /** Lowercased email address of the invitee */
+    email: text("email").notNull(),
+    /** Role granted on acceptance */
+    role: text("role", { enum: ORG_ROLES }).notNull(),
+    /** Member who sent the invitation */
+    invitedBy: text("invited_by")
+      .notNull()
+      .references(() => user.id, { onDelete: "cascade" }),
+    status: text("status", {
+      enum: ["pending", "accepted", "declined", "revoked"],
+    })
+      .default("pending")
+      .notNull(),
+    /** Pending invitations can no longer be accepted after this */
+    expiresAt: integer("expires_at", { mode: "timestamp_ms" }).notNull(),
+    createdAt: integer("created_at", { mode: "timestamp_ms" })
+      .default(sql`(cast(unixepoch('subsecond') * 1000 as integer))`)
+      .notNull(),
+  },
+  (table) => [
+    index("invitation_organizationId_idx").on(table.organizationId),
+    index("invitation_email_idx").on(table.email),
+  ]
+);
+
+export const organizationRelations = relations(organization, ({ many }) => ({
+  members: many(member),
+  invitations: many(invitation),
+}));
+
+export const memberRelations = relations(member, ({ one }) => ({
+  organization: one(organization, {
+    fields: [member.organizationId],
+    references: [organization.id],
+  }),
+  user: one(user, {
+    fields: [member.userId],
+    references: [user.id],
+  }),
+}));
+
+export const invitationRelations = relations(invitation, ({ one }) => ({
+  organization: one(organization, {
+    fields: [invitation.organizationId],
+    references: [organization.id],
+  }),
+}));
@@ -0,0 +1,71 @@
+import { relations, sql } from "drizzle-orm";
+import { index, integer, sqliteTable, text } from "drizzle-orm/sqlite-core";
+
+import { user } from "./auth";
+
+/**
+ * A personal access token for the CLI and CI, sent as `Authorization: Bearer`.
+ * Only a hash of the token is stored; the plaintext is shown once on creation.
+ */
+export const apiToken = sqliteTable(
+  "api_token",
+  {
+    id: text("id").primaryKey(),
+    /** Owner; the token acts on their behalf within its scope */
+    userId: text("user_id")
+      .notNull()
+      .references(() => user.id, { onDelete: "cascade" }),
+    /** Label shown in the dashboard, e.g. "GitHub Actions" */
+    name: text("name").notNull(),
+    /** Hex SHA-256 of the token */
+    tokenHash: text("token_hash").notNull().unique(),
+    /** First characters of the token, to tell tokens apart in the dashboard */
+    prefix: text("prefix").notNull(),
+    /** "full" = everything the owner can do, "read" = read-only, "listen" = connect machines and report deliveries */
+    scope: text("scope", { enum: ["full", "read", "listen"] }).notNull(),
+    /** Endpoint IDs the token is limited to, as a JSON array (null = all of the owner's endpoints) */
+    endpointIds: text("endpoint_ids"),
+    /** When the token stops working (null = never expires) */
+    expiresAt: integer("expires_at", { mode: "timestamp_ms" }),
+    /** Last successful authentication, updated at most once a minute */
+    lastUsedAt: integer("last_used_at", { mode: "timestamp_ms" }),
+    /** Set when the owner revokes the token */
+    revokedAt: integer("revoked_at", { mode: "timestamp_ms" }),
+    createdAt: integer("created_at", { mode: "timestamp_ms" })
+      .default(sql`(cast(unixepoch('subsecond') * 1000 as integer))`)
+      .notNull(),
+  },
+  (table) => [index("apiToken_userId_idx").on(table.userId)]
+);
+
+/**
+ * A pending `tunnelhook login` (OAuth-style device authorization). The CLI
+ * polls with the secret device code while the user approves the short user
+ * code in the dashboard; on approval the CLI is issued an API token.
+ */
+export const deviceAuthorization = sqliteTable("device_authorization", {
+  id: text("id").primaryKey(),
+  /** Hex SHA-256 of the device code the CLI polls with */
+  deviceCodeHash: text("device_code_hash").notNull().unique(),
+  /** Short code the user types or confirms in the dashboard, e.g. "BDFK-MNPQ" */
+  userCode: text("user_code").notNull().unique(),
+  /** Where the login came from, e.g. the machine's hostname */
+  clientName: text("client_name").notNull(),
+  status: text("status", { enum: ["pending", "approved", "denied"] })
+    .default("pending")
+    .notNull(),
+  /** The user who approved the login (null while pending) */
+  userId: text("user_id").references(() => user.id, { onDelete: "cascade" }),
+  /** The request is void after this, approved or not */
+  expiresAt: integer("expires_at", { mode: "timestamp_ms" }).notNull(),
+  createdAt: integer("created_at", { mode: "timestamp_ms" })
+    .default(sql`(cast(unixepoch('subsecond') * 1000 as integer))`)
+    .notNull(),
+});
+
+export const apiTokenRelations = relations(apiToken, ({ one }) => ({
+  user: one(user, {
+    fields: [apiToken.userId],
+    references: [user.id],
+  }),
+}));
@@ -2,10 +2,12 @@ import { relations, sql } from "drizzle-orm";
 import { index, integer, sqliteTable, text } from "drizzle-orm/sqlite-core";
 
 import { user } from "./auth";
+import { organization } from "./organizations";
 
 /**
  * A webhook endpoint — a reusable URL that receives incoming webhooks.
- * Each endpoint belongs to a user and has a unique slug used in the URL.
+ * Each endpoint belongs to a user, or to an organization when
+ * `organizationId` is set, and has a unique slug used in the URL.
  */
 export const endpoint = sqliteTable(
   "endpoint",
@@ -17,14 +19,88 @@ export const endpoint = sqliteTable(
     slug: text("slug").notNull().unique(),
     /** Optional description */
     description: text("description"),
-    /** Owner of the endpoint */
+    /** Owner of the endpoint; its creator when the endpoint belongs to an organization */
     userId: text("user_id")
       .notNull()
       .references(() => user.id, { onDelete: "cascade" }),
+    /** Organization that owns the endpoint (null = personal endpoint of `userId`) */
+    organizationId: text("organization_id").references(() => organization.id, {
+      onDelete: "cascade",
+    }),
     /** Whether the endpoint is active and accepting webhooks */
     enabled: integer("enabled", { mode: "boolean" }).default(true).notNull(),
     /** Optional destination URL to forward webhooks to */
     forwardUrl: text("forward_url"),
+    /** Max delivery attempts per machine, including the first (1 = no retries) */
+    retryMaxAttempts: integer("retry_max_attempts").default(1).notNull(),
+    /** Backoff curve used to space out retry attempts */
+    retryBackoff: text("retry_backoff", {
+      enum: ["fixed", "linear", "exponential"],
+    })
+      .default("exponential")
+      .notNull(),
+    /** Delay in ms before the first retry; later delays follow the backoff curve */
+    retryBaseDelayMs: integer("retry_base_delay_ms").default(5000).notNull(),
+    /** How long pending deliveries wait for an offline machine to reconnect (0 = no queueing) */
+    offlineQueueMaxAgeMs: integer("offline_queue_max_age_ms")
+      .default(86_400_000)
+      .notNull(),
+    /** Requests the endpoint accepts at once before its rate limit applies */
+    rateLimitBurst: integer("rate_limit_burst").default(100).notNull(),
+    /** Sustained requests per minute the endpoint accepts */
+    rateLimitPerMinute: integer("rate_limit_per_minute").default(600).notNull(),
+    /** Requests a single source IP may send at once */
+    rateLimitIpBurst: integer("rate_limit_ip_burst").default(20).notNull(),
+    /** Sustained requests per minute from a single source IP */
+    rateLimitIpPerMinute: integer("rate_limit_ip_per_minute")
+      .default(120)
+      .notNull(),
+    /** CIDRs allowed to post to the endpoint, as a JSON array (null = no custom ranges) */
+    ipAllowlist: text("ip_allowlist"),
+    /** Provider range presets allowed in addition to `ipAllowlist`, as a JSON array of names */
+    ipAllowlistPresets: text("ip_allowlist_presets"),
+    /** Provider whose signature scheme inbound requests are verified against (null = no verification) */
+    verifierProvider: text("verifier_provider", {
+      enum: ["stripe", "github", "slack", "svix"],
+    }),
+    /** Signing secret shared with the provider */
+    verifierSecret: text("verifier_secret"),
+    /** Reject requests that fail verification with 401 instead of capturing them */
+    verifierRejectInvalid: integer("verifier_reject_invalid", {
+      mode: "boolean",
+    })
+      .default(false)
+      .notNull(),
+    /** How the receiver answers the provider: the default 202 JSON, a custom template, or a built-in handshake preset */
+    responsePreset: text("response_preset", {
+      enum: [
+        "default",
+        "custom",
+        "slack-challenge",
+        "twilio-twiml",
+        "ms-graph-validation",
+      ],
+    })
+      .default("default")
+      .notNull(),
+    /** HTTP status of the custom response (null = 200) */
+    responseStatus: integer("response_status"),
+    /** Custom response headers stored as JSON */
+    responseHeaders: text("response_headers"),
+    /** Custom response body template; `{{body.x}}`, `{{query.x}}`, `{{headers.x}}` etc. are filled from the request */
+    responseBody: text("response_body"),
+    /** "immediate" answers right away; "local" waits for the first machine's response and relays it */
+    responseMode: text("response_mode", { enum: ["immediate", "local"] })
+      .default("immediate")
+      .notNull(),
+    /** How long "local" mode waits for a machine before falling back to the configured response */
+    responseTimeoutMs: integer("response_timeout_ms").default(10_000).notNull(),
+    /** Events older than this are pruned (null = keep forever) */
+    retentionMaxAgeMs: integer("retention_max_age_ms"),
+    /** Only the newest N events are kept (null = no limit) */
+    retentionMaxEvents: integer("retention_max_events"),
+    /** Oldest events are pruned once their bodies exceed this many bytes in total (null = no limit) */
+    retentionMaxBytes: integer("retention_max_bytes"),
     createdAt: integer("created_at", { mode: "timestamp_ms" })
       .default(sql`(cast(unixepoch('subsecond') * 1000 as integer))`)
       .notNull(),
@@ -36,11 +112,14 @@ export const endpoint = sqliteTable(
   (table) => [
     index("endpoint_userId_idx").on(table.userId),
     index("endpoint_slug_idx").on(table.slug),
+    index("endpoint_organizationId_idx").on(table.organizationId),
   ]
 );
 
 /**
  * A captured webhook event — stores every incoming request to an endpoint.
+ * `body` and `path` are full-text indexed by the `event_fts` FTS5 table,
+ * which is created and kept in sync by triggers in a custom migration.
  */
 export const event = sqliteTable(
   "event",
@@ -53,12 +132,26 @@ export const event = sqliteTable(
     method: text("method").notNull(),
     /** Request headers stored as JSON */
     headers: text("headers").notNull(),
-    /** Request body (raw string) */
+    /** Request body (raw string); null when the body is kept in the blob store */
     body: text("body"),
+    /** Blob store key for large or binary bodies (null = stored inline in `body`) */
+    bodyBlobKey: text("body_blob_key"),
+    /** Request body size in bytes */
+    bodySize: integer("body_size"),
+    /** Hex SHA-256 of the raw body bytes, set for blob-stored bodies */
+    bodySha256: text("body_sha256"),
+    /** Sub-path after `/hooks/:slug`, e.g. "/stripe/invoices" (null for the endpoint root) */
+    path: text("path"),
     /** Query string */
     query: text("query"),
-    /** Source IP address */
+    /** Client IP address, resolved from the platform header and trusted proxies */
     sourceIp: text("source_ip"),
+    /** ISO country code of the client, when the platform provides it */
+    sourceCountry: text("source_country"),
+    /** Autonomous system number of the client's network */
+    sourceAsn: integer("source_asn"),
+    /** Name of the client's network, e.g. "GitHub, Inc." */
+    sourceAsOrganization: text("source_as_organization"),
     /** Content type of the request */
     contentType: text("content_type"),
     /** HTTP status code returned when forwarding (null if not forwarded) */
@@ -67,6 +160,14 @@ export const event = sqliteTable(
     forwardError: text("forward_error"),
     /** Response time in ms when forwarding */
     forwardDuration: integer("forward_duration"),
+    /** Signature verification outcome (null if the endpoint has no verifier) */
+    signatureStatus: text("signature_status", {
+      enum: ["verified", "invalid", "missing"],
+    }),
+    /** Why verification failed */
+    signatureError: text("signature_error"),
+    /** Why the request was rejected without delivery, e.g. by the IP allowlist (null = accepted) */
+    blockedReason: text("blocked_reason"),
     createdAt: integer("created_at", { mode: "timestamp_ms" })
       .default(sql`(cast(unixepoch('subsecond') * 1000 as integer))`)
       .notNull(),
@@ -97,6 +198,18 @@ export const machine = sqliteTable(
       .references(() => user.id, { onDelete: "cascade" }),
     /** The local URL where this machine forwards webhooks, e.g. http://localhost:3000/webhook */
     forwardUrl: text("forward_url").notNull(),
+    /** Scheme used to re-sign requests for the local target (null = forward as-is) */
+    signingScheme: text("signing_scheme", {
+      enum: ["stripe", "github", "slack", "standard"],
+    }),
+    /** Secret the local handler verifies signatures with */
+    signingSecret: text("signing_secret"),
+    /** Ordered request transforms applied before forwarding, stored as JSON (null = none) */
+    transforms: text("transforms"),
+    /** Routing rules stored as JSON; the first match picks the local URL, otherwise forwardUrl */
+    routes: text("routes"),
+    /** Subscription filters stored as JSON; the machine only receives events matching one (null = all) */
+    filters: text("filters"),
     /** Current connection status */
     status: text("status", {
       enum: ["online", "offline"],
@@ -133,7 +246,7 @@ export const delivery = sqliteTable(
       .references(() => machine.id, { onDelete: "cascade" }),
     /** Delivery status */
     status: text("status", {
-      enum: ["pending", "delivered", "failed"],
+      enum: ["pending", "delivered", "failed", "filtered"],
     })
       .default("pending")
       .notNull(),
@@ -141,6 +254,8 @@ export const delivery = sqliteTable(
     responseStatus: integer("response_status"),
     /** Response body from the machine's local server (truncated) */
     responseBody: text("response_body"),
+    /** Response headers from the machine's local server, stored as JSON */
+    responseHeaders: text("response_headers"),
     /** Error message if delivery failed */
     error: text("error"),
     /** Delivery duration in ms */
@@ -155,11 +270,50 @@ export const delivery = sqliteTable(
   ]
 );
 
+/**
+ * A delivery attempt — one row per try at delivering an event to a machine.
+ * The first attempt and every server-side retry of a failed delivery are recorded here.
+ */
+export const deliveryAttempt = sqliteTable(
+  "delivery_attempt",
+  {
+    id: text("id").primaryKey(),
+    /** The delivery this attempt belongs to */
+    deliveryId: text("delivery_id")
+      .notNull()
+      .references(() => delivery.id, { onDelete: "cascade" }),
+    /** 1-based attempt number */
+    attempt: integer("attempt").notNull(),
+    /** Outcome of this attempt */
+    status: text("status", {
+      enum: ["delivered", "failed"],
+    }).notNull(),
+    /** HTTP status code returned by the machine's local server */
+    responseStatus: integer("response_status"),
+    /** Response body from the machine's local server (truncated) */
+    responseBody: text("response_body"),
+    /** Response headers from the machine's local server, stored as JSON */
+    responseHeaders: text("response_headers"),
+    /** Error message if the attempt failed */
+    error: text("error"),
+    /** Attempt duration in ms */
+    duration: integer("duration"),
+    createdAt: integer("created_at", { mode: "timestamp_ms" })
+      .default(sql`(cast(unixepoch('subsecond') * 1000 as integer))`)
+      .notNull(),
+  },
+  (table) => [index("deliveryAttempt_deliveryId_idx").on(table.deliveryId)]
+);
+
 export const endpointRelations = relations(endpoint, ({ one, many }) => ({
   user: one(user, {
     fields: [endpoint.userId],
     references: [user.id],
   }),
+  organization: one(organization, {
+    fields: [endpoint.organizationId],
+    references: [organization.id],
+  }),
   events: many(event),
   machines: many(machine),
 }));
@@ -184,7 +338,7 @@ export const machineRelations = relations(machine, ({ one, many }) => ({
   deliveries: many(delivery),
 }));
 
-export const deliveryRelations = relations(delivery, ({ one }) => ({
+export const deliveryRelations = relations(delivery, ({ one, many }) => ({
   event: one(event, {
     fields: [delivery.eventId],
     references: [event.id],
@@ -193,4 +347,15 @@ export const deliveryRelations = relations(delivery, ({ one }) => ({
     fields: [delivery.machineId],
     references: [machine.id],
   }),
+  attempts: many(deliveryAttempt),
 }));
+
+export const deliveryAttemptRelations = relations(
+  deliveryAttempt,
+  ({ one }) => ({
+    delivery: one(delivery, {
+      fields: [deliveryAttempt.deliveryId],
+      references: [delivery.id],
+    }),
+  })
+);
@@ -2,10 +2,12 @@ import alchemy from "alchemy";
 import {
   D1Database,
   DurableObjectNamespace,
+  R2Bucket,
   Vite,
   Worker,
 } from "alchemy/cloudflare";
 import { config } from "dotenv";
+import type { EndpointRpc } from "../api/src/dispatch";
 
 config({ path: "./.env" });
 config({ path: "../../apps/web/.env" });
@@ -19,6 +21,8 @@ const db = await D1Database("database", {
   migrationsDir: "../../packages/db/src/migrations",
 });
 
+const payloads = await R2Bucket("payloads");
+
 export const web = await Vite("web", {
   cwd: "../../apps/web",
   assets: "dist",
@@ -33,12 +37,23 @@ export const server = await Worker("server", {
   entrypoint: "src/index.ts",
   compatibility: "node",
   domains: ["api.tunnelhook.com"],
+  // Retention pruning, metric rollup cleanup and "no-events" alert rules
+  crons: ["*/15 * * * *"],
   bindings: {
     DB: db,
+    PAYLOADS: payloads,
     CORS_ORIGIN: alchemy.env.CORS_ORIGIN!,
     BETTER_AUTH_SECRET: alchemy.secret.env.BETTER_AUTH_SECRET!,
     BETTER_AUTH_URL: alchemy.env.BETTER_AUTH_URL!,
-    ENDPOINT_DO: DurableObjectNamespace("endpoint-do", {
+    // Comma-separated CIDRs of proxies in front of the Worker, whose
+    // x-forwarded-for entries are trusted when resolving client IPs
+    TRUSTED_PROXIES: alchemy.env.TRUSTED_PROXIES ?? "",
+    // Alert and email verification emails are sent through Resend; without
+    // a key only Slack and HTTP alert channels work and verification links
+    // are only logged
+    RESEND_API_KEY: alchemy.secret(alchemy.env.RESEND_API_KEY ?? ""),
+    ALERT_EMAIL_FROM: alchemy.env.ALERT_EMAIL_FROM ?? "",
+    ENDPOINT_DO: DurableObjectNamespace<EndpointRpc>("endpoint-do", {
       className: "EndpointDO",
     }),
   },
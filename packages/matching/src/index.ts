@@ -0,0 +1,57 @@
+/**
+ * Glob and JSONPath helpers shared by the CLI's route rules and transforms
+ * and the server's machine subscription filters. Published on its own and
+ * kept free of dependencies, since the CLI is published from source and
+ * imports it at runtime.
+ */
+
+const REGEX_SPECIAL_RE = /[.+?^${}()|[\]\\]/g;
+const JSON_PATH_SEGMENT_RE = /\.([^.[\]]+)|\[(\d+)\]|\["([^"]+)"\]/y;
+
+/** Anchored RegExp for a glob where `*` matches any run of characters */
+export function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split("*")
+    .map((part) => part.replace(REGEX_SPECIAL_RE, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Parse a JSONPath subset: `$.a.b`, `$.items[0].id`, `$["odd key"]`.
+ * Returns null for anything else (wildcards, filters, recursive descent).
+ */
+export function parseJsonPath(path: string): Array<string | number> | null {
+  if (!path.startsWith("$")) {
+    return null;
+  }
+  const segments: Array<string | number> = [];
+  JSON_PATH_SEGMENT_RE.lastIndex = 1;
+  while (JSON_PATH_SEGMENT_RE.lastIndex < path.length) {
+    const match = JSON_PATH_SEGMENT_RE.exec(path);
+    if (!match) {
+      return null;
+    }
+    if (match[2] !== undefined) {
+      segments.push(Number(match[2]));
+    } else {
+      segments.push(match[1] ?? match[3] ?? "");
+    }
+  }
+  return segments;
+}
+
+/** The value at the parsed path, or undefined when any step is missing */
+export function jsonGet(
+  root: unknown,
+  segments: Array<string | number>
+): unknown {
+  let node = root;
+  for (const key of segments) {
+    if (node === null || typeof node !== "object") {
+      return undefined;
+    }
+    node = (node as Record<string | number, unknown>)[key];
+  }
+  return node;
+}